@@ -15,14 +15,20 @@ import Explore from "./pages/Explore";
 import CreateRoom from "./pages/CreateRoom";
 import Profile from "./pages/Profile";
 import RoomView from "./pages/RoomView";
+import JoinRoom from "./pages/JoinRoom";
 
 // Contexts
 import { AuthProvider } from "./contexts/AuthContext";
+import { PreferencesProvider } from "./contexts/PreferencesContext";
+import { I18nProvider } from "./contexts/I18nContext";
 import { RoomProvider } from "./contexts/RoomContext";
+import { InviteProvider } from "./contexts/InviteContext";
 import { ChatProvider } from "./contexts/ChatContext";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import { NotificationProvider } from "./contexts/NotificationContext";
 import { AIProvider } from "./contexts/AIContext";
+import { PresenceProvider } from "./contexts/PresenceContext";
+import { ReadStateProvider } from "./contexts/ReadStateContext";
 
 // Components
 import MainLayout from "./components/layout/MainLayout";
@@ -33,92 +39,114 @@ function App() {
     <Router>
       <ThemeProvider>
         <AuthProvider>
-          <RoomProvider>
-            <NotificationProvider>
-              <AIProvider>
-                <ChatProvider>
-                  <Routes>
-                    {/* Public Routes */}
-                    <Route path="/login" element={<Login />} />
-                    <Route path="/register" element={<Register />} />
+          <PreferencesProvider>
+            <I18nProvider>
+              <RoomProvider>
+                <InviteProvider>
+                  <NotificationProvider>
+                    <AIProvider>
+                      <ChatProvider>
+                        <PresenceProvider>
+                          <ReadStateProvider>
+                            <Routes>
+                              {/* Public Routes */}
+                              <Route path="/login" element={<Login />} />
+                              <Route path="/register" element={<Register />} />
 
-                    {/* Protected Routes */}
-                    <Route
-                      path="/dashboard"
-                      element={
-                        <ProtectedRoute>
-                          <MainLayout>
-                            <Dashboard />
-                          </MainLayout>
-                        </ProtectedRoute>
-                      }
-                    />
-                    <Route
-                      path="/explore"
-                      element={
-                        <ProtectedRoute>
-                          <MainLayout>
-                            <Explore />
-                          </MainLayout>
-                        </ProtectedRoute>
-                      }
-                    />
-                    <Route
-                      path="/create-room"
-                      element={
-                        <ProtectedRoute>
-                          <MainLayout>
-                            <CreateRoom />
-                          </MainLayout>
-                        </ProtectedRoute>
-                      }
-                    />
-                    <Route
-                      path="/profile"
-                      element={
-                        <ProtectedRoute>
-                          <MainLayout>
-                            <Profile />
-                          </MainLayout>
-                        </ProtectedRoute>
-                      }
-                    />
-                    <Route
-                      path="/room/:roomId"
-                      element={
-                        <ProtectedRoute>
-                          <MainLayout>
-                            <RoomView />
-                          </MainLayout>
-                        </ProtectedRoute>
-                      }
-                    />
-                    {/* Add a route alias for backward compatibility */}
-                    <Route
-                      path="/rooms/:roomId"
-                      element={
-                        <ProtectedRoute>
-                          <MainLayout>
-                            <RoomView />
-                          </MainLayout>
-                        </ProtectedRoute>
-                      }
-                    />
+                              {/* Protected Routes */}
+                              <Route
+                                path="/dashboard"
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout>
+                                      <Dashboard />
+                                    </MainLayout>
+                                  </ProtectedRoute>
+                                }
+                              />
+                              <Route
+                                path="/explore"
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout>
+                                      <Explore />
+                                    </MainLayout>
+                                  </ProtectedRoute>
+                                }
+                              />
+                              <Route
+                                path="/create-room"
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout>
+                                      <CreateRoom />
+                                    </MainLayout>
+                                  </ProtectedRoute>
+                                }
+                              />
+                              <Route
+                                path="/profile"
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout>
+                                      <Profile />
+                                    </MainLayout>
+                                  </ProtectedRoute>
+                                }
+                              />
+                              <Route
+                                path="/room/:roomId"
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout>
+                                      <RoomView />
+                                    </MainLayout>
+                                  </ProtectedRoute>
+                                }
+                              />
+                              {/* Add a route alias for backward compatibility */}
+                              <Route
+                                path="/rooms/:roomId"
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout>
+                                      <RoomView />
+                                    </MainLayout>
+                                  </ProtectedRoute>
+                                }
+                              />
 
-                    {/* Default Redirect */}
-                    <Route
-                      path="/"
-                      element={<Navigate to="/login" replace />}
-                    />
-                    <Route
-                      path="*"
-                      element={<Navigate to="/login" replace />}
-                    />
-                  </Routes>
-                </ChatProvider>
-              </AIProvider>
-            </NotificationProvider>
-          </RoomProvider>
+                              {/* Invite links, kept through the login redirect */}
+                              <Route
+                                path="/join/:code"
+                                element={
+                                  <ProtectedRoute>
+                                    <MainLayout>
+                                      <JoinRoom />
+                                    </MainLayout>
+                                  </ProtectedRoute>
+                                }
+                              />
+
+                              {/* Default Redirect */}
+                              <Route
+                                path="/"
+                                element={<Navigate to="/login" replace />}
+                              />
+                              <Route
+                                path="*"
+                                element={<Navigate to="/login" replace />}
+                              />
+                            </Routes>
+                          </ReadStateProvider>
+                        </PresenceProvider>
+                      </ChatProvider>
+                    </AIProvider>
+                  </NotificationProvider>
+                </InviteProvider>
+              </RoomProvider>
+            </I18nProvider>
+          </PreferencesProvider>
         </AuthProvider>
       </ThemeProvider>
     </Router>
@@ -0,0 +1,84 @@
+import React, { useCallback, useEffect, useState } from "react";
+import DragDropUpload, { UploadFile } from "../common/DragDropUpload";
+import { useChat } from "../../contexts/ChatContext";
+import { useI18n } from "../../contexts/I18nContext";
+import { Attachment } from "../../types";
+import {
+  CHAT_ATTACHMENT_TYPES,
+  MAX_CHAT_ATTACHMENTS,
+  MAX_CHAT_ATTACHMENT_SIZE,
+} from "../../utils/attachments";
+
+interface AttachmentUploaderProps {
+  roomId: string;
+  // Called with the finished uploads, in the order they were picked, and
+  // whether any are still going
+  onChange: (attachments: Attachment[], uploading: boolean) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Uploads files for the chat composer as soon as they are picked, so the
+ * message only has to reference them when it is sent. Remount it with a
+ * new key to start over after sending.
+ */
+const AttachmentUploader: React.FC<AttachmentUploaderProps> = ({
+  roomId,
+  onChange,
+  disabled = false,
+}) => {
+  const { t } = useI18n();
+  const { uploadAttachment } = useChat();
+  // Finished uploads keyed by the uploader's file ID
+  const [uploaded, setUploaded] = useState<Record<string, Attachment>>({});
+  const [uploading, setUploading] = useState<string[]>([]);
+
+  useEffect(() => {
+    onChange(Object.values(uploaded), uploading.length > 0);
+  }, [uploaded, uploading, onChange]);
+
+  const handleUpload = useCallback(
+    async (
+      file: UploadFile,
+      onProgress: (progress: number) => void,
+      signal: AbortSignal
+    ) => {
+      setUploading((prev) => [...prev, file.id]);
+      try {
+        const attachment = await uploadAttachment(
+          roomId,
+          file.file,
+          onProgress,
+          signal
+        );
+        setUploaded((prev) => ({ ...prev, [file.id]: attachment }));
+      } finally {
+        setUploading((prev) => prev.filter((id) => id !== file.id));
+      }
+    },
+    [roomId, uploadAttachment]
+  );
+
+  const handleRemove = useCallback((fileId: string) => {
+    setUploaded((prev) => {
+      const { [fileId]: removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  return (
+    <DragDropUpload
+      compact
+      onFilesSelect={() => undefined}
+      onFileUpload={handleUpload}
+      onFileRemove={handleRemove}
+      acceptedTypes={CHAT_ATTACHMENT_TYPES}
+      maxFiles={MAX_CHAT_ATTACHMENTS}
+      maxFileSize={MAX_CHAT_ATTACHMENT_SIZE}
+      disabled={disabled}
+      uploadText={t("attachments.drop")}
+    />
+  );
+};
+
+export default AttachmentUploader;
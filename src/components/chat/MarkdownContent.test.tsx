@@ -0,0 +1,73 @@
+// Unsafe URLs are test fixtures here
+/* eslint-disable no-script-url */
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import MarkdownContent from "./MarkdownContent";
+
+const renderMarkdown = (content: string) =>
+  render(<MarkdownContent content={content} />);
+
+describe("MarkdownContent", () => {
+  it("renders formatting as elements", () => {
+    renderMarkdown("🤖 **Ted**: use `npm test` and *relax*\n\n- one\n- two");
+
+    expect(screen.getByText("Ted").tagName).toBe("STRONG");
+    expect(screen.getByText("relax").tagName).toBe("EM");
+    expect(screen.getByText("npm test").tagName).toBe("CODE");
+    expect(screen.getAllByRole("listitem")).toHaveLength(2);
+    expect(screen.queryByText(/\*\*/)).toBeNull();
+  });
+
+  it("renders links that open safely in a new tab", () => {
+    renderMarkdown("[docs](https://example.com/docs)");
+
+    const link = screen.getByRole("link", { name: "docs" });
+    expect(link).toHaveAttribute("href", "https://example.com/docs");
+    expect(link).toHaveAttribute("target", "_blank");
+    expect(link).toHaveAttribute("rel", "noopener noreferrer nofollow");
+  });
+
+  it("renders HTML in messages as text", () => {
+    renderMarkdown(
+      '<script>alert(1)</script><img src=x onerror="alert(1)"><b>bold</b>'
+    );
+
+    expect(screen.queryByRole("img")).toBeNull();
+    expect(
+      screen.getByText(/<script>alert\(1\)<\/script><img src=x/)
+    ).toBeInTheDocument();
+    expect(document.body.innerHTML).not.toMatch(/<(script|img|b)[\s>]/i);
+  });
+
+  it("does not turn encoded HTML into markup", () => {
+    renderMarkdown("&lt;img src=x onerror=alert(1)&gt; &amp; friends");
+
+    expect(screen.queryByRole("img")).toBeNull();
+    expect(
+      screen.getByText("<img src=x onerror=alert(1)> & friends")
+    ).toBeInTheDocument();
+  });
+
+  it.each([
+    "[click](javascript:alert(1))",
+    "[click](JAVASCRIPT:alert(1))",
+    "[click](java&#x09;script:alert(1))",
+    "[click](javascript&#58;alert(1))",
+    "[click](data:text/html,<script>alert(1)</script>)",
+    "[click](vbscript:msgbox(1))",
+    "javascript:alert(1)",
+  ])("never renders an unsafe link for %j", (content) => {
+    renderMarkdown(content);
+
+    expect(screen.queryByRole("link")).toBeNull();
+    expect(document.body.innerHTML).not.toMatch(/\shref=|\son\w+=/i);
+  });
+
+  it("keeps code blocks verbatim", () => {
+    renderMarkdown("```html\n<b>**hi**</b>\n```");
+
+    const code = screen.getByText("<b>**hi**</b>");
+    expect(code.tagName).toBe("CODE");
+    expect(screen.queryByText("hi")).toBeNull();
+  });
+});
@@ -0,0 +1,242 @@
+import React, { useMemo } from "react";
+import { Box, Link, Typography } from "@mui/material";
+import { alpha, Theme } from "@mui/material/styles";
+import { MessageMention } from "../../types";
+import { BlockNode, InlineNode, parseMarkdown } from "../../utils/markdown";
+import {
+  decodeHtmlEntities,
+  hasHtmlEntities,
+} from "../../utils/textProcessing";
+
+interface MarkdownContentProps {
+  content: string;
+  // Participants mentioned in the message; their "@name" is highlighted
+  mentions?: MessageMention[];
+  currentUserId?: string;
+}
+
+interface MentionHighlight {
+  pattern: RegExp;
+  ownNames: Set<string>;
+}
+
+const codeSx = {
+  fontFamily: "monospace",
+  fontSize: "0.85em",
+  bgcolor: (theme: Theme) => alpha(theme.palette.common.black, 0.12),
+  borderRadius: 1,
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const buildMentionHighlight = (
+  mentions: MessageMention[] | undefined,
+  currentUserId: string | undefined
+): MentionHighlight | null => {
+  if (!mentions || mentions.length === 0) return null;
+
+  // Longest names first so "@ann.lee" wins over "@ann"
+  const names = mentions
+    .map((mention) => mention.username)
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+  if (names.length === 0) return null;
+
+  return {
+    pattern: new RegExp(
+      `(^|[^\\w@])(@(?:${names.map(escapeRegExp).join("|")}))(?![\\w-])`,
+      "gi"
+    ),
+    ownNames: new Set(
+      mentions
+        .filter((mention) => mention.userId === currentUserId)
+        .map((mention) => mention.username.toLowerCase())
+    ),
+  };
+};
+
+const renderText = (
+  value: string,
+  highlight: MentionHighlight | null
+): React.ReactNode => {
+  if (!highlight) return value;
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  highlight.pattern.lastIndex = 0;
+  while ((match = highlight.pattern.exec(value)) !== null) {
+    const start = match.index + match[1].length;
+    const token = match[2];
+    const isOwn = highlight.ownNames.has(token.slice(1).toLowerCase());
+    parts.push(value.slice(lastIndex, start));
+    parts.push(
+      <Box
+        key={start}
+        component="span"
+        data-mention={isOwn ? "self" : "other"}
+        sx={{
+          fontWeight: 600,
+          borderRadius: 0.5,
+          px: 0.25,
+          bgcolor: (theme: any) =>
+            isOwn
+              ? alpha(theme.palette.warning.main, 0.35)
+              : alpha(theme.palette.info.main, 0.2),
+        }}
+      >
+        {token}
+      </Box>
+    );
+    lastIndex = start + token.length;
+  }
+  parts.push(value.slice(lastIndex));
+  return parts;
+};
+
+const renderInline = (
+  nodes: InlineNode[],
+  highlight: MentionHighlight | null
+): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return (
+          <React.Fragment key={index}>
+            {renderText(node.value, highlight)}
+          </React.Fragment>
+        );
+      case "code":
+        return (
+          <Box key={index} component="code" sx={{ ...codeSx, px: 0.5 }}>
+            {node.value}
+          </Box>
+        );
+      case "strong":
+        return (
+          <strong key={index}>{renderInline(node.children, highlight)}</strong>
+        );
+      case "em":
+        return <em key={index}>{renderInline(node.children, highlight)}</em>;
+      case "link":
+        return (
+          <Link
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            color="inherit"
+            underline="always"
+          >
+            {renderInline(node.children, highlight)}
+          </Link>
+        );
+      case "break":
+        return <br key={index} />;
+      default:
+        return null;
+    }
+  });
+
+const renderBlocks = (
+  blocks: BlockNode[],
+  highlight: MentionHighlight | null
+): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case "paragraph":
+        return (
+          <Typography
+            key={index}
+            variant="body2"
+            component="p"
+            sx={{ m: 0, "& + *": { mt: 1 } }}
+          >
+            {renderInline(block.children, highlight)}
+          </Typography>
+        );
+      case "codeBlock":
+        return (
+          <Box
+            key={index}
+            component="pre"
+            data-language={block.language}
+            sx={{
+              ...codeSx,
+              m: 0,
+              p: 1,
+              overflowX: "auto",
+              whiteSpace: "pre",
+              "& + *": { mt: 1 },
+            }}
+          >
+            <code>{block.value}</code>
+          </Box>
+        );
+      case "list":
+        return (
+          <Box
+            key={index}
+            component={block.ordered ? "ol" : "ul"}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            sx={{ m: 0, pl: 3, "& + *": { mt: 1 } }}
+          >
+            {block.items.map((item, itemIndex) => (
+              <Typography key={itemIndex} variant="body2" component="li">
+                {renderInline(item, highlight)}
+              </Typography>
+            ))}
+          </Box>
+        );
+      case "blockquote":
+        return (
+          <Box
+            key={index}
+            component="blockquote"
+            sx={{
+              m: 0,
+              pl: 1.5,
+              borderLeft: "3px solid",
+              borderColor: "divider",
+              opacity: 0.85,
+              "& + *": { mt: 1 },
+            }}
+          >
+            {renderBlocks(block.children, highlight)}
+          </Box>
+        );
+      default:
+        return null;
+    }
+  });
+
+/**
+ * Renders a chat message as sanitized markdown. Content is only ever turned
+ * into React elements and text, never HTML.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  mentions,
+  currentUserId,
+}) => {
+  const blocks = useMemo(
+    () =>
+      parseMarkdown(
+        hasHtmlEntities(content) ? decodeHtmlEntities(content) : content
+      ),
+    [content]
+  );
+  const highlight = useMemo(
+    () => buildMentionHighlight(mentions, currentUserId),
+    [mentions, currentUserId]
+  );
+
+  return (
+    <Box sx={{ wordBreak: "break-word" }}>
+      {renderBlocks(blocks, highlight)}
+    </Box>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,79 @@
+import React from "react";
+import {
+  Avatar,
+  List,
+  ListItemAvatar,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Popper,
+} from "@mui/material";
+import { SmartToy as AIIcon } from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
+import { AI_MENTION, MentionCandidate } from "../../utils/mentions";
+
+interface MentionSuggestionsProps {
+  anchorEl: HTMLElement | null;
+  suggestions: MentionCandidate[];
+  activeIndex: number;
+  onSelect: (candidate: MentionCandidate) => void;
+}
+
+/**
+ * Participant picker shown above the composer while typing "@name"
+ */
+const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({
+  anchorEl,
+  suggestions,
+  activeIndex,
+  onSelect,
+}) => {
+  const { t } = useI18n();
+  const open = !!anchorEl && suggestions.length > 0;
+
+  return (
+    <Popper
+      open={open}
+      anchorEl={anchorEl}
+      placement="top-start"
+      sx={{ zIndex: (theme) => theme.zIndex.modal }}
+    >
+      <Paper
+        elevation={6}
+        sx={{ minWidth: 220, maxHeight: 240, overflow: "auto" }}
+      >
+        <List dense role="listbox" aria-label="Mention suggestions">
+          {suggestions.map((candidate, index) => (
+            <ListItemButton
+              key={candidate.userId}
+              role="option"
+              selected={index === activeIndex}
+              aria-selected={index === activeIndex}
+              // Keep focus in the composer while picking a name
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(candidate)}
+            >
+              <ListItemAvatar sx={{ minWidth: 40 }}>
+                <Avatar sx={{ width: 28, height: 28, fontSize: 14 }}>
+                  {candidate.userId === AI_MENTION ? (
+                    <AIIcon fontSize="small" />
+                  ) : (
+                    candidate.username.charAt(0).toUpperCase()
+                  )}
+                </Avatar>
+              </ListItemAvatar>
+              <ListItemText
+                primary={`@${candidate.username}`}
+                secondary={
+                  candidate.userId === AI_MENTION ? t("mentions.ai") : undefined
+                }
+              />
+            </ListItemButton>
+          ))}
+        </List>
+      </Paper>
+    </Popper>
+  );
+};
+
+export default MentionSuggestions;
@@ -0,0 +1,113 @@
+import React from "react";
+import { Box, Button, Typography } from "@mui/material";
+import {
+  Download as DownloadIcon,
+  InsertDriveFile as FileIcon,
+} from "@mui/icons-material";
+import { Attachment } from "../../types";
+import { formatFileSize, getAttachmentKind } from "../../utils/attachments";
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[];
+}
+
+// Keeps previews from stretching the bubble
+const MEDIA_SX = {
+  display: "block",
+  maxWidth: "100%",
+  width: 260,
+  maxHeight: 200,
+  borderRadius: 1,
+  objectFit: "cover",
+  bgcolor: "action.hover",
+} as const;
+
+/**
+ * Files shared with a message. Images and videos are previewed inline,
+ * audio gets a player and anything else a download link.
+ */
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({
+  attachments,
+}) => (
+  <Box sx={{ display: "flex", flexDirection: "column", gap: 1, mt: 0.5 }}>
+    {attachments.map((attachment) => {
+      switch (getAttachmentKind(attachment.mimeType)) {
+        case "image":
+          return (
+            <Box
+              key={attachment._id}
+              component="a"
+              href={attachment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={attachment.name}
+            >
+              <Box
+                component="img"
+                src={attachment.thumbnailUrl || attachment.url}
+                alt={attachment.name}
+                loading="lazy"
+                sx={MEDIA_SX}
+              />
+            </Box>
+          );
+        case "video":
+          return (
+            <Box
+              key={attachment._id}
+              component="video"
+              src={attachment.url}
+              poster={attachment.thumbnailUrl}
+              controls
+              preload="metadata"
+              aria-label={attachment.name}
+              sx={MEDIA_SX}
+            />
+          );
+        case "audio":
+          return (
+            <Box
+              key={attachment._id}
+              component="audio"
+              src={attachment.url}
+              controls
+              preload="none"
+              aria-label={attachment.name}
+              sx={{ width: 260, maxWidth: "100%" }}
+            />
+          );
+        default:
+          return (
+            <Button
+              key={attachment._id}
+              component="a"
+              href={attachment.url}
+              download={attachment.name}
+              target="_blank"
+              rel="noopener noreferrer"
+              variant="outlined"
+              size="small"
+              startIcon={<FileIcon />}
+              endIcon={<DownloadIcon />}
+              sx={{
+                justifyContent: "flex-start",
+                textTransform: "none",
+                maxWidth: 260,
+              }}
+            >
+              <Box sx={{ minWidth: 0, textAlign: "left" }}>
+                <Typography variant="body2" noWrap>
+                  {attachment.name}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {formatFileSize(attachment.size)}
+                </Typography>
+              </Box>
+            </Button>
+          );
+      }
+    })}
+  </Box>
+);
+
+export default MessageAttachments;
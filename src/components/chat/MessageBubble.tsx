@@ -0,0 +1,506 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  Chip,
+  IconButton,
+  Popover,
+  Tooltip,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  useTheme,
+} from "@mui/material";
+import { alpha } from "@mui/material/styles";
+import {
+  AddReactionOutlined as AddReactionIcon,
+  DeleteOutline as DeleteIcon,
+  Edit as EditIcon,
+  ErrorOutline as ErrorOutlineIcon,
+  MoreHoriz as MoreIcon,
+  Reply as ReplyIcon,
+  Schedule as PendingIcon,
+} from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
+import { useDateFormat } from "../../contexts/PreferencesContext";
+import { Message, MessageStatus } from "../../types";
+import { mentionsUser } from "../../utils/mentions";
+import { userIdOf } from "../../utils/roles";
+import MarkdownContent from "./MarkdownContent";
+import MessageAttachments from "./MessageAttachments";
+
+interface MessageBubbleProps {
+  message: Message;
+  isCurrentUser: boolean;
+  showSenderInfo: boolean;
+  onRetry: (clientId: string) => void;
+  onDiscard: (clientId: string) => void;
+  // Opens the reply thread; omitted for replies and inside a thread
+  onOpenThread?: (messageId: string) => void;
+  // Needed to highlight the current user's own reactions
+  currentUserId?: string;
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  // Authors may edit and delete their messages; moderators may delete any message
+  canEdit?: boolean;
+  canDelete?: boolean;
+  onEdit?: (messageId: string, content: string) => void;
+  onDelete?: (messageId: string) => void;
+}
+
+// Emojis offered in the reaction picker
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+/**
+ * A single chat message, including its delivery state
+ */
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  isCurrentUser,
+  showSenderInfo,
+  onRetry,
+  onDiscard,
+  onOpenThread,
+  currentUserId,
+  onToggleReaction,
+  canEdit = false,
+  canDelete = false,
+  onEdit,
+  onDelete,
+}) => {
+  const { t } = useI18n();
+  const { formatTime } = useDateFormat();
+  const [pickerAnchor, setPickerAnchor] = useState<HTMLElement | null>(null);
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState("");
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
+  const theme = useTheme();
+  const isPending = message.status === MessageStatus.PENDING;
+  const isFailed = message.status === MessageStatus.FAILED;
+  // Delivered messages are marked SENT, so only these two are still local
+  const isUndelivered = isPending || isFailed;
+  const isDeleted = !!message.deletedAt;
+  // Mentions of the current user stand out in other people's messages
+  const isMentioned =
+    !isCurrentUser &&
+    !isDeleted &&
+    !!currentUserId &&
+    mentionsUser(message, currentUserId);
+  const replyCount = message.replyCount || 0;
+  // Only delivered top-level messages can start a thread. A deleted message
+  // keeps a link to the replies it already has.
+  const canReply =
+    !!onOpenThread &&
+    !message.parentId &&
+    !isUndelivered &&
+    (!isDeleted || replyCount > 0);
+  // Optimistic messages don't exist on the server yet, so they can't be reacted to
+  const canReact = !!onToggleReaction && !isUndelivered && !isDeleted;
+  const reactions = isUndelivered || isDeleted ? [] : message.reactions || [];
+  const showEdit = canEdit && !!onEdit && !isUndelivered && !isDeleted;
+  const showDelete = canDelete && !!onDelete && !isUndelivered && !isDeleted;
+  const senderId = userIdOf(message.sender);
+  const deletedById = userIdOf(message.deletedBy);
+
+  const handleStartEdit = () => {
+    setMenuAnchor(null);
+    setEditText(message.content);
+    setEditing(true);
+  };
+
+  const handleSaveEdit = () => {
+    if (editText.trim() && editText !== message.content) {
+      onEdit?.(message._id, editText);
+    }
+    setEditing(false);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSaveEdit();
+    } else if (e.key === "Escape") {
+      setEditing(false);
+    }
+  };
+
+  const handleConfirmDelete = () => {
+    setConfirmDeleteOpen(false);
+    onDelete?.(message._id);
+  };
+
+  const handleToggleReaction = (emoji: string) => {
+    setPickerAnchor(null);
+    onToggleReaction?.(message._id, emoji);
+  };
+
+  return (
+    <Box
+      sx={{
+        alignSelf: isCurrentUser ? "flex-end" : "flex-start",
+        maxWidth: "70%",
+        mb: 1,
+      }}
+    >
+      {showSenderInfo && !isCurrentUser && (
+        <Typography
+          variant="caption"
+          sx={{
+            ml: 1,
+            fontWeight: "medium",
+            color: "text.secondary",
+          }}
+        >
+          {typeof message.sender === "object" && message.sender
+            ? message.sender.username
+            : t("message.unknownSender")}
+        </Typography>
+      )}
+      <Paper
+        elevation={0}
+        sx={{
+          p: 2,
+          borderRadius: 3,
+          background: isCurrentUser
+            ? `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.secondary.main} 100%)`
+            : `linear-gradient(145deg, ${
+                theme.palette.background.paper
+              } 0%, ${alpha(theme.palette.primary.main, 0.05)} 100%)`,
+          color: isCurrentUser ? "white" : "text.primary",
+          opacity: isPending || isFailed ? 0.6 : 1,
+          ml: isCurrentUser ? 0 : 1,
+          mr: isCurrentUser ? 1 : 0,
+          position: "relative",
+          boxShadow: `0 4px 12px ${alpha(theme.palette.common.black, 0.1)}`,
+          border: isCurrentUser
+            ? "none"
+            : isMentioned
+            ? `1px solid ${theme.palette.warning.main}`
+            : `1px solid ${alpha(theme.palette.primary.main, 0.1)}`,
+          transition: "all 0.2s ease",
+          "&:hover": {
+            transform: "translateY(-1px)",
+            boxShadow: `0 6px 16px ${alpha(theme.palette.common.black, 0.15)}`,
+          },
+          "&::after": isCurrentUser
+            ? {
+                content: '""',
+                position: "absolute",
+                width: 0,
+                height: 0,
+                top: 0,
+                right: -10,
+                border: "10px solid transparent",
+                borderTopColor: theme.palette.primary.main,
+                borderRight: 0,
+              }
+            : {
+                content: '""',
+                position: "absolute",
+                width: 0,
+                height: 0,
+                top: 0,
+                left: -10,
+                border: "10px solid transparent",
+                borderTopColor: theme.palette.background.paper,
+                borderLeft: 0,
+              },
+        }}
+      >
+        {isDeleted ? (
+          <Typography
+            variant="body2"
+            sx={{ fontStyle: "italic", color: "text.secondary" }}
+          >
+            {deletedById && deletedById !== senderId
+              ? t("message.removedByHost")
+              : t("message.deleted")}
+          </Typography>
+        ) : editing ? (
+          <Box>
+            <TextField
+              fullWidth
+              multiline
+              size="small"
+              autoFocus
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              inputProps={{ "aria-label": t("message.editLabel") }}
+              sx={{ bgcolor: "background.paper", borderRadius: 1 }}
+            />
+            <Box
+              sx={{
+                display: "flex",
+                justifyContent: "flex-end",
+                gap: 1,
+                mt: 1,
+              }}
+            >
+              <Button
+                size="small"
+                color="inherit"
+                onClick={() => setEditing(false)}
+              >
+                {t("message.cancel")}
+              </Button>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={handleSaveEdit}
+                disabled={!editText.trim()}
+              >
+                {t("message.save")}
+              </Button>
+            </Box>
+          </Box>
+        ) : (
+          <>
+            {message.content && (
+              <MarkdownContent
+                content={message.content}
+                mentions={message.mentions}
+                currentUserId={currentUserId}
+              />
+            )}
+            {!!message.attachments?.length && (
+              <MessageAttachments attachments={message.attachments} />
+            )}
+          </>
+        )}
+        <Typography
+          variant="caption"
+          align="right"
+          display="block"
+          sx={{
+            mt: 0.5,
+            color: "text.secondary",
+            fontSize: "0.7rem",
+          }}
+        >
+          {isPending && (
+            <PendingIcon
+              sx={{
+                fontSize: "0.8rem",
+                mr: 0.5,
+                verticalAlign: "middle",
+              }}
+            />
+          )}
+          {isPending ? t("message.sending") : formatTime(message.createdAt)}
+          {message.editedAt && !isDeleted && (
+            <Tooltip
+              title={
+                <Box>
+                  <Typography variant="caption" display="block">
+                    {t("message.editedAt", {
+                      time: formatTime(message.editedAt),
+                    })}
+                  </Typography>
+                  {(message.editHistory || []).map((edit, index) => (
+                    <Typography
+                      key={index}
+                      variant="caption"
+                      display="block"
+                      sx={{ opacity: 0.8 }}
+                    >
+                      {formatTime(edit.editedAt)}: {edit.content}
+                    </Typography>
+                  ))}
+                </Box>
+              }
+            >
+              <Box component="span" sx={{ ml: 0.5, cursor: "help" }}>
+                {t("message.edited")}
+              </Box>
+            </Tooltip>
+          )}
+        </Typography>
+      </Paper>
+      {(canReply ||
+        canReact ||
+        showEdit ||
+        showDelete ||
+        reactions.length > 0) && (
+        <Box
+          sx={{
+            display: "flex",
+            flexWrap: "wrap",
+            alignItems: "center",
+            justifyContent: isCurrentUser ? "flex-end" : "flex-start",
+            gap: 0.5,
+            mt: 0.5,
+            mx: 1,
+          }}
+        >
+          {reactions.map((reaction) => {
+            const reacted =
+              !!currentUserId && reaction.users.includes(currentUserId);
+            return (
+              <Chip
+                key={reaction.emoji}
+                label={`${reaction.emoji} ${reaction.count}`}
+                size="small"
+                color={reacted ? "primary" : "default"}
+                variant={reacted ? "filled" : "outlined"}
+                onClick={
+                  canReact
+                    ? () => handleToggleReaction(reaction.emoji)
+                    : undefined
+                }
+                aria-pressed={reacted}
+                aria-label={t("message.reactionLabel", {
+                  emoji: reaction.emoji,
+                  count: reaction.count,
+                })}
+                sx={{ height: 22, fontSize: "0.75rem" }}
+              />
+            );
+          })}
+          {canReact && (
+            <Tooltip title={t("message.addReaction")}>
+              <IconButton
+                size="small"
+                onClick={(e) => setPickerAnchor(e.currentTarget)}
+                aria-label={t("message.addReaction")}
+                sx={{ p: 0.25 }}
+              >
+                <AddReactionIcon sx={{ fontSize: "1rem" }} />
+              </IconButton>
+            </Tooltip>
+          )}
+          {canReply && (
+            <Button
+              size="small"
+              startIcon={<ReplyIcon sx={{ fontSize: "0.9rem !important" }} />}
+              onClick={() => onOpenThread!(message._id)}
+              sx={{ minWidth: 0, p: 0, fontSize: "0.7rem" }}
+            >
+              {t("message.replies", { count: replyCount })}
+            </Button>
+          )}
+          {(showEdit || showDelete) && (
+            <IconButton
+              size="small"
+              onClick={(e) => setMenuAnchor(e.currentTarget)}
+              aria-label={t("message.actions")}
+              sx={{ p: 0.25 }}
+            >
+              <MoreIcon sx={{ fontSize: "1rem" }} />
+            </IconButton>
+          )}
+        </Box>
+      )}
+      <Menu
+        anchorEl={menuAnchor}
+        open={Boolean(menuAnchor)}
+        onClose={() => setMenuAnchor(null)}
+      >
+        {showEdit && (
+          <MenuItem onClick={handleStartEdit}>
+            <ListItemIcon>
+              <EditIcon fontSize="small" />
+            </ListItemIcon>
+            {t("message.edit")}
+          </MenuItem>
+        )}
+        {showDelete && (
+          <MenuItem
+            onClick={() => {
+              setMenuAnchor(null);
+              setConfirmDeleteOpen(true);
+            }}
+            sx={{ color: "error.main" }}
+          >
+            <ListItemIcon>
+              <DeleteIcon fontSize="small" color="error" />
+            </ListItemIcon>
+            {t("message.delete")}
+          </MenuItem>
+        )}
+      </Menu>
+      <Dialog
+        open={confirmDeleteOpen}
+        onClose={() => setConfirmDeleteOpen(false)}
+      >
+        <DialogTitle>{t("message.deleteTitle")}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {isCurrentUser ? t("message.deleteOwn") : t("message.deleteOther")}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmDeleteOpen(false)}>
+            {t("message.cancel")}
+          </Button>
+          <Button color="error" onClick={handleConfirmDelete}>
+            {t("message.delete")}
+          </Button>
+        </DialogActions>
+      </Dialog>
+      <Popover
+        open={Boolean(pickerAnchor)}
+        anchorEl={pickerAnchor}
+        onClose={() => setPickerAnchor(null)}
+        anchorOrigin={{ vertical: "top", horizontal: "center" }}
+        transformOrigin={{ vertical: "bottom", horizontal: "center" }}
+      >
+        <Box sx={{ display: "flex", p: 0.5 }}>
+          {QUICK_REACTIONS.map((emoji) => (
+            <IconButton
+              key={emoji}
+              size="small"
+              onClick={() => handleToggleReaction(emoji)}
+              aria-label={t("message.reactWith", { emoji })}
+              sx={{ fontSize: "1.2rem" }}
+            >
+              {emoji}
+            </IconButton>
+          ))}
+        </Box>
+      </Popover>
+      {isFailed && message.clientId && (
+        <Box
+          sx={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "flex-end",
+            gap: 1,
+            mt: 0.5,
+            mr: 1,
+          }}
+        >
+          <ErrorOutlineIcon sx={{ fontSize: "0.9rem", color: "error.main" }} />
+          <Typography variant="caption" color="error">
+            {t("message.notDelivered")}
+          </Typography>
+          <Button
+            size="small"
+            onClick={() => onRetry(message.clientId!)}
+            sx={{ minWidth: 0, p: 0, fontSize: "0.7rem" }}
+          >
+            {t("message.retry")}
+          </Button>
+          <Button
+            size="small"
+            color="inherit"
+            onClick={() => onDiscard(message.clientId!)}
+            sx={{ minWidth: 0, p: 0, fontSize: "0.7rem" }}
+          >
+            {t("message.discard")}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default React.memo(MessageBubble);
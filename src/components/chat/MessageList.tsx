@@ -0,0 +1,262 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef } from "react";
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  Typography,
+} from "@mui/material";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { useI18n } from "../../contexts/I18nContext";
+import { Message } from "../../types";
+import { userIdOf } from "../../utils/roles";
+import MessageBubble from "./MessageBubble";
+
+interface MessageListProps {
+  messages: Message[];
+  currentUserId: string;
+  hasMore: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+  onRetry: (clientId: string) => void;
+  onDiscard: (clientId: string) => void;
+  onOpenThread?: (messageId: string) => void;
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  // Moderators and above can delete anyone's message
+  canDeleteAny?: boolean;
+  onEdit?: (messageId: string, content: string) => void;
+  onDelete?: (messageId: string) => void;
+  // Messages after this one get a "new messages" divider above them
+  lastReadMessageId?: string | null;
+}
+
+// Distance from the top (px) at which older history starts loading
+const LOAD_OLDER_THRESHOLD = 120;
+// Distance from the bottom (px) within which the list follows new messages
+const STICK_TO_BOTTOM_THRESHOLD = 80;
+
+const messageKey = (message: Message) => message.clientId || message._id;
+
+/**
+ * Virtualized chat history. Only the messages in view are mounted, older
+ * pages load as the user scrolls up, and the scroll position is kept in
+ * place when history is prepended.
+ */
+const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  currentUserId,
+  hasMore,
+  loadingOlder,
+  onLoadOlder,
+  onRetry,
+  onDiscard,
+  onOpenThread,
+  onToggleReaction,
+  canDeleteAny = false,
+  onEdit,
+  onDelete,
+  lastReadMessageId,
+}) => {
+  const { t } = useI18n();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const isAtBottomRef = useRef(true);
+  // First visible message and its offset from the top of the viewport, from the last render
+  const anchorRef = useRef<{ key: string; delta: number } | null>(null);
+  const previousKeysRef = useRef<{ first?: string; last?: string }>({});
+
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 88,
+    overscan: 8,
+    getItemKey: (index) => messageKey(messages[index]),
+  });
+
+  const virtualItems = virtualizer.getVirtualItems();
+
+  // The first message from someone else that arrived after the last read one
+  const lastReadIndex = lastReadMessageId
+    ? messages.findIndex((message) => message._id === lastReadMessageId)
+    : -1;
+  const firstUnread =
+    lastReadIndex === -1
+      ? undefined
+      : messages
+          .slice(lastReadIndex + 1)
+          .find((message) => userIdOf(message.sender) !== currentUserId);
+  const firstUnreadKey = firstUnread ? messageKey(firstUnread) : undefined;
+
+  // Restore the reading position after older messages are prepended, and
+  // follow the conversation when new messages arrive at the bottom
+  useLayoutEffect(() => {
+    const scrollElement = scrollRef.current;
+    const previous = previousKeysRef.current;
+    const first = messages[0] ? messageKey(messages[0]) : undefined;
+    const last = messages.length
+      ? messageKey(messages[messages.length - 1])
+      : undefined;
+
+    if (scrollElement && previous.first && first !== previous.first) {
+      const anchor = anchorRef.current;
+      const anchorIndex = anchor
+        ? messages.findIndex((message) => messageKey(message) === anchor.key)
+        : -1;
+
+      if (anchor && anchorIndex > 0) {
+        const offset = virtualizer.getOffsetForIndex(anchorIndex, "start");
+        if (offset) {
+          scrollElement.scrollTop = offset[0] - anchor.delta;
+        }
+      }
+    }
+
+    if (last && last !== previous.last) {
+      const lastMessage = messages[messages.length - 1];
+      const isOwnMessage = userIdOf(lastMessage.sender) === currentUserId;
+
+      if (!previous.last || isAtBottomRef.current || isOwnMessage) {
+        virtualizer.scrollToIndex(messages.length - 1, { align: "end" });
+      }
+    }
+
+    previousKeysRef.current = { first, last };
+  }, [messages, currentUserId, virtualizer]);
+
+  // Remember which message is at the top of the viewport for the next prepend
+  useEffect(() => {
+    const scrollTop = virtualizer.scrollOffset ?? 0;
+    const firstVisible = virtualItems.find((item) => item.end > scrollTop);
+
+    anchorRef.current = firstVisible
+      ? {
+          key: String(firstVisible.key),
+          delta: firstVisible.start - scrollTop,
+        }
+      : null;
+  });
+
+  const handleScroll = useCallback(() => {
+    const scrollElement = scrollRef.current;
+    if (!scrollElement) return;
+
+    isAtBottomRef.current =
+      scrollElement.scrollHeight -
+        scrollElement.scrollTop -
+        scrollElement.clientHeight <
+      STICK_TO_BOTTOM_THRESHOLD;
+
+    if (
+      scrollElement.scrollTop < LOAD_OLDER_THRESHOLD &&
+      hasMore &&
+      !loadingOlder
+    ) {
+      onLoadOlder();
+    }
+  }, [hasMore, loadingOlder, onLoadOlder]);
+
+  return (
+    <Box sx={{ position: "relative", flex: 1, minHeight: 0 }}>
+      {(loadingOlder || hasMore) && (
+        <Box
+          sx={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            display: "flex",
+            justifyContent: "center",
+            zIndex: 1,
+            pointerEvents: "none",
+          }}
+        >
+          {loadingOlder ? (
+            <CircularProgress size={20} sx={{ mt: 1 }} />
+          ) : (
+            <Button
+              size="small"
+              onClick={onLoadOlder}
+              sx={{ pointerEvents: "auto", fontSize: "0.7rem" }}
+            >
+              {t("messageList.loadOlder")}
+            </Button>
+          )}
+        </Box>
+      )}
+      <Box
+        ref={scrollRef}
+        onScroll={handleScroll}
+        role="log"
+        aria-live="polite"
+        sx={{ height: "100%", overflow: "auto", contain: "strict" }}
+      >
+        <Box
+          sx={{
+            height: virtualizer.getTotalSize(),
+            width: "100%",
+            position: "relative",
+          }}
+        >
+          {virtualItems.map((item) => {
+            const message = messages[item.index];
+            const previousMessage = messages[item.index - 1];
+            const isCurrentUser = userIdOf(message.sender) === currentUserId;
+            // Check if this is a new sender
+            const showSenderInfo =
+              !previousMessage ||
+              userIdOf(message.sender) !== userIdOf(previousMessage.sender);
+
+            return (
+              <Box
+                key={item.key}
+                data-index={item.index}
+                ref={virtualizer.measureElement}
+                sx={{
+                  position: "absolute",
+                  top: 0,
+                  left: 0,
+                  width: "100%",
+                  transform: `translateY(${item.start}px)`,
+                  display: "flex",
+                  flexDirection: "column",
+                }}
+              >
+                {item.key === firstUnreadKey && (
+                  <Divider
+                    sx={{
+                      my: 1,
+                      "&::before, &::after": { borderColor: "error.main" },
+                    }}
+                  >
+                    <Typography
+                      variant="caption"
+                      color="error"
+                      fontWeight="bold"
+                    >
+                      {t("messageList.newMessages")}
+                    </Typography>
+                  </Divider>
+                )}
+                <MessageBubble
+                  message={message}
+                  isCurrentUser={isCurrentUser}
+                  showSenderInfo={showSenderInfo}
+                  onRetry={onRetry}
+                  onDiscard={onDiscard}
+                  onOpenThread={onOpenThread}
+                  currentUserId={currentUserId}
+                  onToggleReaction={onToggleReaction}
+                  canEdit={isCurrentUser}
+                  canDelete={isCurrentUser || canDeleteAny}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                />
+              </Box>
+            );
+          })}
+        </Box>
+      </Box>
+    </Box>
+  );
+};
+
+export default MessageList;
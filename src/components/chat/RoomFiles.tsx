@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from "react";
+import {
+  Avatar,
+  Box,
+  Chip,
+  CircularProgress,
+  IconButton,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Stack,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import {
+  AudioFile as AudioIcon,
+  Download as DownloadIcon,
+  InsertDriveFile as FileIcon,
+  VideoFile as VideoIcon,
+} from "@mui/icons-material";
+import { useChat } from "../../contexts/ChatContext";
+import { useI18n } from "../../contexts/I18nContext";
+import { useDateFormat } from "../../contexts/PreferencesContext";
+import { Attachment, AttachmentKind } from "../../types";
+import { formatFileSize, getAttachmentKind } from "../../utils/attachments";
+
+interface RoomFilesProps {
+  roomId: string;
+}
+
+type KindFilter = "all" | AttachmentKind;
+
+const KIND_FILTERS: KindFilter[] = ["all", "image", "video", "audio", "file"];
+
+const uploaderName = (attachment: Attachment) =>
+  typeof attachment.uploadedBy === "object"
+    ? attachment.uploadedBy.username
+    : null;
+
+const AttachmentThumbnail: React.FC<{ attachment: Attachment }> = ({
+  attachment,
+}) => {
+  const kind = getAttachmentKind(attachment.mimeType);
+  return (
+    <Avatar
+      variant="rounded"
+      src={
+        kind === "image"
+          ? attachment.thumbnailUrl || attachment.url
+          : attachment.thumbnailUrl
+      }
+      alt={attachment.name}
+      sx={{ bgcolor: "action.selected", color: "text.secondary" }}
+    >
+      {kind === "video" ? (
+        <VideoIcon />
+      ) : kind === "audio" ? (
+        <AudioIcon />
+      ) : (
+        <FileIcon />
+      )}
+    </Avatar>
+  );
+};
+
+/**
+ * Every file shared in a room's chat, newest first, for the Files tab.
+ */
+const RoomFiles: React.FC<RoomFilesProps> = ({ roomId }) => {
+  const { t } = useI18n();
+  const { roomFiles, roomFilesLoading, fetchRoomFiles } = useChat();
+  const { formatRelative } = useDateFormat();
+  const [kind, setKind] = useState<KindFilter>("all");
+
+  useEffect(() => {
+    fetchRoomFiles(roomId);
+  }, [roomId, fetchRoomFiles]);
+
+  const files =
+    kind === "all"
+      ? roomFiles
+      : roomFiles.filter(
+          (attachment) => getAttachmentKind(attachment.mimeType) === kind
+        );
+
+  if (roomFilesLoading && roomFiles.length === 0) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", py: 6 }}>
+        <CircularProgress size={28} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 2, height: 400, display: "flex", flexDirection: "column" }}>
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" mb={1}>
+        {KIND_FILTERS.map((filter) => (
+          <Chip
+            key={filter}
+            label={t("roomFiles.kind", { kind: filter })}
+            size="small"
+            color={kind === filter ? "primary" : "default"}
+            variant={kind === filter ? "filled" : "outlined"}
+            onClick={() => setKind(filter)}
+          />
+        ))}
+      </Stack>
+
+      {files.length === 0 ? (
+        <Typography
+          color="text.secondary"
+          align="center"
+          sx={{ m: "auto", maxWidth: 320 }}
+        >
+          {roomFiles.length === 0
+            ? t("roomFiles.empty")
+            : t("roomFiles.emptyKind")}
+        </Typography>
+      ) : (
+        <List sx={{ overflow: "auto", flex: 1 }}>
+          {files.map((attachment) => {
+            const uploader = uploaderName(attachment);
+            return (
+              <ListItem
+                key={attachment._id}
+                secondaryAction={
+                  <Tooltip title={t("roomFiles.download")}>
+                    <IconButton
+                      edge="end"
+                      component="a"
+                      href={attachment.url}
+                      download={attachment.name}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      aria-label={t("roomFiles.downloadFile", {
+                        name: attachment.name,
+                      })}
+                    >
+                      <DownloadIcon />
+                    </IconButton>
+                  </Tooltip>
+                }
+              >
+                <ListItemAvatar>
+                  <AttachmentThumbnail attachment={attachment} />
+                </ListItemAvatar>
+                <ListItemText
+                  primary={attachment.name}
+                  primaryTypographyProps={{ noWrap: true }}
+                  secondary={[
+                    formatFileSize(attachment.size),
+                    uploader,
+                    formatRelative(attachment.createdAt),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                />
+              </ListItem>
+            );
+          })}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default RoomFiles;
@@ -0,0 +1,189 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Drawer,
+  Typography,
+  IconButton,
+  TextField,
+  Divider,
+  CircularProgress,
+} from "@mui/material";
+import { Close as CloseIcon, Send as SendIcon } from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
+import { Message } from "../../types";
+import { userIdOf } from "../../utils/roles";
+import MessageBubble from "./MessageBubble";
+
+interface ThreadPanelProps {
+  open: boolean;
+  parentMessage: Message | null;
+  replies: Message[];
+  loading: boolean;
+  currentUserId: string;
+  // Replying is only possible while the room is live
+  canReply: boolean;
+  onClose: () => void;
+  onSend: (content: string) => void;
+  onRetry: (clientId: string) => void;
+  onDiscard: (clientId: string) => void;
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  canDeleteAny?: boolean;
+  onEdit?: (messageId: string, content: string) => void;
+  onDelete?: (messageId: string) => void;
+}
+
+/**
+ * Side panel showing a message and its replies, with a reply composer
+ */
+const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  open,
+  parentMessage,
+  replies,
+  loading,
+  currentUserId,
+  canReply,
+  onClose,
+  onSend,
+  onRetry,
+  onDiscard,
+  onToggleReaction,
+  canDeleteAny = false,
+  onEdit,
+  onDelete,
+}) => {
+  const { t } = useI18n();
+  const [replyText, setReplyText] = useState("");
+
+  const handleSubmit = (e: React.FormEvent | React.MouseEvent) => {
+    e.preventDefault();
+    if (!replyText.trim()) return;
+    onSend(replyText);
+    setReplyText("");
+  };
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={onClose}
+      PaperProps={{
+        sx: { width: { xs: "100%", sm: 380 }, display: "flex" },
+      }}
+    >
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          px: 2,
+          py: 1.5,
+        }}
+      >
+        <Typography variant="h6" fontWeight="bold">
+          {t("thread.title")}
+        </Typography>
+        <IconButton onClick={onClose} aria-label={t("thread.close")}>
+          <CloseIcon />
+        </IconButton>
+      </Box>
+      <Divider />
+
+      <Box
+        sx={{
+          flex: 1,
+          overflow: "auto",
+          p: 2,
+          display: "flex",
+          flexDirection: "column",
+        }}
+      >
+        {parentMessage && (
+          <>
+            <MessageBubble
+              message={parentMessage}
+              isCurrentUser={userIdOf(parentMessage.sender) === currentUserId}
+              canEdit={userIdOf(parentMessage.sender) === currentUserId}
+              canDelete={
+                userIdOf(parentMessage.sender) === currentUserId || canDeleteAny
+              }
+              onEdit={onEdit}
+              onDelete={onDelete}
+              showSenderInfo
+              onRetry={onRetry}
+              onDiscard={onDiscard}
+              currentUserId={currentUserId}
+              onToggleReaction={onToggleReaction}
+            />
+            <Divider sx={{ my: 1 }}>
+              <Typography variant="caption" color="text.secondary">
+                {t("thread.replies", { count: replies.length })}
+              </Typography>
+            </Divider>
+          </>
+        )}
+
+        {loading && replies.length === 0 ? (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          replies.map((reply, index) => (
+            <MessageBubble
+              key={reply.clientId || reply._id}
+              message={reply}
+              isCurrentUser={userIdOf(reply.sender) === currentUserId}
+              canEdit={userIdOf(reply.sender) === currentUserId}
+              canDelete={
+                userIdOf(reply.sender) === currentUserId || canDeleteAny
+              }
+              onEdit={onEdit}
+              onDelete={onDelete}
+              showSenderInfo={
+                index === 0 ||
+                userIdOf(reply.sender) !== userIdOf(replies[index - 1].sender)
+              }
+              onRetry={onRetry}
+              onDiscard={onDiscard}
+              currentUserId={currentUserId}
+              onToggleReaction={onToggleReaction}
+            />
+          ))
+        )}
+      </Box>
+
+      {canReply && (
+        <>
+          <Divider />
+          <Box
+            component="form"
+            onSubmit={handleSubmit}
+            sx={{ display: "flex", alignItems: "center", p: 2 }}
+          >
+            <TextField
+              fullWidth
+              size="small"
+              placeholder={t("thread.placeholder")}
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              InputProps={{
+                endAdornment: (
+                  <IconButton
+                    type="submit"
+                    color="primary"
+                    onClick={handleSubmit}
+                    disabled={!replyText.trim()}
+                    aria-label={t("thread.send")}
+                  >
+                    <SendIcon />
+                  </IconButton>
+                ),
+              }}
+            />
+          </Box>
+        </>
+      )}
+    </Drawer>
+  );
+};
+
+export default ThreadPanel;
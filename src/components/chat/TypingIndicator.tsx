@@ -0,0 +1,43 @@
+import React from "react";
+import { Box, Typography } from "@mui/material";
+import { useI18n } from "../../contexts/I18nContext";
+import { Translate } from "../../locales";
+import { TypingUser } from "../../types";
+
+interface TypingIndicatorProps {
+  typingUsers: TypingUser[];
+}
+
+const describeTypers = (typingUsers: TypingUser[], t: Translate): string => {
+  const names = typingUsers.map((typer) => typer.username);
+  return t("typing.users", {
+    count: names.length,
+    first: names[0],
+    second: names[1],
+    third: names[2],
+    others: names.length - 2,
+  });
+};
+
+/**
+ * "X and Y are typing…" line shown under the chat
+ */
+const TypingIndicator: React.FC<TypingIndicatorProps> = ({ typingUsers }) => {
+  const { t } = useI18n();
+
+  return (
+    <Box sx={{ minHeight: 20, px: 2, py: 0.25 }} aria-live="polite">
+      {typingUsers.length > 0 && (
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ fontStyle: "italic" }}
+        >
+          {describeTypers(typingUsers, t)}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default TypingIndicator;
@@ -28,6 +28,7 @@ import {
 import { useTheme } from "../../contexts/ThemeContext";
 import AccessibleButton from "./AccessibleButton";
 import AccessibleTextField from "./AccessibleTextField";
+import { ReactionSummary } from "../../types";
 
 // Message interface
 interface ChatMessage {
@@ -40,11 +41,7 @@ interface ChatMessage {
   };
   timestamp: Date;
   type: "text" | "system" | "reaction";
-  reactions?: Array<{
-    emoji: string;
-    count: number;
-    users: string[];
-  }>;
+  reactions?: ReactionSummary[];
 }
 
 // Chat props interface
@@ -252,7 +249,11 @@ const AccessibleChat: React.FC<AccessibleChatProps> = ({
                       key={index}
                       label={`${reaction.emoji} ${reaction.count}`}
                       size="small"
-                      variant="outlined"
+                      variant={
+                        reaction.users.includes(currentUser.id)
+                          ? "filled"
+                          : "outlined"
+                      }
                       onClick={() => onReaction?.(message.id, reaction.emoji)}
                       sx={{
                         fontSize: "0.75rem",
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from "react";
+import React, { useState, useRef, useCallback, useEffect } from "react";
 import {
   Box,
   Paper,
@@ -24,39 +24,24 @@ import {
   CheckCircle as SuccessIcon,
   Error as ErrorIcon,
   Delete as DeleteIcon,
+  Refresh as RetryIcon,
 } from "@mui/icons-material";
 import { useTheme } from "../../contexts/ThemeContext";
+import { useI18n } from "../../contexts/I18nContext";
 import AccessibleButton from "./AccessibleButton";
+import { fileTypes, formatFileSize } from "../../utils/attachments";
 
 // File interface
-interface UploadFile {
+export interface UploadFile {
   id: string;
   file: File;
   progress: number;
   status: "pending" | "uploading" | "success" | "error";
   error?: string;
+  // Object URL for images and videos, revoked when the file is removed
   preview?: string;
 }
 
-// File type categories
-const fileTypes = {
-  image: [
-    "image/jpeg",
-    "image/png",
-    "image/gif",
-    "image/webp",
-    "image/svg+xml",
-  ],
-  video: ["video/mp4", "video/webm", "video/ogg", "video/quicktime"],
-  audio: ["audio/mpeg", "audio/wav", "audio/ogg", "audio/mp4"],
-  document: [
-    "application/pdf",
-    "application/msword",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    "text/plain",
-  ],
-};
-
 // Get file icon based on type
 const getFileIcon = (file: File) => {
   if (fileTypes.image.includes(file.type)) return <ImageIcon />;
@@ -66,19 +51,16 @@ const getFileIcon = (file: File) => {
   return <FileIcon />;
 };
 
-// Format file size
-const formatFileSize = (bytes: number) => {
-  if (bytes === 0) return "0 Bytes";
-  const k = 1024;
-  const sizes = ["Bytes", "KB", "MB", "GB"];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
-};
-
 // Drag and drop upload props
 interface DragDropUploadProps {
   onFilesSelect: (files: File[]) => void;
-  onFileUpload?: (file: UploadFile) => Promise<void>;
+  // Report progress as a percentage; the signal is aborted when the user
+  // cancels or removes the file
+  onFileUpload?: (
+    file: UploadFile,
+    onProgress: (progress: number) => void,
+    signal: AbortSignal
+  ) => Promise<void>;
   onFileRemove?: (fileId: string) => void;
   acceptedTypes?: string[];
   maxFiles?: number;
@@ -89,8 +71,13 @@ interface DragDropUploadProps {
   uploadText?: string;
   dragText?: string;
   error?: string;
+  // Smaller drop zone, for use inside other controls
+  compact?: boolean;
 }
 
+const canPreview = (file: File) =>
+  fileTypes.image.includes(file.type) || fileTypes.video.includes(file.type);
+
 const DragDropUpload: React.FC<DragDropUploadProps> = ({
   onFilesSelect,
   onFileUpload,
@@ -101,25 +88,48 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
   multiple = true,
   disabled = false,
   loading = false,
-  uploadText = "Click to upload or drag and drop files here",
-  dragText = "Drop files here",
+  uploadText,
+  dragText,
   error,
+  compact = false,
 }) => {
   const { actualTheme } = useTheme();
+  const { t } = useI18n();
+  const promptText = uploadText ?? t("upload.prompt");
+  const dropText = dragText ?? t("upload.drop");
   const [isDragOver, setIsDragOver] = useState(false);
   const [files, setFiles] = useState<UploadFile[]>([]);
+  const [rejected, setRejected] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // In-flight uploads, so they can be cancelled
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  const filesRef = useRef<UploadFile[]>([]);
+
+  useEffect(() => {
+    filesRef.current = files;
+  }, [files]);
+
+  // Stop uploads and free previews when the component goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      filesRef.current.forEach(
+        (f) => f.preview && URL.revokeObjectURL(f.preview)
+      );
+    };
+  }, []);
 
   // Validate file
   const validateFile = (file: File): string | null => {
     // Check file size
     if (file.size > maxFileSize) {
-      return `File size exceeds ${formatFileSize(maxFileSize)} limit`;
+      return t("upload.tooLarge", { size: formatFileSize(maxFileSize) });
     }
 
     // Check file type
     if (acceptedTypes.length > 0 && !acceptedTypes.includes(file.type)) {
-      return `File type ${file.type} is not supported`;
+      return t("upload.unsupportedType", { type: file.type });
     }
 
     return null;
@@ -135,16 +145,23 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
       fileArray.forEach((file) => {
         const error = validateFile(file);
         if (error) {
-          errors.push(`${file.name}: ${error}`);
+          errors.push(t("upload.rejected", { name: file.name, error }));
         } else {
           validFiles.push(file);
         }
       });
 
-      // Show errors if any
-      if (errors.length > 0) {
-        console.error("File validation errors:", errors);
-      }
+      // Only files that fit under maxFiles are taken
+      const room = Math.max(maxFiles - filesRef.current.length, 0);
+      validFiles.splice(room).forEach((file) => {
+        errors.push(
+          t("upload.rejected", {
+            name: file.name,
+            error: t("upload.tooMany", { max: maxFiles }),
+          })
+        );
+      });
+      setRejected(errors);
 
       // Add valid files
       if (validFiles.length > 0) {
@@ -153,12 +170,10 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
           file,
           progress: 0,
           status: "pending" as const,
+          preview: canPreview(file) ? URL.createObjectURL(file) : undefined,
         }));
 
-        setFiles((prev) => {
-          const updated = [...prev, ...newUploadFiles];
-          return updated.slice(0, maxFiles);
-        });
+        setFiles((prev) => [...prev, ...newUploadFiles]);
 
         onFilesSelect(validFiles);
 
@@ -170,21 +185,31 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
         }
       }
     },
-    [acceptedTypes, maxFileSize, maxFiles, onFilesSelect, onFileUpload]
+    [acceptedTypes, maxFileSize, maxFiles, onFilesSelect, onFileUpload, t]
   );
 
   // Handle file upload
   const handleFileUpload = async (uploadFile: UploadFile) => {
     if (!onFileUpload) return;
 
+    const controller = new AbortController();
+    controllersRef.current.set(uploadFile.id, controller);
     setFiles((prev) =>
       prev.map((f) =>
-        f.id === uploadFile.id ? { ...f, status: "uploading" } : f
+        f.id === uploadFile.id
+          ? { ...f, status: "uploading", progress: 0, error: undefined }
+          : f
       )
     );
 
+    const handleProgress = (progress: number) => {
+      setFiles((prev) =>
+        prev.map((f) => (f.id === uploadFile.id ? { ...f, progress } : f))
+      );
+    };
+
     try {
-      await onFileUpload(uploadFile);
+      await onFileUpload(uploadFile, handleProgress, controller.signal);
       setFiles((prev) =>
         prev.map((f) =>
           f.id === uploadFile.id
@@ -199,16 +224,30 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
             ? {
                 ...f,
                 status: "error",
-                error: error instanceof Error ? error.message : "Upload failed",
+                error: controller.signal.aborted
+                  ? t("upload.cancelled")
+                  : error instanceof Error
+                  ? error.message
+                  : t("upload.failed"),
               }
             : f
         )
       );
+    } finally {
+      controllersRef.current.delete(uploadFile.id);
     }
   };
 
+  // Cancelled uploads stay in the list so they can be retried
+  const handleFileCancel = (fileId: string) => {
+    controllersRef.current.get(fileId)?.abort();
+  };
+
   // Handle file removal
   const handleFileRemove = (fileId: string) => {
+    controllersRef.current.get(fileId)?.abort();
+    const removed = files.find((f) => f.id === fileId);
+    if (removed?.preview) URL.revokeObjectURL(removed.preview);
     setFiles((prev) => prev.filter((f) => f.id !== fileId));
     onFileRemove?.(fileId);
   };
@@ -279,7 +318,7 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
         accept={acceptedTypes.join(",")}
         onChange={handleFileInputChange}
         style={{ display: "none" }}
-        aria-label="File upload input"
+        aria-label={t("upload.input")}
       />
 
       {/* Upload area */}
@@ -299,7 +338,7 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
               : "rgba(0,0,0,0.2)"
           }`,
           borderRadius: 3,
-          p: 4,
+          p: compact ? 2 : 4,
           textAlign: "center",
           cursor: disabled ? "not-allowed" : "pointer",
           transition: "all 0.3s ease",
@@ -319,7 +358,7 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
         }}
         role="button"
         tabIndex={disabled ? -1 : 0}
-        aria-label={uploadText}
+        aria-label={promptText}
         onKeyDown={(e) => {
           if (e.key === "Enter" || e.key === " ") {
             e.preventDefault();
@@ -329,36 +368,38 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
       >
         <UploadIcon
           sx={{
-            fontSize: 48,
+            fontSize: compact ? 32 : 48,
             color: isDragOver ? "primary.contrastText" : "text.secondary",
-            mb: 2,
+            mb: compact ? 1 : 2,
           }}
         />
         <Typography
-          variant="h6"
+          variant={compact ? "subtitle1" : "h6"}
           component="h3"
           sx={{
             mb: 1,
             color: isDragOver ? "primary.contrastText" : "text.primary",
           }}
         >
-          {isDragOver ? dragText : uploadText}
-        </Typography>
-        <Typography
-          variant="body2"
-          color={isDragOver ? "primary.contrastText" : "text.secondary"}
-        >
-          {acceptedTypes.length > 0
-            ? `Supported formats: ${acceptedTypes.join(", ")}`
-            : "All file types supported"}
+          {isDragOver ? dropText : promptText}
         </Typography>
+        {!compact && (
+          <Typography
+            variant="body2"
+            color={isDragOver ? "primary.contrastText" : "text.secondary"}
+          >
+            {acceptedTypes.length > 0
+              ? t("upload.formats", { formats: acceptedTypes.join(", ") })
+              : t("upload.anyFormat")}
+          </Typography>
+        )}
         <Typography
           variant="caption"
           color={isDragOver ? "primary.contrastText" : "text.secondary"}
           sx={{ display: "block", mt: 1 }}
         >
-          Max file size: {formatFileSize(maxFileSize)}
-          {multiple && ` • Max files: ${maxFiles}`}
+          {t("upload.maxSize", { size: formatFileSize(maxFileSize) })}
+          {multiple && ` • ${t("upload.maxFiles", { max: maxFiles })}`}
         </Typography>
       </Paper>
 
@@ -368,13 +409,26 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
           {error}
         </Alert>
       )}
+      {rejected.length > 0 && (
+        <Alert
+          severity="warning"
+          sx={{ mt: 2 }}
+          onClose={() => setRejected([])}
+        >
+          {rejected.map((message) => (
+            <div key={message}>{message}</div>
+          ))}
+        </Alert>
+      )}
 
       {/* File list */}
       {files.length > 0 && (
-        <Box sx={{ mt: 3 }}>
-          <Typography variant="h6" component="h4" sx={{ mb: 2 }}>
-            Selected Files ({files.length}/{maxFiles})
-          </Typography>
+        <Box sx={{ mt: compact ? 2 : 3 }}>
+          {!compact && (
+            <Typography variant="h6" component="h4" sx={{ mb: 2 }}>
+              {t("upload.selected", { count: files.length, max: maxFiles })}
+            </Typography>
+          )}
           <List sx={{ p: 0 }}>
             {files.map((uploadFile) => (
               <ListItem
@@ -391,7 +445,25 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
                 }}
               >
                 <ListItemIcon>
-                  {uploadFile.status === "success" ? (
+                  {uploadFile.preview && uploadFile.status !== "error" ? (
+                    <Box
+                      component={
+                        fileTypes.video.includes(uploadFile.file.type)
+                          ? "video"
+                          : "img"
+                      }
+                      src={uploadFile.preview}
+                      alt=""
+                      muted
+                      sx={{
+                        width: 40,
+                        height: 40,
+                        objectFit: "cover",
+                        borderRadius: 1,
+                        mr: 1,
+                      }}
+                    />
+                  ) : uploadFile.status === "success" ? (
                     <SuccessIcon color="success" />
                   ) : uploadFile.status === "error" ? (
                     <ErrorIcon color="error" />
@@ -422,10 +494,34 @@ const DragDropUpload: React.FC<DragDropUploadProps> = ({
                   }
                 />
                 <ListItemSecondaryAction>
+                  {uploadFile.status === "uploading" && (
+                    <IconButton
+                      onClick={() => handleFileCancel(uploadFile.id)}
+                      aria-label={t("upload.cancel", {
+                        name: uploadFile.file.name,
+                      })}
+                      size="small"
+                    >
+                      <CloseIcon />
+                    </IconButton>
+                  )}
+                  {uploadFile.status === "error" && onFileUpload && (
+                    <IconButton
+                      onClick={() => handleFileUpload(uploadFile)}
+                      aria-label={t("upload.retry", {
+                        name: uploadFile.file.name,
+                      })}
+                      size="small"
+                    >
+                      <RetryIcon />
+                    </IconButton>
+                  )}
                   <IconButton
                     edge="end"
                     onClick={() => handleFileRemove(uploadFile.id)}
-                    aria-label={`Remove ${uploadFile.file.name}`}
+                    aria-label={t("upload.remove", {
+                      name: uploadFile.file.name,
+                    })}
                     size="small"
                   >
                     <DeleteIcon />
@@ -24,6 +24,11 @@ import {
   Close as CloseIcon,
   DoNotDisturbOff as EmptyIcon,
   DoneAll as DoneAllIcon,
+  ChatBubbleOutline as ChatIcon,
+  AlternateEmail as MentionIcon,
+  EventBusy as CancelledIcon,
+  PersonRemove as RemovedIcon,
+  HowToReg as PromotedIcon,
 } from "@mui/icons-material";
 import { useNavigate } from "react-router-dom";
 import {
@@ -31,6 +36,10 @@ import {
   Notification,
 } from "../../contexts/NotificationContext";
 import { useTheme } from "../../contexts/ThemeContext";
+import { useI18n } from "../../contexts/I18nContext";
+import { useReadState } from "../../contexts/ReadStateContext";
+import { useRoom } from "../../contexts/RoomContext";
+import { useDateFormat } from "../../contexts/PreferencesContext";
 
 const NotificationBell: React.FC = () => {
   const {
@@ -40,6 +49,10 @@ const NotificationBell: React.FC = () => {
     markAllAsRead,
     dismissNotification,
   } = useNotifications();
+  const { readStates, totalUnread: unreadMessages } = useReadState();
+  const { rooms } = useRoom();
+  const { formatTime } = useDateFormat();
+  const { t } = useI18n();
   const [anchorEl, setAnchorEl] = useState<HTMLButtonElement | null>(null);
   const navigate = useNavigate();
   const { actualTheme } = useTheme();
@@ -55,13 +68,15 @@ const NotificationBell: React.FC = () => {
 
   const handleNotificationClick = (notification: Notification) => {
     markAsRead(notification.id);
-    navigate(`/room/${notification.roomId}`);
+    if (notification.roomId) {
+      navigate(`/room/${notification.roomId}`);
+    }
     handleClose();
   };
 
   console.log(notifications, "fffffffffff notification");
 
-  const getNotificationIcon = (type: "invite" | "live" | "upcoming") => {
+  const getNotificationIcon = (type: Notification["type"]) => {
     switch (type) {
       case "invite":
         return <MailOutlineIcon color="secondary" />;
@@ -69,12 +84,20 @@ const NotificationBell: React.FC = () => {
         return <LiveTvIcon style={{ color: "#4caf50" }} />;
       case "upcoming":
         return <AccessTimeIcon color="primary" />;
+      case "mention":
+        return <MentionIcon color="warning" />;
+      case "cancelled":
+        return <CancelledIcon color="disabled" />;
+      case "removed":
+        return <RemovedIcon color="error" />;
+      case "promoted":
+        return <PromotedIcon color="success" />;
       default:
         return <NotificationsIcon />;
     }
   };
 
-  const getNotificationColor = (type: "invite" | "live" | "upcoming") => {
+  const getNotificationColor = (type: Notification["type"]) => {
     switch (type) {
       case "invite":
         return isDark ? "#9c27b0" : "#e1bee7";
@@ -82,11 +105,35 @@ const NotificationBell: React.FC = () => {
         return isDark ? "#4caf50" : "#c8e6c9";
       case "upcoming":
         return isDark ? "#2196f3" : "#bbdefb";
+      case "mention":
+        return isDark ? "#ff9800" : "#ffe0b2";
+      case "promoted":
+        return isDark ? "#4caf50" : "#c8e6c9";
+      case "cancelled":
+      case "removed":
+        return isDark ? "#757575" : "#eeeeee";
       default:
         return "inherit";
     }
   };
 
+  // Rooms with messages the user hasn't read yet
+  const knownRooms = [...rooms.live, ...rooms.upcoming, ...rooms.past];
+  const unreadRooms = Object.values(readStates)
+    .filter((readState) => readState.unreadCount > 0)
+    .map((readState) => ({
+      ...readState,
+      title:
+        knownRooms.find((room) => room._id === readState.roomId)?.title ||
+        "Room",
+    }));
+  const badgeCount = totalUnread + unreadMessages;
+
+  const handleUnreadRoomClick = (roomId: string) => {
+    navigate(`/rooms/${roomId}`);
+    handleClose();
+  };
+
   const open = Boolean(anchorEl);
   const id = open ? "notification-popover" : undefined;
 
@@ -94,7 +141,10 @@ const NotificationBell: React.FC = () => {
     <>
       <IconButton
         size="large"
-        aria-label={`show ${totalUnread} new notifications`}
+        aria-label={t("notifications.bellLabel", {
+          notifications: totalUnread,
+          messages: unreadMessages,
+        })}
         color="inherit"
         onClick={handleClick}
         sx={{
@@ -106,7 +156,7 @@ const NotificationBell: React.FC = () => {
         }}
       >
         <Badge
-          badgeContent={totalUnread}
+          badgeContent={badgeCount}
           color="error"
           overlap="circular"
           sx={{
@@ -120,10 +170,10 @@ const NotificationBell: React.FC = () => {
             },
           }}
         >
-          {totalUnread > 0 ? (
+          {badgeCount > 0 ? (
             <NotificationsActiveIcon
               sx={{
-                animation: totalUnread > 0 ? "pulse 1.5s infinite" : "none",
+                animation: badgeCount > 0 ? "pulse 1.5s infinite" : "none",
                 "@keyframes pulse": {
                   "0%": { opacity: 1 },
                   "50%": { opacity: 0.6 },
@@ -166,11 +216,15 @@ const NotificationBell: React.FC = () => {
           }}
         >
           <Typography variant="h6" sx={{ fontWeight: 600 }}>
-            Notifications
+            {t("notifications.title")}
           </Typography>
           {totalUnread > 0 && (
-            <Tooltip title="Mark all as read">
-              <IconButton onClick={markAllAsRead} size="small">
+            <Tooltip title={t("notifications.markAllRead")}>
+              <IconButton
+                onClick={markAllAsRead}
+                size="small"
+                aria-label={t("notifications.markAllRead")}
+              >
                 <DoneAllIcon fontSize="small" />
               </IconButton>
             </Tooltip>
@@ -179,6 +233,41 @@ const NotificationBell: React.FC = () => {
 
         <Divider />
 
+        {unreadRooms.length > 0 && (
+          <>
+            <List
+              sx={{ p: 0 }}
+              subheader={
+                <ListSubheader sx={{ lineHeight: "32px" }}>
+                  {t("notifications.unreadMessages")}
+                </ListSubheader>
+              }
+            >
+              {unreadRooms.map((unreadRoom) => (
+                <ListItem
+                  key={unreadRoom.roomId}
+                  sx={{ px: 2, py: 1, cursor: "pointer" }}
+                  onClick={() => handleUnreadRoomClick(unreadRoom.roomId)}
+                >
+                  <ListItemAvatar>
+                    <Avatar sx={{ bgcolor: "primary.main" }}>
+                      <ChatIcon fontSize="small" />
+                    </Avatar>
+                  </ListItemAvatar>
+                  <ListItemText
+                    primary={unreadRoom.title}
+                    primaryTypographyProps={{ noWrap: true }}
+                    secondary={t("notifications.unreadCount", {
+                      count: unreadRoom.unreadCount,
+                    })}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            <Divider />
+          </>
+        )}
+
         {notifications.length > 0 ? (
           <List sx={{ p: 0, maxHeight: 360, overflow: "auto" }}>
             {notifications.map((notification) => (
@@ -210,7 +299,7 @@ const NotificationBell: React.FC = () => {
                 secondaryAction={
                   <IconButton
                     edge="end"
-                    aria-label="dismiss"
+                    aria-label={t("notifications.dismiss")}
                     size="small"
                     onClick={(e) => {
                       e.stopPropagation();
@@ -253,10 +342,7 @@ const NotificationBell: React.FC = () => {
                         {notification.message}
                       </Typography>
                       <Typography variant="caption" color="text.secondary">
-                        {new Date(notification.timestamp).toLocaleTimeString(
-                          [],
-                          { hour: "2-digit", minute: "2-digit" }
-                        )}
+                        {formatTime(notification.timestamp)}
                       </Typography>
                     </>
                   }
@@ -265,7 +351,7 @@ const NotificationBell: React.FC = () => {
               </ListItem>
             ))}
           </List>
-        ) : (
+        ) : unreadRooms.length === 0 ? (
           <Box
             sx={{
               py: 4,
@@ -277,9 +363,11 @@ const NotificationBell: React.FC = () => {
             }}
           >
             <EmptyIcon sx={{ fontSize: 40, mb: 1, opacity: 0.5 }} />
-            <Typography color="textSecondary">No notifications</Typography>
+            <Typography color="textSecondary">
+              {t("notifications.empty")}
+            </Typography>
           </Box>
-        )}
+        ) : null}
 
         {notifications.length > 0 && (
           <>
@@ -291,7 +379,7 @@ const NotificationBell: React.FC = () => {
                 onClick={() => navigate("/dashboard")}
                 sx={{ textTransform: "none" }}
               >
-                View all rooms
+                {t("notifications.viewAllRooms")}
               </Button>
             </Box>
           </>
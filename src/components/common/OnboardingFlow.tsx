@@ -38,6 +38,7 @@ import {
   Accessibility as AccessibilityIcon,
 } from "@mui/icons-material";
 import { useTheme } from "../../contexts/ThemeContext";
+import { useI18n } from "../../contexts/I18nContext";
 import AccessibleButton from "./AccessibleButton";
 
 // Onboarding step interface
@@ -68,6 +69,7 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
   skipOnboarding = false,
 }) => {
   const { actualTheme } = useTheme();
+  const { t } = useI18n();
   const [activeStep, setActiveStep] = useState(0);
   const [completedSteps, setCompletedSteps] = useState<Set<string>>(new Set());
   const [skippedSteps, setSkippedSteps] = useState<Set<string>>(new Set());
@@ -77,26 +79,36 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
   const steps: OnboardingStep[] = [
     {
       id: "welcome",
-      title: "Welcome to RoomLoop!",
-      description: "Let's get you started with your virtual events journey",
+      title: t("onboarding.welcome.title"),
+      description: t("onboarding.welcome.description"),
       content: (
         <Box sx={{ textAlign: "center", py: 2 }}>
           <VideoCallIcon sx={{ fontSize: 64, color: "primary.main", mb: 2 }} />
           <Typography variant="h5" component="h2" gutterBottom>
-            Welcome to RoomLoop
+            {t("onboarding.title")}
           </Typography>
           <Typography variant="body1" color="text.secondary" paragraph>
-            RoomLoop is your platform for creating and joining virtual events,
-            meetups, and discussions. Let's take a quick tour to help you get
-            the most out of your experience.
+            {t("onboarding.welcome.body")}
           </Typography>
           <Box
             sx={{ display: "flex", justifyContent: "center", gap: 2, mt: 3 }}
           >
-            <Chip label="Virtual Events" color="primary" />
-            <Chip label="Real-time Chat" color="primary" />
-            <Chip label="Screen Sharing" color="primary" />
-            <Chip label="Accessibility" color="primary" />
+            <Chip
+              label={t("onboarding.welcome.virtualEvents")}
+              color="primary"
+            />
+            <Chip
+              label={t("onboarding.welcome.realtimeChat")}
+              color="primary"
+            />
+            <Chip
+              label={t("onboarding.welcome.screenSharing")}
+              color="primary"
+            />
+            <Chip
+              label={t("onboarding.welcome.accessibility")}
+              color="primary"
+            />
           </Box>
         </Box>
       ),
@@ -104,8 +116,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
     },
     {
       id: "explore",
-      title: "Explore Rooms",
-      description: "Discover and join interesting virtual rooms",
+      title: t("onboarding.explore.title"),
+      description: t("onboarding.explore.description"),
       content: (
         <Box>
           <Card sx={{ mb: 2 }}>
@@ -113,15 +125,14 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
               component="img"
               height="140"
               image="/api/placeholder/400/140"
-              alt="Explore rooms interface"
+              alt={t("onboarding.explore.imageAlt")}
             />
             <CardContent>
               <Typography variant="h6" gutterBottom>
-                Browse Public Rooms
+                {t("onboarding.explore.heading")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Discover rooms by category, topic, or popularity. Join
-                discussions on topics that interest you.
+                {t("onboarding.explore.body")}
               </Typography>
             </CardContent>
           </Card>
@@ -131,8 +142,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <ExploreIcon color="primary" />
               </ListItemIcon>
               <ListItemText
-                primary="Browse by Category"
-                secondary="Find rooms in technology, business, education, and more"
+                primary={t("onboarding.explore.categories")}
+                secondary={t("onboarding.explore.categoriesDetail")}
               />
             </ListItem>
             <ListItem>
@@ -140,8 +151,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <ChatIcon color="primary" />
               </ListItemIcon>
               <ListItemText
-                primary="Join Discussions"
-                secondary="Participate in real-time conversations with other users"
+                primary={t("onboarding.explore.discussions")}
+                secondary={t("onboarding.explore.discussionsDetail")}
               />
             </ListItem>
             <ListItem>
@@ -149,8 +160,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <CheckIcon color="success" />
               </ListItemIcon>
               <ListItemText
-                primary="Save Favorites"
-                secondary="Bookmark rooms you want to visit later"
+                primary={t("onboarding.explore.favorites")}
+                secondary={t("onboarding.explore.favoritesDetail")}
               />
             </ListItem>
           </List>
@@ -160,29 +171,28 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
     },
     {
       id: "create",
-      title: "Create Your Room",
-      description: "Start your own virtual event or discussion",
+      title: t("onboarding.create.title"),
+      description: t("onboarding.create.description"),
       content: (
         <Box>
           <Alert severity="info" sx={{ mb: 2 }}>
-            Creating a room is easy! Just fill out a few details and you're
-            ready to go.
+            {t("onboarding.create.tip")}
           </Alert>
           <Box sx={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 2 }}>
             <Paper sx={{ p: 2, textAlign: "center" }}>
               <Typography variant="h6" gutterBottom>
-                Public Room
+                {t("onboarding.create.public")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Anyone can discover and join your room
+                {t("onboarding.create.publicDetail")}
               </Typography>
             </Paper>
             <Paper sx={{ p: 2, textAlign: "center" }}>
               <Typography variant="h6" gutterBottom>
-                Private Room
+                {t("onboarding.create.private")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Only invited users can join your room
+                {t("onboarding.create.privateDetail")}
               </Typography>
             </Paper>
           </Box>
@@ -192,8 +202,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <CheckIcon color="success" />
               </ListItemIcon>
               <ListItemText
-                primary="Choose Room Type"
-                secondary="Public for open discussions, private for exclusive events"
+                primary={t("onboarding.create.type")}
+                secondary={t("onboarding.create.typeDetail")}
               />
             </ListItem>
             <ListItem>
@@ -201,8 +211,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <CheckIcon color="success" />
               </ListItemIcon>
               <ListItemText
-                primary="Set Schedule"
-                secondary="Schedule your room for a specific date and time"
+                primary={t("onboarding.create.schedule")}
+                secondary={t("onboarding.create.scheduleDetail")}
               />
             </ListItem>
             <ListItem>
@@ -210,8 +220,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <CheckIcon color="success" />
               </ListItemIcon>
               <ListItemText
-                primary="Invite Participants"
-                secondary="Send invitations to specific users or share a link"
+                primary={t("onboarding.create.invite")}
+                secondary={t("onboarding.create.inviteDetail")}
               />
             </ListItem>
           </List>
@@ -221,8 +231,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
     },
     {
       id: "chat",
-      title: "Real-time Chat",
-      description: "Communicate with participants in real-time",
+      title: t("onboarding.chat.title"),
+      description: t("onboarding.chat.description"),
       content: (
         <Box>
           <Card sx={{ mb: 2 }}>
@@ -230,15 +240,14 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
               component="img"
               height="200"
               image="/api/placeholder/400/200"
-              alt="Chat interface"
+              alt={t("onboarding.chat.imageAlt")}
             />
             <CardContent>
               <Typography variant="h6" gutterBottom>
-                Interactive Chat Features
+                {t("onboarding.chat.heading")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Send messages, reactions, and files to enhance your
-                conversations.
+                {t("onboarding.chat.body")}
               </Typography>
             </CardContent>
           </Card>
@@ -251,34 +260,34 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
           >
             <Paper sx={{ p: 2 }}>
               <Typography variant="subtitle1" gutterBottom>
-                💬 Text Messages
+                💬 {t("onboarding.chat.text")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Send and receive text messages in real-time
+                {t("onboarding.chat.textDetail")}
               </Typography>
             </Paper>
             <Paper sx={{ p: 2 }}>
               <Typography variant="subtitle1" gutterBottom>
-                😊 Reactions
+                😊 {t("onboarding.chat.reactions")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                React to messages with emojis
+                {t("onboarding.chat.reactionsDetail")}
               </Typography>
             </Paper>
             <Paper sx={{ p: 2 }}>
               <Typography variant="subtitle1" gutterBottom>
-                📎 File Sharing
+                📎 {t("onboarding.chat.files")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Share images, documents, and other files
+                {t("onboarding.chat.filesDetail")}
               </Typography>
             </Paper>
             <Paper sx={{ p: 2 }}>
               <Typography variant="subtitle1" gutterBottom>
-                🎤 Voice Messages
+                🎤 {t("onboarding.chat.voice")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Send voice messages for quick communication
+                {t("onboarding.chat.voiceDetail")}
               </Typography>
             </Paper>
           </Box>
@@ -288,13 +297,12 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
     },
     {
       id: "accessibility",
-      title: "Accessibility Features",
-      description: "RoomLoop is designed to be accessible for everyone",
+      title: t("onboarding.accessibility.title"),
+      description: t("onboarding.accessibility.description"),
       content: (
         <Box>
           <Alert severity="success" sx={{ mb: 2 }}>
-            RoomLoop includes comprehensive accessibility features to ensure
-            everyone can participate.
+            {t("onboarding.accessibility.intro")}
           </Alert>
           <List>
             <ListItem>
@@ -302,8 +310,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <AccessibilityIcon color="primary" />
               </ListItemIcon>
               <ListItemText
-                primary="Screen Reader Support"
-                secondary="Full compatibility with screen readers and assistive technologies"
+                primary={t("onboarding.accessibility.screenReader")}
+                secondary={t("onboarding.accessibility.screenReaderDetail")}
               />
             </ListItem>
             <ListItem>
@@ -311,8 +319,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <AccessibilityIcon color="primary" />
               </ListItemIcon>
               <ListItemText
-                primary="Keyboard Navigation"
-                secondary="Complete keyboard accessibility for all features"
+                primary={t("onboarding.accessibility.keyboard")}
+                secondary={t("onboarding.accessibility.keyboardDetail")}
               />
             </ListItem>
             <ListItem>
@@ -320,8 +328,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <AccessibilityIcon color="primary" />
               </ListItemIcon>
               <ListItemText
-                primary="High Contrast Mode"
-                secondary="Enhanced contrast options for better visibility"
+                primary={t("onboarding.accessibility.contrast")}
+                secondary={t("onboarding.accessibility.contrastDetail")}
               />
             </ListItem>
             <ListItem>
@@ -329,8 +337,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <AccessibilityIcon color="primary" />
               </ListItemIcon>
               <ListItemText
-                primary="Font Size Adjustment"
-                secondary="Customize text size to your preference"
+                primary={t("onboarding.accessibility.fontSize")}
+                secondary={t("onboarding.accessibility.fontSizeDetail")}
               />
             </ListItem>
             <ListItem>
@@ -338,8 +346,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <AccessibilityIcon color="primary" />
               </ListItemIcon>
               <ListItemText
-                primary="Reduced Motion"
-                secondary="Option to reduce animations for motion sensitivity"
+                primary={t("onboarding.accessibility.motion")}
+                secondary={t("onboarding.accessibility.motionDetail")}
               />
             </ListItem>
           </List>
@@ -348,12 +356,12 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
     },
     {
       id: "settings",
-      title: "Customize Your Experience",
-      description: "Personalize RoomLoop to match your preferences",
+      title: t("onboarding.settings.title"),
+      description: t("onboarding.settings.description"),
       content: (
         <Box>
           <Typography variant="body1" paragraph>
-            Make RoomLoop work for you with these customization options:
+            {t("onboarding.settings.intro")}
           </Typography>
           <Box
             sx={{
@@ -368,10 +376,10 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 sx={{ fontSize: 32, color: "primary.main", mb: 1 }}
               />
               <Typography variant="h6" gutterBottom>
-                Theme Settings
+                {t("onboarding.settings.theme")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Choose between light, dark, or system theme
+                {t("onboarding.settings.themeDetail")}
               </Typography>
             </Paper>
             <Paper sx={{ p: 2, textAlign: "center" }}>
@@ -379,10 +387,10 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 sx={{ fontSize: 32, color: "primary.main", mb: 1 }}
               />
               <Typography variant="h6" gutterBottom>
-                Accessibility
+                {t("onboarding.settings.accessibility")}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Adjust font size, contrast, and motion settings
+                {t("onboarding.settings.accessibilityDetail")}
               </Typography>
             </Paper>
           </Box>
@@ -392,8 +400,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <CheckIcon color="success" />
               </ListItemIcon>
               <ListItemText
-                primary="Notification Preferences"
-                secondary="Control when and how you receive notifications"
+                primary={t("onboarding.settings.notifications")}
+                secondary={t("onboarding.settings.notificationsDetail")}
               />
             </ListItem>
             <ListItem>
@@ -401,8 +409,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <CheckIcon color="success" />
               </ListItemIcon>
               <ListItemText
-                primary="Privacy Settings"
-                secondary="Manage your profile visibility and data sharing"
+                primary={t("onboarding.settings.privacy")}
+                secondary={t("onboarding.settings.privacyDetail")}
               />
             </ListItem>
             <ListItem>
@@ -410,8 +418,8 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                 <CheckIcon color="success" />
               </ListItemIcon>
               <ListItemText
-                primary="Language Options"
-                secondary="Choose your preferred language (coming soon)"
+                primary={t("onboarding.settings.language")}
+                secondary={t("onboarding.settings.languageDetail")}
               />
             </ListItem>
           </List>
@@ -486,12 +494,12 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
         <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
           <HelpIcon color="primary" />
           <Typography variant="h6" component="h2">
-            Welcome to RoomLoop
+            {t("onboarding.title")}
           </Typography>
         </Box>
         <IconButton
           onClick={onClose}
-          aria-label="Close onboarding"
+          aria-label={t("onboarding.closeLabel")}
           size="small"
         >
           <CloseIcon />
@@ -503,7 +511,7 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
         <Box sx={{ mb: 3 }}>
           <Box sx={{ display: "flex", justifyContent: "space-between", mb: 1 }}>
             <Typography variant="body2" color="text.secondary">
-              Progress
+              {t("onboarding.progress")}
             </Typography>
             <Typography variant="body2" color="text.secondary">
               {Math.round(progress)}%
@@ -523,7 +531,11 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
               <StepLabel
                 optional={
                   step.required ? undefined : (
-                    <Chip label="Optional" size="small" variant="outlined" />
+                    <Chip
+                      label={t("onboarding.optional")}
+                      size="small"
+                      variant="outlined"
+                    />
                   )
                 }
                 sx={{
@@ -543,26 +555,32 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
                   <AccessibleButton
                     variant="contained"
                     onClick={() => handleStepComplete(step.id)}
-                    ariaLabel={`Complete ${step.title} step`}
+                    ariaLabel={t("onboarding.completeStep", {
+                      step: step.title,
+                    })}
                   >
-                    {index === steps.length - 1 ? "Finish" : "Continue"}
+                    {t(
+                      index === steps.length - 1
+                        ? "onboarding.finish"
+                        : "onboarding.continue"
+                    )}
                   </AccessibleButton>
                   {!step.required && (
                     <AccessibleButton
                       variant="outlined"
                       onClick={() => handleStepSkip(step.id)}
-                      ariaLabel={`Skip ${step.title} step`}
+                      ariaLabel={t("onboarding.skipStep", { step: step.title })}
                     >
-                      Skip
+                      {t("onboarding.skip")}
                     </AccessibleButton>
                   )}
                   {index > 0 && (
                     <AccessibleButton
                       variant="text"
                       onClick={handleBack}
-                      ariaLabel="Go to previous step"
+                      ariaLabel={t("onboarding.previousStep")}
                     >
-                      Back
+                      {t("onboarding.back")}
                     </AccessibleButton>
                   )}
                 </Box>
@@ -577,25 +595,25 @@ const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
           <AccessibleButton
             variant="text"
             onClick={handleSkipOnboarding}
-            ariaLabel="Skip entire onboarding"
+            ariaLabel={t("onboarding.skipAllLabel")}
           >
-            Skip Onboarding
+            {t("onboarding.skipAll")}
           </AccessibleButton>
         )}
         <Box sx={{ flex: 1 }} />
         <AccessibleButton
           variant="outlined"
           onClick={onClose}
-          ariaLabel="Close onboarding"
+          ariaLabel={t("onboarding.closeLabel")}
         >
-          Close
+          {t("onboarding.close")}
         </AccessibleButton>
         <AccessibleButton
           variant="contained"
           onClick={handleComplete}
-          ariaLabel="Complete onboarding"
+          ariaLabel={t("onboarding.completeLabel")}
         >
-          Get Started
+          {t("onboarding.getStarted")}
         </AccessibleButton>
       </DialogActions>
     </Dialog>
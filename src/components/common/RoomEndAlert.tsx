@@ -15,6 +15,7 @@ import {
   Dashboard as DashboardIcon,
   Visibility as VisibilityIcon,
 } from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
 
 interface RoomEndAlertProps {
   open: boolean;
@@ -34,6 +35,7 @@ const RoomEndAlert: React.FC<RoomEndAlertProps> = ({
   showViewOption = true,
 }) => {
   const theme = useTheme();
+  const { t } = useI18n();
 
   return (
     <Dialog
@@ -113,7 +115,7 @@ const RoomEndAlert: React.FC<RoomEndAlertProps> = ({
               color: theme.palette.error.main,
             }}
           >
-            This room has ended
+            {t("roomEnded.title")}
           </Typography>
           <Typography
             variant="body1"
@@ -128,8 +130,10 @@ const RoomEndAlert: React.FC<RoomEndAlertProps> = ({
               border: `1px solid ${alpha(theme.palette.error.main, 0.2)}`,
             }}
           >
-            "{roomTitle}" has concluded. You will be redirected to the dashboard
-            in {redirectCountdown} seconds.
+            {t("roomEnded.body", {
+              title: roomTitle,
+              seconds: redirectCountdown,
+            })}
           </Typography>
 
           <Stack direction="row" spacing={2} justifyContent="center" mt={3}>
@@ -146,7 +150,7 @@ const RoomEndAlert: React.FC<RoomEndAlertProps> = ({
                 fontWeight: "medium",
               }}
             >
-              Go to Dashboard
+              {t("roomEnded.dashboard")}
             </Button>
 
             {showViewOption && (
@@ -163,7 +167,7 @@ const RoomEndAlert: React.FC<RoomEndAlertProps> = ({
                   fontWeight: "medium",
                 }}
               >
-                View Room History
+                {t("roomEnded.viewHistory")}
               </Button>
             )}
           </Stack>
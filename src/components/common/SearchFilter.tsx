@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import {
   Box,
   TextField,
@@ -27,6 +27,7 @@ import {
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
 } from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
 import { useTheme } from "../../contexts/ThemeContext";
 import AccessibleButton from "./AccessibleButton";
 
@@ -40,7 +41,8 @@ export interface FilterOption {
 export interface FilterConfig {
   key: string;
   label: string;
-  type: "select" | "multiselect" | "range" | "checkbox";
+  // "date" values are yyyy-MM-dd strings
+  type: "select" | "multiselect" | "range" | "checkbox" | "date";
   options?: FilterOption[];
   min?: number;
   max?: number;
@@ -71,7 +73,7 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
   filterValues,
   onFilterChange,
   onClearAll,
-  placeholder = "Search...",
+  placeholder,
   showFilters = false,
   onToggleFilters,
   loading = false,
@@ -79,11 +81,17 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
   searchDebounceMs = 300,
 }) => {
   const { actualTheme } = useTheme();
+  const { t } = useI18n();
   const [localSearchValue, setLocalSearchValue] = useState(searchValue);
   const [debounceTimer, setDebounceTimer] = useState<NodeJS.Timeout | null>(
     null
   );
 
+  // Follow searches changed from outside, e.g. by the back button
+  useEffect(() => {
+    setLocalSearchValue(searchValue);
+  }, [searchValue]);
+
   // Debounced search
   const handleSearchChange = useCallback(
     (value: string) => {
@@ -134,10 +142,10 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
               onChange={(e: SelectChangeEvent) =>
                 handleFilterChange(filter.key, e.target.value)
               }
-              aria-label={`Filter by ${filter.label}`}
+              aria-label={t("search.filterBy", { label: filter.label })}
             >
               <MenuItem value="">
-                <em>All</em>
+                <em>{t("search.all")}</em>
               </MenuItem>
               {filter.options?.map((option) => (
                 <MenuItem key={option.value} value={option.value}>
@@ -186,7 +194,7 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
                   })}
                 </Box>
               )}
-              aria-label={`Filter by ${filter.label}`}
+              aria-label={t("search.filterBy", { label: filter.label })}
             >
               {filter.options?.map((option) => (
                 <MenuItem key={option.value} value={option.value}>
@@ -227,7 +235,7 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
               min={filter.min || 0}
               max={filter.max || 100}
               step={filter.step || 1}
-              aria-label={`${filter.label} range`}
+              aria-label={t("search.range", { label: filter.label })}
               sx={{
                 "& .MuiSlider-thumb": {
                   backgroundColor: "primary.main",
@@ -254,6 +262,19 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
           </Box>
         );
 
+      case "date":
+        return (
+          <TextField
+            fullWidth
+            size="small"
+            type="date"
+            label={filter.label}
+            value={value || ""}
+            onChange={(e) => handleFilterChange(filter.key, e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+        );
+
       case "checkbox":
         return (
           <Box>
@@ -319,7 +340,7 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
         <TextField
           fullWidth
           size="small"
-          placeholder={placeholder}
+          placeholder={placeholder ?? t("search.placeholder")}
           value={localSearchValue}
           onChange={(e) => handleSearchChange(e.target.value)}
           InputProps={{
@@ -333,7 +354,7 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
                 <IconButton
                   size="small"
                   onClick={handleClearSearch}
-                  aria-label="Clear search"
+                  aria-label={t("search.clear")}
                 >
                   <ClearIcon />
                 </IconButton>
@@ -352,11 +373,15 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
         />
 
         {filters.length > 0 && (
-          <Tooltip title={showFilters ? "Hide filters" : "Show filters"}>
+          <Tooltip
+            title={
+              showFilters ? t("search.hideFilters") : t("search.showFilters")
+            }
+          >
             <AccessibleButton
               variant={showFilters ? "contained" : "outlined"}
               onClick={onToggleFilters}
-              ariaLabel="Toggle filters"
+              ariaLabel={t("search.toggleFilters")}
               sx={{ minWidth: "auto", px: 2 }}
             >
               <FilterIcon />
@@ -369,7 +394,7 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
       {totalResults !== undefined && (
         <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2 }}>
           <Typography variant="body2" color="text.secondary">
-            {totalResults} result{totalResults !== 1 ? "s" : ""}
+            {t("search.results", { count: totalResults })}
           </Typography>
           {hasActiveFilters && (
             <>
@@ -377,7 +402,7 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
                 •
               </Typography>
               <Typography variant="body2" color="primary.main">
-                Filtered
+                {t("search.filtered")}
               </Typography>
             </>
           )}
@@ -413,16 +438,16 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
               }}
             >
               <Typography variant="h6" component="h3">
-                Filters
+                {t("search.filters")}
               </Typography>
               {hasActiveFilters && onClearAll && (
                 <AccessibleButton
                   variant="text"
                   onClick={onClearAll}
-                  ariaLabel="Clear all filters"
+                  ariaLabel={t("search.clearAllLabel")}
                   size="small"
                 >
-                  Clear all
+                  {t("search.clearAll")}
                 </AccessibleButton>
               )}
             </Box>
@@ -475,7 +500,7 @@ const SearchFilter: React.FC<SearchFilterProps> = ({
                 size="small"
                 color="primary"
                 variant="outlined"
-                aria-label={`Remove ${filter.label} filter`}
+                aria-label={t("search.removeFilter", { label: filter.label })}
               />
             );
           })}
@@ -4,9 +4,11 @@ import LightModeIcon from "@mui/icons-material/LightMode";
 import DarkModeIcon from "@mui/icons-material/DarkMode";
 import SettingsBrightnessIcon from "@mui/icons-material/SettingsBrightness";
 import { useTheme, ThemeMode } from "../../contexts/ThemeContext";
+import { useI18n } from "../../contexts/I18nContext";
 
 const ThemeToggle: React.FC = () => {
   const { mode, toggleColorMode } = useTheme();
+  const { t } = useI18n();
 
   // Return the appropriate icon based on the current mode
   const renderIcon = () => {
@@ -26,13 +28,13 @@ const ThemeToggle: React.FC = () => {
   const getTooltipText = () => {
     switch (mode) {
       case "light":
-        return "Switch to Dark Mode";
+        return t("theme.toDark");
       case "dark":
-        return "Switch to System Mode";
+        return t("theme.toSystem");
       case "system":
-        return "Switch to Light Mode";
+        return t("theme.toLight");
       default:
-        return "Toggle Theme";
+        return t("theme.toggle");
     }
   };
 
@@ -41,7 +43,7 @@ const ThemeToggle: React.FC = () => {
       <IconButton
         onClick={toggleColorMode}
         color="inherit"
-        aria-label="toggle theme"
+        aria-label={t("theme.toggle")}
         sx={{
           transition: "transform 0.3s ease",
           "&:hover": {
@@ -0,0 +1,60 @@
+import React from "react";
+import { Avatar, AvatarProps } from "@mui/material";
+import { User } from "../../types";
+import {
+  createIdenticon,
+  getAvatarColor,
+  getAvatarUrl,
+  getFallbackStyle,
+  getInitials,
+} from "../../utils/avatar";
+import { userIdOf } from "../../utils/roles";
+
+interface UserAvatarProps extends Omit<AvatarProps, "src" | "children"> {
+  user: Pick<User, "username"> &
+    Partial<Pick<User, "id" | "avatar" | "avatarSizes" | "avatarFallback">>;
+  // Rendered width and height in pixels; picks the uploaded size to load
+  size?: number;
+}
+
+/**
+ * A user's uploaded avatar at the best size for where it is shown, or
+ * their generated initials or identicon when they haven't uploaded one.
+ */
+const UserAvatar: React.FC<UserAvatarProps> = ({
+  user,
+  size = 40,
+  sx,
+  ...props
+}) => {
+  // Populated documents carry `_id`, so go through userIdOf
+  const seed = userIdOf(user as User) || user.username;
+  const uploaded = getAvatarUrl(user, size);
+  const identicon =
+    !uploaded && getFallbackStyle(user) === "identicon"
+      ? createIdenticon(seed)
+      : undefined;
+
+  return (
+    <Avatar
+      alt={user.username}
+      {...props}
+      src={uploaded || identicon}
+      sx={[
+        {
+          width: size,
+          height: size,
+          fontSize: size * 0.4,
+          fontWeight: 600,
+          color: "#fff",
+          bgcolor: getAvatarColor(seed),
+        },
+        ...(Array.isArray(sx) ? sx : [sx]),
+      ]}
+    >
+      {getInitials(user.username)}
+    </Avatar>
+  );
+};
+
+export default UserAvatar;
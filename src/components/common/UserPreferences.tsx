@@ -51,8 +51,13 @@ import {
   School as SchoolIcon,
   Chat as ChatIcon,
 } from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
 import { useTheme } from "../../contexts/ThemeContext";
-import { useAuth } from "../../contexts/AuthContext";
+import { usePreferences } from "../../contexts/PreferencesContext";
+import { defaultPreferences } from "../../services/preferences";
+import { UserPreferences as UserPreferencesData } from "../../types";
+import { getLanguage, LANGUAGES, MessageKey } from "../../locales";
+import { createDateFormatter, getDateLocale } from "../../utils/dateFormat";
 import AccessibleButton from "./AccessibleButton";
 import AccessibilitySettings from "./AccessibilitySettings";
 
@@ -74,80 +79,22 @@ const TabPanel: React.FC<TabPanelProps> = ({ children, value, index }) => (
   </div>
 );
 
-// User preferences interface
-interface UserPreferences {
-  // Profile settings
-  displayName: string;
-  bio: string;
-  location: string;
-  website: string;
-  company: string;
-  jobTitle: string;
-
-  // Notification settings
-  emailNotifications: boolean;
-  pushNotifications: boolean;
-  roomInvitations: boolean;
-  messageNotifications: boolean;
-  marketingEmails: boolean;
-
-  // Privacy settings
-  profileVisibility: "public" | "private" | "friends";
-  showOnlineStatus: boolean;
-  allowDirectMessages: boolean;
-  showLastSeen: boolean;
-
-  // Theme settings
-  theme: "light" | "dark" | "system";
-  accentColor: string;
-
-  // Accessibility settings
-  fontSize: number;
-  highContrast: boolean;
-  reduceMotion: boolean;
-  screenReaderMode: boolean;
-
-  // Language settings
-  language: string;
-  timezone: string;
-  dateFormat: string;
-  timeFormat: "12h" | "24h";
-}
-
-// Default preferences
-const defaultPreferences: UserPreferences = {
-  displayName: "",
-  bio: "",
-  location: "",
-  website: "",
-  company: "",
-  jobTitle: "",
-  emailNotifications: true,
-  pushNotifications: true,
-  roomInvitations: true,
-  messageNotifications: true,
-  marketingEmails: false,
-  profileVisibility: "public",
-  showOnlineStatus: true,
-  allowDirectMessages: true,
-  showLastSeen: true,
-  theme: "system",
-  accentColor: "#667eea",
-  fontSize: 100,
-  highContrast: false,
-  reduceMotion: false,
-  screenReaderMode: false,
-  language: "en",
-  timezone: "UTC",
-  dateFormat: "MM/DD/YYYY",
-  timeFormat: "12h",
-};
+const TIMEZONES: { value: string; label: MessageKey }[] = [
+  { value: "UTC", label: "preferences.timezone.utc" },
+  { value: "America/New_York", label: "preferences.timezone.eastern" },
+  { value: "America/Chicago", label: "preferences.timezone.central" },
+  { value: "America/Denver", label: "preferences.timezone.mountain" },
+  { value: "America/Los_Angeles", label: "preferences.timezone.pacific" },
+  { value: "Europe/London", label: "preferences.timezone.london" },
+  { value: "Europe/Paris", label: "preferences.timezone.paris" },
+  { value: "Asia/Tokyo", label: "preferences.timezone.tokyo" },
+];
 
 // User preferences props
 interface UserPreferencesProps {
   open: boolean;
   onClose: () => void;
-  onSave?: (preferences: UserPreferences) => Promise<void>;
+  onSave?: (preferences: UserPreferencesData) => Promise<void>;
 }
 
 const UserPreferences: React.FC<UserPreferencesProps> = ({
@@ -156,40 +103,52 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
   onSave,
 }) => {
   const { actualTheme } = useTheme();
-  const { user } = useAuth();
+  const { t } = useI18n();
+  const {
+    preferences: savedPreferences,
+    updatePreferences,
+    error,
+  } = usePreferences();
   const [activeTab, setActiveTab] = useState(0);
   const [preferences, setPreferences] =
-    useState<UserPreferences>(defaultPreferences);
+    useState<UserPreferencesData>(savedPreferences);
   const [accessibilityOpen, setAccessibilityOpen] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
 
-  // Load preferences on mount
+  // Start from the saved preferences each time the dialog opens, and
+  // follow changes from other devices until the user edits something
   useEffect(() => {
-    if (user) {
-      const savedPreferences = localStorage.getItem(
-        `user-preferences-${user.id}`
-      );
-      if (savedPreferences) {
-        setPreferences(JSON.parse(savedPreferences));
-      } else {
-        // Initialize with user data
-        setPreferences({
-          ...defaultPreferences,
-          displayName: user.username || "",
-          bio: user.bio || "",
-        });
-      }
-    }
-  }, [user]);
+    if (open && !hasChanges) setPreferences(savedPreferences);
+  }, [open, hasChanges, savedPreferences]);
+
+  useEffect(() => {
+    if (!open) setHasChanges(false);
+  }, [open]);
 
   // Handle preference change
-  const handlePreferenceChange = (key: keyof UserPreferences, value: any) => {
+  const handlePreferenceChange = (
+    key: keyof UserPreferencesData,
+    value: any
+  ) => {
     setPreferences((prev) => ({ ...prev, [key]: value }));
     setHasChanges(true);
   };
 
+  // Browsers only ask for permission in response to the user, so ask as
+  // soon as push notifications are switched on
+  const handlePushNotificationsChange = (enabled: boolean) => {
+    handlePreferenceChange("pushNotifications", enabled);
+    if (
+      enabled &&
+      typeof window.Notification !== "undefined" &&
+      window.Notification.permission === "default"
+    ) {
+      window.Notification.requestPermission();
+    }
+  };
+
   // Handle save
   const handleSave = async () => {
     setLoading(true);
@@ -197,13 +156,8 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
       if (onSave) {
         await onSave(preferences);
       }
-      // Save to localStorage
-      if (user) {
-        localStorage.setItem(
-          `user-preferences-${user.id}`,
-          JSON.stringify(preferences)
-        );
-      }
+      // Applied right away; failing to sync leaves it saved on this device
+      await updatePreferences(preferences);
       setHasChanges(false);
     } catch (error) {
       console.error("Failed to save preferences:", error);
@@ -218,6 +172,25 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
     setHasChanges(true);
   };
 
+  // The default is the browser's zone, which may not be in the list
+  const timezoneOptions = [
+    ...(TIMEZONES.some((option) => option.value === preferences.timezone)
+      ? []
+      : [{ value: preferences.timezone, label: preferences.timezone }]),
+    ...TIMEZONES.map(({ value, label }) => ({ value, label: t(label) })),
+  ];
+
+  // Languages without a catalog are shown in English
+  const language = getLanguage(preferences.language).code;
+
+  // Right now, as it will be shown once saved
+  const datePreview = createDateFormatter({
+    timeZone: preferences.timezone,
+    dateFormat: preferences.dateFormat,
+    timeFormat: preferences.timeFormat,
+    locale: getDateLocale(language),
+  }).formatDateTime(new Date());
+
   // Handle tab change
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
@@ -248,20 +221,24 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
         <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
           <SettingsIcon color="primary" />
           <Typography variant="h6" component="h2">
-            User Preferences
+            {t("preferences.title")}
           </Typography>
         </Box>
         <Box sx={{ display: "flex", gap: 1 }}>
           {hasChanges && (
-            <Chip label="Unsaved changes" color="warning" size="small" />
+            <Chip
+              label={t("preferences.unsaved")}
+              color="warning"
+              size="small"
+            />
           )}
           <AccessibleButton
             variant="outlined"
             onClick={handleReset}
-            ariaLabel="Reset to defaults"
+            ariaLabel={t("preferences.resetLabel")}
             size="small"
           >
-            Reset
+            {t("preferences.reset")}
           </AccessibleButton>
         </Box>
       </DialogTitle>
@@ -284,37 +261,37 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
           >
             <Tab
               icon={<SettingsIcon />}
-              label="Profile"
+              label={t("preferences.tab.profile")}
               id="preferences-tab-0"
               aria-controls="preferences-tabpanel-0"
             />
             <Tab
               icon={<NotificationsIcon />}
-              label="Notifications"
+              label={t("preferences.tab.notifications")}
               id="preferences-tab-1"
               aria-controls="preferences-tabpanel-1"
             />
             <Tab
               icon={<SecurityIcon />}
-              label="Privacy"
+              label={t("preferences.tab.privacy")}
               id="preferences-tab-2"
               aria-controls="preferences-tabpanel-2"
             />
             <Tab
               icon={<PaletteIcon />}
-              label="Appearance"
+              label={t("preferences.tab.appearance")}
               id="preferences-tab-3"
               aria-controls="preferences-tabpanel-3"
             />
             <Tab
               icon={<AccessibilityIcon />}
-              label="Accessibility"
+              label={t("preferences.tab.accessibility")}
               id="preferences-tab-4"
               aria-controls="preferences-tabpanel-4"
             />
             <Tab
               icon={<LanguageIcon />}
-              label="Language"
+              label={t("preferences.tab.language")}
               id="preferences-tab-5"
               aria-controls="preferences-tabpanel-5"
             />
@@ -325,51 +302,51 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
             {/* Profile Tab */}
             <TabPanel value={activeTab} index={0}>
               <Typography variant="h6" gutterBottom>
-                Profile Information
+                {t("preferences.profile.heading")}
               </Typography>
               <Grid container spacing={3}>
                 <Grid item xs={12} md={6}>
                   <TextField
                     fullWidth
-                    label="Display Name"
+                    label={t("preferences.displayName")}
                     value={preferences.displayName}
                     onChange={(e) =>
                       handlePreferenceChange("displayName", e.target.value)
                     }
-                    helperText="This is how your name appears to other users"
+                    helperText={t("preferences.displayNameHelp")}
                   />
                 </Grid>
                 <Grid item xs={12} md={6}>
                   <TextField
                     fullWidth
-                    label="Job Title"
+                    label={t("preferences.jobTitle")}
                     value={preferences.jobTitle}
                     onChange={(e) =>
                       handlePreferenceChange("jobTitle", e.target.value)
                     }
-                    helperText="Your professional title"
+                    helperText={t("preferences.jobTitleHelp")}
                   />
                 </Grid>
                 <Grid item xs={12} md={6}>
                   <TextField
                     fullWidth
-                    label="Company"
+                    label={t("preferences.company")}
                     value={preferences.company}
                     onChange={(e) =>
                       handlePreferenceChange("company", e.target.value)
                     }
-                    helperText="Your company or organization"
+                    helperText={t("preferences.companyHelp")}
                   />
                 </Grid>
                 <Grid item xs={12} md={6}>
                   <TextField
                     fullWidth
-                    label="Location"
+                    label={t("preferences.location")}
                     value={preferences.location}
                     onChange={(e) =>
                       handlePreferenceChange("location", e.target.value)
                     }
-                    helperText="Your city and country"
+                    helperText={t("preferences.locationHelp")}
                   />
                 </Grid>
                 <Grid item xs={12}>
@@ -377,23 +354,23 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                     fullWidth
                     multiline
                     rows={4}
-                    label="Bio"
+                    label={t("preferences.bio")}
                     value={preferences.bio}
                     onChange={(e) =>
                       handlePreferenceChange("bio", e.target.value)
                     }
-                    helperText="Tell others about yourself"
+                    helperText={t("preferences.bioHelp")}
                   />
                 </Grid>
                 <Grid item xs={12}>
                   <TextField
                     fullWidth
-                    label="Website"
+                    label={t("preferences.website")}
                     value={preferences.website}
                     onChange={(e) =>
                       handlePreferenceChange("website", e.target.value)
                     }
-                    helperText="Your personal or professional website"
+                    helperText={t("preferences.websiteHelp")}
                   />
                 </Grid>
               </Grid>
@@ -402,7 +379,7 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
             {/* Notifications Tab */}
             <TabPanel value={activeTab} index={1}>
               <Typography variant="h6" gutterBottom>
-                Notification Preferences
+                {t("preferences.notifications.heading")}
               </Typography>
               <List>
                 <ListItem>
@@ -410,8 +387,8 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                     <EmailIcon />
                   </ListItemIcon>
                   <ListItemText
-                    primary="Email Notifications"
-                    secondary="Receive notifications via email"
+                    primary={t("preferences.emailNotifications")}
+                    secondary={t("preferences.emailNotificationsHelp")}
                   />
                   <ListItemSecondaryAction>
                     <Switch
@@ -430,17 +407,14 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                     <NotificationsIcon />
                   </ListItemIcon>
                   <ListItemText
-                    primary="Push Notifications"
-                    secondary="Receive notifications in your browser"
+                    primary={t("preferences.pushNotifications")}
+                    secondary={t("preferences.pushNotificationsHelp")}
                   />
                   <ListItemSecondaryAction>
                     <Switch
                       checked={preferences.pushNotifications}
                       onChange={(e) =>
-                        handlePreferenceChange(
-                          "pushNotifications",
-                          e.target.checked
-                        )
+                        handlePushNotificationsChange(e.target.checked)
                       }
                     />
                   </ListItemSecondaryAction>
@@ -450,8 +424,8 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                     <WorkIcon />
                   </ListItemIcon>
                   <ListItemText
-                    primary="Room Invitations"
-                    secondary="Get notified when invited to rooms"
+                    primary={t("preferences.roomInvitations")}
+                    secondary={t("preferences.roomInvitationsHelp")}
                   />
                   <ListItemSecondaryAction>
                     <Switch
@@ -470,8 +444,8 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                     <ChatIcon />
                   </ListItemIcon>
                   <ListItemText
-                    primary="Message Notifications"
-                    secondary="Get notified of new messages"
+                    primary={t("preferences.messageNotifications")}
+                    secondary={t("preferences.messageNotificationsHelp")}
                   />
                   <ListItemSecondaryAction>
                     <Switch
@@ -490,8 +464,8 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                     <EmailIcon />
                   </ListItemIcon>
                   <ListItemText
-                    primary="Marketing Emails"
-                    secondary="Receive updates about new features"
+                    primary={t("preferences.marketingEmails")}
+                    secondary={t("preferences.marketingEmailsHelp")}
                   />
                   <ListItemSecondaryAction>
                     <Switch
@@ -511,12 +485,17 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
             {/* Privacy Tab */}
             <TabPanel value={activeTab} index={2}>
               <Typography variant="h6" gutterBottom>
-                Privacy Settings
+                {t("preferences.privacy.heading")}
               </Typography>
+              <Alert severity="info" sx={{ mb: 3 }}>
+                {t("preferences.privacy.info")}
+              </Alert>
               <Grid container spacing={3}>
                 <Grid item xs={12} md={6}>
                   <FormControl fullWidth>
-                    <InputLabel>Profile Visibility</InputLabel>
+                    <InputLabel>
+                      {t("preferences.profileVisibility")}
+                    </InputLabel>
                     <Select
                       value={preferences.profileVisibility}
                       onChange={(e) =>
@@ -525,11 +504,17 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                           e.target.value
                         )
                       }
-                      label="Profile Visibility"
+                      label={t("preferences.profileVisibility")}
                     >
-                      <MenuItem value="public">Public</MenuItem>
-                      <MenuItem value="private">Private</MenuItem>
-                      <MenuItem value="friends">Friends Only</MenuItem>
+                      <MenuItem value="public">
+                        {t("preferences.visibility.public")}
+                      </MenuItem>
+                      <MenuItem value="private">
+                        {t("preferences.visibility.private")}
+                      </MenuItem>
+                      <MenuItem value="friends">
+                        {t("preferences.visibility.friends")}
+                      </MenuItem>
                     </Select>
                   </FormControl>
                 </Grid>
@@ -537,8 +522,8 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                   <List>
                     <ListItem>
                       <ListItemText
-                        primary="Show Online Status"
-                        secondary="Let others see when you're online"
+                        primary={t("preferences.showOnlineStatus")}
+                        secondary={t("preferences.showOnlineStatusHelp")}
                       />
                       <ListItemSecondaryAction>
                         <Switch
@@ -554,8 +539,8 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                     </ListItem>
                     <ListItem>
                       <ListItemText
-                        primary="Allow Direct Messages"
-                        secondary="Let other users send you direct messages"
+                        primary={t("preferences.allowDirectMessages")}
+                        secondary={t("preferences.allowDirectMessagesHelp")}
                       />
                       <ListItemSecondaryAction>
                         <Switch
@@ -571,8 +556,8 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
                     </ListItem>
                     <ListItem>
                       <ListItemText
-                        primary="Show Last Seen"
-                        secondary="Show when you were last active"
+                        primary={t("preferences.showLastSeen")}
+                        secondary={t("preferences.showLastSeenHelp")}
                       />
                       <ListItemSecondaryAction>
                         <Switch
@@ -594,35 +579,41 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
             {/* Appearance Tab */}
             <TabPanel value={activeTab} index={3}>
               <Typography variant="h6" gutterBottom>
-                Appearance Settings
+                {t("preferences.appearance.heading")}
               </Typography>
               <Grid container spacing={3}>
                 <Grid item xs={12} md={6}>
                   <FormControl fullWidth>
-                    <InputLabel>Theme</InputLabel>
+                    <InputLabel>{t("preferences.theme")}</InputLabel>
                     <Select
                       value={preferences.theme}
                       onChange={(e) =>
                         handlePreferenceChange("theme", e.target.value)
                       }
-                      label="Theme"
+                      label={t("preferences.theme")}
                     >
-                      <MenuItem value="light">Light</MenuItem>
-                      <MenuItem value="dark">Dark</MenuItem>
-                      <MenuItem value="system">System</MenuItem>
+                      <MenuItem value="light">
+                        {t("preferences.theme.light")}
+                      </MenuItem>
+                      <MenuItem value="dark">
+                        {t("preferences.theme.dark")}
+                      </MenuItem>
+                      <MenuItem value="system">
+                        {t("preferences.theme.system")}
+                      </MenuItem>
                     </Select>
                   </FormControl>
                 </Grid>
                 <Grid item xs={12} md={6}>
                   <TextField
                     fullWidth
-                    label="Accent Color"
+                    label={t("preferences.accentColor")}
                     type="color"
                     value={preferences.accentColor}
                     onChange={(e) =>
                       handlePreferenceChange("accentColor", e.target.value)
                     }
-                    helperText="Choose your preferred accent color"
+                    helperText={t("preferences.accentColorHelp")}
                   />
                 </Grid>
               </Grid>
@@ -631,122 +622,130 @@ const UserPreferences: React.FC<UserPreferencesProps> = ({
             {/* Accessibility Tab */}
             <TabPanel value={activeTab} index={4}>
               <Typography variant="h6" gutterBottom>
-                Accessibility Settings
+                {t("preferences.accessibility.heading")}
               </Typography>
               <Alert severity="info" sx={{ mb: 3 }}>
-                These settings help make RoomLoop more accessible for users with
-                different needs.
+                {t("preferences.accessibility.info")}
               </Alert>
               <AccessibleButton
                 variant="outlined"
                 onClick={() => setAccessibilityOpen(true)}
-                ariaLabel="Open detailed accessibility settings"
+                ariaLabel={t("preferences.accessibility.openLabel")}
               >
-                Open Accessibility Settings
+                {t("preferences.accessibility.open")}
               </AccessibleButton>
             </TabPanel>
 
             {/* Language Tab */}
             <TabPanel value={activeTab} index={5}>
               <Typography variant="h6" gutterBottom>
-                Language & Region
+                {t("preferences.language.heading")}
               </Typography>
               <Grid container spacing={3}>
                 <Grid item xs={12} md={6}>
                   <FormControl fullWidth>
-                    <InputLabel>Language</InputLabel>
+                    <InputLabel>{t("preferences.language")}</InputLabel>
                     <Select
-                      value={preferences.language}
+                      value={language}
                       onChange={(e) =>
                         handlePreferenceChange("language", e.target.value)
                       }
-                      label="Language"
+                      label={t("preferences.language")}
                     >
-                      <MenuItem value="en">English</MenuItem>
-                      <MenuItem value="es">Español</MenuItem>
-                      <MenuItem value="fr">Français</MenuItem>
-                      <MenuItem value="de">Deutsch</MenuItem>
-                      <MenuItem value="zh">中文</MenuItem>
-                      <MenuItem value="ja">日本語</MenuItem>
+                      {LANGUAGES.map(({ code, name }) => (
+                        <MenuItem key={code} value={code} lang={code}>
+                          {name}
+                        </MenuItem>
+                      ))}
                     </Select>
                   </FormControl>
                 </Grid>
                 <Grid item xs={12} md={6}>
                   <FormControl fullWidth>
-                    <InputLabel>Timezone</InputLabel>
+                    <InputLabel>{t("preferences.timezone")}</InputLabel>
                     <Select
                       value={preferences.timezone}
                       onChange={(e) =>
                         handlePreferenceChange("timezone", e.target.value)
                       }
-                      label="Timezone"
+                      label={t("preferences.timezone")}
                     >
-                      <MenuItem value="UTC">UTC</MenuItem>
-                      <MenuItem value="America/New_York">Eastern Time</MenuItem>
-                      <MenuItem value="America/Chicago">Central Time</MenuItem>
-                      <MenuItem value="America/Denver">Mountain Time</MenuItem>
-                      <MenuItem value="America/Los_Angeles">
-                        Pacific Time
-                      </MenuItem>
-                      <MenuItem value="Europe/London">London</MenuItem>
-                      <MenuItem value="Europe/Paris">Paris</MenuItem>
-                      <MenuItem value="Asia/Tokyo">Tokyo</MenuItem>
+                      {timezoneOptions.map((option) => (
+                        <MenuItem key={option.value} value={option.value}>
+                          {option.label}
+                        </MenuItem>
+                      ))}
                     </Select>
                   </FormControl>
                 </Grid>
                 <Grid item xs={12} md={6}>
                   <FormControl fullWidth>
-                    <InputLabel>Date Format</InputLabel>
+                    <InputLabel>{t("preferences.dateFormat")}</InputLabel>
                     <Select
                       value={preferences.dateFormat}
                       onChange={(e) =>
                         handlePreferenceChange("dateFormat", e.target.value)
                       }
-                      label="Date Format"
+                      label={t("preferences.dateFormat")}
                     >
-                      <MenuItem value="MM/DD/YYYY">MM/DD/YYYY</MenuItem>
-                      <MenuItem value="DD/MM/YYYY">DD/MM/YYYY</MenuItem>
-                      <MenuItem value="YYYY-MM-DD">YYYY-MM-DD</MenuItem>
+                      <MenuItem value="MM/dd/yyyy">MM/DD/YYYY</MenuItem>
+                      <MenuItem value="dd/MM/yyyy">DD/MM/YYYY</MenuItem>
+                      <MenuItem value="yyyy-MM-dd">YYYY-MM-DD</MenuItem>
                     </Select>
                   </FormControl>
                 </Grid>
                 <Grid item xs={12} md={6}>
                   <FormControl fullWidth>
-                    <InputLabel>Time Format</InputLabel>
+                    <InputLabel>{t("preferences.timeFormat")}</InputLabel>
                     <Select
                       value={preferences.timeFormat}
                       onChange={(e) =>
                         handlePreferenceChange("timeFormat", e.target.value)
                       }
-                      label="Time Format"
+                      label={t("preferences.timeFormat")}
                     >
-                      <MenuItem value="12h">12-hour (AM/PM)</MenuItem>
-                      <MenuItem value="24h">24-hour</MenuItem>
+                      <MenuItem value="12h">
+                        {t("preferences.timeFormat.12h")}
+                      </MenuItem>
+                      <MenuItem value="24h">
+                        {t("preferences.timeFormat.24h")}
+                      </MenuItem>
                     </Select>
                   </FormControl>
                 </Grid>
+                <Grid item xs={12}>
+                  <Typography variant="body2" color="text.secondary">
+                    {t("preferences.datePreview", { date: datePreview })}
+                  </Typography>
+                </Grid>
               </Grid>
             </TabPanel>
           </Box>
         </Box>
       </DialogContent>
 
+      {error && (
+        <Alert severity="warning" sx={{ mx: 3, mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
       <DialogActions sx={{ p: 3, pt: 0 }}>
         <AccessibleButton
           variant="outlined"
           onClick={onClose}
-          ariaLabel="Cancel changes"
+          ariaLabel={t("preferences.cancelLabel")}
         >
-          Cancel
+          {t("preferences.cancel")}
         </AccessibleButton>
         <AccessibleButton
           variant="contained"
           onClick={handleSave}
           loading={loading}
           disabled={!hasChanges}
-          ariaLabel="Save preferences"
+          ariaLabel={t("preferences.saveLabel")}
         >
-          Save Changes
+          {t("preferences.save")}
         </AccessibleButton>
       </DialogActions>
 
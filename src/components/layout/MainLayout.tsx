@@ -26,6 +26,7 @@ import {
 } from "@mui/icons-material";
 import { useNavigate, Link } from "react-router-dom";
 import { useAuth } from "../../contexts/AuthContext";
+import { useI18n } from "../../contexts/I18nContext";
 import ThemeToggle from "../common/ThemeToggle";
 import NotificationBell from "../common/NotificationBell";
 import Footer from "../common/Footer";
@@ -39,6 +40,7 @@ interface MainLayoutProps {
 const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
   const [mobileOpen, setMobileOpen] = React.useState(false);
   const { isAuthenticated, user, logout } = useAuth();
+  const { t } = useI18n();
   const navigate = useNavigate();
 
   const handleDrawerToggle = () => {
@@ -134,7 +136,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                 <DashboardIcon />
               </ListItemIcon>
               <ListItemText
-                primary="📊 Dashboard"
+                primary={`📊 ${t("nav.dashboard")}`}
                 primaryTypographyProps={{ fontWeight: 600, fontSize: "1rem" }}
               />
             </ListItem>
@@ -178,7 +180,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                 <ExploreIcon />
               </ListItemIcon>
               <ListItemText
-                primary="🔍 Explore Rooms"
+                primary={`🔍 ${t("nav.exploreRooms")}`}
                 primaryTypographyProps={{ fontWeight: 600, fontSize: "1rem" }}
               />
             </ListItem>
@@ -222,7 +224,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                 <AddCircleIcon />
               </ListItemIcon>
               <ListItemText
-                primary="➕ Create Room"
+                primary={`➕ ${t("nav.createRoom")}`}
                 primaryTypographyProps={{ fontWeight: 600, fontSize: "1rem" }}
               />
             </ListItem>
@@ -272,7 +274,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                 <AccountCircleIcon />
               </ListItemIcon>
               <ListItemText
-                primary="👤 Profile"
+                primary={`👤 ${t("nav.profile")}`}
                 primaryTypographyProps={{ fontWeight: 600, fontSize: "1rem" }}
               />
             </ListItem>
@@ -314,7 +316,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                 <LogoutIcon />
               </ListItemIcon>
               <ListItemText
-                primary="🚪 Logout"
+                primary={`🚪 ${t("nav.logout")}`}
                 primaryTypographyProps={{
                   fontWeight: 600,
                   fontSize: "1rem",
@@ -334,7 +336,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                 textDecoration: "none",
               }}
             >
-              <ListItemText primary="Login" />
+              <ListItemText primary={t("nav.login")} />
             </ListItem>
             <ListItem
               component={Link}
@@ -344,7 +346,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                 textDecoration: "none",
               }}
             >
-              <ListItemText primary="Register" />
+              <ListItemText primary={t("nav.register")} />
             </ListItem>
           </>
         )}
@@ -378,7 +380,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
         <Toolbar>
           <IconButton
             color="inherit"
-            aria-label="open drawer"
+            aria-label={t("nav.openMenu")}
             edge="start"
             onClick={handleDrawerToggle}
             sx={{ mr: 2, display: { sm: "none" } }}
@@ -386,14 +388,14 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
             <MenuIcon />
           </IconButton>
           <Typography variant="h6" noWrap component="div" sx={{ flexGrow: 1 }}>
-            RoomLoop - Drop-In Events & Micro-Meetups
+            {t("nav.tagline")}
           </Typography>
           <ThemeToggle />
           {isAuthenticated ? (
             <Box sx={{ display: "flex", alignItems: "center", ml: 2 }}>
               <NotificationBell />
               <Typography variant="body1" sx={{ mr: 2 }}>
-                Hello, {user?.username}
+                {t("nav.greeting", { name: user?.username || "" })}
               </Typography>
               <Button
                 color="inherit"
@@ -410,7 +412,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                   },
                 }}
               >
-                Logout
+                {t("nav.logout")}
               </Button>
             </Box>
           ) : (
@@ -431,7 +433,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                   },
                 }}
               >
-                Login
+                {t("nav.login")}
               </Button>
               <Button
                 color="primary"
@@ -447,7 +449,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
                   },
                 }}
               >
-                Register
+                {t("nav.register")}
               </Button>
             </Box>
           )}
@@ -10,7 +10,6 @@ import {
   ListItemIcon,
   ListItemText,
   Box,
-  Avatar,
   Menu,
   MenuItem,
   Divider,
@@ -37,12 +36,16 @@ import { useNavigate, useLocation } from "react-router-dom";
 import { useTheme } from "../../contexts/ThemeContext";
 import { useAuth } from "../../contexts/AuthContext";
 import { useNotifications } from "../../contexts/NotificationContext";
+import { useI18n } from "../../contexts/I18nContext";
+import { MessageKey } from "../../locales";
 import ThemeToggle from "../common/ThemeToggle";
 import AccessibleButton from "../common/AccessibleButton";
+import UserAvatar from "../common/UserAvatar";
+import UserPreferences from "../common/UserPreferences";
 
 // Navigation item interface
 interface NavItem {
-  label: string;
+  label: MessageKey;
   path: string;
   icon: React.ReactNode;
   badge?: number;
@@ -52,17 +55,17 @@ interface NavItem {
 // Navigation items
 const navItems: NavItem[] = [
   {
-    label: "Home",
+    label: "nav.home",
     path: "/",
     icon: <HomeIcon />,
   },
   {
-    label: "Explore",
+    label: "nav.explore",
     path: "/explore",
     icon: <ExploreIcon />,
   },
   {
-    label: "Create Room",
+    label: "nav.createRoom",
     path: "/create-room",
     icon: <AddIcon />,
     requiresAuth: true,
@@ -76,6 +79,7 @@ const ResponsiveNavigation: React.FC = () => {
   const location = useLocation();
   const { user, logout } = useAuth();
   const { notifications } = useNotifications();
+  const { t } = useI18n();
 
   // Responsive breakpoints
   const isMobile = useMediaQuery(muiTheme.breakpoints.down("md"));
@@ -87,6 +91,7 @@ const ResponsiveNavigation: React.FC = () => {
     null
   );
   const [showScrollTop, setShowScrollTop] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
 
   // Handle scroll to top
   React.useEffect(() => {
@@ -182,7 +187,7 @@ const ResponsiveNavigation: React.FC = () => {
           </Typography>
           <IconButton
             onClick={() => setDrawerOpen(false)}
-            aria-label="Close menu"
+            aria-label={t("nav.closeMenu")}
             size="small"
             sx={{
               background: `linear-gradient(135deg, ${alpha(
@@ -227,23 +232,16 @@ const ResponsiveNavigation: React.FC = () => {
             }}
           >
             <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
-              <Avatar
-                src={user.avatar}
-                alt={user.username}
+              <UserAvatar
+                user={user}
+                size={56}
                 sx={{
-                  width: 56,
-                  height: 56,
-                  background: `linear-gradient(135deg, ${muiTheme.palette.primary.main} 0%, ${muiTheme.palette.secondary.main} 100%)`,
-                  fontSize: "1.5rem",
-                  fontWeight: 600,
                   boxShadow: `0 4px 12px ${alpha(
                     muiTheme.palette.primary.main,
                     0.3
                   )}`,
                 }}
-              >
-                {user.username.charAt(0).toUpperCase()}
-              </Avatar>
+              />
               <Box>
                 <Typography variant="h6" sx={{ fontWeight: 700, mb: 0.5 }}>
                   {user.username}
@@ -324,7 +322,7 @@ const ResponsiveNavigation: React.FC = () => {
                 {item.icon}
               </ListItemIcon>
               <ListItemText
-                primary={item.label}
+                primary={t(item.label)}
                 primaryTypographyProps={{
                   fontWeight: location.pathname === item.path ? 700 : 600,
                   fontSize: "1rem",
@@ -372,7 +370,7 @@ const ResponsiveNavigation: React.FC = () => {
             variant="body1"
             sx={{ fontWeight: 600, color: muiTheme.palette.primary.main }}
           >
-            🌙 Theme
+            🌙 {t("nav.theme")}
           </Typography>
           <ThemeToggle />
         </Box>
@@ -428,14 +426,14 @@ const ResponsiveNavigation: React.FC = () => {
                   <AccountIcon />
                 </ListItemIcon>
                 <ListItemText
-                  primary="👤 Profile"
+                  primary={`👤 ${t("nav.profile")}`}
                   primaryTypographyProps={{ fontWeight: 600, fontSize: "1rem" }}
                 />
               </ListItem>
               <ListItem
                 button
                 onClick={() => {
-                  handleNavigation("/settings");
+                  setPreferencesOpen(true);
                   setDrawerOpen(false);
                 }}
                 sx={{
@@ -473,7 +471,7 @@ const ResponsiveNavigation: React.FC = () => {
                   <SettingsIcon />
                 </ListItemIcon>
                 <ListItemText
-                  primary="⚙️ Settings"
+                  primary={`⚙️ ${t("nav.settings")}`}
                   primaryTypographyProps={{ fontWeight: 600, fontSize: "1rem" }}
                 />
               </ListItem>
@@ -511,7 +509,7 @@ const ResponsiveNavigation: React.FC = () => {
                   <LogoutIcon />
                 </ListItemIcon>
                 <ListItemText
-                  primary="🚪 Logout"
+                  primary={`🚪 ${t("nav.logout")}`}
                   primaryTypographyProps={{
                     fontWeight: 600,
                     fontSize: "1rem",
@@ -572,7 +570,7 @@ const ResponsiveNavigation: React.FC = () => {
               key={item.path}
               variant={location.pathname === item.path ? "contained" : "text"}
               onClick={() => handleNavigation(item.path)}
-              ariaLabel={`Navigate to ${item.label}`}
+              ariaLabel={t("nav.navigateTo", { label: t(item.label) })}
               sx={{
                 borderRadius: 2,
                 px: 2,
@@ -580,7 +578,7 @@ const ResponsiveNavigation: React.FC = () => {
                 minWidth: "auto",
               }}
             >
-              {item.label}
+              {t(item.label)}
             </AccessibleButton>
           ))}
         </Box>
@@ -592,7 +590,7 @@ const ResponsiveNavigation: React.FC = () => {
             <AccessibleButton
               variant="text"
               onClick={() => handleNavigation("/notifications")}
-              ariaLabel="View notifications"
+              ariaLabel={t("nav.notifications")}
               sx={{ minWidth: "auto", p: 1 }}
             >
               <Badge badgeContent={unreadCount} color="error">
@@ -609,16 +607,10 @@ const ResponsiveNavigation: React.FC = () => {
             <>
               <IconButton
                 onClick={handleUserMenuOpen}
-                aria-label="User menu"
+                aria-label={t("nav.userMenu")}
                 sx={{ ml: 1 }}
               >
-                <Avatar
-                  src={user.avatar}
-                  alt={user.username}
-                  sx={{ width: 32, height: 32 }}
-                >
-                  {user.username.charAt(0).toUpperCase()}
-                </Avatar>
+                <UserAvatar user={user} size={32} />
               </IconButton>
               <Menu
                 anchorEl={userMenuAnchor}
@@ -650,25 +642,25 @@ const ResponsiveNavigation: React.FC = () => {
                   <ListItemIcon>
                     <AccountIcon fontSize="small" />
                   </ListItemIcon>
-                  Profile
+                  {t("nav.profile")}
                 </MenuItem>
                 <MenuItem
                   onClick={() => {
-                    handleNavigation("/settings");
+                    setPreferencesOpen(true);
                     handleUserMenuClose();
                   }}
                 >
                   <ListItemIcon>
                     <SettingsIcon fontSize="small" />
                   </ListItemIcon>
-                  Settings
+                  {t("nav.settings")}
                 </MenuItem>
                 <Divider />
                 <MenuItem onClick={handleLogout}>
                   <ListItemIcon>
                     <LogoutIcon fontSize="small" />
                   </ListItemIcon>
-                  Logout
+                  {t("nav.logout")}
                 </MenuItem>
               </Menu>
             </>
@@ -676,10 +668,10 @@ const ResponsiveNavigation: React.FC = () => {
             <AccessibleButton
               variant="contained"
               onClick={() => navigate("/login")}
-              ariaLabel="Login"
+              ariaLabel={t("nav.login")}
               sx={{ ml: 2 }}
             >
-              Login
+              {t("nav.login")}
             </AccessibleButton>
           )}
         </Box>
@@ -693,7 +685,7 @@ const ResponsiveNavigation: React.FC = () => {
       {isMobile && (
         <IconButton
           onClick={() => setDrawerOpen(true)}
-          aria-label="Open menu"
+          aria-label={t("nav.openMenu")}
           sx={{
             position: "fixed",
             top: 16,
@@ -730,7 +722,7 @@ const ResponsiveNavigation: React.FC = () => {
       {showScrollTop && (
         <Fab
           color="primary"
-          aria-label="Scroll to top"
+          aria-label={t("nav.scrollToTop")}
           onClick={handleScrollToTop}
           sx={{
             position: "fixed",
@@ -757,6 +749,13 @@ const ResponsiveNavigation: React.FC = () => {
           <ArrowUpIcon />
         </Fab>
       )}
+
+      {user && (
+        <UserPreferences
+          open={preferencesOpen}
+          onClose={() => setPreferencesOpen(false)}
+        />
+      )}
     </>
   );
 };
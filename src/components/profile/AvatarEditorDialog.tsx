@@ -0,0 +1,266 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Slider,
+  Stack,
+  Typography,
+} from "@mui/material";
+import {
+  ZoomIn as ZoomInIcon,
+  ZoomOut as ZoomOutIcon,
+} from "@mui/icons-material";
+import DragDropUpload from "../common/DragDropUpload";
+import { useAuth } from "../../contexts/AuthContext";
+import { useI18n } from "../../contexts/I18nContext";
+import { fileTypes } from "../../utils/attachments";
+import {
+  CROP_VIEWPORT,
+  CropState,
+  MAX_ZOOM,
+  centerCrop,
+  clampCrop,
+  drawCrop,
+  renderAvatarImages,
+  zoomCrop,
+} from "../../utils/avatar";
+
+interface AvatarEditorDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const MAX_SOURCE_SIZE = 10 * 1024 * 1024;
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("That file isn't a readable image"));
+    image.src = url;
+  });
+
+/**
+ * Pick a photo, then drag and zoom it into the circle. The crop is resized
+ * in the browser to every avatar size, so only small images are uploaded.
+ */
+const AvatarEditorDialog: React.FC<AvatarEditorDialogProps> = ({
+  open,
+  onClose,
+}) => {
+  const { uploadAvatar } = useAuth();
+  const { t } = useI18n();
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<CropState>({ x: 0, y: 0, zoom: 1 });
+  const [saving, setSaving] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Pointer position and crop when a drag started
+  const dragRef = useRef<{ x: number; y: number; crop: CropState } | null>(
+    null
+  );
+
+  const reset = useCallback(() => {
+    setSourceUrl(null);
+    setImage(null);
+    setError(null);
+    setProgress(0);
+  }, []);
+
+  useEffect(() => {
+    if (open) reset();
+  }, [open, reset]);
+
+  // Free the picked file once it is replaced or the dialog closes
+  useEffect(() => {
+    if (!sourceUrl) return;
+    return () => URL.revokeObjectURL(sourceUrl);
+  }, [sourceUrl]);
+
+  useEffect(() => {
+    if (!image || !canvasRef.current) return;
+    drawCrop(
+      canvasRef.current,
+      image,
+      crop,
+      CROP_VIEWPORT * (window.devicePixelRatio || 1)
+    );
+  }, [image, crop]);
+
+  const handleFilesSelect = async (files: File[]) => {
+    const file = files[0];
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setSourceUrl(url);
+    setError(null);
+    try {
+      const loaded = await loadImage(url);
+      setImage(loaded);
+      setCrop(centerCrop(loaded));
+    } catch {
+      setError(t("avatarEditor.unreadable"));
+      setSourceUrl(null);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragRef.current;
+    if (!start || !image) return;
+    setCrop(
+      clampCrop(image, {
+        ...start.crop,
+        x: start.crop.x + e.clientX - start.x,
+        y: start.crop.y + e.clientY - start.y,
+      })
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleZoom = (zoom: number) => {
+    if (image) setCrop((prev) => zoomCrop(image, prev, zoom));
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    handleZoom(Math.min(Math.max(crop.zoom - e.deltaY * 0.002, 1), MAX_ZOOM));
+  };
+
+  const handleSave = async () => {
+    if (!image) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const images = await renderAvatarImages(image, crop);
+      await uploadAvatar(images, setProgress);
+      onClose();
+    } catch (err: any) {
+      setError(
+        err.response?.data?.message ||
+          err.message ||
+          t("avatarEditor.saveFailed")
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={() => !saving && onClose()}
+      maxWidth="xs"
+      fullWidth
+    >
+      <DialogTitle>{t("avatarEditor.title")}</DialogTitle>
+      <DialogContent>
+        {!image ? (
+          <DragDropUpload
+            compact
+            multiple={false}
+            maxFiles={1}
+            maxFileSize={MAX_SOURCE_SIZE}
+            acceptedTypes={fileTypes.image}
+            onFilesSelect={handleFilesSelect}
+            uploadText={t("avatarEditor.drop")}
+          />
+        ) : (
+          <Stack alignItems="center" spacing={2}>
+            <Box
+              sx={{
+                width: CROP_VIEWPORT,
+                height: CROP_VIEWPORT,
+                borderRadius: "50%",
+                overflow: "hidden",
+                boxShadow: 3,
+                touchAction: "none",
+              }}
+            >
+              <canvas
+                ref={canvasRef}
+                aria-label={t("avatarEditor.cropLabel")}
+                style={{
+                  width: CROP_VIEWPORT,
+                  height: CROP_VIEWPORT,
+                  cursor: "grab",
+                  display: "block",
+                }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onWheel={handleWheel}
+              />
+            </Box>
+            <Typography variant="caption" color="text.secondary">
+              {t("avatarEditor.cropHint")}
+            </Typography>
+            <Stack
+              direction="row"
+              spacing={2}
+              alignItems="center"
+              sx={{ width: "100%" }}
+            >
+              <ZoomOutIcon color="action" />
+              <Slider
+                value={crop.zoom}
+                min={1}
+                max={MAX_ZOOM}
+                step={0.01}
+                onChange={(_, value) => handleZoom(value as number)}
+                aria-label={t("avatarEditor.zoom")}
+                disabled={saving}
+              />
+              <ZoomInIcon color="action" />
+            </Stack>
+          </Stack>
+        )}
+        {saving && (
+          <LinearProgress
+            variant={progress ? "determinate" : "indeterminate"}
+            value={progress}
+            sx={{ mt: 2 }}
+          />
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {image && (
+          <Button onClick={reset} disabled={saving} sx={{ mr: "auto" }}>
+            {t("avatarEditor.chooseAnother")}
+          </Button>
+        )}
+        <Button onClick={onClose} disabled={saving}>
+          {t("avatarEditor.cancel")}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!image || saving}
+        >
+          {saving ? t("avatarEditor.saving") : t("avatarEditor.save")}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AvatarEditorDialog;
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  InputAdornment,
+  Stack,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import {
+  ContentCopy as CopyIcon,
+  Refresh as ResetIcon,
+} from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
+import { useRoom } from "../../contexts/RoomContext";
+import { errorMessage } from "../../utils/errors";
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Calendar apps open webcal:// links as a subscription rather than a download
+const toWebcalUrl = (url: string) => url.replace(/^https?:\/\//, "webcal://");
+
+/**
+ * Shows the user's private calendar feed, which calendar apps can subscribe
+ * to so rooms, reschedules and cancellations show up without re-importing.
+ */
+const CalendarFeedDialog: React.FC<CalendarFeedDialogProps> = ({
+  open,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const { getCalendarFeedUrl, resetCalendarFeedUrl } = useRoom();
+  const [url, setUrl] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    setBusy(true);
+    setError(null);
+    getCalendarFeedUrl()
+      .then((feedUrl) => {
+        if (!cancelled) setUrl(feedUrl);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(errorMessage(err, t("calendarFeed.loadFailed")));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setBusy(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, getCalendarFeedUrl, t]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError(t("calendarFeed.copyFailed"));
+    }
+  };
+
+  const handleReset = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setUrl(await resetCalendarFeedUrl());
+    } catch (err) {
+      setError(errorMessage(err, t("calendarFeed.resetFailed")));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{t("calendarFeed.title")}</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {t("calendarFeed.intro")}
+        </DialogContentText>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Stack spacing={2}>
+          <TextField
+            label={t("calendarFeed.url")}
+            value={url}
+            fullWidth
+            InputProps={{
+              readOnly: true,
+              endAdornment: (
+                <InputAdornment position="end">
+                  {busy ? (
+                    <CircularProgress size={20} />
+                  ) : (
+                    <Tooltip
+                      title={
+                        copied
+                          ? t("calendarFeed.copied")
+                          : t("calendarFeed.copy")
+                      }
+                    >
+                      <span>
+                        <IconButton
+                          onClick={handleCopy}
+                          disabled={!url}
+                          aria-label={t("calendarFeed.copyLabel")}
+                        >
+                          <CopyIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  )}
+                </InputAdornment>
+              ),
+            }}
+            onFocus={(e) => e.target.select()}
+          />
+          <Alert severity="warning">{t("calendarFeed.warning")}</Alert>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          startIcon={<ResetIcon />}
+          color="warning"
+          onClick={handleReset}
+          disabled={busy}
+          sx={{ mr: "auto" }}
+        >
+          {t("calendarFeed.reset")}
+        </Button>
+        <Button onClick={onClose}>{t("calendarFeed.close")}</Button>
+        <Button
+          variant="contained"
+          href={url ? toWebcalUrl(url) : undefined}
+          disabled={!url || busy}
+        >
+          {t("calendarFeed.open")}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CalendarFeedDialog;
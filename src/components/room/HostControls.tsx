@@ -0,0 +1,577 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Radio,
+  RadioGroup,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { alpha, useTheme } from "@mui/material/styles";
+import {
+  Block as CancelIcon,
+  DeleteOutline as DeleteIcon,
+  Edit as EditIcon,
+  Event as RescheduleIcon,
+  Repeat as RepeatIcon,
+  Settings as SettingsIcon,
+  StopCircle as EndIcon,
+} from "@mui/icons-material";
+import { format } from "date-fns";
+import { useI18n } from "../../contexts/I18nContext";
+import { useDateFormat } from "../../contexts/PreferencesContext";
+import { useRoom } from "../../contexts/RoomContext";
+import { Room, RoomStatus, RoomType, SeriesEditScope } from "../../types";
+import { errorMessage } from "../../utils/errors";
+import { describeRecurrence } from "../../utils/recurrence";
+
+interface HostControlsProps {
+  room: Room;
+  // Called after the room has been deleted, e.g. to leave the page
+  onDeleted: () => void;
+}
+
+type ConfirmAction = "end" | "cancel" | "delete";
+
+// Value for a datetime-local input, in the browser's time zone
+const toDateTimeInput = (value: string | Date) =>
+  format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+interface SeriesScopeFieldProps {
+  value: SeriesEditScope;
+  onChange: (scope: SeriesEditScope) => void;
+  disabled?: boolean;
+}
+
+// Asks whether a change to a recurring room applies to it alone or to the
+// rest of its series
+const SeriesScopeField: React.FC<SeriesScopeFieldProps> = ({
+  value,
+  onChange,
+  disabled,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <FormControl disabled={disabled} sx={{ mt: 2 }}>
+      <FormLabel id="series-scope-label">{t("hostControls.scope")}</FormLabel>
+      <RadioGroup
+        aria-labelledby="series-scope-label"
+        value={value}
+        onChange={(e) => onChange(e.target.value as SeriesEditScope)}
+      >
+        <FormControlLabel
+          value="occurrence"
+          control={<Radio size="small" />}
+          label={t("hostControls.scope.occurrence")}
+        />
+        <FormControlLabel
+          value="series"
+          control={<Radio size="small" />}
+          label={t("hostControls.scope.series")}
+        />
+      </RadioGroup>
+    </FormControl>
+  );
+};
+
+/**
+ * Host-only panel for changing a room after it was created: edit details,
+ * reschedule, end a live room early, cancel a scheduled one, or delete it.
+ * Rooms in a recurring series can be changed alone or with the rest of the
+ * series.
+ */
+const HostControls: React.FC<HostControlsProps> = ({ room, onDeleted }) => {
+  const theme = useTheme();
+  const { t } = useI18n();
+  const { locale } = useDateFormat();
+  const { updateRoom, rescheduleRoom, endRoom, cancelRoom, deleteRoom } =
+    useRoom();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editOpen, setEditOpen] = useState(false);
+  const [details, setDetails] = useState({
+    title: "",
+    description: "",
+    roomType: RoomType.PUBLIC,
+    maxParticipants: "",
+    tags: "",
+  });
+
+  const [rescheduleOpen, setRescheduleOpen] = useState(false);
+  const [schedule, setSchedule] = useState({ startTime: "", endTime: "" });
+  const [scheduleError, setScheduleError] = useState("");
+
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(
+    null
+  );
+  const [cancelReason, setCancelReason] = useState("");
+
+  // Reset to a single occurrence each time a dialog opens
+  const [scope, setScope] = useState<SeriesEditScope>("occurrence");
+  const isRecurring = !!room.seriesId;
+
+  const isScheduled = room.status === RoomStatus.SCHEDULED;
+  const isLive = room.status === RoomStatus.LIVE;
+  const isOver = !isScheduled && !isLive;
+
+  // Run an action, keeping the panel's error and busy state in step
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openEdit = () => {
+    setDetails({
+      title: room.title,
+      description: room.description,
+      roomType: room.roomType,
+      maxParticipants: room.maxParticipants ? String(room.maxParticipants) : "",
+      tags: (room.tags || []).join(", "),
+    });
+    setScope("occurrence");
+    setEditOpen(true);
+  };
+
+  const handleSaveDetails = async () => {
+    const maxParticipants = parseInt(details.maxParticipants, 10);
+    const saved = await run(
+      () =>
+        updateRoom(
+          room._id,
+          {
+            title: details.title.trim(),
+            description: details.description.trim(),
+            roomType: details.roomType,
+            maxParticipants: maxParticipants > 0 ? maxParticipants : undefined,
+            tags: details.tags
+              .split(",")
+              .map((tag) => tag.trim())
+              .filter(Boolean),
+          },
+          scope
+        ),
+      t("hostControls.updateFailed")
+    );
+    if (saved) setEditOpen(false);
+  };
+
+  const openReschedule = () => {
+    setSchedule({
+      startTime: toDateTimeInput(room.startTime),
+      endTime: toDateTimeInput(room.endTime),
+    });
+    setScheduleError("");
+    setScope("occurrence");
+    setRescheduleOpen(true);
+  };
+
+  const handleSaveSchedule = async () => {
+    const startTime = new Date(schedule.startTime);
+    const endTime = new Date(schedule.endTime);
+
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime())) {
+      setScheduleError(t("hostControls.timesRequired"));
+      return;
+    }
+    if (startTime >= endTime) {
+      setScheduleError(t("hostControls.endBeforeStart"));
+      return;
+    }
+    if (endTime <= new Date()) {
+      setScheduleError(t("hostControls.endInPast"));
+      return;
+    }
+
+    const saved = await run(
+      () => rescheduleRoom(room._id, { startTime, endTime }, scope),
+      t("hostControls.rescheduleFailed")
+    );
+    if (saved) setRescheduleOpen(false);
+  };
+
+  const handleConfirm = async () => {
+    const action = confirmAction;
+    if (!action) return;
+
+    const done =
+      action === "end"
+        ? await run(() => endRoom(room._id), t("hostControls.endFailed"))
+        : action === "cancel"
+        ? await run(
+            () => cancelRoom(room._id, cancelReason.trim() || undefined, scope),
+            t("hostControls.cancelFailed")
+          )
+        : await run(
+            () => deleteRoom(room._id, scope),
+            t("hostControls.deleteFailed")
+          );
+
+    if (done) {
+      setConfirmAction(null);
+      setCancelReason("");
+      if (action === "delete") onDeleted();
+    }
+  };
+
+  const openConfirm = (action: ConfirmAction) => {
+    setScope("occurrence");
+    setConfirmAction(action);
+  };
+
+  const confirmCopy: Record<
+    ConfirmAction,
+    { title: string; body: string; label: string }
+  > = {
+    end: {
+      title: t("hostControls.end.title"),
+      body: t("hostControls.end.body"),
+      label: t("hostControls.end.confirm"),
+    },
+    cancel: {
+      title: t("hostControls.cancel.title"),
+      body: t("hostControls.cancel.body"),
+      label: t("hostControls.cancel.confirm"),
+    },
+    delete: {
+      title: t("hostControls.delete.title"),
+      body: t("hostControls.delete.body"),
+      label: t("hostControls.delete.confirm"),
+    },
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 2,
+        mb: 3,
+        borderRadius: 3,
+        border: `1px solid ${alpha(theme.palette.secondary.main, 0.3)}`,
+        background: alpha(theme.palette.secondary.main, 0.04),
+      }}
+    >
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1.5 }}>
+        <SettingsIcon color="secondary" fontSize="small" />
+        <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+          {t("hostControls.title")}
+        </Typography>
+        {room.recurrence && (
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{ display: "flex", alignItems: "center", gap: 0.5, ml: 1 }}
+          >
+            <RepeatIcon fontSize="inherit" />
+            {describeRecurrence(room.recurrence, t, locale)}
+          </Typography>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<EditIcon />}
+          onClick={openEdit}
+          disabled={busy || isOver}
+        >
+          {t("hostControls.editDetails")}
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<RescheduleIcon />}
+          onClick={openReschedule}
+          disabled={busy || isOver}
+        >
+          {isLive
+            ? t("hostControls.changeEndTime")
+            : t("hostControls.reschedule")}
+        </Button>
+        {isLive && (
+          <Button
+            size="small"
+            variant="outlined"
+            color="warning"
+            startIcon={<EndIcon />}
+            onClick={() => openConfirm("end")}
+            disabled={busy}
+          >
+            {t("hostControls.endNow")}
+          </Button>
+        )}
+        {isScheduled && (
+          <Button
+            size="small"
+            variant="outlined"
+            color="warning"
+            startIcon={<CancelIcon />}
+            onClick={() => openConfirm("cancel")}
+            disabled={busy}
+          >
+            {t("hostControls.cancelRoom")}
+          </Button>
+        )}
+        <Button
+          size="small"
+          variant="outlined"
+          color="error"
+          startIcon={<DeleteIcon />}
+          onClick={() => openConfirm("delete")}
+          disabled={busy}
+        >
+          {t("hostControls.delete")}
+        </Button>
+      </Stack>
+
+      {/* Edit details */}
+      <Dialog
+        open={editOpen}
+        onClose={() => !busy && setEditOpen(false)}
+        fullWidth
+        maxWidth="sm"
+      >
+        <DialogTitle>{t("hostControls.editTitle")}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              label={t("hostControls.roomTitle")}
+              value={details.title}
+              onChange={(e) =>
+                setDetails({ ...details, title: e.target.value })
+              }
+              required
+              fullWidth
+            />
+            <TextField
+              label={t("hostControls.description")}
+              value={details.description}
+              onChange={(e) =>
+                setDetails({ ...details, description: e.target.value })
+              }
+              required
+              fullWidth
+              multiline
+              minRows={3}
+            />
+            <FormControl fullWidth>
+              <InputLabel id="host-room-type-label">
+                {t("hostControls.roomType")}
+              </InputLabel>
+              <Select
+                labelId="host-room-type-label"
+                label={t("hostControls.roomType")}
+                value={details.roomType}
+                onChange={(e) =>
+                  setDetails({
+                    ...details,
+                    roomType: e.target.value as RoomType,
+                  })
+                }
+              >
+                <MenuItem value={RoomType.PUBLIC}>
+                  🌍 {t("room.type", { type: RoomType.PUBLIC })}
+                </MenuItem>
+                <MenuItem value={RoomType.PRIVATE}>
+                  🔒 {t("room.type", { type: RoomType.PRIVATE })}
+                </MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              label={t("hostControls.maxParticipants")}
+              type="number"
+              value={details.maxParticipants}
+              onChange={(e) =>
+                setDetails({ ...details, maxParticipants: e.target.value })
+              }
+              helperText={t("hostControls.maxParticipantsHelp")}
+              inputProps={{ min: 1 }}
+              fullWidth
+            />
+            <TextField
+              label={t("hostControls.tags")}
+              value={details.tags}
+              onChange={(e) => setDetails({ ...details, tags: e.target.value })}
+              helperText={t("hostControls.tagsHelp")}
+              fullWidth
+            />
+          </Stack>
+          {isRecurring && (
+            <SeriesScopeField
+              value={scope}
+              onChange={setScope}
+              disabled={busy}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditOpen(false)} disabled={busy}>
+            {t("hostControls.dialogCancel")}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSaveDetails}
+            disabled={
+              busy || !details.title.trim() || !details.description.trim()
+            }
+          >
+            {t("hostControls.save")}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Reschedule */}
+      <Dialog
+        open={rescheduleOpen}
+        onClose={() => !busy && setRescheduleOpen(false)}
+        fullWidth
+        maxWidth="xs"
+      >
+        <DialogTitle>
+          {isLive
+            ? t("hostControls.changeEndTime")
+            : t("hostControls.rescheduleTitle")}
+        </DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              label={t("hostControls.startTime")}
+              type="datetime-local"
+              value={schedule.startTime}
+              onChange={(e) => {
+                setSchedule({ ...schedule, startTime: e.target.value });
+                setScheduleError("");
+              }}
+              // A live room has already started
+              disabled={isLive}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+            <TextField
+              label={t("hostControls.endTime")}
+              type="datetime-local"
+              value={schedule.endTime}
+              onChange={(e) => {
+                setSchedule({ ...schedule, endTime: e.target.value });
+                setScheduleError("");
+              }}
+              error={!!scheduleError}
+              helperText={scheduleError}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+          </Stack>
+          {isRecurring && !isLive && (
+            <>
+              <SeriesScopeField
+                value={scope}
+                onChange={setScope}
+                disabled={busy}
+              />
+              {scope === "series" && (
+                <DialogContentText variant="body2">
+                  {t("hostControls.seriesShift")}
+                </DialogContentText>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRescheduleOpen(false)} disabled={busy}>
+            {t("hostControls.dialogCancel")}
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSaveSchedule}
+            disabled={busy}
+          >
+            {t("hostControls.save")}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* End, cancel and delete confirmation */}
+      <Dialog
+        open={!!confirmAction}
+        onClose={() => !busy && setConfirmAction(null)}
+        maxWidth="xs"
+        fullWidth
+      >
+        {confirmAction && (
+          <>
+            <DialogTitle>{confirmCopy[confirmAction].title}</DialogTitle>
+            <DialogContent>
+              <DialogContentText>
+                {confirmCopy[confirmAction].body}
+              </DialogContentText>
+              {confirmAction === "cancel" && (
+                <TextField
+                  label={t("hostControls.cancelReason")}
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  fullWidth
+                  multiline
+                  minRows={2}
+                  sx={{ mt: 2 }}
+                />
+              )}
+              {isRecurring && confirmAction !== "end" && (
+                <SeriesScopeField
+                  value={scope}
+                  onChange={setScope}
+                  disabled={busy}
+                />
+              )}
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setConfirmAction(null)} disabled={busy}>
+                {t("hostControls.keepRoom")}
+              </Button>
+              <Button
+                variant="contained"
+                color={confirmAction === "delete" ? "error" : "warning"}
+                onClick={handleConfirm}
+                disabled={busy}
+              >
+                {confirmCopy[confirmAction].label}
+              </Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default HostControls;
@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Autocomplete,
+  Avatar,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  ListItemAvatar,
+  ListItemText,
+  TextField,
+} from "@mui/material";
+import {
+  MailOutline as EmailIcon,
+  PersonAdd as PersonAddIcon,
+} from "@mui/icons-material";
+import { useAuth } from "../../contexts/AuthContext";
+import { useI18n } from "../../contexts/I18nContext";
+import { useInvites } from "../../contexts/InviteContext";
+import { Room, UserSummary } from "../../types";
+
+interface InviteDialogProps {
+  room: Room;
+  open: boolean;
+  onClose: () => void;
+}
+
+// A user picked from search, or an address for someone without an account
+type InviteTarget =
+  | { kind: "user"; user: UserSummary }
+  | { kind: "email"; email: string };
+
+const SEARCH_DELAY_MS = 250;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const targetKey = (target: InviteTarget) =>
+  target.kind === "user" ? `user:${target.user.id}` : `email:${target.email}`;
+
+const targetLabel = (target: InviteTarget | string) =>
+  typeof target === "string"
+    ? target
+    : target.kind === "user"
+    ? target.user.username
+    : target.email;
+
+/**
+ * Invites people to a room. Usernames are picked from search results, so
+ * only existing users can be chosen; anything that looks like an email
+ * address becomes a sign-up invite instead.
+ */
+const InviteDialog: React.FC<InviteDialogProps> = ({ room, open, onClose }) => {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const { searchUsers, sendInvites } = useInvites();
+  const [targets, setTargets] = useState<InviteTarget[]>([]);
+  const [input, setInput] = useState("");
+  const [options, setOptions] = useState<InviteTarget[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setTargets([]);
+    setInput("");
+    setOptions([]);
+    setError(null);
+  }, [open]);
+
+  // Search as the host types, ignoring answers to older queries
+  useEffect(() => {
+    const query = input.trim();
+    if (!open || !query || query.includes("@")) {
+      setOptions([]);
+      setSearching(false);
+      return;
+    }
+
+    let active = true;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      searchUsers(query)
+        .then((users) => {
+          if (!active) return;
+          setOptions(
+            users
+              .filter((found) => found.id !== user?.id)
+              .map((found) => ({ kind: "user" as const, user: found }))
+          );
+        })
+        .catch(() => active && setOptions([]))
+        .finally(() => active && setSearching(false));
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [input, open, searchUsers, user?.id]);
+
+  // Typed entries have to be an email address or match a search result
+  const resolveTyped = (text: string): InviteTarget | null => {
+    const value = text.trim();
+    if (EMAIL_PATTERN.test(value)) {
+      return { kind: "email", email: value.toLowerCase() };
+    }
+    const match = options.find(
+      (option) =>
+        option.kind === "user" &&
+        option.user.username.toLowerCase() === value.toLowerCase()
+    );
+    if (match) return match;
+    setError(
+      value === user?.username
+        ? t("invite.self")
+        : t("invite.noUser", { name: value })
+    );
+    return null;
+  };
+
+  const handleChange = (values: (InviteTarget | string)[]) => {
+    setError(null);
+    const next: InviteTarget[] = [];
+    values.forEach((value) => {
+      const target = typeof value === "string" ? resolveTyped(value) : value;
+      if (
+        target &&
+        !next.some((existing) => targetKey(existing) === targetKey(target))
+      ) {
+        next.push(target);
+      }
+    });
+    setTargets(next);
+  };
+
+  const handleSend = async () => {
+    if (targets.length === 0) return;
+    setSending(true);
+    setError(null);
+    try {
+      await sendInvites(room._id, {
+        usernames: targets.flatMap((target) =>
+          target.kind === "user" ? [target.user.username] : []
+        ),
+        emails: targets.flatMap((target) =>
+          target.kind === "email" ? [target.email] : []
+        ),
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.response?.data?.message || t("invite.sendFailed"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={() => !sending && onClose()}
+      fullWidth
+      maxWidth="sm"
+    >
+      <DialogTitle sx={{ display: "flex", alignItems: "center" }}>
+        <PersonAddIcon sx={{ mr: 1, color: "secondary.main" }} />
+        {t("invite.title", { title: room.title })}
+      </DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {t("invite.intro", { type: room.roomType })}
+        </DialogContentText>
+        <Autocomplete<InviteTarget, true, false, true>
+          multiple
+          freeSolo
+          filterSelectedOptions
+          options={options}
+          value={targets}
+          inputValue={input}
+          loading={searching}
+          disabled={sending}
+          filterOptions={(available) => available}
+          getOptionLabel={targetLabel}
+          isOptionEqualToValue={(option, value) =>
+            targetKey(option) === targetKey(value)
+          }
+          onInputChange={(_, value) => setInput(value)}
+          onChange={(_, values) => handleChange(values)}
+          renderOption={(props, option) =>
+            option.kind === "user" ? (
+              <li {...props} key={targetKey(option)}>
+                <ListItemAvatar>
+                  <Avatar src={option.user.avatar}>
+                    {option.user.username.charAt(0).toUpperCase()}
+                  </Avatar>
+                </ListItemAvatar>
+                <ListItemText primary={option.user.username} />
+              </li>
+            ) : null
+          }
+          renderTags={(value, getTagProps) =>
+            value.map((target, index) => (
+              <Chip
+                {...getTagProps({ index })}
+                key={targetKey(target)}
+                icon={target.kind === "email" ? <EmailIcon /> : undefined}
+                label={targetLabel(target)}
+                size="small"
+              />
+            ))
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              autoFocus
+              label={t("invite.people")}
+              placeholder={targets.length ? "" : t("invite.placeholder")}
+              helperText={
+                input.includes("@") ? t("invite.addEmail") : undefined
+              }
+              InputProps={{
+                ...params.InputProps,
+                endAdornment: (
+                  <>
+                    {searching && <CircularProgress size={18} />}
+                    {params.InputProps.endAdornment}
+                  </>
+                ),
+              }}
+            />
+          )}
+        />
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={sending}>
+          {t("invite.cancel")}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSend}
+          disabled={sending || targets.length === 0}
+        >
+          {sending
+            ? t("invite.sending")
+            : t("invite.send", { count: targets.length })}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default InviteDialog;
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  Avatar,
+  Box,
+  Chip,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemText,
+  Paper,
+  Snackbar,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import {
+  Block as RevokeIcon,
+  MailOutline as EmailIcon,
+  Send as ResendIcon,
+} from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
+import { useInvites } from "../../contexts/InviteContext";
+import { useDateFormat } from "../../contexts/PreferencesContext";
+import { InviteStatus, Room, RoomInvite } from "../../types";
+
+interface InviteListProps {
+  room: Room;
+}
+
+const STATUS_COLORS: Record<
+  InviteStatus,
+  "default" | "success" | "warning" | "error"
+> = {
+  [InviteStatus.PENDING]: "warning",
+  [InviteStatus.ACCEPTED]: "success",
+  [InviteStatus.DECLINED]: "error",
+  [InviteStatus.REVOKED]: "default",
+};
+
+/**
+ * The host's view of everyone invited to a room, with each invite's status
+ * and actions to revoke or resend it.
+ */
+const InviteList: React.FC<InviteListProps> = ({ room }) => {
+  const { roomInvites, fetchRoomInvites, revokeInvite, resendInvite } =
+    useInvites();
+  const { formatRelative } = useDateFormat();
+  const { t } = useI18n();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const invites = roomInvites[room._id] || [];
+
+  useEffect(() => {
+    fetchRoomInvites(room._id).catch((err) =>
+      console.error("Failed to fetch invites:", err)
+    );
+  }, [room._id, fetchRoomInvites]);
+
+  const run = async (
+    invite: RoomInvite,
+    action: (invite: RoomInvite) => Promise<void>,
+    success: string,
+    fallback: string
+  ) => {
+    setBusyId(invite._id);
+    try {
+      await action(invite);
+      setNotice(success);
+    } catch (err: any) {
+      setError(err.response?.data?.message || fallback);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (invites.length === 0) return null;
+
+  const pendingCount = invites.filter(
+    (invite) => invite.status === InviteStatus.PENDING
+  ).length;
+
+  return (
+    <Paper
+      elevation={2}
+      sx={{
+        p: 2,
+        mt: 2,
+        display: "flex",
+        flexDirection: "column",
+        borderRadius: 2,
+        border: "1px solid rgba(0, 0, 0, 0.05)",
+      }}
+    >
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h6" gutterBottom sx={{ mb: 0 }}>
+          {t("inviteList.title")}
+        </Typography>
+        <Tooltip title={t("inviteList.pending", { count: pendingCount })}>
+          <Chip
+            label={`${pendingCount}/${invites.length}`}
+            color="secondary"
+            size="small"
+            sx={{ borderRadius: "12px", fontWeight: "bold" }}
+          />
+        </Tooltip>
+      </Box>
+      <Divider sx={{ mb: 2 }} />
+
+      <List sx={{ overflow: "auto", maxHeight: 220 }}>
+        {invites.map((invite) => {
+          const name =
+            invite.invitee?.username || invite.email || t("inviteList.unknown");
+          // Declined invites can be sent again as a second chance
+          const canResend =
+            invite.status === InviteStatus.PENDING ||
+            invite.status === InviteStatus.DECLINED;
+          const canRevoke = invite.status === InviteStatus.PENDING;
+          const busy = busyId === invite._id;
+
+          return (
+            <ListItem
+              key={invite._id}
+              sx={{
+                borderRadius: 1,
+                mb: 0.5,
+                backgroundColor: "rgba(0, 0, 0, 0.01)",
+                opacity: invite.status === InviteStatus.REVOKED ? 0.6 : 1,
+              }}
+              secondaryAction={
+                <>
+                  {canResend && (
+                    <Tooltip title={t("inviteList.resend")}>
+                      <span>
+                        <IconButton
+                          size="small"
+                          disabled={busy}
+                          aria-label={t("inviteList.resendTo", { name })}
+                          onClick={() =>
+                            run(
+                              invite,
+                              resendInvite,
+                              t("inviteList.resent", { name }),
+                              t("inviteList.resendFailed")
+                            )
+                          }
+                        >
+                          <ResendIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  )}
+                  {canRevoke && (
+                    <Tooltip title={t("inviteList.revoke")}>
+                      <span>
+                        <IconButton
+                          size="small"
+                          edge="end"
+                          disabled={busy}
+                          aria-label={t("inviteList.revokeTo", { name })}
+                          onClick={() =>
+                            run(
+                              invite,
+                              revokeInvite,
+                              t("inviteList.revoked", { name }),
+                              t("inviteList.revokeFailed")
+                            )
+                          }
+                        >
+                          <RevokeIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  )}
+                </>
+              }
+            >
+              <ListItemAvatar>
+                <Avatar
+                  src={invite.invitee?.avatar}
+                  sx={{ bgcolor: "grey.300" }}
+                >
+                  {invite.invitee ? (
+                    name.charAt(0).toUpperCase()
+                  ) : (
+                    <EmailIcon fontSize="small" />
+                  )}
+                </Avatar>
+              </ListItemAvatar>
+              <ListItemText
+                primary={name}
+                primaryTypographyProps={{ noWrap: true }}
+                secondary={
+                  <Box
+                    component="span"
+                    sx={{ display: "flex", alignItems: "center", gap: 0.5 }}
+                  >
+                    <Chip
+                      component="span"
+                      label={
+                        !invite.invitee &&
+                        invite.status === InviteStatus.PENDING
+                          ? t("inviteList.awaitingSignUp")
+                          : t("inviteList.status", { status: invite.status })
+                      }
+                      color={STATUS_COLORS[invite.status]}
+                      size="small"
+                      variant="outlined"
+                      sx={{ height: 18, fontSize: "0.65rem" }}
+                    />
+                    <Typography
+                      component="span"
+                      variant="caption"
+                      color="text.secondary"
+                    >
+                      {formatRelative(invite.respondedAt || invite.sentAt)}
+                    </Typography>
+                  </Box>
+                }
+                sx={{ pr: canResend && canRevoke ? 8 : 4 }}
+              />
+            </ListItem>
+          );
+        })}
+      </List>
+
+      <Snackbar
+        open={!!notice}
+        autoHideDuration={3000}
+        onClose={() => setNotice(null)}
+        message={notice}
+      />
+      <Snackbar
+        open={!!error}
+        autoHideDuration={5000}
+        onClose={() => setError(null)}
+      >
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </Paper>
+  );
+};
+
+export default InviteList;
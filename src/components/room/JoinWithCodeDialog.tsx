@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  TextField,
+} from "@mui/material";
+import { useNavigate } from "react-router-dom";
+import { useI18n } from "../../contexts/I18nContext";
+
+interface JoinWithCodeDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Codes are shared by voice and on screens, so stray spaces are ignored
+export const normalizeRoomCode = (code: string) => code.replace(/\s+/g, "");
+
+/**
+ * Asks for a room code and hands it to the /join/:code route, which does the
+ * joining, so typed codes and invite links behave the same.
+ */
+const JoinWithCodeDialog: React.FC<JoinWithCodeDialogProps> = ({
+  open,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const [code, setCode] = useState("");
+
+  useEffect(() => {
+    if (open) setCode("");
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeRoomCode(code);
+    if (!normalized) return;
+    onClose();
+    navigate(`/join/${encodeURIComponent(normalized)}`);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{t("joinCode.title")}</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {t("joinCode.intro")}
+          </DialogContentText>
+          <TextField
+            autoFocus
+            fullWidth
+            label={t("joinCode.code")}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputProps={{
+              autoComplete: "off",
+              autoCapitalize: "characters",
+              spellCheck: false,
+              style: { fontFamily: "monospace", letterSpacing: 2 },
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>{t("joinCode.cancel")}</Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={!normalizeRoomCode(code)}
+          >
+            {t("joinCode.join")}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default JoinWithCodeDialog;
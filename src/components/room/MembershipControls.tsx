@@ -0,0 +1,167 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+} from "@mui/material";
+import { Logout as LeaveIcon } from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
+import { useRoom } from "../../contexts/RoomContext";
+import { Room } from "../../types";
+import {
+  formatCapacity,
+  getWaitlistPosition,
+  isParticipant,
+  isRoomFull,
+} from "../../utils/capacity";
+import { errorMessage } from "../../utils/errors";
+
+interface MembershipControlsProps {
+  room: Room;
+  userId: string;
+  // Called once the user has given up their place
+  onLeft: () => void;
+}
+
+/**
+ * Lets a participant give up their place, and lets anyone else queue for a
+ * full room. Places are handed out first come, first served.
+ */
+const MembershipControls: React.FC<MembershipControlsProps> = ({
+  room,
+  userId,
+  onLeft,
+}) => {
+  const { t } = useI18n();
+  const { withdrawFromRoom, joinWaitlist, leaveWaitlist } = useRoom();
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    const done = await run(
+      () => withdrawFromRoom(room._id),
+      t("membership.leaveFailed")
+    );
+    if (done) {
+      setConfirmOpen(false);
+      onLeft();
+    }
+  };
+
+  if (isParticipant(room, userId)) {
+    return (
+      <>
+        <Button
+          variant="outlined"
+          color="error"
+          startIcon={<LeaveIcon />}
+          onClick={() => setConfirmOpen(true)}
+          sx={{ borderRadius: "8px" }}
+        >
+          {t("membership.leaveRoom")}
+        </Button>
+        <Dialog
+          open={confirmOpen}
+          onClose={() => !busy && setConfirmOpen(false)}
+          maxWidth="xs"
+          fullWidth
+        >
+          <DialogTitle>
+            {t("membership.confirmTitle", { title: room.title })}
+          </DialogTitle>
+          <DialogContent>
+            <DialogContentText>
+              {isRoomFull(room)
+                ? t("membership.confirmFull")
+                : t("membership.confirmBody")}
+            </DialogContentText>
+            {error && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {error}
+              </Alert>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setConfirmOpen(false)} disabled={busy}>
+              {t("membership.stay")}
+            </Button>
+            <Button
+              variant="contained"
+              color="error"
+              onClick={handleLeave}
+              disabled={busy}
+            >
+              {t("membership.leave")}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </>
+    );
+  }
+
+  if (!isRoomFull(room)) return null;
+
+  const position = getWaitlistPosition(room, userId);
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Alert
+        severity={position ? "info" : "warning"}
+        sx={{ borderRadius: 2 }}
+        action={
+          <Button
+            color="inherit"
+            size="small"
+            disabled={busy}
+            onClick={() =>
+              position
+                ? run(
+                    () => leaveWaitlist(room._id),
+                    t("membership.leaveWaitlistFailed")
+                  )
+                : run(
+                    () => joinWaitlist(room._id),
+                    t("membership.joinWaitlistFailed")
+                  )
+            }
+          >
+            {position
+              ? t("membership.leaveWaitlist")
+              : t("membership.joinWaitlist")}
+          </Button>
+        }
+      >
+        {position
+          ? t("membership.waitlisted", { position })
+          : t("membership.full", { capacity: formatCapacity(room) })}
+      </Alert>
+      {error && (
+        <Alert severity="error" sx={{ mt: 1, borderRadius: 2 }}>
+          {error}
+        </Alert>
+      )}
+    </Box>
+  );
+};
+
+export default MembershipControls;
@@ -0,0 +1,280 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Snackbar,
+} from "@mui/material";
+import {
+  Block as BanIcon,
+  Check as CheckIcon,
+  MoreVert as MoreIcon,
+  PersonRemove as KickIcon,
+  VolumeOff as MuteIcon,
+  VolumeUp as UnmuteIcon,
+} from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
+import { useRoom } from "../../contexts/RoomContext";
+import { Room, RoomRole } from "../../types";
+import { errorMessage } from "../../utils/errors";
+import {
+  ASSIGNABLE_ROLES,
+  canAssignRoles,
+  canModerate,
+  getMemberRole,
+  isMuted,
+  outranks,
+} from "../../utils/roles";
+
+interface ModerationMenuProps {
+  room: Room;
+  member: { userId: string; username: string };
+  // Role of the signed-in user
+  actorRole: RoomRole;
+}
+
+type RemoveAction = "kick" | "ban";
+
+// Timed mutes offered in the menu, in minutes
+const MUTE_DURATIONS = [5, 60];
+
+/**
+ * Per-participant actions for the host, co-hosts and moderators: change
+ * role, mute, remove or ban. Renders nothing for members the user doesn't
+ * outrank.
+ */
+const ModerationMenu: React.FC<ModerationMenuProps> = ({
+  room,
+  member,
+  actorRole,
+}) => {
+  const { t } = useI18n();
+  const { setMemberRole, kickMember, banMember, muteMember, unmuteMember } =
+    useRoom();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [confirm, setConfirm] = useState<RemoveAction | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetRole = getMemberRole(room, member.userId);
+  if (!canModerate(actorRole) || !outranks(actorRole, targetRole)) {
+    return null;
+  }
+
+  const muted = isMuted(room, member.userId);
+  // Nobody can hand out a role as high as their own
+  const assignableRoles = canAssignRoles(actorRole)
+    ? ASSIGNABLE_ROLES.filter((role) => outranks(actorRole, role))
+    : [];
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setAnchorEl(null);
+    setBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const muteLabel = (minutes: number) =>
+    minutes % 60 === 0
+      ? t("moderation.muteHours", { count: minutes / 60 })
+      : t("moderation.muteMinutes", { count: minutes });
+
+  const handleRemove = async () => {
+    const action = confirm;
+    if (!action) return;
+    const done =
+      action === "ban"
+        ? await run(
+            () => banMember(room._id, member.userId),
+            t("moderation.banFailed")
+          )
+        : await run(
+            () => kickMember(room._id, member.userId),
+            t("moderation.kickFailed")
+          );
+    if (done) setConfirm(null);
+  };
+
+  return (
+    <>
+      <IconButton
+        size="small"
+        edge="end"
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={busy}
+        aria-label={t("moderation.menu", { name: member.username })}
+        aria-haspopup="menu"
+      >
+        <MoreIcon fontSize="small" />
+      </IconButton>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={!!anchorEl}
+        onClose={() => setAnchorEl(null)}
+      >
+        {assignableRoles.length > 0 && (
+          <ListSubheader>{t("moderation.role")}</ListSubheader>
+        )}
+        {assignableRoles.map((role) => (
+          <MenuItem
+            key={role}
+            selected={role === targetRole}
+            onClick={() =>
+              role !== targetRole &&
+              run(
+                () => setMemberRole(room._id, member.userId, role),
+                t("moderation.roleFailed")
+              )
+            }
+          >
+            <ListItemIcon>
+              {role === targetRole && <CheckIcon fontSize="small" />}
+            </ListItemIcon>
+            <ListItemText>{t("room.role", { role })}</ListItemText>
+          </MenuItem>
+        ))}
+        {assignableRoles.length > 0 && <Divider />}
+
+        {muted ? (
+          <MenuItem
+            onClick={() =>
+              run(
+                () => unmuteMember(room._id, member.userId),
+                t("moderation.unmuteFailed")
+              )
+            }
+          >
+            <ListItemIcon>
+              <UnmuteIcon fontSize="small" />
+            </ListItemIcon>
+            <ListItemText>{t("moderation.unmute")}</ListItemText>
+          </MenuItem>
+        ) : (
+          [
+            ...MUTE_DURATIONS.map((minutes) => (
+              <MenuItem
+                key={minutes}
+                onClick={() =>
+                  run(
+                    () => muteMember(room._id, member.userId, minutes),
+                    t("moderation.muteFailed")
+                  )
+                }
+              >
+                <ListItemIcon>
+                  <MuteIcon fontSize="small" />
+                </ListItemIcon>
+                <ListItemText>{muteLabel(minutes)}</ListItemText>
+              </MenuItem>
+            )),
+            <MenuItem
+              key="indefinite"
+              onClick={() =>
+                run(
+                  () => muteMember(room._id, member.userId),
+                  t("moderation.muteFailed")
+                )
+              }
+            >
+              <ListItemIcon>
+                <MuteIcon fontSize="small" />
+              </ListItemIcon>
+              <ListItemText>{t("moderation.muteIndefinitely")}</ListItemText>
+            </MenuItem>,
+          ]
+        )}
+        <Divider />
+
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null);
+            setConfirm("kick");
+          }}
+        >
+          <ListItemIcon>
+            <KickIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>{t("moderation.kick")}</ListItemText>
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null);
+            setConfirm("ban");
+          }}
+          sx={{ color: "error.main" }}
+        >
+          <ListItemIcon>
+            <BanIcon fontSize="small" color="error" />
+          </ListItemIcon>
+          <ListItemText>{t("moderation.ban")}</ListItemText>
+        </MenuItem>
+      </Menu>
+
+      <Dialog
+        open={!!confirm}
+        onClose={() => !busy && setConfirm(null)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>
+          {confirm === "ban"
+            ? t("moderation.banTitle", { name: member.username })
+            : t("moderation.kickTitle", { name: member.username })}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {confirm === "ban"
+              ? t("moderation.banBody")
+              : t("moderation.kickBody")}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirm(null)} disabled={busy}>
+            {t("moderation.cancel")}
+          </Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleRemove}
+            disabled={busy}
+          >
+            {confirm === "ban"
+              ? t("moderation.banConfirm")
+              : t("moderation.kickConfirm")}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Snackbar
+        open={!!error}
+        autoHideDuration={5000}
+        onClose={() => setError(null)}
+      >
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default ModerationMenu;
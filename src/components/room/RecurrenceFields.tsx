@@ -0,0 +1,267 @@
+import React from "react";
+import {
+  Box,
+  FormControl,
+  FormControlLabel,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import { alpha, useTheme } from "@mui/material/styles";
+import { Repeat as RepeatIcon } from "@mui/icons-material";
+import { addWeeks, endOfDay, format, parseISO } from "date-fns";
+import { useI18n } from "../../contexts/I18nContext";
+import { useDateFormat } from "../../contexts/PreferencesContext";
+import { RecurrenceFrequency, RecurrenceRule } from "../../types";
+import {
+  WEEKDAYS,
+  defaultRecurrence,
+  describeRecurrence,
+  getOccurrences,
+  weekdayName,
+} from "../../utils/recurrence";
+
+interface RecurrenceFieldsProps {
+  // Start of the first room, or null while it hasn't been chosen
+  start: Date | null;
+  // null when the room doesn't repeat
+  value: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+  error?: string;
+}
+
+// How many upcoming dates the preview lists
+const PREVIEW_COUNT = 5;
+
+/**
+ * Form section for making a new room repeat: daily, weekly on chosen days or
+ * monthly, ending on a date or after a number of occurrences. Shows the first
+ * few dates so the host can check the pattern before creating the series.
+ */
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({
+  start,
+  value,
+  onChange,
+  error,
+}) => {
+  const theme = useTheme();
+  const { t } = useI18n();
+  const { locale } = useDateFormat();
+  const validStart = start && !isNaN(start.getTime()) ? start : null;
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency) => {
+    update({
+      frequency,
+      weekdays:
+        frequency === "weekly"
+          ? value?.weekdays?.length
+            ? value.weekdays
+            : defaultRecurrence(validStart || undefined).weekdays
+          : undefined,
+    });
+  };
+
+  const endsOn = value?.until ? "until" : "count";
+  const preview =
+    value && validStart ? getOccurrences(validStart, value, PREVIEW_COUNT) : [];
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: 3,
+        border: `1px solid ${alpha(theme.palette.primary.main, 0.2)}`,
+      }}
+    >
+      <FormControlLabel
+        control={
+          <Switch
+            checked={!!value}
+            onChange={(e) =>
+              onChange(
+                e.target.checked
+                  ? defaultRecurrence(validStart || undefined)
+                  : null
+              )
+            }
+          />
+        }
+        label={
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            <RepeatIcon fontSize="small" color="primary" />
+            <Typography fontWeight={600}>{t("recurrence.repeat")}</Typography>
+          </Box>
+        }
+      />
+
+      {value && (
+        <Stack spacing={2} sx={{ mt: 2 }}>
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+            <FormControl sx={{ minWidth: 160 }}>
+              <InputLabel id="recurrence-frequency-label">
+                {t("recurrence.frequency")}
+              </InputLabel>
+              <Select
+                labelId="recurrence-frequency-label"
+                label={t("recurrence.frequency")}
+                value={value.frequency}
+                onChange={(e) =>
+                  handleFrequencyChange(e.target.value as RecurrenceFrequency)
+                }
+              >
+                <MenuItem value="daily">
+                  {t("recurrence.frequency.daily")}
+                </MenuItem>
+                <MenuItem value="weekly">
+                  {t("recurrence.frequency.weekly")}
+                </MenuItem>
+                <MenuItem value="monthly">
+                  {t("recurrence.frequency.monthly")}
+                </MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              label={t("recurrence.interval")}
+              type="number"
+              value={value.interval}
+              onChange={(e) =>
+                update({ interval: parseInt(e.target.value, 10) || 0 })
+              }
+              inputProps={{ min: 1 }}
+              InputProps={{
+                endAdornment: (
+                  <Typography variant="body2" color="text.secondary">
+                    {t("recurrence.unit", {
+                      frequency: value.frequency,
+                      interval: value.interval || 0,
+                    })}
+                  </Typography>
+                ),
+              }}
+              sx={{ maxWidth: 180 }}
+            />
+          </Stack>
+
+          {value.frequency === "weekly" && (
+            <ToggleButtonGroup
+              size="small"
+              value={value.weekdays || []}
+              onChange={(_, weekdays: number[]) => update({ weekdays })}
+              aria-label={t("recurrence.weekdays")}
+            >
+              {WEEKDAYS.map((day) => (
+                <ToggleButton
+                  key={day}
+                  value={day}
+                  aria-label={weekdayName(day, locale)}
+                >
+                  {weekdayName(day, locale)}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          )}
+
+          <FormControl>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {t("recurrence.ends")}
+            </Typography>
+            <RadioGroup
+              value={endsOn}
+              onChange={(e) =>
+                e.target.value === "until"
+                  ? update({
+                      count: undefined,
+                      // Four weeks out is a sensible first guess
+                      until: endOfDay(addWeeks(validStart || new Date(), 4)),
+                    })
+                  : update({ until: undefined, count: 10 })
+              }
+            >
+              <Stack direction="row" alignItems="center" spacing={1}>
+                <FormControlLabel
+                  value="count"
+                  control={<Radio />}
+                  label={t("recurrence.endsAfter")}
+                  sx={{ mr: 0 }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  value={value.count ?? ""}
+                  onChange={(e) =>
+                    update({ count: parseInt(e.target.value, 10) || 0 })
+                  }
+                  disabled={endsOn !== "count"}
+                  inputProps={{
+                    min: 2,
+                    "aria-label": t("recurrence.countLabel"),
+                  }}
+                  sx={{ width: 90 }}
+                />
+                <Typography variant="body2">
+                  {t("recurrence.occurrences", { count: value.count ?? 0 })}
+                </Typography>
+              </Stack>
+              <Stack direction="row" alignItems="center" spacing={1}>
+                <FormControlLabel
+                  value="until"
+                  control={<Radio />}
+                  label={t("recurrence.endsOn")}
+                  sx={{ mr: 0 }}
+                />
+                <TextField
+                  size="small"
+                  type="date"
+                  value={
+                    value.until
+                      ? format(new Date(value.until), "yyyy-MM-dd")
+                      : ""
+                  }
+                  onChange={(e) =>
+                    e.target.value &&
+                    update({ until: endOfDay(parseISO(e.target.value)) })
+                  }
+                  disabled={endsOn !== "until"}
+                  inputProps={{ "aria-label": t("recurrence.untilLabel") }}
+                />
+              </Stack>
+            </RadioGroup>
+          </FormControl>
+
+          {error ? (
+            <FormHelperText error>{error}</FormHelperText>
+          ) : (
+            <Box>
+              <Typography variant="body2" fontWeight={600}>
+                {describeRecurrence(value, t, locale)}
+              </Typography>
+              {preview.length > 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  {preview
+                    .map((date) => format(date, "EEE, MMM d · p", { locale }))
+                    .join("  •  ")}
+                  {preview.length === PREVIEW_COUNT && " …"}
+                </Typography>
+              )}
+            </Box>
+          )}
+        </Stack>
+      )}
+    </Box>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from "react";
+import { Typography, TypographyProps } from "@mui/material";
+import { useDateFormat } from "../../contexts/PreferencesContext";
+import { useI18n } from "../../contexts/I18nContext";
+import { Room, RoomStatus } from "../../types";
+
+interface RoomTimingProps extends Omit<TypographyProps, "children"> {
+  room: Pick<Room, "status" | "startTime" | "endTime" | "timezone"> &
+    Partial<Pick<Room, "endedAt">>;
+}
+
+// How often the relative times are refreshed
+const TICK_MS = 30 * 1000;
+
+/**
+ * When a room starts or started relative to now, e.g. "Starts in 5
+ * minutes". Scheduled rooms also show the host's local time when the host
+ * is in a different timezone from the viewer.
+ */
+const RoomTiming: React.FC<RoomTimingProps> = ({ room, ...props }) => {
+  const { formatRelative, formatTimeIn, differsFrom } = useDateFormat();
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const start = new Date(room.startTime).getTime();
+  let timing: string | null = null;
+  switch (room.status) {
+    case RoomStatus.SCHEDULED:
+      timing = t(start > now ? "roomTiming.starts" : "roomTiming.overdue", {
+        time: formatRelative(start, now),
+      });
+      break;
+    case RoomStatus.LIVE:
+      timing = t("roomTiming.started", { time: formatRelative(start, now) });
+      break;
+    case RoomStatus.CLOSED:
+      timing = t("roomTiming.ended", {
+        time: formatRelative(room.endedAt || room.endTime, now),
+      });
+      break;
+  }
+
+  const hostTime =
+    room.status === RoomStatus.SCHEDULED &&
+    room.timezone &&
+    differsFrom(start, room.timezone)
+      ? t("roomTiming.hostTime", { time: formatTimeIn(start, room.timezone) })
+      : null;
+
+  if (!timing) return null;
+
+  return (
+    <Typography variant="caption" color="text.secondary" {...props}>
+      {hostTime ? `${timing} · ${hostTime}` : timing}
+    </Typography>
+  );
+};
+
+export default RoomTiming;
@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  InputAdornment,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { ContentCopy as CopyIcon } from "@mui/icons-material";
+import { QRCodeSVG } from "qrcode.react";
+import { useI18n } from "../../contexts/I18nContext";
+import { Room } from "../../types";
+
+interface ShareRoomDialogProps {
+  room: Room;
+  open: boolean;
+  onClose: () => void;
+}
+
+// Opens /join/:code, which joins the room after signing in if needed
+export const roomInviteUrl = (room: Room, baseUrl = window.location.origin) =>
+  `${baseUrl}/join/${encodeURIComponent(room.code)}`;
+
+type CopiedField = "link" | "code";
+
+/**
+ * Invite link, room code and a QR code for the room. The QR code is drawn in
+ * the browser, so it works for in-person sessions without any extra request.
+ */
+const ShareRoomDialog: React.FC<ShareRoomDialogProps> = ({
+  room,
+  open,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState<CopiedField | null>(null);
+  const [copyFailed, setCopyFailed] = useState(false);
+  const inviteUrl = roomInviteUrl(room);
+
+  const handleCopy = async (field: CopiedField, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopyFailed(false);
+      setCopied(field);
+      setTimeout(() => setCopied(null), 2000);
+    } catch {
+      setCopyFailed(true);
+    }
+  };
+
+  const copyAdornment = (field: CopiedField, value: string, label: string) => (
+    <InputAdornment position="end">
+      <Tooltip title={copied === field ? t("share.copied") : label}>
+        <IconButton onClick={() => handleCopy(field, value)} aria-label={label}>
+          <CopyIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+    </InputAdornment>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>{t("share.title", { title: room.title })}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label={t("share.link")}
+            value={inviteUrl}
+            fullWidth
+            onFocus={(e) => e.target.select()}
+            InputProps={{
+              readOnly: true,
+              endAdornment: copyAdornment(
+                "link",
+                inviteUrl,
+                t("share.copyLink")
+              ),
+            }}
+          />
+          <TextField
+            label={t("share.code")}
+            value={room.code}
+            fullWidth
+            onFocus={(e) => e.target.select()}
+            InputProps={{
+              readOnly: true,
+              endAdornment: copyAdornment(
+                "code",
+                room.code,
+                t("share.copyCode")
+              ),
+              sx: { fontFamily: "monospace", letterSpacing: 2 },
+            }}
+          />
+          {copyFailed && (
+            <Typography variant="body2" color="error">
+              {t("share.copyFailed")}
+            </Typography>
+          )}
+
+          <Box
+            sx={{
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              gap: 1,
+              pt: 1,
+            }}
+          >
+            {/* White background and margin so phones can scan it in dark mode */}
+            <Box sx={{ p: 2, bgcolor: "#fff", borderRadius: 2 }}>
+              <QRCodeSVG
+                value={inviteUrl}
+                size={200}
+                level="M"
+                includeMargin
+                role="img"
+                aria-label={t("share.qrLabel", { url: inviteUrl })}
+              />
+            </Box>
+            <Typography variant="body2" color="text.secondary" align="center">
+              {t("share.scan")}
+            </Typography>
+          </Box>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t("share.done")}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShareRoomDialog;
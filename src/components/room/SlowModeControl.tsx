@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Snackbar,
+  Tooltip,
+} from "@mui/material";
+import { Check as CheckIcon, Timer as TimerIcon } from "@mui/icons-material";
+import { useI18n } from "../../contexts/I18nContext";
+import { useRoom } from "../../contexts/RoomContext";
+import { Room } from "../../types";
+
+interface SlowModeControlProps {
+  room: Room;
+}
+
+const SLOW_MODE_SECONDS = [0, 5, 15, 30, 60, 300];
+
+/**
+ * Chat header button for moderators to limit how often each participant
+ * can post. Moderators themselves are never slowed down.
+ */
+const SlowModeControl: React.FC<SlowModeControlProps> = ({ room }) => {
+  const { t } = useI18n();
+  const { setSlowMode } = useRoom();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const current = room.slowModeSeconds || 0;
+
+  const optionLabel = (seconds: number) =>
+    seconds === 0
+      ? t("slowMode.off")
+      : seconds < 60
+      ? t("slowMode.seconds", { count: seconds })
+      : t("slowMode.minutes", { count: seconds / 60 });
+
+  const handleSelect = async (seconds: number) => {
+    setAnchorEl(null);
+    if (seconds === current) return;
+    try {
+      await setSlowMode(room._id, seconds);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || t("slowMode.failed"));
+    }
+  };
+
+  return (
+    <>
+      <Tooltip
+        title={
+          current
+            ? t("slowMode.active", { seconds: current })
+            : t("slowMode.title")
+        }
+      >
+        <IconButton
+          size="small"
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          aria-label={t("slowMode.title")}
+          aria-haspopup="menu"
+          sx={{
+            color: "white",
+            opacity: current ? 1 : 0.7,
+            "&:hover": {
+              backgroundColor: "rgba(255, 255, 255, 0.1)",
+            },
+          }}
+        >
+          <TimerIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={!!anchorEl}
+        onClose={() => setAnchorEl(null)}
+      >
+        <ListSubheader>{t("slowMode.interval")}</ListSubheader>
+        {SLOW_MODE_SECONDS.map((seconds) => (
+          <MenuItem
+            key={seconds}
+            selected={seconds === current}
+            onClick={() => handleSelect(seconds)}
+          >
+            <ListItemIcon>
+              {seconds === current && <CheckIcon fontSize="small" />}
+            </ListItemIcon>
+            <ListItemText>{optionLabel(seconds)}</ListItemText>
+          </MenuItem>
+        ))}
+      </Menu>
+      <Snackbar
+        open={!!error}
+        autoHideDuration={5000}
+        onClose={() => setError(null)}
+      >
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default SlowModeControl;
@@ -3,21 +3,40 @@ import React, {
   useContext,
   useState,
   useEffect,
+  useCallback,
+  useRef,
   ReactNode,
 } from "react";
-import { AuthState, User, LoginFormData, RegisterFormData } from "../types";
-import { authAPI } from "../services/api";
+import {
+  AuthState,
+  User,
+  LoginFormData,
+  ProfileUpdate,
+  RegisterFormData,
+} from "../types";
+import { authAPI, setSessionExpiredHandler } from "../services/api";
+import {
+  clearTokens,
+  getAccessToken,
+  getRefreshToken,
+  onTokenChange,
+  saveTokens,
+} from "../services/authTokens";
+import socketService from "../services/socket";
 
 interface AuthContextType extends AuthState {
   login: (formData: LoginFormData) => Promise<void>;
   register: (formData: RegisterFormData) => Promise<void>;
   logout: () => void;
+  takeReturnTo: () => string | null;
   clearError: () => void;
-  updateProfile: (profileData: {
-    username: string;
-    email: string;
-    bio?: string;
-  }) => Promise<void>;
+  updateProfile: (profileData: ProfileUpdate) => Promise<void>;
+  // Images come from the crop editor, one per size in AVATAR_SIZES
+  uploadAvatar: (
+    images: { size: number; blob: Blob }[],
+    onProgress?: (percent: number) => void
+  ) => Promise<void>;
+  removeAvatar: () => Promise<void>;
 }
 
 const initialState: AuthState = {
@@ -25,47 +44,96 @@ const initialState: AuthState = {
   user: null,
   loading: true,
   error: null,
-  token: localStorage.getItem("token"),
+  token: getAccessToken(),
+  sessionExpired: false,
+  returnTo: null,
 };
 
+// The page the user was on, so they can pick up there after signing in
+const currentLocation = () =>
+  `${window.location.pathname}${window.location.search}${window.location.hash}`;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({
   children,
 }) => {
   const [state, setState] = useState<AuthState>(initialState);
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
-  // Check if user is already logged in
+  // The API client calls this when a 401 can't be fixed by refreshing
   useEffect(() => {
-    const loadUser = async () => {
-      try {
-        if (!state.token) {
-          setState((prev) => ({ ...initialState, loading: false }));
-          return;
-        }
+    setSessionExpiredHandler(() => {
+      socketService.disconnectSocket();
+      setState((prev) => ({
+        ...initialState,
+        loading: false,
+        token: null,
+        sessionExpired: prev.isAuthenticated,
+        returnTo: prev.isAuthenticated ? currentLocation() : prev.returnTo,
+      }));
+    });
+    return () => setSessionExpiredHandler(null);
+  }, []);
 
-        const response = await authAPI.getCurrentUser();
-        const userData = response.data.user;
+  // Check if user is already logged in
+  const loadUser = useCallback(async () => {
+    try {
+      const token = getAccessToken();
+      if (!token) {
+        setState((prev) => ({ ...initialState, loading: false, token: null }));
+        return;
+      }
 
-        setState((prev) => ({
-          ...prev,
-          isAuthenticated: true,
-          user: userData,
-          loading: false,
-        }));
-      } catch (error) {
-        localStorage.removeItem("token");
+      const response = await authAPI.getCurrentUser();
+      const userData = response.data.user;
+
+      setState((prev) => ({
+        ...prev,
+        isAuthenticated: true,
+        user: userData,
+        loading: false,
+        token: getAccessToken(),
+        sessionExpired: false,
+      }));
+    } catch {
+      // A rejected session has already been cleared by the API client.
+      // Other failures (e.g. the server is unreachable) keep the tokens so
+      // a reload can try again.
+      setState((prev) => ({
+        ...prev,
+        isAuthenticated: false,
+        user: null,
+        loading: false,
+        token: getAccessToken(),
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUser();
+  }, [loadUser]);
+
+  // Follow logins, logouts and token refreshes made in other tabs
+  useEffect(() => {
+    return onTokenChange((token) => {
+      if (!token) {
+        // Logged out elsewhere; drop this tab's socket along with the session
+        socketService.disconnectSocket();
         setState((prev) => ({
           ...initialState,
           loading: false,
           token: null,
+          returnTo: prev.returnTo,
         }));
+      } else if (!stateRef.current.isAuthenticated) {
+        loadUser();
+      } else {
+        setState((prev) => ({ ...prev, token }));
       }
-    };
-
-    loadUser();
-    // Only run this effect when the token changes
-  }, []);
+    });
+  }, [loadUser]);
 
   // Login function
   const login = async (formData: LoginFormData) => {
@@ -73,10 +141,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       setState((prev) => ({ ...prev, loading: true, error: null }));
 
       const response = await authAPI.login(formData);
-      const { token, user } = response.data;
+      const { token, refreshToken, user } = response.data;
 
-      // Save token to local storage
-      localStorage.setItem("token", token);
+      // Save tokens to local storage
+      saveTokens(token, refreshToken);
 
       setState((prev) => ({
         ...prev,
@@ -85,6 +153,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
         user,
         token,
         error: null,
+        sessionExpired: false,
       }));
     } catch (error: any) {
       setState((prev) => ({
@@ -108,10 +177,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
       };
 
       const response = await authAPI.register(userData);
-      const { token, user } = response.data;
+      const { token, refreshToken, user } = response.data;
 
-      // Save token to local storage
-      localStorage.setItem("token", token);
+      // Save tokens to local storage
+      saveTokens(token, refreshToken);
 
       setState((prev) => ({
         ...prev,
@@ -120,6 +189,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
         user,
         token,
         error: null,
+        sessionExpired: false,
       }));
     } catch (error: any) {
       setState((prev) => ({
@@ -133,7 +203,13 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
 
   // Logout function
   const logout = () => {
-    localStorage.removeItem("token");
+    // Revoking the refresh token is best-effort; the local session ends anyway
+    const refreshToken = getRefreshToken();
+    if (refreshToken) {
+      authAPI.logout(refreshToken).catch(() => undefined);
+    }
+    clearTokens();
+    socketService.disconnectSocket();
     setState((prev) => ({
       ...initialState,
       loading: false,
@@ -141,17 +217,22 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
     }));
   };
 
+  // Hand over the return-to URL once, after the user has signed in again
+  const takeReturnTo = (): string | null => {
+    const { returnTo } = state;
+    if (returnTo) {
+      setState((prev) => ({ ...prev, returnTo: null }));
+    }
+    return returnTo;
+  };
+
   // Clear error
   const clearError = () => {
     setState((prev) => ({ ...prev, error: null }));
   };
 
   // Update profile function
-  const updateProfile = async (profileData: {
-    username: string;
-    email: string;
-    bio?: string;
-  }) => {
+  const updateProfile = async (profileData: ProfileUpdate) => {
     try {
       setState((prev) => ({ ...prev, loading: true, error: null }));
 
@@ -174,6 +255,33 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  // Avatar changes don't toggle `loading`, so the profile page stays up
+  // while the upload runs. Callers show the error.
+  const uploadAvatar = async (
+    images: { size: number; blob: Blob }[],
+    onProgress?: (percent: number) => void
+  ) => {
+    const response = await authAPI.uploadAvatar(images, onProgress);
+    setState((prev) => ({ ...prev, user: response.data.user }));
+  };
+
+  const removeAvatar = async () => {
+    const response = await authAPI.removeAvatar();
+    setState((prev) => ({ ...prev, user: response.data.user }));
+  };
+
+  // Pick up profile changes made in the user's other sessions
+  const userId = state.user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    return socketService.on("user_profile_updated", (data) => {
+      if (data.user.id !== userId) return;
+      setState((prev) =>
+        prev.user ? { ...prev, user: { ...prev.user, ...data.user } } : prev
+      );
+    });
+  }, [userId]);
+
   return (
     <AuthContext.Provider
       value={{
@@ -181,8 +289,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({
         login,
         register,
         logout,
+        takeReturnTo,
         clearError,
         updateProfile,
+        uploadAvatar,
+        removeAvatar,
       }}
     >
       {children}
@@ -6,32 +6,108 @@ import React, {
   useEffect,
   useCallback,
   useRef,
+  useMemo,
 } from "react";
-import { Message, MessageState, Reaction, ReactionState } from "../types";
+import {
+  Attachment,
+  ComposerState,
+  Message,
+  MessageState,
+  MessageStatus,
+  OutboxEntry,
+  Reaction,
+  ReactionState,
+  ReactionSummary,
+  Room,
+  SendMessageOptions,
+} from "../types";
+import { Translate } from "../locales";
 import { roomsAPI } from "../services/api";
 import socketService from "../services/socket";
+import {
+  MessageDeletedPayload,
+  MessageEditedPayload,
+  MessageReactionsUpdatedPayload,
+  ReceiveMessagePayload,
+  ThreadUpdatedPayload,
+} from "../services/socketEvents";
+import outboxService from "../services/outbox";
 import { useAuth } from "./AuthContext";
+import { useI18n } from "./I18nContext";
+import { useDateFormat } from "./PreferencesContext";
 import { useRoom } from "./RoomContext";
+import {
+  canChat,
+  canModerate,
+  getMemberRole,
+  getMuteEnd,
+} from "../utils/roles";
 
 interface ChatContextType {
   messages: Message[];
+  // Replies keyed by the ID of the message that started the thread
+  threads: Record<string, Message[]>;
+  threadLoading: boolean;
   reactions: Reaction[];
   messageLoading: boolean;
   reactionLoading: boolean;
   error: string | null;
+  hasMoreMessages: boolean;
+  loadingOlderMessages: boolean;
   fetchMessages: (roomId: string) => Promise<void>;
+  fetchOlderMessages: (roomId: string) => Promise<void>;
+  fetchThread: (roomId: string, parentId: string) => Promise<void>;
   fetchReactions: (roomId: string) => Promise<void>;
-  sendMessage: (roomId: string, content: string) => Promise<void>;
-  sendReaction: (roomId: string, emoji: string) => Promise<void>;
+  sendMessage: (
+    roomId: string,
+    content: string,
+    options?: SendMessageOptions
+  ) => Promise<void>;
+  // Add the current user's reaction to a message, or remove it if already there
+  toggleMessageReaction: (
+    roomId: string,
+    messageId: string,
+    emoji: string
+  ) => Promise<void>;
+  editMessage: (
+    roomId: string,
+    messageId: string,
+    content: string
+  ) => Promise<void>;
+  // Authors can delete their own messages; moderators and above can delete any message
+  deleteMessage: (roomId: string, messageId: string) => Promise<void>;
+  retryMessage: (clientId: string) => Promise<void>;
+  discardMessage: (clientId: string) => void;
   clearError: () => void;
+  // Whether the current user may post in the open room right now
+  composer: ComposerState;
+  // Upload a file to share in a later message. Rejects if cancelled.
+  uploadAttachment: (
+    roomId: string,
+    file: File,
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal
+  ) => Promise<Attachment>;
+  // Everything shared in the open room, newest first
+  roomFiles: Attachment[];
+  roomFilesLoading: boolean;
+  fetchRoomFiles: (roomId: string) => Promise<void>;
 }
 
 const initialMessageState: MessageState = {
   messages: [],
   loading: false,
   error: null,
+  hasMore: false,
+  loadingOlder: false,
 };
 
+// Number of messages requested per history page
+export const MESSAGE_PAGE_SIZE = 50;
+
+const messageRoomId = (message: Message): string =>
+  typeof message.room === "object" ? message.room._id : message.room;
+
 const initialReactionState: ReactionState = {
   reactions: [],
   loading: false,
@@ -40,6 +116,126 @@ const initialReactionState: ReactionState = {
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
+const OPEN_COMPOSER: ComposerState = {
+  canSend: true,
+  reason: null,
+  slowModeWait: 0,
+};
+
+// Work out what stops the user from posting: their role, a mute, or slow
+// mode. Moderators aren't held back by slow mode.
+const getComposerState = (
+  room: Room | null,
+  userId: string | undefined,
+  lastSentAt: number | undefined,
+  now: number,
+  t: Translate,
+  formatTime: (value: Date) => string
+): ComposerState => {
+  if (!room || !userId) return OPEN_COMPOSER;
+
+  const role = getMemberRole(room, userId);
+  if (!canChat(role)) {
+    return {
+      canSend: false,
+      reason: t("composer.listener"),
+      slowModeWait: 0,
+    };
+  }
+
+  const muteEnd = getMuteEnd(room, userId, now);
+  if (muteEnd !== undefined) {
+    return {
+      canSend: false,
+      reason: muteEnd
+        ? t("composer.mutedUntil", { time: formatTime(muteEnd) })
+        : t("composer.muted"),
+      slowModeWait: 0,
+    };
+  }
+
+  const slowMode = room.slowModeSeconds || 0;
+  if (slowMode > 0 && lastSentAt && !canModerate(role)) {
+    const wait = Math.ceil((lastSentAt + slowMode * 1000 - now) / 1000);
+    if (wait > 0) {
+      return {
+        canSend: false,
+        reason: t("composer.slowMode", { seconds: wait }),
+        slowModeWait: wait,
+      };
+    }
+  }
+
+  return OPEN_COMPOSER;
+};
+
+// Replace a message in place (matching optimistic copies by clientId) or append it
+const upsertMessage = (messages: Message[], incoming: Message): Message[] => {
+  const index = messages.findIndex(
+    (msg) =>
+      msg._id === incoming._id ||
+      (!!incoming.clientId && msg.clientId === incoming.clientId)
+  );
+
+  if (index === -1) return [...messages, incoming];
+
+  const updated = [...messages];
+  updated[index] = incoming;
+  return updated;
+};
+
+// The tombstone left in place of a deleted message
+const toTombstone = (
+  message: Message,
+  deletedAt: string | Date,
+  deletedBy?: string
+): Message => ({
+  ...message,
+  content: "",
+  reactions: [],
+  editHistory: [],
+  attachments: [],
+  deletedAt,
+  deletedBy: deletedBy || message.deletedBy,
+});
+
+// Add or remove one user's reaction in a message's reaction summaries
+const applyReaction = (
+  reactions: ReactionSummary[] = [],
+  emoji: string,
+  userId: string,
+  add: boolean
+): ReactionSummary[] => {
+  const existing = reactions.find((reaction) => reaction.emoji === emoji);
+
+  if (add) {
+    if (existing?.users.includes(userId)) return reactions;
+    if (!existing) return [...reactions, { emoji, count: 1, users: [userId] }];
+    return reactions.map((reaction) =>
+      reaction === existing
+        ? {
+            ...reaction,
+            count: reaction.count + 1,
+            users: [...reaction.users, userId],
+          }
+        : reaction
+    );
+  }
+
+  if (!existing?.users.includes(userId)) return reactions;
+  return reactions
+    .map((reaction) =>
+      reaction === existing
+        ? {
+            ...reaction,
+            count: reaction.count - 1,
+            users: reaction.users.filter((id) => id !== userId),
+          }
+        : reaction
+    )
+    .filter((reaction) => reaction.count > 0);
+};
+
 export const ChatProvider: React.FC<{ children: ReactNode }> = ({
   children,
 }) => {
@@ -47,8 +243,19 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
     useState<MessageState>(initialMessageState);
   const [reactionState, setReactionState] =
     useState<ReactionState>(initialReactionState);
+  const [threads, setThreads] = useState<Record<string, Message[]>>({});
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [roomFiles, setRoomFiles] = useState<Attachment[]>([]);
+  const [roomFilesLoading, setRoomFilesLoading] = useState(false);
   const { user } = useAuth();
   const { currentRoom } = useRoom();
+  const { t } = useI18n();
+  const { formatTime } = useDateFormat();
+
+  // When the user last posted in each room, for slow mode
+  const [lastSentAt, setLastSentAt] = useState<Record<string, number>>({});
+  // Advances while a mute or slow mode wait is running out
+  const [now, setNow] = useState(() => Date.now());
 
   // Keep track of the active room ID
   const activeRoomRef = useRef<string | null>(null);
@@ -56,34 +263,423 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
   // Create a ref to hold message state to avoid stale closures in event handlers
   const messagesRef = useRef<Message[]>([]);
 
+  // Messages that haven't been confirmed by the server yet, persisted per user
+  const outboxRef = useRef<OutboxEntry[]>([]);
+  const userRef = useRef(user);
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const flushingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Latest message state, for callbacks that must not re-create on every update
+  const messageStateRef = useRef<MessageState>(initialMessageState);
+  const threadsRef = useRef<Record<string, Message[]>>({});
+
   // Update the ref whenever messageState changes
   useEffect(() => {
     messagesRef.current = messageState.messages;
-  }, [messageState.messages]);
+    messageStateRef.current = messageState;
+  }, [messageState]);
 
-  // Fetch messages for a room - declare this before any effect that uses it
-  const fetchMessages = useCallback(async (roomId: string): Promise<void> => {
-    if (!roomId) return;
+  useEffect(() => {
+    threadsRef.current = threads;
+  }, [threads]);
 
-    try {
-      setMessageState((prev) => ({ ...prev, loading: true, error: null }));
+  useEffect(() => {
+    userRef.current = user;
+  }, [user]);
 
-      const response = await roomsAPI.getRoomMessages(roomId);
+  // Upsert a message into the room timeline, or into its thread if it is a reply
+  const placeMessage = useCallback((message: Message) => {
+    const { parentId } = message;
 
-      setMessageState((prev) => ({
-        messages: response.data.messages || [],
-        loading: false,
-        error: null,
-      }));
-    } catch (error: any) {
-      setMessageState((prev) => ({
-        ...prev,
-        loading: false,
-        error: error.response?.data?.message || "Failed to fetch messages",
+    if (parentId) {
+      setThreads((prevThreads) => ({
+        ...prevThreads,
+        [parentId]: upsertMessage(prevThreads[parentId] || [], message),
       }));
+      return;
     }
+
+    setMessageState((prevState) => ({
+      ...prevState,
+      messages: upsertMessage(prevState.messages, message),
+    }));
   }, []);
 
+  // Update a message wherever it is shown, in the timeline or in a thread
+  const updateMessageById = useCallback(
+    (messageId: string, updater: (message: Message) => Message) => {
+      const update = (messages: Message[]) =>
+        messages.some((msg) => msg._id === messageId)
+          ? messages.map((msg) => (msg._id === messageId ? updater(msg) : msg))
+          : messages;
+
+      setMessageState((prevState) => ({
+        ...prevState,
+        messages: update(prevState.messages),
+      }));
+      setThreads((prevThreads) => {
+        const nextThreads: Record<string, Message[]> = {};
+        Object.keys(prevThreads).forEach((parentId) => {
+          nextThreads[parentId] = update(prevThreads[parentId]);
+        });
+        return nextThreads;
+      });
+    },
+    []
+  );
+
+  // Keep the room's file list in step with messages as they arrive
+  const addRoomFiles = useCallback((message: Message) => {
+    const attachments = message.attachments;
+    if (!attachments?.length) return;
+
+    setRoomFiles((prev) => [
+      ...attachments
+        .filter((file) => !prev.some((known) => known._id === file._id))
+        .map((file) => ({
+          ...file,
+          messageId: message._id,
+          uploadedBy: file.uploadedBy || message.sender,
+        })),
+      ...prev,
+    ]);
+  }, []);
+
+  // Files go away with the message that shared them
+  const dropRoomFiles = useCallback((messageId: string) => {
+    setRoomFiles((prev) => prev.filter((file) => file.messageId !== messageId));
+  }, []);
+
+  // Update the outbox and persist it
+  const updateOutbox = useCallback(
+    (updater: (entries: OutboxEntry[]) => OutboxEntry[]) => {
+      outboxRef.current = updater(outboxRef.current);
+      if (userRef.current) {
+        outboxService.saveOutbox(userRef.current.id, outboxRef.current);
+      }
+    },
+    []
+  );
+
+  // Build the optimistic message shown in the chat for an outbox entry
+  const toOptimisticMessage = useCallback(
+    (entry: OutboxEntry): Message => ({
+      _id: entry.clientId,
+      clientId: entry.clientId,
+      content: entry.content,
+      sender: userRef.current || "",
+      room: entry.roomId,
+      createdAt: entry.createdAt,
+      status: entry.status,
+      parentId: entry.parentId,
+      mentions: entry.mentions,
+      attachments: entry.attachments,
+    }),
+    []
+  );
+
+  // Show the current state of an outbox entry if it belongs to the active room
+  const showOutboxEntry = useCallback(
+    (entry: OutboxEntry) => {
+      if (entry.roomId !== activeRoomRef.current) return;
+
+      placeMessage(toOptimisticMessage(entry));
+    },
+    [placeMessage, toOptimisticMessage]
+  );
+
+  // Mark a message as delivered: drop it from the outbox and show the server copy
+  const confirmDelivery = useCallback(
+    (clientId: string, serverMessage: Message) => {
+      updateOutbox((entries) =>
+        entries.filter((entry) => entry.clientId !== clientId)
+      );
+
+      const roomId =
+        typeof serverMessage.room === "object"
+          ? serverMessage.room._id
+          : serverMessage.room;
+      if (roomId && roomId !== activeRoomRef.current) return;
+
+      placeMessage({
+        ...serverMessage,
+        clientId,
+        status: MessageStatus.SENT,
+      });
+      addRoomFiles(serverMessage);
+    },
+    [placeMessage, addRoomFiles, updateOutbox]
+  );
+
+  // Try to deliver a single outbox entry through the API
+  const deliverEntry = useCallback(
+    async (entry: OutboxEntry): Promise<void> => {
+      if (inFlightRef.current.has(entry.clientId)) return;
+      inFlightRef.current.add(entry.clientId);
+
+      try {
+        const response = await roomsAPI.sendMessage(
+          entry.roomId,
+          entry.content,
+          {
+            clientId: entry.clientId,
+            parentId: entry.parentId,
+            mentions: entry.mentions?.map((mention) => mention.userId),
+            attachments: entry.attachments?.map((file) => file._id),
+          }
+        );
+        confirmDelivery(entry.clientId, {
+          room: entry.roomId,
+          parentId: entry.parentId,
+          mentions: entry.mentions,
+          attachments: entry.attachments,
+          ...response.data.message,
+        });
+      } catch (error: any) {
+        console.error("Send message error:", error);
+
+        // Network errors, timeouts, rate limits and server errors are worth retrying
+        const status = error.response?.status;
+        const retryable =
+          !status || status >= 500 || status === 408 || status === 429;
+
+        // The entry may have been discarded while the request was in flight
+        const current = outboxRef.current.find(
+          (item) => item.clientId === entry.clientId
+        );
+        if (!current) return;
+
+        const updated = outboxService.markAttemptFailed(
+          current,
+          error.response?.data?.message || "Failed to send message",
+          retryable
+        );
+        updateOutbox((entries) =>
+          entries.map((item) =>
+            item.clientId === updated.clientId ? updated : item
+          )
+        );
+        showOutboxEntry(updated);
+      } finally {
+        inFlightRef.current.delete(entry.clientId);
+      }
+    },
+    [confirmDelivery, showOutboxEntry, updateOutbox]
+  );
+
+  // Deliver every pending entry that is due, oldest first, then schedule the next retry
+  const flushOutbox = useCallback(async (): Promise<void> => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+
+    try {
+      // Wait for the browser to come back online; the "online" listener flushes again
+      if (navigator.onLine) {
+        const now = Date.now();
+        const due = outboxRef.current.filter(
+          (entry) =>
+            entry.status === MessageStatus.PENDING && entry.nextAttemptAt <= now
+        );
+
+        for (const entry of due) {
+          await deliverEntry(entry);
+        }
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+
+    const pending = outboxRef.current.filter(
+      (entry) => entry.status === MessageStatus.PENDING
+    );
+    if (pending.length > 0 && navigator.onLine) {
+      const nextAttemptAt = Math.min(
+        ...pending.map((entry) => entry.nextAttemptAt)
+      );
+      retryTimerRef.current = setTimeout(() => {
+        flushOutbox();
+      }, Math.max(nextAttemptAt - Date.now(), 0));
+    }
+  }, [deliverEntry]);
+
+  // Retry all pending entries right away, e.g. after the connection comes back
+  const retryPendingNow = useCallback(() => {
+    updateOutbox((entries) =>
+      entries.map((entry) =>
+        entry.status === MessageStatus.PENDING
+          ? { ...entry, nextAttemptAt: Date.now() }
+          : entry
+      )
+    );
+    flushOutbox();
+  }, [flushOutbox, updateOutbox]);
+
+  // Fetch messages for a room - declare this before any effect that uses it
+  const fetchMessages = useCallback(
+    async (roomId: string): Promise<void> => {
+      if (!roomId) return;
+
+      try {
+        setMessageState((prev) => ({ ...prev, loading: true, error: null }));
+
+        const response = await roomsAPI.getRoomMessages(roomId, {
+          limit: MESSAGE_PAGE_SIZE,
+        });
+        const page: Message[] = response.data.messages || [];
+        // Replies live in their threads, not in the room timeline
+        const serverMessages = page.filter((msg) => !msg.parentId);
+
+        // Anything the server already has was delivered, even if we never saw the response
+        const deliveredIds = new Set(
+          serverMessages
+            .map((msg) => msg.clientId)
+            .filter((clientId): clientId is string => !!clientId)
+        );
+        updateOutbox((entries) =>
+          entries.filter((entry) => !deliveredIds.has(entry.clientId))
+        );
+
+        // Keep undelivered messages from this room visible after the server list
+        const undelivered = outboxRef.current
+          .filter((entry) => entry.roomId === roomId && !entry.parentId)
+          .map(toOptimisticMessage);
+
+        setMessageState((prev) => {
+          // Keep older pages already loaded for this room; the latest page replaces the rest
+          const latestIds = new Set(serverMessages.map((msg) => msg._id));
+          const oldestLatest = serverMessages[0];
+          const olderPages = oldestLatest
+            ? prev.messages.filter(
+                (msg) =>
+                  !outboxService.isUndelivered(msg) &&
+                  !latestIds.has(msg._id) &&
+                  messageRoomId(msg) === roomId &&
+                  new Date(msg.createdAt) < new Date(oldestLatest.createdAt)
+              )
+            : [];
+          const hasLoadedOlder = olderPages.length > 0;
+
+          return {
+            ...prev,
+            messages: [...olderPages, ...serverMessages, ...undelivered],
+            loading: false,
+            error: null,
+            hasMore: hasLoadedOlder
+              ? prev.hasMore
+              : response.data.hasMore ?? page.length >= MESSAGE_PAGE_SIZE,
+            oldestLoadedId: hasLoadedOlder ? prev.oldestLoadedId : page[0]?._id,
+          };
+        });
+      } catch (error: any) {
+        setMessageState((prev) => ({
+          ...prev,
+          loading: false,
+          error: error.response?.data?.message || "Failed to fetch messages",
+        }));
+      }
+    },
+    [toOptimisticMessage, updateOutbox]
+  );
+
+  // Load the page of history before the oldest message currently shown
+  const fetchOlderMessages = useCallback(
+    async (roomId: string): Promise<void> => {
+      const current = messageStateRef.current;
+      if (!roomId || !current.hasMore || current.loadingOlder) return;
+
+      const before =
+        current.oldestLoadedId ??
+        current.messages.find((msg) => !outboxService.isUndelivered(msg))?._id;
+      if (!before) return;
+
+      setMessageState((prev) => ({ ...prev, loadingOlder: true }));
+
+      try {
+        const response = await roomsAPI.getRoomMessages(roomId, {
+          before,
+          limit: MESSAGE_PAGE_SIZE,
+        });
+        const page: Message[] = response.data.messages || [];
+        const olderMessages = page.filter((msg) => !msg.parentId);
+
+        // Ignore the page if the user has moved to another room meanwhile
+        if (activeRoomRef.current !== roomId) {
+          setMessageState((prev) => ({ ...prev, loadingOlder: false }));
+          return;
+        }
+
+        setMessageState((prev) => {
+          const existingIds = new Set(prev.messages.map((msg) => msg._id));
+          return {
+            ...prev,
+            messages: [
+              ...olderMessages.filter((msg) => !existingIds.has(msg._id)),
+              ...prev.messages,
+            ],
+            loadingOlder: false,
+            // Count the whole page, so a page of mostly replies still pages on
+            hasMore: response.data.hasMore ?? page.length >= MESSAGE_PAGE_SIZE,
+            oldestLoadedId: page[0]?._id ?? prev.oldestLoadedId,
+          };
+        });
+      } catch (error: any) {
+        setMessageState((prev) => ({
+          ...prev,
+          loadingOlder: false,
+          error:
+            error.response?.data?.message || "Failed to load older messages",
+        }));
+      }
+    },
+    []
+  );
+
+  // Fetch the replies in a message thread
+  const fetchThread = useCallback(
+    async (roomId: string, parentId: string): Promise<void> => {
+      if (!roomId || !parentId) return;
+
+      try {
+        setThreadLoading(true);
+
+        const response = await roomsAPI.getThreadMessages(roomId, parentId);
+        const replies: Message[] = response.data.messages || [];
+
+        const deliveredIds = new Set(
+          replies
+            .map((msg) => msg.clientId)
+            .filter((clientId): clientId is string => !!clientId)
+        );
+        updateOutbox((entries) =>
+          entries.filter((entry) => !deliveredIds.has(entry.clientId))
+        );
+
+        const undelivered = outboxRef.current
+          .filter((entry) => entry.parentId === parentId)
+          .map(toOptimisticMessage);
+
+        setThreads((prevThreads) => ({
+          ...prevThreads,
+          [parentId]: [...replies, ...undelivered],
+        }));
+      } catch (error: any) {
+        setMessageState((prev) => ({
+          ...prev,
+          error: error.response?.data?.message || "Failed to load replies",
+        }));
+      } finally {
+        setThreadLoading(false);
+      }
+    },
+    [toOptimisticMessage, updateOutbox]
+  );
+
   // Fetch reactions for a room
   const fetchReactions = useCallback(async (roomId: string): Promise<void> => {
     if (!roomId) return;
@@ -109,20 +705,43 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
 
   // Initialize socket connection once on component mount
   useEffect(() => {
-    // Initialize the socket
-    const socket = socketService.initSocket();
+    // Initialize the socket. Event listeners are registered per room below
+    // through socketService.on, which validates payloads and cleans up after itself.
+    socketService.initSocket();
+  }, []);
 
-    // We'll remove the global receive_message handler since it causes duplicates
-    // Only handle global socket cleanup
+  // Load the persisted outbox for the logged-in user and resume delivery
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      outboxRef.current = [];
+      return;
+    }
+
+    outboxRef.current = outboxService.loadOutbox(userId);
+    retryPendingNow();
 
     return () => {
-      // Clean up all listeners on unmount
-      console.log("Cleaning up global socket listeners");
-      if (socket) {
-        socket.off("receive_reaction");
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
       }
     };
-  }, []);
+  }, [userId, retryPendingNow]);
+
+  // Retry the outbox whenever the socket reconnects or the browser comes back online
+  useEffect(() => {
+    if (!userId) return;
+
+    socketService.initSocket();
+    const unsubscribeConnect = socketService.onConnect(retryPendingNow);
+    window.addEventListener("online", retryPendingNow);
+
+    return () => {
+      unsubscribeConnect();
+      window.removeEventListener("online", retryPendingNow);
+    };
+  }, [userId, retryPendingNow]);
 
   // Set up socket listeners for new room selection
   useEffect(() => {
@@ -130,6 +749,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
       // Clear messages when no room is selected
       setMessageState(initialMessageState);
       setReactionState(initialReactionState);
+      setThreads({});
+      setRoomFiles([]);
       activeRoomRef.current = null;
       return;
     }
@@ -138,14 +759,12 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
     activeRoomRef.current = currentRoom._id;
     console.log("Active room updated to:", currentRoom._id);
 
-    // Get the socket instance
-    const socket = socketService.initSocket();
-
     // Room-specific socket event handlers for reactions
     const handleReceiveReaction = (data: Reaction) => {
       console.log("Received reaction:", data);
+      const roomId = typeof data.room === "string" ? data.room : data.room._id;
       // Only update if the reaction is for the current room
-      if (data.room === activeRoomRef.current) {
+      if (roomId === activeRoomRef.current) {
         setReactionState((prevState) => ({
           ...prevState,
           reactions: [...prevState.reactions, data],
@@ -154,30 +773,34 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
     };
 
     // Room-specific socket event handlers for messages
-    const handleReceiveRoomMessage = (data: any) => {
+    const handleReceiveRoomMessage = (data: ReceiveMessagePayload) => {
       console.log("Socket: received message in room:", data);
 
-      const incomingMessage = data.message || data;
-      const roomId =
-        data.roomId ||
-        (incomingMessage.room &&
-          (typeof incomingMessage.room === "string"
-            ? incomingMessage.room
-            : incomingMessage.room._id));
-
-      console.log(
-        "Extracted roomId:",
-        roomId,
-        "Current room:",
-        currentRoom._id
-      );
+      const { message: incomingMessage, roomId } = data;
 
       // Explicitly check if the message belongs to the current active room
       if (roomId === currentRoom._id) {
         console.log("Adding message to current room:", incomingMessage);
 
+        // Replies go to their thread; everything else to the room timeline
+        const knownMessages = incomingMessage.parentId
+          ? threadsRef.current[incomingMessage.parentId] || []
+          : messagesRef.current;
+
+        // Server echo of one of our own messages - swap out the optimistic copy
+        if (
+          incomingMessage.clientId &&
+          knownMessages.some((msg) => msg.clientId === incomingMessage.clientId)
+        ) {
+          confirmDelivery(incomingMessage.clientId, {
+            ...incomingMessage,
+            room: roomId,
+          });
+          return;
+        }
+
         // Check if this message already exists in our state to avoid duplicates
-        const messageExists = messagesRef.current.some(
+        const messageExists = knownMessages.some(
           (msg) => msg._id === incomingMessage._id
         );
 
@@ -186,10 +809,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
 
         if (!messageExists && !isFromCurrentUser) {
           console.log("Message is new and from other user, adding to state");
-          setMessageState((prevState) => ({
-            ...prevState,
-            messages: [...prevState.messages, incomingMessage],
-          }));
+          placeMessage(incomingMessage);
+          addRoomFiles(incomingMessage);
         } else {
           console.log(
             "Message already exists or is from current user, skipping"
@@ -200,9 +821,79 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
       }
     };
 
+    // Keep reply counts on thread starters up to date
+    const handleThreadUpdated = (data: ThreadUpdatedPayload) => {
+      if (data.roomId !== activeRoomRef.current) return;
+
+      setMessageState((prevState) => ({
+        ...prevState,
+        messages: prevState.messages.map((msg) =>
+          msg._id === data.parentId
+            ? {
+                ...msg,
+                replyCount: data.replyCount,
+                lastReplyAt: data.lastReplyAt || msg.lastReplyAt,
+              }
+            : msg
+        ),
+      }));
+    };
+
+    const handleMessageEdited = (data: MessageEditedPayload) => {
+      if (data.roomId !== activeRoomRef.current) return;
+
+      updateMessageById(data.message._id, (msg) => ({
+        ...msg,
+        ...data.message,
+      }));
+    };
+
+    const handleMessageDeleted = (data: MessageDeletedPayload) => {
+      if (data.roomId !== activeRoomRef.current) return;
+
+      updateMessageById(data.messageId, (msg) =>
+        toTombstone(msg, data.deletedAt, data.deletedBy)
+      );
+      dropRoomFiles(data.messageId);
+    };
+
+    // Reaction summaries from the server are authoritative
+    const handleMessageReactionsUpdated = (
+      data: MessageReactionsUpdatedPayload
+    ) => {
+      if (data.roomId !== activeRoomRef.current) return;
+
+      updateMessageById(data.messageId, (msg) => ({
+        ...msg,
+        reactions: data.reactions,
+      }));
+    };
+
     // Set up room-specific event handlers
-    socket.on("receive_reaction", handleReceiveReaction);
-    socket.on("receive_message", handleReceiveRoomMessage);
+    const unsubscribeReaction = socketService.on(
+      "receive_reaction",
+      handleReceiveReaction
+    );
+    const unsubscribeMessage = socketService.on(
+      "receive_message",
+      handleReceiveRoomMessage
+    );
+    const unsubscribeThread = socketService.on(
+      "thread_updated",
+      handleThreadUpdated
+    );
+    const unsubscribeEdited = socketService.on(
+      "message_edited",
+      handleMessageEdited
+    );
+    const unsubscribeDeleted = socketService.on(
+      "message_deleted",
+      handleMessageDeleted
+    );
+    const unsubscribeMessageReactions = socketService.on(
+      "message_reactions_updated",
+      handleMessageReactionsUpdated
+    );
 
     console.log(
       `Joined room ${currentRoom._id} and set up room-specific handlers`
@@ -223,105 +914,271 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
     // Clean up function
     return () => {
       console.log(`Cleaning up listeners for room ${currentRoom._id}`);
-      socket.off("receive_reaction", handleReceiveReaction);
-      socket.off("receive_message", handleReceiveRoomMessage);
+      unsubscribeReaction();
+      unsubscribeMessage();
+      unsubscribeThread();
+      unsubscribeEdited();
+      unsubscribeDeleted();
+      unsubscribeMessageReactions();
       clearInterval(pollInterval);
       // We don't leave the room here anymore - that's handled by RoomContext
     };
-  }, [currentRoom, fetchMessages]);
+  }, [
+    currentRoom,
+    fetchMessages,
+    confirmDelivery,
+    placeMessage,
+    updateMessageById,
+    addRoomFiles,
+    dropRoomFiles,
+  ]);
 
-  // Send a message
+  // Send a message, or a reply when options.parentId is given. It is queued
+  // in the outbox and shown immediately; delivery is retried in the
+  // background until the server confirms it.
   const sendMessage = async (
     roomId: string,
-    content: string
+    content: string,
+    options: SendMessageOptions = {}
   ): Promise<void> => {
-    if (!roomId || !content.trim()) return;
+    if (!roomId || (!content.trim() && !options.attachments?.length)) return;
 
-    try {
-      setMessageState((prev) => ({ ...prev, loading: true, error: null }));
-
-      // Ensure we're connected to the room via socket
-      socketService.joinRoom(roomId);
-
-      // Create optimistic message (without _id)
-      const optimisticMessage = {
-        content,
-        sender: user?.id,
-        room: roomId,
-        createdAt: new Date(),
-        _id: `temp_${Date.now()}`, // Temporary ID for optimistic message
-      };
+    // Muted users and listeners can't post; the server would refuse anyway.
+    // Slow mode only holds back the composer, so Ted's replies still go out.
+    if (
+      currentRoom?._id === roomId &&
+      !composer.canSend &&
+      !composer.slowModeWait
+    ) {
+      setMessageState((prev) => ({ ...prev, error: composer.reason }));
+      return;
+    }
+    const sentAt = Date.now();
+    setLastSentAt((prev) => ({ ...prev, [roomId]: sentAt }));
+    setNow(sentAt);
 
-      // Add optimistic message to state immediately
-      setMessageState((prevState) => ({
-        ...prevState,
-        messages: [...prevState.messages, optimisticMessage as any],
-        loading: false,
-        error: null,
-      }));
+    // Ensure we're connected to the room via socket
+    socketService.joinRoom(roomId);
 
-      // Send through API (server will handle socket emission)
-      const response = await roomsAPI.sendMessage(roomId, content);
-      const realMessage = response.data.message;
+    const entry = outboxService.createOutboxEntry(roomId, content, options);
+    updateOutbox((entries) => [...entries, entry]);
+    showOutboxEntry(entry);
 
-      // Replace optimistic message with real message
-      setMessageState((prevState) => ({
-        ...prevState,
-        messages: prevState.messages.map((msg) =>
-          msg._id === optimisticMessage._id ? realMessage : msg
+    // Sending is a good moment to retry anything still queued, in order
+    retryPendingNow();
+  };
+
+  // Manually retry a message that failed to deliver
+  const retryMessage = async (clientId: string): Promise<void> => {
+    const entry = outboxRef.current.find((item) => item.clientId === clientId);
+    if (!entry) return;
+
+    const requeued: OutboxEntry = {
+      ...entry,
+      attempts: 0,
+      status: MessageStatus.PENDING,
+      nextAttemptAt: Date.now(),
+      error: undefined,
+    };
+    updateOutbox((entries) =>
+      entries.map((item) => (item.clientId === clientId ? requeued : item))
+    );
+    showOutboxEntry(requeued);
+
+    await flushOutbox();
+  };
+
+  // Give up on an undelivered message
+  const discardMessage = (clientId: string) => {
+    const entry = outboxRef.current.find((item) => item.clientId === clientId);
+    updateOutbox((entries) =>
+      entries.filter((item) => item.clientId !== clientId)
+    );
+
+    const parentId = entry?.parentId;
+    if (parentId) {
+      setThreads((prevThreads) => ({
+        ...prevThreads,
+        [parentId]: (prevThreads[parentId] || []).filter(
+          (msg) => msg.clientId !== clientId
         ),
       }));
+      return;
+    }
+
+    setMessageState((prevState) => ({
+      ...prevState,
+      messages: prevState.messages.filter((msg) => msg.clientId !== clientId),
+    }));
+  };
+
+  // Find a message in the timeline or in any loaded thread
+  const findMessage = (messageId: string): Message | undefined =>
+    [...messagesRef.current, ...Object.values(threadsRef.current).flat()].find(
+      (msg) => msg._id === messageId
+    );
+
+  // Edit a message. The new content shows immediately, with the previous
+  // version added to the edit history, and is rolled back on failure.
+  const editMessage = async (
+    roomId: string,
+    messageId: string,
+    content: string
+  ): Promise<void> => {
+    const original = findMessage(messageId);
+    if (!roomId || !original || original.deletedAt) return;
+    if (!content.trim() || content === original.content) return;
+
+    const editedAt = new Date().toISOString();
+    updateMessageById(messageId, (msg) => ({
+      ...msg,
+      content,
+      editedAt,
+      editHistory: [
+        ...(msg.editHistory || []),
+        { content: msg.content, editedAt: msg.editedAt || msg.createdAt },
+      ],
+    }));
+
+    try {
+      const response = await roomsAPI.editMessage(roomId, messageId, content);
+      const serverMessage: Message | undefined = response.data?.message;
+      if (serverMessage) {
+        updateMessageById(messageId, (msg) => ({ ...msg, ...serverMessage }));
+      }
     } catch (error: any) {
-      console.error("Send message error:", error);
-      // Remove optimistic message on error
-      setMessageState((prevState) => ({
-        ...prevState,
-        messages: prevState.messages.filter(
-          (msg) => msg._id !== `temp_${Date.now()}`
-        ),
-        loading: false,
-        error: error.response?.data?.message || "Failed to send message",
+      console.error("Edit message error:", error);
+      updateMessageById(messageId, () => original);
+      setMessageState((prev) => ({
+        ...prev,
+        error: error.response?.data?.message || "Failed to edit message",
       }));
     }
   };
 
-  // Send a reaction
-  const sendReaction = async (roomId: string, emoji: string): Promise<void> => {
-    if (!roomId || !emoji) return;
+  // Delete a message, leaving a tombstone in its place
+  const deleteMessage = async (
+    roomId: string,
+    messageId: string
+  ): Promise<void> => {
+    const original = findMessage(messageId);
+    if (!roomId || !original || original.deletedAt) return;
+
+    updateMessageById(messageId, (msg) =>
+      toTombstone(msg, new Date().toISOString(), userRef.current?.id)
+    );
 
     try {
-      setReactionState((prev) => ({ ...prev, loading: true, error: null }));
+      const response = await roomsAPI.deleteMessage(roomId, messageId);
+      const serverMessage: Message | undefined = response.data?.message;
+      if (serverMessage) {
+        updateMessageById(messageId, (msg) => ({ ...msg, ...serverMessage }));
+      }
+      dropRoomFiles(messageId);
+    } catch (error: any) {
+      console.error("Delete message error:", error);
+      updateMessageById(messageId, () => original);
+      setMessageState((prev) => ({
+        ...prev,
+        error: error.response?.data?.message || "Failed to delete message",
+      }));
+    }
+  };
 
-      // Ensure we're connected to the room via socket
-      socketService.joinRoom(roomId);
+  // Toggle the current user's reaction on a message. The change shows
+  // immediately and is rolled back if the server rejects it.
+  const toggleMessageReaction = useCallback(
+    async (roomId: string, messageId: string, emoji: string): Promise<void> => {
+      const userId = userRef.current?.id;
+      if (!roomId || !messageId || !emoji || !userId) return;
 
-      // Send through API
-      const response = await roomsAPI.sendReaction(roomId, emoji);
-      const newReaction = response.data.reaction;
+      const message = [
+        ...messagesRef.current,
+        ...Object.values(threadsRef.current).flat(),
+      ].find((msg) => msg._id === messageId);
+      if (!message || message.deletedAt) return;
 
-      // Also emit via socket for real-time updates
-      socketService.sendReaction({
-        roomId,
-        emoji,
-        userId: user?.id || "",
-      });
+      const previousReactions = message.reactions || [];
+      const hasReacted = previousReactions.some(
+        (reaction) =>
+          reaction.emoji === emoji && reaction.users.includes(userId)
+      );
 
-      // Add to local state
-      setReactionState((prevState) => ({
-        ...prevState,
-        reactions: [...prevState.reactions, newReaction],
-        loading: false,
-        error: null,
+      updateMessageById(messageId, (msg) => ({
+        ...msg,
+        reactions: applyReaction(msg.reactions, emoji, userId, !hasReacted),
       }));
+
+      try {
+        const response = hasReacted
+          ? await roomsAPI.removeMessageReaction(roomId, messageId, emoji)
+          : await roomsAPI.addMessageReaction(roomId, messageId, emoji);
+
+        const reactions: ReactionSummary[] | undefined =
+          response.data?.reactions;
+        if (reactions) {
+          updateMessageById(messageId, (msg) => ({ ...msg, reactions }));
+        }
+      } catch (error: any) {
+        console.error("Toggle reaction error:", error);
+        updateMessageById(messageId, (msg) => ({
+          ...msg,
+          reactions: previousReactions,
+        }));
+        setReactionState((prev) => ({
+          ...prev,
+          error: error.response?.data?.message || "Failed to update reaction",
+        }));
+      }
+    },
+    [updateMessageById]
+  );
+
+  // Upload a file so its ID can be sent with a message
+  const uploadAttachment = useCallback(
+    async (
+      roomId: string,
+      file: File,
+      onProgress?: (percent: number) => void,
+      signal?: AbortSignal
+    ): Promise<Attachment> => {
+      try {
+        const response = await roomsAPI.uploadAttachment(roomId, file, {
+          onProgress,
+          signal,
+        });
+        return response.data.attachment;
+      } catch (error: any) {
+        // Surface the server's reason in the uploader's error text
+        throw new Error(
+          signal?.aborted
+            ? "Upload cancelled"
+            : error.response?.data?.message || "Upload failed"
+        );
+      }
+    },
+    []
+  );
+
+  // Load the files shared in a room for the files panel
+  const fetchRoomFiles = useCallback(async (roomId: string): Promise<void> => {
+    if (!roomId) return;
+
+    setRoomFilesLoading(true);
+    try {
+      const response = await roomsAPI.getRoomAttachments(roomId);
+      if (roomId === activeRoomRef.current) {
+        setRoomFiles(response.data.attachments || []);
+      }
     } catch (error: any) {
-      console.error("Send reaction error:", error);
-      setReactionState((prev) => ({
+      setMessageState((prev) => ({
         ...prev,
-        loading: false,
-        error: error.response?.data?.message || "Failed to send reaction",
+        error: error.response?.data?.message || "Failed to fetch room files",
       }));
+    } finally {
+      setRoomFilesLoading(false);
     }
-  };
+  }, []);
 
   // Clear error
   const clearError = () => {
@@ -329,19 +1186,65 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({
     setReactionState((prev) => ({ ...prev, error: null }));
   };
 
+  const composer = useMemo(
+    () =>
+      getComposerState(
+        currentRoom,
+        user?.id,
+        currentRoom ? lastSentAt[currentRoom._id] : undefined,
+        now,
+        t,
+        formatTime
+      ),
+    [currentRoom, user?.id, lastSentAt, now, t, formatTime]
+  );
+
+  // Re-check once a slow mode wait or a timed mute is over
+  const muteEndsAt =
+    currentRoom && user
+      ? getMuteEnd(currentRoom, user.id, now)?.getTime()
+      : undefined;
+  useEffect(() => {
+    const delay =
+      composer.slowModeWait > 0
+        ? 1000
+        : muteEndsAt
+        ? Math.min(muteEndsAt - Date.now(), 2 ** 31 - 1)
+        : null;
+    if (delay === null) return;
+
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(delay, 0));
+    return () => clearTimeout(timer);
+  }, [composer.slowModeWait, muteEndsAt]);
+
   return (
     <ChatContext.Provider
       value={{
         messages: messageState.messages,
+        threads,
+        threadLoading,
         reactions: reactionState.reactions,
         messageLoading: messageState.loading,
+        hasMoreMessages: messageState.hasMore,
+        loadingOlderMessages: messageState.loadingOlder,
         reactionLoading: reactionState.loading,
         error: messageState.error || reactionState.error,
         fetchMessages,
+        fetchOlderMessages,
+        fetchThread,
         fetchReactions,
         sendMessage,
-        sendReaction,
+        toggleMessageReaction,
+        editMessage,
+        deleteMessage,
+        retryMessage,
+        discardMessage,
         clearError,
+        composer,
+        uploadAttachment,
+        roomFiles,
+        roomFilesLoading,
+        fetchRoomFiles,
       }}
     >
       {children}
@@ -0,0 +1,108 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+} from "react";
+import {
+  baseCatalog,
+  Catalog,
+  getLanguage,
+  loadCatalog,
+  MessageKey,
+  TextDirection,
+  Translate,
+} from "../locales";
+import { formatMessage, MessageValues } from "../utils/messageFormat";
+import { usePreferences } from "./PreferencesContext";
+import { useTheme } from "./ThemeContext";
+
+interface I18nContextType {
+  // The language the UI is shown in. It changes once its catalog is in,
+  // so text and layout never show half of one language and half another.
+  language: string;
+  direction: TextDirection;
+  // Whether a newly picked language is still downloading
+  loading: boolean;
+  t: Translate;
+}
+
+interface ActiveCatalog {
+  code: string;
+  messages: Catalog;
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { preferences } = usePreferences();
+  const { setDirection } = useTheme();
+  const requested = getLanguage(preferences.language).code;
+  const [active, setActive] = useState<ActiveCatalog>({
+    code: "en",
+    messages: baseCatalog,
+  });
+  const [loading, setLoading] = useState(false);
+
+  // Fetch the catalog for the chosen language
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    loadCatalog(requested)
+      .then((messages) => {
+        if (!cancelled) setActive({ code: requested, messages });
+      })
+      .catch((err) => {
+        // Usually a chunk that couldn't download; stay in the current
+        // language rather than showing nothing
+        console.error(`Failed to load the "${requested}" catalog:`, err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requested]);
+
+  const direction = getLanguage(active.code).direction;
+
+  // Let the browser and MUI lay the page out for the language
+  useEffect(() => {
+    document.documentElement.lang = active.code;
+    document.documentElement.dir = direction;
+    setDirection(direction);
+  }, [active.code, direction, setDirection]);
+
+  const t = useCallback(
+    (key: MessageKey, values?: MessageValues) => {
+      const message = active.messages[key];
+      // Untranslated keys use the English text, with English plural rules
+      return message === undefined
+        ? formatMessage(baseCatalog[key], values, "en")
+        : formatMessage(message, values, active.code);
+    },
+    [active]
+  );
+
+  return (
+    <I18nContext.Provider
+      value={{ language: active.code, direction, loading, t }}
+    >
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = () => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error("useI18n must be used within an I18nProvider");
+  }
+  return context;
+};
@@ -0,0 +1,244 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+} from "react";
+import {
+  InviteRecipients,
+  InviteStatus,
+  Room,
+  RoomInvite,
+  UserSummary,
+} from "../types";
+import { invitesAPI, usersAPI } from "../services/api";
+import socketService from "../services/socket";
+import { useAuth } from "./AuthContext";
+import { useRoom } from "./RoomContext";
+
+interface InviteContextType {
+  // The signed-in user's pending invites
+  myInvites: RoomInvite[];
+  // Invites hosts have loaded for their rooms, keyed by room ID
+  roomInvites: Record<string, RoomInvite[]>;
+  fetchMyInvites: () => Promise<void>;
+  getPendingInvite: (roomId: string) => RoomInvite | undefined;
+  // Accepting joins the room
+  acceptInvite: (inviteId: string) => Promise<Room>;
+  declineInvite: (inviteId: string) => Promise<void>;
+  // Host actions
+  fetchRoomInvites: (roomId: string) => Promise<RoomInvite[]>;
+  sendInvites: (
+    roomId: string,
+    recipients: InviteRecipients
+  ) => Promise<RoomInvite[]>;
+  revokeInvite: (invite: RoomInvite) => Promise<void>;
+  resendInvite: (invite: RoomInvite) => Promise<void>;
+  searchUsers: (query: string) => Promise<UserSummary[]>;
+}
+
+const InviteContext = createContext<InviteContextType | undefined>(undefined);
+
+// Put an invite in a room's list, replacing an older copy of it
+const upsertInvite = (invites: RoomInvite[], invite: RoomInvite) =>
+  invites.some((existing) => existing._id === invite._id)
+    ? invites.map((existing) =>
+        existing._id === invite._id ? invite : existing
+      )
+    : [invite, ...invites];
+
+/**
+ * Invites as records with a status. Callers handle errors themselves, since
+ * each action is started from a dialog or button that shows them.
+ */
+export const InviteProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { isAuthenticated, user } = useAuth();
+  const { fetchUserRooms } = useRoom();
+  const [myInvites, setMyInvites] = useState<RoomInvite[]>([]);
+  const [roomInvites, setRoomInvites] = useState<Record<string, RoomInvite[]>>(
+    {}
+  );
+
+  const fetchMyInvites = useCallback(async (): Promise<void> => {
+    try {
+      const response = await invitesAPI.getMyInvites();
+      setMyInvites(response.data.invites || []);
+    } catch (error) {
+      console.error("Failed to fetch invites:", error);
+    }
+  }, []);
+
+  const applyInvite = useCallback((invite: RoomInvite) => {
+    setMyInvites((prev) =>
+      invite.status === InviteStatus.PENDING
+        ? upsertInvite(prev, invite)
+        : prev.filter((existing) => existing._id !== invite._id)
+    );
+    setRoomInvites((prev) =>
+      prev[invite.roomId]
+        ? {
+            ...prev,
+            [invite.roomId]: upsertInvite(prev[invite.roomId], invite),
+          }
+        : prev
+    );
+  }, []);
+
+  // Load invites on login and follow changes made elsewhere
+  const userId = user?.id;
+  useEffect(() => {
+    if (!isAuthenticated || !userId) {
+      setMyInvites([]);
+      setRoomInvites({});
+      return;
+    }
+
+    fetchMyInvites();
+
+    socketService.initSocket();
+    // New invites and resends
+    const unsubscribeInvitation = socketService.on("room_invitation", () => {
+      fetchMyInvites();
+    });
+
+    const unsubscribeUpdated = socketService.on("invite_updated", (data) => {
+      setRoomInvites((prev) =>
+        prev[data.roomId]
+          ? {
+              ...prev,
+              [data.roomId]: prev[data.roomId].map((invite) =>
+                invite._id === data.inviteId
+                  ? { ...invite, status: data.status }
+                  : invite
+              ),
+            }
+          : prev
+      );
+      // A revoked invite takes the room off the user's invitations
+      if (data.status === InviteStatus.REVOKED) {
+        setMyInvites((prev) =>
+          prev.filter((invite) => invite._id !== data.inviteId)
+        );
+        fetchUserRooms();
+      }
+    });
+
+    return () => {
+      unsubscribeInvitation();
+      unsubscribeUpdated();
+    };
+  }, [isAuthenticated, userId, fetchMyInvites, fetchUserRooms]);
+
+  const getPendingInvite = useCallback(
+    (roomId: string) =>
+      myInvites.find(
+        (invite) =>
+          invite.roomId === roomId && invite.status === InviteStatus.PENDING
+      ),
+    [myInvites]
+  );
+
+  const acceptInvite = useCallback(
+    async (inviteId: string): Promise<Room> => {
+      const response = await invitesAPI.accept(inviteId);
+      applyInvite(response.data.invite);
+      const room: Room = response.data.room;
+      socketService.joinRoom(room._id);
+      await fetchUserRooms();
+      return room;
+    },
+    [applyInvite, fetchUserRooms]
+  );
+
+  const declineInvite = useCallback(
+    async (inviteId: string): Promise<void> => {
+      const response = await invitesAPI.decline(inviteId);
+      applyInvite(response.data.invite);
+      await fetchUserRooms();
+    },
+    [applyInvite, fetchUserRooms]
+  );
+
+  const fetchRoomInvites = useCallback(
+    async (roomId: string): Promise<RoomInvite[]> => {
+      const response = await invitesAPI.getRoomInvites(roomId);
+      const invites: RoomInvite[] = response.data.invites || [];
+      setRoomInvites((prev) => ({ ...prev, [roomId]: invites }));
+      return invites;
+    },
+    []
+  );
+
+  const sendInvites = useCallback(
+    async (
+      roomId: string,
+      recipients: InviteRecipients
+    ): Promise<RoomInvite[]> => {
+      const response = await invitesAPI.sendInvites(roomId, recipients);
+      const invites: RoomInvite[] = response.data.invites || [];
+      setRoomInvites((prev) => ({
+        ...prev,
+        [roomId]: invites.reduce(upsertInvite, prev[roomId] || []),
+      }));
+      return invites;
+    },
+    []
+  );
+
+  const revokeInvite = useCallback(
+    async (invite: RoomInvite): Promise<void> => {
+      const response = await invitesAPI.revoke(invite._id);
+      applyInvite(response.data.invite);
+    },
+    [applyInvite]
+  );
+
+  const resendInvite = useCallback(
+    async (invite: RoomInvite): Promise<void> => {
+      const response = await invitesAPI.resend(invite._id);
+      applyInvite(response.data.invite);
+    },
+    [applyInvite]
+  );
+
+  const searchUsers = useCallback(
+    async (query: string): Promise<UserSummary[]> => {
+      const trimmed = query.trim();
+      if (!trimmed) return [];
+      const response = await usersAPI.search(trimmed);
+      return response.data.users || [];
+    },
+    []
+  );
+
+  return (
+    <InviteContext.Provider
+      value={{
+        myInvites,
+        roomInvites,
+        fetchMyInvites,
+        getPendingInvite,
+        acceptInvite,
+        declineInvite,
+        fetchRoomInvites,
+        sendInvites,
+        revokeInvite,
+        resendInvite,
+        searchUsers,
+      }}
+    >
+      {children}
+    </InviteContext.Provider>
+  );
+};
+
+export const useInvites = (): InviteContextType => {
+  const context = useContext(InviteContext);
+  if (context === undefined) {
+    throw new Error("useInvites must be used within an InviteProvider");
+  }
+  return context;
+};
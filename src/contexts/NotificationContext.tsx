@@ -1,16 +1,32 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
 import { useRoom } from "./RoomContext";
 import { useAuth } from "./AuthContext";
-import { Room } from "../types";
+import { usePreferences } from "./PreferencesContext";
+import { RoomStatus } from "../types";
 import socketService from "../services/socket";
 
 export interface Notification {
   id: string;
-  type: "invite" | "live" | "upcoming";
+  type:
+    | "invite"
+    | "live"
+    | "upcoming"
+    | "mention"
+    | "cancelled"
+    | "removed"
+    | "promoted";
   title: string;
   message: string;
   timestamp: Date;
-  roomId: string;
+  // Missing when the room no longer exists
+  roomId?: string;
   isRead: boolean;
 }
 
@@ -32,9 +48,26 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const { rooms } = useRoom();
   const { isAuthenticated, user } = useAuth();
+  const { preferences } = usePreferences();
+  const { roomInvitations, messageNotifications, pushNotifications } =
+    preferences;
+  // IDs already announced, so each notification pops up once at most
+  const announcedRef = useRef<Set<string>>(new Set());
+
+  // Kinds the user turned off are hidden rather than dropped, so turning
+  // them back on brings them back
+  const visibleNotifications = useMemo(
+    () =>
+      notifications.filter(
+        (notification) =>
+          (notification.type !== "invite" || roomInvitations) &&
+          (notification.type !== "mention" || messageNotifications)
+      ),
+    [notifications, roomInvitations, messageNotifications]
+  );
 
   // Calculate total unread notifications
-  const totalUnread = notifications.filter(
+  const totalUnread = visibleNotifications.filter(
     (notification) => !notification.isRead
   ).length;
 
@@ -43,12 +76,12 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
     if (!isAuthenticated || !user) return;
 
     // Initialize socket
-    const socket = socketService.initSocket();
+    socketService.initSocket();
 
     // Listen for room invitation events
-    socket.on(
+    const unsubscribeInvitation = socketService.on(
       "room_invitation",
-      (data: { roomId: string; roomTitle: string }) => {
+      (data) => {
         // Add a new notification for the invite
         const newNotification: Notification = {
           id: `socket-invite-${data.roomId}-${Date.now()}`,
@@ -65,11 +98,11 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
     );
 
     // Listen for room status changes
-    socket.on(
+    const unsubscribeStatus = socketService.on(
       "room_status_changed",
-      (data: { roomId: string; roomTitle: string; status: string }) => {
+      (data) => {
         // Only notify for 'live' status
-        if (data.status === "live") {
+        if (data.status === RoomStatus.LIVE) {
           const newNotification: Notification = {
             id: `socket-status-${data.roomId}-${Date.now()}`,
             type: "live",
@@ -81,14 +114,121 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
           };
 
           setNotifications((prev) => [newNotification, ...prev]);
+        } else if (data.status === RoomStatus.CANCELLED) {
+          const newNotification: Notification = {
+            id: `cancelled-${data.roomId}`,
+            type: "cancelled",
+            title: "Room Cancelled",
+            message: `"${data.roomTitle}" has been cancelled by the host`,
+            timestamp: new Date(),
+            roomId: data.roomId,
+            isRead: false,
+          };
+
+          setNotifications((prev) => [
+            newNotification,
+            ...prev.filter((n) => n.id !== newNotification.id),
+          ]);
         }
       }
     );
 
+    // Listen for rooms the host deleted
+    const unsubscribeDeleted = socketService.on("room_deleted", (data) => {
+      const newNotification: Notification = {
+        id: `deleted-${data.roomId}`,
+        type: "cancelled",
+        title: "Room Deleted",
+        message: data.roomTitle
+          ? `"${data.roomTitle}" was deleted by the host`
+          : "A room you were in was deleted by the host",
+        timestamp: new Date(),
+        isRead: false,
+      };
+
+      setNotifications((prev) => [
+        newNotification,
+        // Other notifications can't link to the room any more
+        ...prev.filter((n) => n.roomId !== data.roomId),
+      ]);
+    });
+
+    // Listen for moderators removing the current user from a room
+    const unsubscribeRemoved = socketService.on("member_removed", (data) => {
+      if (data.userId !== user?.id) return;
+
+      const room = data.roomTitle ? `"${data.roomTitle}"` : "a room";
+      const newNotification: Notification = {
+        id: `removed-${data.roomId}`,
+        type: "removed",
+        title: data.banned ? "Banned from Room" : "Removed from Room",
+        message: data.banned
+          ? `You were banned from ${room} and can't rejoin it`
+          : `A moderator removed you from ${room}`,
+        timestamp: new Date(),
+        isRead: false,
+      };
+
+      setNotifications((prev) => [
+        newNotification,
+        ...prev.filter((n) => n.roomId !== data.roomId),
+      ]);
+    });
+
+    // Listen for the current user getting a place off a room's waitlist
+    const unsubscribePromoted = socketService.on(
+      "waitlist_promoted",
+      (data) => {
+        if (data.userId !== user?.id) return;
+
+        const newNotification: Notification = {
+          id: `promoted-${data.roomId}`,
+          type: "promoted",
+          title: "You're In!",
+          message: data.roomTitle
+            ? `A place opened up in "${data.roomTitle}" and it's yours`
+            : "A place opened up in a room you were waiting for",
+          timestamp: new Date(),
+          roomId: data.roomId,
+          isRead: false,
+        };
+
+        setNotifications((prev) => [
+          newNotification,
+          ...prev.filter((n) => n.id !== newNotification.id),
+        ]);
+      }
+    );
+
+    // Listen for mentions of the current user
+    const unsubscribeMention = socketService.on("user_mentioned", (data) => {
+      const newNotification: Notification = {
+        id: `mention-${data.messageId}`,
+        type: "mention",
+        title: `${data.senderName} mentioned you`,
+        message: data.roomTitle
+          ? `In "${data.roomTitle}": ${data.excerpt}`
+          : data.excerpt,
+        timestamp: new Date(),
+        roomId: data.roomId,
+        isRead: false,
+      };
+
+      setNotifications((prev) =>
+        prev.some((notification) => notification.id === newNotification.id)
+          ? prev
+          : [newNotification, ...prev]
+      );
+    });
+
     return () => {
       // Remove listeners when component unmounts
-      socket.off("room_invitation");
-      socket.off("room_status_changed");
+      unsubscribeInvitation();
+      unsubscribeStatus();
+      unsubscribeMention();
+      unsubscribeDeleted();
+      unsubscribeRemoved();
+      unsubscribePromoted();
     };
   }, [isAuthenticated, user]);
 
@@ -96,6 +236,7 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
   useEffect(() => {
     if (!isAuthenticated) {
       setNotifications([]);
+      announcedRef.current.clear();
       return;
     }
 
@@ -148,19 +289,61 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
       }
     });
 
-    // Merge with existing notifications, preserving read status
+    // Merge with existing notifications, preserving read status. Mentions,
+    // cancellations, removals and promotions don't come from room data, so
+    // they are kept as they are.
     setNotifications((prev) => {
       const existingNotificationsMap = new Map(prev.map((n) => [n.id, n]));
+      const socketOnly = prev.filter(
+        (n) =>
+          n.type === "mention" ||
+          n.type === "cancelled" ||
+          n.type === "removed" ||
+          n.type === "promoted"
+      );
 
-      return newNotifications.map((notification) => {
-        const existing = existingNotificationsMap.get(notification.id);
-        return existing
-          ? { ...notification, isRead: existing.isRead }
-          : notification;
-      });
+      return [
+        ...socketOnly,
+        ...newNotifications.map((notification) => {
+          const existing = existingNotificationsMap.get(notification.id);
+          return existing
+            ? { ...notification, isRead: existing.isRead }
+            : notification;
+        }),
+      ];
     });
   }, [rooms, isAuthenticated]);
 
+  // Pop up new notifications through the browser while the tab is in the
+  // background, if the user allowed it
+  useEffect(() => {
+    const announced = announcedRef.current;
+    const fresh = visibleNotifications.filter(
+      (notification) => !notification.isRead && !announced.has(notification.id)
+    );
+    fresh.forEach((notification) => announced.add(notification.id));
+
+    if (
+      !pushNotifications ||
+      !document.hidden ||
+      typeof window.Notification === "undefined" ||
+      window.Notification.permission !== "granted"
+    ) {
+      return;
+    }
+
+    fresh.forEach((notification) => {
+      const popup = new window.Notification(notification.title, {
+        body: notification.message,
+        tag: notification.id,
+      });
+      popup.onclick = () => {
+        window.focus();
+        popup.close();
+      };
+    });
+  }, [visibleNotifications, pushNotifications]);
+
   // Mark a notification as read
   const markAsRead = (notificationId: string) => {
     setNotifications((prev) =>
@@ -189,7 +372,7 @@ export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
   return (
     <NotificationContext.Provider
       value={{
-        notifications,
+        notifications: visibleNotifications,
         totalUnread,
         markAsRead,
         markAllAsRead,
@@ -0,0 +1,261 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  useMemo,
+} from "react";
+import { StoredPreferences, UserPreferences } from "../types";
+import { preferencesAPI } from "../services/api";
+import socketService from "../services/socket";
+import {
+  createStoredPreferences,
+  defaultPreferences,
+  loadCachedPreferences,
+  migratePreferences,
+  PREFERENCES_VERSION,
+  saveCachedPreferences,
+} from "../services/preferences";
+import {
+  createDateFormatter,
+  DateFormatter,
+  getDateLocale,
+} from "../utils/dateFormat";
+import { getLanguage } from "../locales";
+import { useAuth } from "./AuthContext";
+import { useTheme } from "./ThemeContext";
+
+interface PreferencesContextType {
+  preferences: UserPreferences;
+  // Whether the server copy has been checked since login
+  loaded: boolean;
+  saving: boolean;
+  // Set when the latest change couldn't reach the server. It still applies
+  // on this device and is retried when the connection comes back.
+  error: string | null;
+  updatePreferences: (changes: Partial<UserPreferences>) => Promise<void>;
+}
+
+// Older than anything saved, so it never wins a reconcile
+const emptyPreferences = (): StoredPreferences => ({
+  version: PREFERENCES_VERSION,
+  updatedAt: new Date(0).toISOString(),
+  preferences: defaultPreferences,
+});
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(
+  undefined
+);
+
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { isAuthenticated, user } = useAuth();
+  const { mode, setMode } = useTheme();
+  const [stored, setStored] = useState<StoredPreferences>(emptyPreferences);
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const storedRef = useRef(stored);
+  // Whether the server has the local copy
+  const syncedRef = useRef(true);
+  // The last theme mode seen, to tell a toggle apart from the preference
+  // changing underneath it
+  const lastModeRef = useRef(mode);
+
+  const userId = user?.id;
+
+  const applyPreferences = useCallback(
+    (next: StoredPreferences, synced: boolean) => {
+      storedRef.current = next;
+      syncedRef.current = synced;
+      setStored(next);
+      if (userId) saveCachedPreferences(userId, next, synced);
+    },
+    [userId]
+  );
+
+  const pushPreferences = useCallback(
+    async (next: StoredPreferences): Promise<void> => {
+      setSaving(true);
+      try {
+        const response = await preferencesAPI.save(next);
+        // Ignore the reply if the user changed something else meanwhile
+        if (storedRef.current.updatedAt !== next.updatedAt) return;
+        applyPreferences(
+          response.data.preferences
+            ? migratePreferences(response.data.preferences)
+            : next,
+          true
+        );
+        setError(null);
+      } catch (err: any) {
+        console.error("Failed to save preferences:", err);
+        setError(
+          err.response?.data?.message ||
+            "Your preferences couldn't be synced. They are saved on this device for now."
+        );
+      } finally {
+        setSaving(false);
+      }
+    },
+    [applyPreferences]
+  );
+
+  // Start from the local copy, then reconcile it with the server's. The
+  // newer one wins, but only unsynced local edits can beat the server.
+  useEffect(() => {
+    if (!isAuthenticated || !userId) {
+      const empty = emptyPreferences();
+      storedRef.current = empty;
+      syncedRef.current = true;
+      setStored(empty);
+      setLoaded(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const cached = loadCachedPreferences(userId);
+    // Without a local copy, keep the theme this browser already uses
+    const initial: StoredPreferences = cached || {
+      ...emptyPreferences(),
+      preferences: { ...defaultPreferences, theme: lastModeRef.current },
+    };
+    storedRef.current = initial;
+    syncedRef.current = cached ? cached.synced : true;
+    setStored(initial);
+
+    const reconcile = async () => {
+      try {
+        const response = await preferencesAPI.get();
+        if (cancelled) return;
+        const remote = response.data.preferences
+          ? migratePreferences(response.data.preferences)
+          : null;
+        const local = storedRef.current;
+        if (remote) {
+          const localWins =
+            !syncedRef.current &&
+            new Date(local.updatedAt) > new Date(remote.updatedAt);
+          if (localWins) {
+            pushPreferences(local);
+          } else {
+            applyPreferences(remote, true);
+          }
+        } else {
+          // Nothing saved yet, e.g. preferences kept only on this device
+          // before they were synced
+          pushPreferences(local);
+        }
+      } catch (err) {
+        console.error("Failed to load preferences:", err);
+      } finally {
+        if (!cancelled) setLoaded(true);
+      }
+    };
+
+    reconcile();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, userId, applyPreferences, pushPreferences]);
+
+  // Pick up changes saved on the user's other devices
+  useEffect(() => {
+    if (!isAuthenticated || !userId) return;
+
+    socketService.initSocket();
+    return socketService.on("preferences_updated", (data) => {
+      const remote = migratePreferences(data.preferences);
+      if (new Date(remote.updatedAt) > new Date(storedRef.current.updatedAt)) {
+        applyPreferences(remote, true);
+      }
+    });
+  }, [isAuthenticated, userId, applyPreferences]);
+
+  // Retry a change that failed to sync once the browser is back online
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const handleOnline = () => {
+      if (!syncedRef.current) pushPreferences(storedRef.current);
+    };
+
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [isAuthenticated, pushPreferences]);
+
+  const updatePreferences = useCallback(
+    async (changes: Partial<UserPreferences>): Promise<void> => {
+      const next = createStoredPreferences(
+        { ...storedRef.current.preferences, ...changes },
+        storedRef.current
+      );
+      applyPreferences(next, false);
+      await pushPreferences(next);
+    },
+    [applyPreferences, pushPreferences]
+  );
+
+  // Keep the theme toggle and the theme preference in step
+  const theme = stored.preferences.theme;
+  const themeRef = useRef(theme);
+
+  useEffect(() => {
+    themeRef.current = theme;
+    if (loaded) setMode(theme);
+  }, [loaded, theme, setMode]);
+
+  useEffect(() => {
+    if (mode === lastModeRef.current) return;
+    lastModeRef.current = mode;
+    if (loaded && mode !== themeRef.current) {
+      updatePreferences({ theme: mode });
+    }
+  }, [mode, loaded, updatePreferences]);
+
+  return (
+    <PreferencesContext.Provider
+      value={{
+        preferences: stored.preferences,
+        loaded,
+        saving,
+        error,
+        updatePreferences,
+      }}
+    >
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error("usePreferences must be used within a PreferencesProvider");
+  }
+  return context;
+};
+
+// Dates and times in the user's zone, language and formats
+export const useDateFormat = (): DateFormatter => {
+  const { preferences } = usePreferences();
+  const { timezone, dateFormat, timeFormat, language } = preferences;
+  return useMemo(
+    () =>
+      createDateFormatter({
+        timeZone: timezone,
+        dateFormat,
+        timeFormat,
+        // The UI language rather than the raw preference, so dates never
+        // come out in a language the rest of the page isn't in
+        locale: getDateLocale(getLanguage(language).code),
+      }),
+    [timezone, dateFormat, timeFormat, language]
+  );
+};
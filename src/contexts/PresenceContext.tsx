@@ -0,0 +1,214 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+} from "react";
+import { PresenceStatus, TypingUser } from "../types";
+import socketService from "../services/socket";
+import { useAuth } from "./AuthContext";
+import { usePreferences } from "./PreferencesContext";
+import { useRoom } from "./RoomContext";
+
+interface PresenceContextType {
+  // Other participants currently typing in the active room
+  typingUsers: TypingUser[];
+  getPresence: (userId: string) => PresenceStatus;
+  // Call on every keystroke; typing start/stop events are debounced
+  notifyTyping: (roomId: string) => void;
+  stopTyping: (roomId: string) => void;
+}
+
+// Stop counts as typing this long after the last keystroke
+const TYPING_IDLE_MS = 3000;
+// While typing continues, re-announce it so other clients don't expire it
+const TYPING_REFRESH_MS = 4000;
+// Drop a remote typer we haven't heard from, in case their stop event was lost
+const TYPING_EXPIRY_MS = 6000;
+
+const PresenceContext = createContext<PresenceContextType | undefined>(
+  undefined
+);
+
+export const PresenceProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { user, isAuthenticated } = useAuth();
+  const { currentRoom } = useRoom();
+  const { preferences } = usePreferences();
+  const { showOnlineStatus } = preferences;
+  const [presence, setPresence] = useState<Record<string, PresenceStatus>>({});
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [ownStatus, setOwnStatus] = useState<PresenceStatus>(
+    document.hidden ? PresenceStatus.AWAY : PresenceStatus.ONLINE
+  );
+
+  // Local typing state: the room we announced typing in and when
+  const typingRoomRef = useRef<string | null>(null);
+  const lastTypingStartRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Expiry timers for remote typers, keyed by user ID
+  const expiryTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(
+    new Map()
+  );
+
+  const userId = user?.id;
+  const roomId = currentRoom?._id;
+
+  const stopTyping = useCallback((targetRoomId: string) => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+    if (typingRoomRef.current === targetRoomId) {
+      socketService.stopTyping(targetRoomId);
+      typingRoomRef.current = null;
+      lastTypingStartRef.current = 0;
+    }
+  }, []);
+
+  const notifyTyping = useCallback(
+    (targetRoomId: string) => {
+      // Switching rooms mid-typing ends the previous indicator
+      if (typingRoomRef.current && typingRoomRef.current !== targetRoomId) {
+        stopTyping(typingRoomRef.current);
+      }
+
+      const now = Date.now();
+      if (
+        typingRoomRef.current !== targetRoomId ||
+        now - lastTypingStartRef.current > TYPING_REFRESH_MS
+      ) {
+        socketService.startTyping(targetRoomId);
+        typingRoomRef.current = targetRoomId;
+        lastTypingStartRef.current = now;
+      }
+
+      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = setTimeout(
+        () => stopTyping(targetRoomId),
+        TYPING_IDLE_MS
+      );
+    },
+    [stopTyping]
+  );
+
+  // Report this tab as away while it's hidden, or as offline throughout if
+  // the user hides their online status. The socket service combines this with
+  // the user's other tabs and resends it after reconnecting.
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    socketService.initSocket();
+    const reportStatus = () => {
+      const status = !showOnlineStatus
+        ? PresenceStatus.OFFLINE
+        : document.hidden
+        ? PresenceStatus.AWAY
+        : PresenceStatus.ONLINE;
+      setOwnStatus(status);
+      socketService.updatePresence(status);
+    };
+
+    reportStatus();
+    document.addEventListener("visibilitychange", reportStatus);
+
+    return () => {
+      document.removeEventListener("visibilitychange", reportStatus);
+    };
+  }, [isAuthenticated, showOnlineStatus]);
+
+  // Track presence and typing for the active room
+  useEffect(() => {
+    const expiryTimers = expiryTimersRef.current;
+    setPresence({});
+    setTypingUsers([]);
+    if (!roomId) return;
+
+    const removeTypingUser = (typerId: string) => {
+      const timer = expiryTimers.get(typerId);
+      if (timer) clearTimeout(timer);
+      expiryTimers.delete(typerId);
+      setTypingUsers((prev) =>
+        prev.filter((typer) => typer.userId !== typerId)
+      );
+    };
+
+    const unsubscribeRoomPresence = socketService.on(
+      "room_presence",
+      (data) => {
+        if (data.roomId !== roomId) return;
+        const snapshot: Record<string, PresenceStatus> = {};
+        data.users.forEach((entry) => {
+          snapshot[entry.userId] = entry.status;
+        });
+        setPresence(snapshot);
+      }
+    );
+
+    const unsubscribePresence = socketService.on("presence_updated", (data) => {
+      if (data.roomId !== roomId) return;
+      setPresence((prev) => ({ ...prev, [data.userId]: data.status }));
+      if (data.status === PresenceStatus.OFFLINE) {
+        removeTypingUser(data.userId);
+      }
+    });
+
+    const unsubscribeTyping = socketService.on("user_typing", (data) => {
+      if (data.roomId !== roomId || data.userId === userId) return;
+
+      if (!data.isTyping) {
+        removeTypingUser(data.userId);
+        return;
+      }
+
+      const existingTimer = expiryTimers.get(data.userId);
+      if (existingTimer) clearTimeout(existingTimer);
+      expiryTimers.set(
+        data.userId,
+        setTimeout(() => removeTypingUser(data.userId), TYPING_EXPIRY_MS)
+      );
+
+      setTypingUsers((prev) =>
+        prev.some((typer) => typer.userId === data.userId)
+          ? prev
+          : [...prev, { userId: data.userId, username: data.username }]
+      );
+    });
+
+    return () => {
+      unsubscribeRoomPresence();
+      unsubscribePresence();
+      unsubscribeTyping();
+      expiryTimers.forEach((timer) => clearTimeout(timer));
+      expiryTimers.clear();
+      stopTyping(roomId);
+    };
+  }, [roomId, userId, stopTyping]);
+
+  const getPresence = useCallback(
+    (participantId: string): PresenceStatus => {
+      if (participantId === userId) return ownStatus;
+      return presence[participantId] || PresenceStatus.OFFLINE;
+    },
+    [presence, userId, ownStatus]
+  );
+
+  return (
+    <PresenceContext.Provider
+      value={{ typingUsers, getPresence, notifyTyping, stopTyping }}
+    >
+      {children}
+    </PresenceContext.Provider>
+  );
+};
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error("usePresence must be used within a PresenceProvider");
+  }
+  return context;
+};
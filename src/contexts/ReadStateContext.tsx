@@ -0,0 +1,204 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+} from "react";
+import { RoomReadState } from "../types";
+import { roomsAPI } from "../services/api";
+import socketService from "../services/socket";
+import { useAuth } from "./AuthContext";
+import { useRoom } from "./RoomContext";
+
+interface ReadStateContextType {
+  readStates: Record<string, RoomReadState>;
+  // Whether read positions have been loaded from the server yet
+  loaded: boolean;
+  totalUnread: number;
+  getUnreadCount: (roomId: string) => number;
+  getLastReadMessageId: (roomId: string) => string | null;
+  // Record that the user has seen everything up to and including messageId
+  markRead: (roomId: string, messageId: string) => void;
+  refreshReadStates: () => Promise<void>;
+}
+
+// Read positions are batched so scrolling through a busy room sends one request
+const MARK_READ_DELAY_MS = 1000;
+
+const ReadStateContext = createContext<ReadStateContextType | undefined>(
+  undefined
+);
+
+export const ReadStateProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { isAuthenticated, user } = useAuth();
+  const { currentRoom } = useRoom();
+  const [readStates, setReadStates] = useState<Record<string, RoomReadState>>(
+    {}
+  );
+  const [loaded, setLoaded] = useState(false);
+
+  const readStatesRef = useRef(readStates);
+  const pendingTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(
+    new Map()
+  );
+  const activeRoomRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    readStatesRef.current = readStates;
+  }, [readStates]);
+
+  useEffect(() => {
+    activeRoomRef.current = currentRoom?._id || null;
+  }, [currentRoom]);
+
+  const applyReadState = useCallback((readState: RoomReadState) => {
+    setReadStates((prev) => ({ ...prev, [readState.roomId]: readState }));
+  }, []);
+
+  const refreshReadStates = useCallback(async (): Promise<void> => {
+    try {
+      const response = await roomsAPI.getReadStates();
+      const states: RoomReadState[] = response.data.readStates || [];
+      const byRoom: Record<string, RoomReadState> = {};
+      states.forEach((state) => {
+        byRoom[state.roomId] = state;
+      });
+      setReadStates(byRoom);
+    } catch (error) {
+      console.error("Failed to fetch read states:", error);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  // Load read positions on login and whenever the socket reconnects, since
+  // updates may have been missed while it was down. Clear them on logout.
+  const userId = user?.id;
+  useEffect(() => {
+    const pendingTimers = pendingTimersRef.current;
+
+    if (!isAuthenticated || !userId) {
+      setReadStates({});
+      setLoaded(false);
+      return;
+    }
+
+    refreshReadStates();
+
+    socketService.initSocket();
+    const unsubscribeConnect = socketService.onConnect(refreshReadStates);
+    const unsubscribeReadState = socketService.on(
+      "read_state_updated",
+      applyReadState
+    );
+
+    // Count messages arriving in rooms the user isn't looking at
+    const unsubscribeMessage = socketService.on("receive_message", (data) => {
+      if (data.roomId === activeRoomRef.current || data.senderId === userId) {
+        return;
+      }
+      setReadStates((prev) => {
+        const current = prev[data.roomId];
+        return {
+          ...prev,
+          [data.roomId]: {
+            roomId: data.roomId,
+            lastReadMessageId: current?.lastReadMessageId ?? null,
+            unreadCount: (current?.unreadCount || 0) + 1,
+          },
+        };
+      });
+    });
+
+    return () => {
+      unsubscribeConnect();
+      unsubscribeReadState();
+      unsubscribeMessage();
+      pendingTimers.forEach((timer) => clearTimeout(timer));
+      pendingTimers.clear();
+    };
+  }, [isAuthenticated, userId, refreshReadStates, applyReadState]);
+
+  const markRead = useCallback(
+    (roomId: string, messageId: string) => {
+      const current = readStatesRef.current[roomId];
+      if (
+        current?.lastReadMessageId === messageId &&
+        current.unreadCount === 0
+      ) {
+        return;
+      }
+
+      applyReadState({
+        roomId,
+        lastReadMessageId: messageId,
+        unreadCount: 0,
+        updatedAt: new Date().toISOString(),
+      });
+
+      const pendingTimers = pendingTimersRef.current;
+      const existingTimer = pendingTimers.get(roomId);
+      if (existingTimer) clearTimeout(existingTimer);
+
+      pendingTimers.set(
+        roomId,
+        setTimeout(async () => {
+          pendingTimers.delete(roomId);
+          try {
+            const response = await roomsAPI.markRoomRead(roomId, messageId);
+            if (response.data?.readState) {
+              applyReadState(response.data.readState);
+            }
+          } catch (error) {
+            // The next read or a refresh will sync the position again
+            console.error("Failed to save read position:", error);
+          }
+        }, MARK_READ_DELAY_MS)
+      );
+    },
+    [applyReadState]
+  );
+
+  const getUnreadCount = useCallback(
+    (roomId: string) => readStates[roomId]?.unreadCount || 0,
+    [readStates]
+  );
+
+  const getLastReadMessageId = useCallback(
+    (roomId: string) => readStates[roomId]?.lastReadMessageId ?? null,
+    [readStates]
+  );
+
+  const totalUnread = Object.values(readStates).reduce(
+    (total, state) => total + state.unreadCount,
+    0
+  );
+
+  return (
+    <ReadStateContext.Provider
+      value={{
+        readStates,
+        loaded,
+        totalUnread,
+        getUnreadCount,
+        getLastReadMessageId,
+        markRead,
+        refreshReadStates,
+      }}
+    >
+      {children}
+    </ReadStateContext.Provider>
+  );
+};
+
+export const useReadState = () => {
+  const context = useContext(ReadStateContext);
+  if (context === undefined) {
+    throw new Error("useReadState must be used within a ReadStateProvider");
+  }
+  return context;
+};
@@ -5,21 +5,84 @@ import React, {
   ReactNode,
   useEffect,
   useCallback,
+  useRef,
 } from "react";
-import { roomsAPI } from "../services/api";
-import { Room, RoomState, CreateRoomFormData, RoomType } from "../types";
+import { calendarAPI, roomsAPI } from "../services/api";
+import {
+  Room,
+  RoomState,
+  RoomStatus,
+  CreateRoomFormData,
+  RescheduleRoomData,
+  RoomRole,
+  RoomSearchPage,
+  RoomSearchParams,
+  RoomType,
+  SeriesEditScope,
+  UpdateRoomFormData,
+  User,
+  UserSummary,
+} from "../types";
+import { userIdOf } from "../utils/roles";
 import { useAuth } from "./AuthContext";
 import socketService from "../services/socket";
 
 interface RoomContextType extends RoomState {
   createRoom: (formData: CreateRoomFormData) => Promise<Room>;
   joinRoom: (roomId: string) => Promise<void>;
+  joinRoomByCode: (code: string) => Promise<Room>;
   leaveRoom: (roomId: string) => Promise<void>;
+  // Give up the user's place in a room, unlike leaveRoom which only stops
+  // following it live
+  withdrawFromRoom: (roomId: string) => Promise<void>;
+  joinWaitlist: (roomId: string) => Promise<Room>;
+  leaveWaitlist: (roomId: string) => Promise<Room>;
   fetchPublicRooms: () => Promise<void>;
   fetchAllRooms: () => Promise<void>;
+  // Explore search. The first page replaces `publicRooms` and later pages,
+  // fetched with a cursor, are added to it.
+  searchRooms: (
+    search: RoomSearchParams,
+    cursor?: string
+  ) => Promise<RoomSearchPage>;
   fetchUserRooms: () => Promise<void>;
   fetchRoomById: (roomId: string) => Promise<Room>;
-  inviteUsers: (roomId: string, usernames: string[]) => Promise<void>;
+  // `scope` only matters for rooms in a recurring series
+  updateRoom: (
+    roomId: string,
+    data: UpdateRoomFormData,
+    scope?: SeriesEditScope
+  ) => Promise<Room>;
+  rescheduleRoom: (
+    roomId: string,
+    schedule: RescheduleRoomData,
+    scope?: SeriesEditScope
+  ) => Promise<Room>;
+  endRoom: (roomId: string) => Promise<Room>;
+  cancelRoom: (
+    roomId: string,
+    reason?: string,
+    scope?: SeriesEditScope
+  ) => Promise<Room>;
+  deleteRoom: (roomId: string, scope?: SeriesEditScope) => Promise<void>;
+  // Moderation; see utils/roles for who may do what
+  setMemberRole: (
+    roomId: string,
+    userId: string,
+    role: RoomRole
+  ) => Promise<Room>;
+  kickMember: (roomId: string, userId: string) => Promise<Room>;
+  banMember: (roomId: string, userId: string) => Promise<Room>;
+  muteMember: (
+    roomId: string,
+    userId: string,
+    durationMinutes?: number
+  ) => Promise<Room>;
+  unmuteMember: (roomId: string, userId: string) => Promise<Room>;
+  setSlowMode: (roomId: string, seconds: number) => Promise<Room>;
+  // Address of the user's calendar subscription feed
+  getCalendarFeedUrl: () => Promise<string>;
+  resetCalendarFeedUrl: () => Promise<string>;
   clearError: () => void;
   setCurrentRoom: (room: Room | null) => void;
   userRooms: Room[];
@@ -39,13 +102,151 @@ const initialState: RoomState = {
   error: null,
 };
 
+type RoomBucket = "upcoming" | "live" | "past";
+
+const bucketForStatus = (status: RoomStatus): RoomBucket => {
+  switch (status) {
+    case RoomStatus.SCHEDULED:
+      return "upcoming";
+    case RoomStatus.LIVE:
+      return "live";
+    default:
+      return "past";
+  }
+};
+
+const replaceRoom = (rooms: Room[], room: Room) =>
+  rooms.map((existing) =>
+    existing._id === room._id ? { ...existing, ...room } : existing
+  );
+
+const withoutRoom = (rooms: Room[], roomId: string) =>
+  rooms.filter((room) => room._id !== roomId);
+
+/**
+ * Apply an updated room everywhere it is shown. A room the user belongs to
+ * moves to the upcoming, live or past bucket that matches its new status;
+ * invites stay in place.
+ */
+const placeRoom = (state: RoomState, room: Room): RoomState => {
+  const { upcoming, live, past, invites } = state.rooms;
+  const known = [...upcoming, ...live, ...past].find(
+    (existing) => existing._id === room._id
+  );
+  let rooms = { ...state.rooms, invites: replaceRoom(invites, room) };
+
+  if (known) {
+    const updated = { ...known, ...room };
+    const bucket = bucketForStatus(updated.status);
+    rooms = {
+      ...rooms,
+      upcoming: withoutRoom(upcoming, room._id),
+      live: withoutRoom(live, room._id),
+      past: withoutRoom(past, room._id),
+    };
+    rooms[bucket] = [updated, ...rooms[bucket]];
+    // Upcoming rooms are listed soonest first, so a reschedule can reorder
+    if (bucket === "upcoming") {
+      rooms.upcoming.sort(
+        (a, b) =>
+          new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+      );
+    }
+  }
+
+  return {
+    ...state,
+    rooms,
+    userRooms: replaceRoom(state.userRooms, room),
+    publicRooms: replaceRoom(state.publicRooms, room),
+    currentRoom:
+      state.currentRoom?._id === room._id
+        ? { ...state.currentRoom, ...room }
+        : state.currentRoom,
+  };
+};
+
+const removeRoom = (state: RoomState, roomId: string): RoomState => ({
+  ...state,
+  rooms: {
+    upcoming: withoutRoom(state.rooms.upcoming, roomId),
+    live: withoutRoom(state.rooms.live, roomId),
+    past: withoutRoom(state.rooms.past, roomId),
+    invites: withoutRoom(state.rooms.invites, roomId),
+  },
+  userRooms: withoutRoom(state.userRooms, roomId),
+  publicRooms: withoutRoom(state.publicRooms, roomId),
+  currentRoom: state.currentRoom?._id === roomId ? null : state.currentRoom,
+});
+
+// Remove a user from a room's participants and moderation lists
+const withoutMember = (room: Room, userId: string, banned: boolean): Room => ({
+  ...room,
+  participants: (room.participants as (User | string)[]).filter(
+    (participant) => userIdOf(participant) !== userId
+  ) as Room["participants"],
+  memberRoles: room.memberRoles?.filter((entry) => entry.userId !== userId),
+  mutedUsers: room.mutedUsers?.filter((entry) => entry.userId !== userId),
+  bannedUsers:
+    banned && !room.bannedUsers?.includes(userId)
+      ? [...(room.bannedUsers || []), userId]
+      : room.bannedUsers,
+});
+
+// Refresh a user's name and avatar wherever they appear in a room
+const withProfile = (room: Room, profile: UserSummary): Room => {
+  const update = <T extends User | string>(member: T): T =>
+    typeof member === "object" && userIdOf(member) === profile.id
+      ? ({ ...member, ...profile } as T)
+      : member;
+  const touched =
+    userIdOf(room.creator) === profile.id ||
+    (room.participants as (User | string)[]).some(
+      (participant) => userIdOf(participant) === profile.id
+    );
+  if (!touched) return room;
+
+  return {
+    ...room,
+    creator: update(room.creator),
+    participants: (room.participants as (User | string)[]).map(
+      update
+    ) as Room["participants"],
+  };
+};
+
+// Apply a change to every loaded room without moving any of them
+const mapRooms = (
+  state: RoomState,
+  update: (room: Room) => Room
+): RoomState => ({
+  ...state,
+  rooms: {
+    upcoming: state.rooms.upcoming.map(update),
+    live: state.rooms.live.map(update),
+    past: state.rooms.past.map(update),
+    invites: state.rooms.invites.map(update),
+  },
+  userRooms: state.userRooms.map(update),
+  publicRooms: state.publicRooms.map(update),
+  currentRoom: state.currentRoom && update(state.currentRoom),
+});
+
+// Find a room in whichever list it is loaded in
+const findRoom = (state: RoomState, roomId: string): Room | undefined =>
+  (state.currentRoom?._id === roomId ? state.currentRoom : undefined) ||
+  [...state.userRooms, ...state.rooms.invites, ...state.publicRooms].find(
+    (room) => room._id === roomId
+  );
+
 const RoomContext = createContext<RoomContextType | undefined>(undefined);
 
 export const RoomProvider: React.FC<{ children: ReactNode }> = ({
   children,
 }) => {
   const [state, setState] = useState<RoomState>(initialState);
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
+  const userId = user?.id;
 
   // Fetch user rooms - defined with useCallback to avoid recreating on each render
   const fetchUserRooms = useCallback(async (): Promise<void> => {
@@ -87,6 +288,306 @@ export const RoomProvider: React.FC<{ children: ReactNode }> = ({
     }
   }, [isAuthenticated, fetchUserRooms]);
 
+  // Keep every participant's lists in step with changes the host makes
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const unsubscribeStatus = socketService.on(
+      "room_status_changed",
+      (data) => {
+        setState((prev) => {
+          const room = findRoom(prev, data.roomId);
+          return room
+            ? placeRoom(prev, { ...room, status: data.status })
+            : prev;
+        });
+      }
+    );
+
+    const unsubscribeUpdated = socketService.on("room_updated", (data) => {
+      setState((prev) => placeRoom(prev, data.room));
+    });
+
+    const unsubscribeDeleted = socketService.on("room_deleted", (data) => {
+      setState((prev) => removeRoom(prev, data.roomId));
+    });
+
+    // Apply a change to a room the user has loaded
+    const updateLoadedRoom = (roomId: string, update: (room: Room) => Room) =>
+      setState((prev) => {
+        const room = findRoom(prev, roomId);
+        return room ? placeRoom(prev, update(room)) : prev;
+      });
+
+    const unsubscribeRole = socketService.on("member_role_changed", (data) => {
+      updateLoadedRoom(data.roomId, (room) => ({
+        ...room,
+        memberRoles: [
+          ...(room.memberRoles || []).filter(
+            (entry) => entry.userId !== data.userId
+          ),
+          ...(data.role === RoomRole.PARTICIPANT
+            ? []
+            : [{ userId: data.userId, role: data.role }]),
+        ],
+      }));
+    });
+
+    const unsubscribeRemoved = socketService.on("member_removed", (data) => {
+      if (data.userId === userId) {
+        // Kicked or banned: the room is no longer the user's to see
+        socketService.leaveRoom(data.roomId);
+        setState((prev) => removeRoom(prev, data.roomId));
+        return;
+      }
+      updateLoadedRoom(data.roomId, (room) =>
+        withoutMember(room, data.userId, data.banned)
+      );
+    });
+
+    const unsubscribeMuted = socketService.on("member_muted", (data) => {
+      updateLoadedRoom(data.roomId, (room) => ({
+        ...room,
+        mutedUsers: [
+          ...(room.mutedUsers || []).filter(
+            (entry) => entry.userId !== data.userId
+          ),
+          ...(data.muted ? [{ userId: data.userId, until: data.until }] : []),
+        ],
+      }));
+    });
+
+    const unsubscribeSlowMode = socketService.on(
+      "slow_mode_changed",
+      (data) => {
+        updateLoadedRoom(data.roomId, (room) => ({
+          ...room,
+          slowModeSeconds: data.seconds,
+        }));
+      }
+    );
+
+    const unsubscribeCapacity = socketService.on(
+      "room_capacity_changed",
+      (data) => {
+        updateLoadedRoom(data.roomId, (room) => ({
+          ...room,
+          participantCount: data.participantCount,
+          waitlist: data.waitlist,
+        }));
+      }
+    );
+
+    // A place opened up and the server moved the user in off the waitlist
+    const unsubscribePromoted = socketService.on(
+      "waitlist_promoted",
+      (data) => {
+        if (data.userId === userId) fetchUserRooms();
+      }
+    );
+
+    // New names and avatars show up without reloading the rooms
+    const unsubscribeProfile = socketService.on(
+      "user_profile_updated",
+      (data) => {
+        setState((prev) =>
+          mapRooms(prev, (room) => withProfile(room, data.user))
+        );
+      }
+    );
+
+    return () => {
+      unsubscribeStatus();
+      unsubscribeUpdated();
+      unsubscribeDeleted();
+      unsubscribeRole();
+      unsubscribeRemoved();
+      unsubscribeMuted();
+      unsubscribeSlowMode();
+      unsubscribeCapacity();
+      unsubscribePromoted();
+      unsubscribeProfile();
+    };
+  }, [isAuthenticated, userId, fetchUserRooms]);
+
+  // Run a host action that responds with the updated room, plus every other
+  // occurrence it changed when applied to a whole series. These don't toggle
+  // `loading`, so the room page stays on screen while they run.
+  const runRoomUpdate = useCallback(
+    async (
+      request: () => Promise<{ data: { room: Room; rooms?: Room[] } }>,
+      failureMessage: string
+    ): Promise<Room> => {
+      try {
+        setState((prev) => ({ ...prev, error: null }));
+        const response = await request();
+        const { room, rooms = [] } = response.data;
+        setState((prev) =>
+          [room, ...rooms].reduce(
+            (next, updated) => placeRoom(next, updated),
+            prev
+          )
+        );
+        return room;
+      } catch (error: any) {
+        setState((prev) => ({
+          ...prev,
+          error: error.response?.data?.message || failureMessage,
+        }));
+        throw error;
+      }
+    },
+    []
+  );
+
+  // Edit a room's details
+  const updateRoom = useCallback(
+    (roomId: string, data: UpdateRoomFormData, scope?: SeriesEditScope) =>
+      runRoomUpdate(
+        () => roomsAPI.updateRoom(roomId, data, scope),
+        "Failed to update room"
+      ),
+    [runRoomUpdate]
+  );
+
+  // Move a room to new start and end times
+  const rescheduleRoom = useCallback(
+    (roomId: string, schedule: RescheduleRoomData, scope?: SeriesEditScope) =>
+      runRoomUpdate(
+        () => roomsAPI.rescheduleRoom(roomId, schedule, scope),
+        "Failed to reschedule room"
+      ),
+    [runRoomUpdate]
+  );
+
+  // Close a live room before its scheduled end
+  const endRoom = useCallback(
+    (roomId: string) =>
+      runRoomUpdate(() => roomsAPI.endRoom(roomId), "Failed to end room"),
+    [runRoomUpdate]
+  );
+
+  // Call off a room that hasn't started yet
+  const cancelRoom = useCallback(
+    (roomId: string, reason?: string, scope?: SeriesEditScope) =>
+      runRoomUpdate(
+        () => roomsAPI.cancelRoom(roomId, reason, scope),
+        "Failed to cancel room"
+      ),
+    [runRoomUpdate]
+  );
+
+  // Delete a room and its history, or every remaining room in its series
+  const deleteRoom = useCallback(
+    async (roomId: string, scope?: SeriesEditScope): Promise<void> => {
+      try {
+        setState((prev) => ({ ...prev, error: null }));
+        const response = await roomsAPI.deleteRoom(roomId, scope);
+        const deletedRoomIds: string[] = response.data?.deletedRoomIds || [
+          roomId,
+        ];
+        deletedRoomIds.forEach((id) => socketService.leaveRoom(id));
+        setState((prev) =>
+          deletedRoomIds.reduce((next, id) => removeRoom(next, id), prev)
+        );
+      } catch (error: any) {
+        setState((prev) => ({
+          ...prev,
+          error: error.response?.data?.message || "Failed to delete room",
+        }));
+        throw error;
+      }
+    },
+    []
+  );
+
+  const setMemberRole = useCallback(
+    (roomId: string, memberId: string, role: RoomRole) =>
+      runRoomUpdate(
+        () => roomsAPI.setMemberRole(roomId, memberId, role),
+        "Failed to change role"
+      ),
+    [runRoomUpdate]
+  );
+
+  // Remove someone from the room; they can join again
+  const kickMember = useCallback(
+    (roomId: string, memberId: string) =>
+      runRoomUpdate(
+        () => roomsAPI.kickMember(roomId, memberId),
+        "Failed to remove participant"
+      ),
+    [runRoomUpdate]
+  );
+
+  // Remove someone from the room for good
+  const banMember = useCallback(
+    (roomId: string, memberId: string) =>
+      runRoomUpdate(
+        () => roomsAPI.banMember(roomId, memberId),
+        "Failed to ban participant"
+      ),
+    [runRoomUpdate]
+  );
+
+  const muteMember = useCallback(
+    (roomId: string, memberId: string, durationMinutes?: number) =>
+      runRoomUpdate(
+        () => roomsAPI.muteMember(roomId, memberId, durationMinutes),
+        "Failed to mute participant"
+      ),
+    [runRoomUpdate]
+  );
+
+  const unmuteMember = useCallback(
+    (roomId: string, memberId: string) =>
+      runRoomUpdate(
+        () => roomsAPI.unmuteMember(roomId, memberId),
+        "Failed to unmute participant"
+      ),
+    [runRoomUpdate]
+  );
+
+  // Queue for a full room; the server moves the user in when a place opens
+  const joinWaitlist = useCallback(
+    (roomId: string) =>
+      runRoomUpdate(
+        () => roomsAPI.joinWaitlist(roomId),
+        "Failed to join the waitlist"
+      ),
+    [runRoomUpdate]
+  );
+
+  const leaveWaitlist = useCallback(
+    (roomId: string) =>
+      runRoomUpdate(
+        () => roomsAPI.leaveWaitlist(roomId),
+        "Failed to leave the waitlist"
+      ),
+    [runRoomUpdate]
+  );
+
+  const setSlowMode = useCallback(
+    (roomId: string, seconds: number) =>
+      runRoomUpdate(
+        () => roomsAPI.setSlowMode(roomId, seconds),
+        "Failed to change slow mode"
+      ),
+    [runRoomUpdate]
+  );
+
+  // The feed is private to the user, so it isn't kept in state; callers show
+  // their own errors
+  const getCalendarFeedUrl = useCallback(async (): Promise<string> => {
+    const response = await calendarAPI.getFeed();
+    return response.data.url;
+  }, []);
+
+  const resetCalendarFeedUrl = useCallback(async (): Promise<string> => {
+    const response = await calendarAPI.resetFeed();
+    return response.data.url;
+  }, []);
+
   // Create a new room
   const createRoom = async (formData: CreateRoomFormData): Promise<Room> => {
     try {
@@ -136,7 +637,43 @@ export const RoomProvider: React.FC<{ children: ReactNode }> = ({
         setState((prev) => ({
           ...prev,
           loading: false,
-          error: error.response?.data?.message || "Failed to join room",
+          error:
+            error.response?.status === 409
+              ? "This room is full. Join the waitlist to get the next place."
+              : error.response?.data?.message || "Failed to join room",
+        }));
+        throw error;
+      }
+    },
+    [fetchUserRooms]
+  );
+
+  // Join a room with its code, e.g. from an invite link
+  const joinRoomByCode = useCallback(
+    async (code: string): Promise<Room> => {
+      try {
+        setState((prev) => ({ ...prev, loading: true, error: null }));
+
+        const response = await roomsAPI.joinRoomByCode(code);
+        const room: Room = response.data.room;
+
+        socketService.joinRoom(room._id);
+        await fetchUserRooms();
+
+        setState((prevState) => ({
+          ...prevState,
+          loading: false,
+          error: null,
+        }));
+        return room;
+      } catch (error: any) {
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error:
+            error.response?.status === 404
+              ? "No room matches that code"
+              : error.response?.data?.message || "Failed to join room",
         }));
         throw error;
       }
@@ -160,6 +697,25 @@ export const RoomProvider: React.FC<{ children: ReactNode }> = ({
     });
   }, []);
 
+  // Leave the room for good, handing the place to the waitlist
+  const withdrawFromRoom = useCallback(
+    async (roomId: string): Promise<void> => {
+      try {
+        setState((prev) => ({ ...prev, error: null }));
+        await roomsAPI.withdrawFromRoom(roomId);
+        socketService.leaveRoom(roomId);
+        await fetchUserRooms();
+      } catch (error: any) {
+        setState((prev) => ({
+          ...prev,
+          error: error.response?.data?.message || "Failed to leave room",
+        }));
+        throw error;
+      }
+    },
+    [fetchUserRooms]
+  );
+
   // Fetch public rooms
   const fetchPublicRooms = useCallback(async (): Promise<void> => {
     try {
@@ -204,6 +760,42 @@ export const RoomProvider: React.FC<{ children: ReactNode }> = ({
     }
   }, []);
 
+  // Only the latest search may update the list, so slow answers to older
+  // queries are dropped
+  const latestSearch = useRef(0);
+
+  const searchRooms = useCallback(
+    async (
+      search: RoomSearchParams,
+      cursor?: string
+    ): Promise<RoomSearchPage> => {
+      const searchId = ++latestSearch.current;
+      try {
+        setState((prev) => ({ ...prev, error: null }));
+        const response = await roomsAPI.searchRooms(search, cursor);
+        const page: RoomSearchPage = response.data;
+        if (searchId === latestSearch.current) {
+          setState((prev) => ({
+            ...prev,
+            publicRooms: cursor
+              ? [...prev.publicRooms, ...page.rooms]
+              : page.rooms,
+          }));
+        }
+        return page;
+      } catch (error: any) {
+        if (searchId === latestSearch.current) {
+          setState((prev) => ({
+            ...prev,
+            error: error.response?.data?.message || "Failed to search rooms",
+          }));
+        }
+        throw error;
+      }
+    },
+    []
+  );
+
   // Fetch a single room by ID
   const fetchRoomById = async (roomId: string): Promise<Room> => {
     try {
@@ -230,31 +822,6 @@ export const RoomProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
-  // Invite users to a room
-  const inviteUsers = async (
-    roomId: string,
-    usernames: string[]
-  ): Promise<void> => {
-    try {
-      setState((prev) => ({ ...prev, loading: true, error: null }));
-
-      await roomsAPI.inviteUsers(roomId, usernames);
-
-      setState((prev) => ({
-        ...prev,
-        loading: false,
-        error: null,
-      }));
-    } catch (error: any) {
-      setState((prev) => ({
-        ...prev,
-        loading: false,
-        error: error.response?.data?.message || "Failed to invite users",
-      }));
-      throw error;
-    }
-  };
-
   // Set current room
   const setCurrentRoom = (room: Room | null) => {
     setState((prev) => ({ ...prev, currentRoom: room }));
@@ -271,12 +838,29 @@ export const RoomProvider: React.FC<{ children: ReactNode }> = ({
         ...state,
         createRoom,
         joinRoom,
+        joinRoomByCode,
         leaveRoom,
+        withdrawFromRoom,
+        joinWaitlist,
+        leaveWaitlist,
         fetchPublicRooms,
         fetchAllRooms,
+        searchRooms,
         fetchUserRooms,
         fetchRoomById,
-        inviteUsers,
+        updateRoom,
+        rescheduleRoom,
+        endRoom,
+        cancelRoom,
+        deleteRoom,
+        setMemberRole,
+        kickMember,
+        banMember,
+        muteMember,
+        unmuteMember,
+        setSlowMode,
+        getCalendarFeedUrl,
+        resetCalendarFeedUrl,
         clearError,
         setCurrentRoom,
       }}
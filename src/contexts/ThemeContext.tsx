@@ -10,16 +10,33 @@ import {
   createTheme,
 } from "@mui/material/styles";
 import CssBaseline from "@mui/material/CssBaseline";
+import createCache from "@emotion/cache";
+import { CacheProvider } from "@emotion/react";
+import { prefixer } from "stylis";
+import rtlPlugin from "stylis-plugin-rtl";
 
 // Define available theme modes
 export type ThemeMode = "light" | "dark" | "system";
 
+// Text direction, set from the UI language
+export type ThemeDirection = "ltr" | "rtl";
+
+// Style caches per direction. The RTL one mirrors every style as it is
+// inserted (margin-left becomes margin-right and so on), which the theme's
+// `direction` alone doesn't do for sx props and styled components.
+const styleCaches: Record<ThemeDirection, ReturnType<typeof createCache>> = {
+  ltr: createCache({ key: "mui" }),
+  rtl: createCache({ key: "muirtl", stylisPlugins: [prefixer, rtlPlugin] }),
+};
+
 // Theme context interface
 interface ThemeContextType {
   mode: ThemeMode;
   setMode: (mode: ThemeMode) => void;
   toggleColorMode: () => void;
   actualTheme: "light" | "dark";
+  direction: ThemeDirection;
+  setDirection: (direction: ThemeDirection) => void;
 }
 
 // Create context with default values
@@ -28,6 +45,8 @@ const ThemeContext = createContext<ThemeContextType>({
   setMode: () => {},
   toggleColorMode: () => {},
   actualTheme: "light",
+  direction: "ltr",
+  setDirection: () => {},
 });
 
 // Custom hook to use theme context
@@ -41,6 +60,7 @@ export const ThemeProvider = ({ children }: ThemeProviderProps) => {
   // Get saved theme from localStorage or use system as default
   const savedTheme = localStorage.getItem("theme-mode") as ThemeMode;
   const [mode, setMode] = useState<ThemeMode>(savedTheme || "system");
+  const [direction, setDirection] = useState<ThemeDirection>("ltr");
 
   // Determine if the system prefers dark mode
   const prefersDarkMode = window.matchMedia(
@@ -52,7 +72,11 @@ export const ThemeProvider = ({ children }: ThemeProviderProps) => {
     mode === "system" ? (prefersDarkMode ? "dark" : "light") : mode;
 
   // Define light theme
+  // MUI flips its own components (drawers, sliders, arrows) for RTL, the
+  // style cache mirrors the rest, and the page itself follows the dir
+  // attribute the I18nProvider sets
   const lightTheme = createTheme({
+    direction,
     palette: {
       mode: "light",
       primary: {
@@ -112,6 +136,7 @@ export const ThemeProvider = ({ children }: ThemeProviderProps) => {
 
   // Define dark theme
   const darkTheme = createTheme({
+    direction,
     palette: {
       mode: "dark",
       primary: {
@@ -174,6 +199,26 @@ export const ThemeProvider = ({ children }: ThemeProviderProps) => {
     localStorage.setItem("theme-mode", mode);
   }, [mode]);
 
+  // Follow theme changes made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage || event.key !== "theme-mode") {
+        return;
+      }
+      const nextMode = event.newValue as ThemeMode | null;
+      if (
+        nextMode === "light" ||
+        nextMode === "dark" ||
+        nextMode === "system"
+      ) {
+        setMode(nextMode);
+      }
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
   // Listen for system theme changes
   useEffect(() => {
     const mediaQuery = window.matchMedia("(prefers-color-scheme: dark)");
@@ -203,12 +248,21 @@ export const ThemeProvider = ({ children }: ThemeProviderProps) => {
 
   return (
     <ThemeContext.Provider
-      value={{ mode, setMode, toggleColorMode, actualTheme }}
+      value={{
+        mode,
+        setMode,
+        toggleColorMode,
+        actualTheme,
+        direction,
+        setDirection,
+      }}
     >
-      <MuiThemeProvider theme={theme}>
-        <CssBaseline />
-        {children}
-      </MuiThemeProvider>
+      <CacheProvider value={styleCaches[direction]}>
+        <MuiThemeProvider theme={theme}>
+          <CssBaseline />
+          {children}
+        </MuiThemeProvider>
+      </CacheProvider>
     </ThemeContext.Provider>
   );
 };
@@ -0,0 +1,781 @@
+import { Catalog } from "./en";
+
+// Arabic has six plural forms; plural messages list all the ones they need
+const ar: Catalog = {
+  // Navigation
+  "nav.home": "الرئيسية",
+  "nav.explore": "استكشاف",
+  "nav.createRoom": "إنشاء غرفة",
+  "nav.profile": "الملف الشخصي",
+  "nav.settings": "الإعدادات",
+  "nav.logout": "تسجيل الخروج",
+  "nav.login": "تسجيل الدخول",
+  "nav.dashboard": "لوحة التحكم",
+  "nav.exploreRooms": "استكشاف الغرف",
+  "nav.register": "إنشاء حساب",
+  "nav.greeting": "مرحبًا، {name}",
+  "nav.tagline": "RoomLoop - فعاليات مفتوحة ولقاءات مصغّرة",
+  "nav.theme": "المظهر",
+  "nav.navigateTo": "الانتقال إلى {label}",
+  "nav.openMenu": "فتح القائمة",
+  "nav.closeMenu": "إغلاق القائمة",
+  "nav.userMenu": "قائمة المستخدم",
+  "nav.notifications": "عرض الإشعارات",
+  "nav.scrollToTop": "العودة إلى الأعلى",
+
+  // Rooms, wherever they are shown
+  "room.status":
+    "{status, select, scheduled {مجدولة} live {مباشرة} closed {منتهية} cancelled {ملغاة} other {{status}}}",
+  "room.type": "{type, select, public {عامة} private {خاصة} other {{type}}}",
+  "room.role":
+    "{role, select, host {المضيف} co-host {مضيف مشارك} moderator {مشرف} participant {مشارك} listener {مستمع} other {{role}}}",
+  "room.youAreHost": "أنت المضيف",
+  "room.startTime": "وقت البدء:",
+  "room.endTime": "وقت الانتهاء:",
+  "room.roomType": "نوع الغرفة:",
+  "room.code": "رمز الغرفة:",
+  "room.participants": "المشاركون",
+  "room.noParticipants": "لا يوجد مشاركون بعد",
+  "room.capacity":
+    "{count, number}/{max, plural, zero {# مشارك} one {مشارك واحد} two {مشاركَين} few {# مشاركين} many {# مشاركًا} other {# مشارك}}",
+  "room.joined":
+    "{count, plural, zero {لم ينضم أحد} one {انضم شخص واحد} two {انضم شخصان} few {انضم # أشخاص} many {انضم # شخصًا} other {انضم # شخص}}",
+  "room.waiting":
+    "{count, plural, zero {لا أحد في الانتظار} one {شخص واحد في الانتظار} two {شخصان في الانتظار} few {# أشخاص في الانتظار} many {# شخصًا في الانتظار} other {# شخص في الانتظار}}",
+  "room.full": "(ممتلئة)",
+  "room.createdBy": "أنشأها: {name}",
+
+  // When a room starts, relative to now
+  "roomTiming.starts": "تبدأ {time}",
+  "roomTiming.overdue": "كان من المقرر أن تبدأ {time}",
+  "roomTiming.started": "بدأت {time}",
+  "roomTiming.ended": "انتهت {time}",
+  "roomTiming.hostTime": "{time} بتوقيت المضيف",
+
+  // Dashboard
+  "dashboard.title": "لوحتك",
+  "dashboard.subtitle": "أدِر فعالياتك القادمة والمباشرة والسابقة.",
+  "dashboard.loading": "جارٍ تحميل غرفك...",
+  "dashboard.joinWithCode": "الانضمام برمز",
+  "dashboard.exportCalendar": "تصدير التقويم (.ics)",
+  "dashboard.subscribeCalendar": "الاشتراك من تطبيق التقويم",
+  "dashboard.tab.all": "كل الغرف",
+  "dashboard.tab.live": "مباشرة",
+  "dashboard.tab.upcoming": "قادمة",
+  "dashboard.tab.past": "سابقة",
+  "dashboard.tab.invitations":
+    "{count, plural, =0 {الدعوات} other {الدعوات (#)}}",
+  "dashboard.empty":
+    "{tab, select, live {لا توجد غرف مباشرة} upcoming {لا توجد غرف قادمة} past {لا توجد غرف سابقة} invitations {لا توجد دعوات} other {لا توجد غرف}}",
+  "dashboard.newMessages": "{count} جديدة",
+  "dashboard.unreadMessages":
+    "{count, plural, zero {لا توجد رسائل غير مقروءة} one {رسالة واحدة غير مقروءة} two {رسالتان غير مقروءتين} few {# رسائل غير مقروءة} many {# رسالة غير مقروءة} other {# رسالة غير مقروءة}}",
+  "dashboard.start": "البدء:",
+  "dashboard.end": "الانتهاء:",
+  "dashboard.roomCode": "رمز الغرفة:",
+  "dashboard.participants": "المشاركون:",
+  "dashboard.invitedBy": "دعوة من {name}",
+  "dashboard.waitlist": "في قائمة الانتظار: رقم {position}",
+  "dashboard.recurring": "متكررة",
+  "dashboard.hideDates": "إخفاء المواعيد الأخرى",
+  "dashboard.otherDates":
+    "{count, plural, zero {لا توجد مواعيد أخرى في هذه السلسلة} one {موعد آخر في هذه السلسلة} two {موعدان آخران في هذه السلسلة} few {# مواعيد أخرى في هذه السلسلة} many {# موعدًا آخر في هذه السلسلة} other {# موعد آخر في هذه السلسلة}}",
+  "dashboard.accept": "قبول",
+  "dashboard.decline": "رفض",
+  "dashboard.joinNow": "انضم الآن",
+  "dashboard.view": "عرض",
+  "dashboard.acceptFailed": "تعذّر قبول الدعوة",
+  "dashboard.declineFailed": "تعذّر رفض الدعوة",
+
+  // Create room
+  "createRoom.title": "إنشاء غرفة جديدة",
+  "createRoom.subtitle": "جهّز فعاليتك الافتراضية وابدأ التواصل مع الناس",
+  "createRoom.roomTitle": "عنوان الغرفة",
+  "createRoom.roomTitlePlaceholder": "اكتب عنوانًا جذابًا لغرفتك...",
+  "createRoom.description": "الوصف",
+  "createRoom.descriptionPlaceholder": "صف موضوع غرفتك...",
+  "createRoom.roomType": "نوع الغرفة",
+  "createRoom.startTime": "وقت البدء",
+  "createRoom.endTime": "وقت الانتهاء",
+  "createRoom.tags": "إضافة وسوم",
+  "createRoom.tagsPlaceholder": "اكتب وسمًا واضغط Enter...",
+  "createRoom.addTag": "إضافة",
+  "createRoom.cancel": "إلغاء",
+  "createRoom.creating": "جارٍ الإنشاء...",
+  "createRoom.createSeries": "إنشاء سلسلة",
+  "createRoom.create": "إنشاء الغرفة",
+  "createRoom.titleRequired": "العنوان مطلوب",
+  "createRoom.descriptionRequired": "الوصف مطلوب",
+  "createRoom.startTimeRequired": "وقت البدء مطلوب",
+  "createRoom.endTimeRequired": "وقت الانتهاء مطلوب",
+  "createRoom.endBeforeStart": "يجب أن يكون وقت الانتهاء بعد وقت البدء",
+
+  // Explore
+  "explore.title": "استكشاف الغرف",
+  "explore.subtitle":
+    "اكتشف الفعاليات واللقاءات وانضم إليها. ابحث حسب الموضوع، وضيّق النتائج حسب الوسم أو الحالة أو التاريخ، وشارك رابط أي بحث.",
+  "explore.joinWithCode": "لديك رمز؟ انضم بالرمز",
+  "explore.tab.public": "الغرف العامة",
+  "explore.tab.private": "الغرف الخاصة",
+  "explore.searchPlaceholder": "ابحث بالعنوان أو الوصف أو الوسم...",
+  "explore.filter.status": "الحالة",
+  "explore.filter.tags": "الوسوم",
+  "explore.filter.from": "تبدأ من",
+  "explore.filter.to": "تبدأ حتى",
+  "explore.filter.sort": "الترتيب حسب",
+  "explore.status":
+    "{status, select, live {مباشرة} scheduled {قادمة} closed {منتهية} cancelled {ملغاة} other {{status}}}",
+  "explore.sort":
+    "{sort, select, startTime {الأقرب موعدًا} popularity {الأكثر شعبية} recent {الأحدث} other {{sort}}}",
+  "explore.loading": "جارٍ تحميل الغرف...",
+  "explore.empty":
+    "{type, select, private {لا توجد غرف خاصة} other {لا توجد غرف عامة}}",
+  "explore.emptyHint": "جرّب تعديل بحثك أو عُد لاحقًا لرؤية فعاليات جديدة.",
+  "explore.showing": "عرض {shown, number} من {total, number}",
+  "explore.loadingMore": "جارٍ التحميل...",
+  "explore.loadMore": "تحميل المزيد",
+  "explore.unknownCreator": "غير معروف",
+  "explore.start": "البدء:",
+  "explore.end": "الانتهاء:",
+  "explore.enterRoom": "دخول الغرفة",
+  "explore.viewRoom": "عرض الغرفة",
+  "explore.leaveWaitlist": "مغادرة قائمة الانتظار (رقم {position})",
+  "explore.joinWaitlist": "الغرفة ممتلئة · انضم إلى قائمة الانتظار",
+  "explore.joinNow": "انضم الآن",
+  "explore.viewDetails": "عرض التفاصيل",
+
+  // Search and filters
+  "search.placeholder": "بحث...",
+  "search.clear": "مسح البحث",
+  "search.showFilters": "إظهار عوامل التصفية",
+  "search.hideFilters": "إخفاء عوامل التصفية",
+  "search.toggleFilters": "إظهار عوامل التصفية أو إخفاؤها",
+  "search.results":
+    "{count, plural, zero {لا توجد نتائج} one {نتيجة واحدة} two {نتيجتان} few {# نتائج} many {# نتيجة} other {# نتيجة}}",
+  "search.filtered": "مُصفّاة",
+  "search.filters": "عوامل التصفية",
+  "search.clearAll": "مسح الكل",
+  "search.clearAllLabel": "مسح كل عوامل التصفية",
+  "search.all": "الكل",
+  "search.filterBy": "التصفية حسب {label}",
+  "search.range": "نطاق {label}",
+  "search.removeFilter": "إزالة عامل التصفية {label}",
+
+  // Signing in and signing up
+  "auth.login": "البريد الإلكتروني أو اسم المستخدم",
+  "auth.password": "كلمة المرور",
+  "auth.loginRequired": "البريد الإلكتروني أو اسم المستخدم مطلوب",
+  "auth.passwordRequired": "كلمة المرور مطلوبة",
+  "login.title": "مرحبًا بعودتك!",
+  "login.subtitle": "أدخل بياناتك للوصول إلى حسابك",
+  "login.sessionExpired": "انتهت جلستك. يرجى تسجيل الدخول مرة أخرى.",
+  "login.submit": "تسجيل الدخول",
+  "login.toRegister": "ليس لديك حساب؟ أنشئ حسابًا",
+  "register.title": "انضم إلى RoomLoop!",
+  "register.subtitle": "املأ بياناتك للانضمام إلى مجتمعنا",
+  "register.username": "اسم المستخدم",
+  "register.email": "البريد الإلكتروني",
+  "register.confirmPassword": "تأكيد كلمة المرور",
+  "register.submit": "إنشاء حساب",
+  "register.toLogin": "لديك حساب بالفعل؟ سجّل الدخول",
+  "register.usernameRequired": "اسم المستخدم مطلوب",
+  "register.usernameTooShort": "يجب ألا يقل اسم المستخدم عن {min, number} أحرف",
+  "register.emailRequired": "البريد الإلكتروني مطلوب",
+  "register.emailInvalid": "يرجى إدخال بريد إلكتروني صالح",
+  "register.passwordTooShort": "يجب ألا تقل كلمة المرور عن {min, number} أحرف",
+  "register.confirmRequired": "يرجى تأكيد كلمة المرور",
+  "register.passwordMismatch": "كلمتا المرور غير متطابقتين",
+
+  // Profile
+  "profile.title": "الملف الشخصي",
+  "profile.loading": "جارٍ تحميل الملف الشخصي...",
+  "profile.notFound": "المستخدم غير موجود",
+  "profile.updateFailed": "تعذّر تحديث الملف الشخصي",
+  "profile.removeAvatarFailed": "تعذّرت إزالة الصورة",
+  "profile.changeAvatar": "تغيير الصورة",
+  "profile.removePhoto": "إزالة الصورة",
+  "profile.memberSince": "عضو منذ {date}",
+  "profile.edit": "تعديل الملف الشخصي",
+  "profile.save": "حفظ التغييرات",
+  "profile.cancel": "إلغاء",
+  "profile.username": "اسم المستخدم",
+  "profile.usernamePlaceholder": "أدخل اسم المستخدم",
+  "profile.email": "البريد الإلكتروني",
+  "profile.emailPlaceholder": "أدخل بريدك الإلكتروني",
+  "profile.bio": "نبذة",
+  "profile.bioPlaceholder": "حدّثنا عن نفسك...",
+  "profile.avatarFallback": "عند عدم وجود صورة، اعرض",
+  "profile.avatarFallbackHelp": "يُستخدم حيثما لا توجد صورة مرفوعة",
+  "profile.avatarFallback.initials": "الأحرف الأولى من اسمي",
+  "profile.avatarFallback.identicon": "نقشًا مولّدًا",
+  "profile.stats.total": "إجمالي الغرف",
+  "profile.stats.live": "الغرف المباشرة",
+  "profile.stats.scheduled": "المجدولة",
+  "profile.stats.closed": "المنتهية",
+  "profile.unknownStatus": "غير معروف",
+  "profile.myRooms": "غرفي",
+  "profile.noRooms": "لم تنشئ أي غرفة بعد",
+  "profile.noRoomsHint": "ابدأ بإنشاء غرفتك الأولى!",
+
+  "avatarEditor.title": "تغيير الصورة",
+  "avatarEditor.drop": "أفلت صورة هنا أو انقر لاختيار واحدة",
+  "avatarEditor.unreadable": "هذا الملف ليس صورة قابلة للقراءة",
+  "avatarEditor.cropLabel": "اسحب لضبط موضع صورتك",
+  "avatarEditor.cropHint":
+    "اسحب لتغيير الموضع، واستخدم عجلة التمرير أو شريط التمرير للتكبير",
+  "avatarEditor.zoom": "تكبير",
+  "avatarEditor.chooseAnother": "اختيار صورة أخرى",
+  "avatarEditor.cancel": "إلغاء",
+  "avatarEditor.save": "حفظ",
+  "avatarEditor.saving": "جارٍ الحفظ...",
+  "avatarEditor.saveFailed": "تعذّر حفظ الصورة",
+
+  // Preferences
+  "preferences.title": "التفضيلات",
+  "preferences.unsaved": "تغييرات غير محفوظة",
+  "preferences.reset": "إعادة الضبط",
+  "preferences.resetLabel": "الرجوع إلى الإعدادات الافتراضية",
+  "preferences.cancel": "إلغاء",
+  "preferences.cancelLabel": "إلغاء التغييرات",
+  "preferences.save": "حفظ التغييرات",
+  "preferences.saveLabel": "حفظ التفضيلات",
+  "preferences.tab.profile": "الملف الشخصي",
+  "preferences.tab.notifications": "الإشعارات",
+  "preferences.tab.privacy": "الخصوصية",
+  "preferences.tab.appearance": "المظهر",
+  "preferences.tab.accessibility": "إمكانية الوصول",
+  "preferences.tab.language": "اللغة",
+
+  "preferences.profile.heading": "معلومات الملف الشخصي",
+  "preferences.displayName": "الاسم المعروض",
+  "preferences.displayNameHelp": "هكذا يظهر اسمك للمستخدمين الآخرين",
+  "preferences.jobTitle": "المسمى الوظيفي",
+  "preferences.jobTitleHelp": "مسماك المهني",
+  "preferences.company": "الشركة",
+  "preferences.companyHelp": "شركتك أو مؤسستك",
+  "preferences.location": "الموقع",
+  "preferences.locationHelp": "مدينتك وبلدك",
+  "preferences.bio": "نبذة",
+  "preferences.bioHelp": "عرّف الآخرين بنفسك",
+  "preferences.website": "الموقع الإلكتروني",
+  "preferences.websiteHelp": "موقعك الإلكتروني الشخصي أو المهني",
+
+  "preferences.notifications.heading": "تفضيلات الإشعارات",
+  "preferences.emailNotifications": "إشعارات البريد الإلكتروني",
+  "preferences.emailNotificationsHelp": "تلقَّ الإشعارات عبر البريد الإلكتروني",
+  "preferences.pushNotifications": "الإشعارات المنبثقة",
+  "preferences.pushNotificationsHelp":
+    "اعرض الإشعارات عندما يكون RoomLoop في الخلفية",
+  "preferences.roomInvitations": "دعوات الغرف",
+  "preferences.roomInvitationsHelp": "تلقَّ إشعارًا عند دعوتك إلى غرفة",
+  "preferences.messageNotifications": "إشعارات الرسائل",
+  "preferences.messageNotificationsHelp": "تلقَّ إشعارًا بالرسائل الجديدة",
+  "preferences.marketingEmails": "رسائل التسويق",
+  "preferences.marketingEmailsHelp": "تلقَّ أخبار الميزات الجديدة",
+
+  "preferences.privacy.heading": "إعدادات الخصوصية",
+  "preferences.privacy.info":
+    "تُحفظ إعدادات الخصوصية في حسابك وتُطبَّق على كل الأجهزة التي تستخدمها.",
+  "preferences.profileVisibility": "ظهور الملف الشخصي",
+  "preferences.visibility.public": "عام",
+  "preferences.visibility.private": "خاص",
+  "preferences.visibility.friends": "الأصدقاء فقط",
+  "preferences.showOnlineStatus": "إظهار حالة الاتصال",
+  "preferences.showOnlineStatusHelp": "اسمح للآخرين برؤية وقت اتصالك",
+  "preferences.allowDirectMessages": "السماح بالرسائل المباشرة",
+  "preferences.allowDirectMessagesHelp":
+    "اسمح للمستخدمين الآخرين بمراسلتك مباشرة",
+  "preferences.showLastSeen": "إظهار آخر ظهور",
+  "preferences.showLastSeenHelp": "أظهر آخر وقت كنت فيه نشطًا",
+
+  "preferences.appearance.heading": "إعدادات المظهر",
+  "preferences.theme": "المظهر",
+  "preferences.theme.light": "فاتح",
+  "preferences.theme.dark": "داكن",
+  "preferences.theme.system": "حسب النظام",
+  "preferences.accentColor": "اللون المميز",
+  "preferences.accentColorHelp": "اختر اللون المميز المفضل لديك",
+
+  "preferences.accessibility.heading": "إعدادات إمكانية الوصول",
+  "preferences.accessibility.info":
+    "تساعد هذه الإعدادات على جعل RoomLoop أسهل استخدامًا للأشخاص ذوي الاحتياجات المختلفة.",
+  "preferences.accessibility.open": "فتح إعدادات إمكانية الوصول",
+  "preferences.accessibility.openLabel": "فتح إعدادات إمكانية الوصول التفصيلية",
+
+  "preferences.language.heading": "اللغة والمنطقة",
+  "preferences.language": "اللغة",
+  "preferences.timezone": "المنطقة الزمنية",
+  "preferences.timezone.utc": "التوقيت العالمي (UTC)",
+  "preferences.timezone.eastern": "التوقيت الشرقي",
+  "preferences.timezone.central": "التوقيت المركزي",
+  "preferences.timezone.mountain": "التوقيت الجبلي",
+  "preferences.timezone.pacific": "توقيت المحيط الهادئ",
+  "preferences.timezone.london": "لندن",
+  "preferences.timezone.paris": "باريس",
+  "preferences.timezone.tokyo": "طوكيو",
+  "preferences.dateFormat": "تنسيق التاريخ",
+  "preferences.timeFormat": "تنسيق الوقت",
+  "preferences.timeFormat.12h": "12 ساعة (ص/م)",
+  "preferences.timeFormat.24h": "24 ساعة",
+  "preferences.datePreview": "ستظهر التواريخ هكذا: {date}",
+
+  // Repeating rooms
+  "recurrence.repeat": "تكرار هذه الغرفة",
+  "recurrence.frequency": "التكرار",
+  "recurrence.frequency.daily": "يوميًا",
+  "recurrence.frequency.weekly": "أسبوعيًا",
+  "recurrence.frequency.monthly": "شهريًا",
+  "recurrence.interval": "كل",
+  "recurrence.unit":
+    "{frequency, select, daily {{interval, plural, one {يوم} two {يومين} few {أيام} many {يومًا} other {يوم}}} weekly {{interval, plural, one {أسبوع} two {أسبوعين} few {أسابيع} many {أسبوعًا} other {أسبوع}}} other {{interval, plural, one {شهر} two {شهرين} few {أشهر} many {شهرًا} other {شهر}}}}",
+  "recurrence.weekdays": "أيام الأسبوع",
+  "recurrence.ends": "ينتهي",
+  "recurrence.endsAfter": "بعد",
+  "recurrence.countLabel": "عدد المرات",
+  "recurrence.occurrences":
+    "{count, plural, one {مرة} two {مرة} few {مرات} other {مرة}}",
+  "recurrence.endsOn": "في",
+  "recurrence.untilLabel": "آخر يوم في السلسلة",
+
+  "recurrence.every":
+    "{frequency, select, daily {{interval, plural, one {كل يوم} two {كل يومين} few {كل # أيام} many {كل # يومًا} other {كل # يوم}}} weekly {{interval, plural, one {كل أسبوع} two {كل أسبوعين} few {كل # أسابيع} many {كل # أسبوعًا} other {كل # أسبوع}}} other {{interval, plural, one {كل شهر} two {كل شهرين} few {كل # أشهر} many {كل # شهرًا} other {كل # شهر}}}}",
+  "recurrence.onDays": "{rule} في {days}",
+  "recurrence.listSeparator": "، ",
+  "recurrence.until": "{rule}، حتى {date}",
+  "recurrence.count":
+    "{rule}، {count, plural, one {مرة واحدة} two {مرتين} few {# مرات} other {# مرة}}",
+
+  "recurrence.error.interval": "يجب ألا تقل فترة التكرار عن 1",
+  "recurrence.error.weekdays": "اختر يومًا واحدًا على الأقل من أيام الأسبوع",
+  "recurrence.error.firstDay": "أضف {day}، وهو يوم الغرفة الأولى",
+  "recurrence.error.end": "اختر متى تنتهي السلسلة",
+  "recurrence.error.countRange": "يتراوح عدد مرات السلسلة بين {min} و{max}",
+  "recurrence.error.untilBeforeStart": "يجب أن تنتهي السلسلة بعد الغرفة الأولى",
+  "recurrence.error.tooFew": "يجب ألا يقل عدد مرات السلسلة عن {min}",
+  "recurrence.error.tooMany": "لا يمكن أن يزيد عدد مرات السلسلة عن {max}",
+
+  // Host controls
+  "hostControls.title": "أدوات المضيف",
+  "hostControls.editDetails": "تعديل التفاصيل",
+  "hostControls.changeEndTime": "تغيير وقت الانتهاء",
+  "hostControls.reschedule": "إعادة الجدولة",
+  "hostControls.endNow": "إنهاء الآن",
+  "hostControls.cancelRoom": "إلغاء الغرفة",
+  "hostControls.delete": "حذف",
+
+  "hostControls.scope": "تطبيق على",
+  "hostControls.scope.occurrence": "هذه الغرفة فقط",
+  "hostControls.scope.series": "كل الغرف القادمة في السلسلة",
+
+  "hostControls.editTitle": "تعديل تفاصيل الغرفة",
+  "hostControls.roomTitle": "العنوان",
+  "hostControls.description": "الوصف",
+  "hostControls.roomType": "نوع الغرفة",
+  "hostControls.maxParticipants": "الحد الأقصى للمشاركين",
+  "hostControls.maxParticipantsHelp": "اتركه فارغًا لعدم وضع حد",
+  "hostControls.tags": "الوسوم",
+  "hostControls.tagsHelp": "افصل بين الوسوم بفواصل",
+  "hostControls.dialogCancel": "إلغاء",
+  "hostControls.save": "حفظ",
+
+  "hostControls.rescheduleTitle": "إعادة جدولة الغرفة",
+  "hostControls.startTime": "وقت البدء",
+  "hostControls.endTime": "وقت الانتهاء",
+  "hostControls.seriesShift":
+    "تتحرك الغرف اللاحقة بالمقدار نفسه وتحتفظ بتواريخها.",
+  "hostControls.timesRequired": "وقت البدء ووقت الانتهاء مطلوبان",
+  "hostControls.endBeforeStart": "يجب أن يكون وقت الانتهاء بعد وقت البدء",
+  "hostControls.endInPast": "يجب أن يكون وقت الانتهاء في المستقبل",
+
+  "hostControls.end.title": "إنهاء هذه الغرفة الآن؟",
+  "hostControls.end.body":
+    "تُغلق الغرفة للجميع وتنتقل إلى الغرف السابقة. يُحتفظ بسجل المحادثة.",
+  "hostControls.end.confirm": "إنهاء الغرفة",
+  "hostControls.cancel.title": "إلغاء هذه الغرفة؟",
+  "hostControls.cancel.body":
+    "سيُبلَّغ المشاركون والمدعوون بأن الغرفة لن تُعقد.",
+  "hostControls.cancel.confirm": "إلغاء الغرفة",
+  "hostControls.cancelReason": "السبب (اختياري)",
+  "hostControls.delete.title": "حذف هذه الغرفة؟",
+  "hostControls.delete.body":
+    "تُحذف الغرفة وسجل محادثتها للجميع. لا يمكن التراجع عن ذلك.",
+  "hostControls.delete.confirm": "حذف الغرفة",
+  "hostControls.keepRoom": "الإبقاء على الغرفة",
+
+  "hostControls.updateFailed": "تعذّر تحديث الغرفة",
+  "hostControls.rescheduleFailed": "تعذّرت إعادة جدولة الغرفة",
+  "hostControls.endFailed": "تعذّر إنهاء الغرفة",
+  "hostControls.cancelFailed": "تعذّر إلغاء الغرفة",
+  "hostControls.deleteFailed": "تعذّر حذف الغرفة",
+
+  // Room page
+  "roomView.loading": "جارٍ تحميل تفاصيل الغرفة...",
+  "roomView.notFound": "الغرفة غير موجودة",
+  "roomView.signInRequired": "يُرجى تسجيل الدخول لعرض هذه الغرفة",
+  "roomView.unknownHost": "مضيف غير معروف",
+  "roomView.unknownUser": "غير معروف",
+  "roomView.cancelled": "ألغى المضيف هذه الغرفة.",
+  "roomView.cancelledWithReason": "ألغى المضيف هذه الغرفة: {reason}",
+  "roomView.tags": "الوسوم",
+  "roomView.share": "مشاركة",
+  "roomView.addToCalendar": "إضافة إلى التقويم",
+  "roomView.removeFromCalendar": "إزالة من التقويم",
+  "roomView.presence":
+    "{name} {status, select, online {متصل} away {غير متواجد} other {غير متصل}}",
+  "roomView.muted": "مكتوم",
+  "roomView.hostedBy": "يستضيفها {name}",
+  "roomView.back": "→ رجوع",
+  "roomView.details": "📋 تفاصيل الغرفة",
+  "roomView.invite": "👥 دعوة مستخدمين",
+
+  // Room chat
+  "roomChat.live": "محادثة مباشرة",
+  "roomChat.history": "سجل المحادثة",
+  "roomChat.online": "متصل",
+  "roomChat.closed": "مغلقة",
+  "roomChat.slowMode": " · الوضع البطيء {seconds} ث",
+  "roomChat.chatTab": "المحادثة",
+  "roomChat.filesTab": "الملفات",
+  "roomChat.empty": "لا توجد رسائل بعد. ابدأ المحادثة!",
+  "roomChat.emptyPast": "لم تُرسل أي رسائل في هذه الغرفة.",
+  "roomChat.beFirst": "كن أول من يرسل رسالة",
+  "roomChat.attach": "إرفاق ملفات",
+  "roomChat.hideAttachments": "إخفاء المرفقات",
+  "roomChat.aiHint": "تيد هنا! استخدم @ai للحصول على مساعدة الذكاء الاصطناعي",
+  "roomChat.placeholder": "اكتب رسالة...",
+  "roomChat.placeholderAi": "اكتب رسالة... (استخدم @ai للتحدث مع تيد)",
+  "roomChat.readOnlyClosed": "هذه الغرفة مغلقة. سجل المحادثة متاح للعرض فقط.",
+  "roomChat.readOnlyCancelled":
+    "أُلغيت هذه الغرفة. سجل المحادثة متاح للعرض فقط.",
+  "roomChat.insertEmoji": "إدراج في الرسالة",
+
+  "composer.listener": "يمكن للمستمعين متابعة المحادثة دون النشر",
+  "composer.muted": "كتمك أحد المشرفين",
+  "composer.mutedUntil": "أنت مكتوم حتى {time}",
+  "composer.slowMode":
+    "الوضع البطيء مفعّل. يمكنك الإرسال مجددًا بعد {seconds} ث",
+
+  // Sharing and invites
+  "share.title": "مشاركة «{title}»",
+  "share.link": "رابط الدعوة",
+  "share.copyLink": "نسخ الرابط",
+  "share.code": "رمز الغرفة",
+  "share.copyCode": "نسخ الرمز",
+  "share.copied": "تم النسخ!",
+  "share.copyFailed": "تعذّر النسخ. حدّد النص وانسخه يدويًا.",
+  "share.qrLabel": "رمز QR لـ {url}",
+  "share.scan": "امسح الرمز للانضمام من جهاز آخر",
+  "share.done": "تم",
+
+  "joinCode.title": "الانضمام برمز",
+  "joinCode.intro": "أدخل رمز الغرفة الذي شاركه المضيف معك.",
+  "joinCode.code": "رمز الغرفة",
+  "joinCode.cancel": "إلغاء",
+  "joinCode.join": "انضمام",
+
+  "invite.title": "دعوة أشخاص إلى «{title}»",
+  "invite.intro":
+    "ابحث عن الأشخاص باسم المستخدم، أو أدخل البريد الإلكتروني لشخص ليس لديه حساب بعد. ستصله الدعوة عند التسجيل.{type, select, private { لا يمكن الانضمام إلى هذه الغرفة الخاصة إلا للمدعوين.} other {}}",
+  "invite.people": "أسماء المستخدمين أو عناوين البريد الإلكتروني",
+  "invite.placeholder": "ابدأ بكتابة اسم مستخدم",
+  "invite.addEmail": "اضغط Enter لإضافة هذا البريد الإلكتروني",
+  "invite.self": "لا يمكنك دعوة نفسك",
+  "invite.noUser":
+    "لا يوجد مستخدم باسم «{name}». اختر شخصًا من القائمة أو أدخل بريدًا إلكترونيًا.",
+  "invite.sendFailed": "تعذّر إرسال الدعوات",
+  "invite.cancel": "إلغاء",
+  "invite.sending": "جارٍ الإرسال...",
+  "invite.send":
+    "{count, plural, =0 {إرسال الدعوة} one {إرسال الدعوة} two {إرسال الدعوتين} few {إرسال # دعوات} other {إرسال # دعوة}}",
+
+  "inviteList.title": "الدعوات",
+  "inviteList.pending": "{count, number} بانتظار الرد",
+  "inviteList.unknown": "غير معروف",
+  "inviteList.status":
+    "{status, select, pending {معلّقة} accepted {مقبولة} declined {مرفوضة} revoked {ملغاة} other {{status}}}",
+  "inviteList.awaitingSignUp": "بانتظار التسجيل",
+  "inviteList.resend": "إعادة إرسال الدعوة",
+  "inviteList.resendTo": "إعادة إرسال الدعوة إلى {name}",
+  "inviteList.resent": "أُعيد إرسال الدعوة إلى {name}",
+  "inviteList.resendFailed": "تعذّرت إعادة إرسال الدعوة",
+  "inviteList.revoke": "إلغاء الدعوة",
+  "inviteList.revokeTo": "إلغاء دعوة {name}",
+  "inviteList.revoked": "أُلغيت دعوة {name}",
+  "inviteList.revokeFailed": "تعذّر إلغاء الدعوة",
+
+  "calendarFeed.title": "الاشتراك في غرفك",
+  "calendarFeed.intro":
+    "أضف هذا الرابط إلى تقويم Google أو Outlook أو تقويم Apple كاشتراك. تبقى غرفك القادمة ودعواتك متزامنة، بما في ذلك تغييرات المواعيد والإلغاءات.",
+  "calendarFeed.url": "رابط التقويم",
+  "calendarFeed.copy": "نسخ الرابط",
+  "calendarFeed.copyLabel": "نسخ رابط التقويم",
+  "calendarFeed.copied": "تم النسخ!",
+  "calendarFeed.copyFailed": "تعذّر نسخ الرابط. حدّده وانسخه يدويًا.",
+  "calendarFeed.warning":
+    "يمكن لأي شخص لديه هذا الرابط رؤية غرفك. أعد تعيينه إذا شاركته عن طريق الخطأ؛ سيتوقف الرابط القديم عن العمل.",
+  "calendarFeed.reset": "إعادة تعيين الرابط",
+  "calendarFeed.close": "إغلاق",
+  "calendarFeed.open": "فتح في تطبيق التقويم",
+  "calendarFeed.loadFailed": "تعذّر تحميل تقويمك",
+  "calendarFeed.resetFailed": "تعذّرت إعادة تعيين تقويمك",
+
+  // Membership and moderation
+  "membership.leaveRoom": "مغادرة الغرفة",
+  "membership.confirmTitle": "مغادرة «{title}»؟",
+  "membership.confirmFull":
+    "الغرفة ممتلئة، لذا سيذهب مكانك إلى الشخص التالي في قائمة الانتظار وقد لا تستعيده.",
+  "membership.confirmBody": "يمكنك الانضمام مجددًا لاحقًا ما دام هناك مكان.",
+  "membership.stay": "البقاء",
+  "membership.leave": "مغادرة",
+  "membership.leaveFailed": "تعذّرت مغادرة الغرفة",
+  "membership.joinWaitlist": "الانضمام إلى قائمة الانتظار",
+  "membership.leaveWaitlist": "مغادرة قائمة الانتظار",
+  "membership.joinWaitlistFailed": "تعذّر الانضمام إلى قائمة الانتظار",
+  "membership.leaveWaitlistFailed": "تعذّرت مغادرة قائمة الانتظار",
+  "membership.waitlisted":
+    "ترتيبك {position} في قائمة الانتظار. سنخبرك عندما يتوفر مكان.",
+  "membership.full": "هذه الغرفة ممتلئة ({capacity}).",
+
+  "moderation.menu": "الإشراف على {name}",
+  "moderation.role": "الدور",
+  "moderation.roleFailed": "تعذّر تغيير الدور",
+  "moderation.muteMinutes":
+    "{count, plural, one {كتم لمدة دقيقة} two {كتم لمدة دقيقتين} few {كتم لمدة # دقائق} other {كتم لمدة # دقيقة}}",
+  "moderation.muteHours":
+    "{count, plural, one {كتم لمدة ساعة} two {كتم لمدة ساعتين} few {كتم لمدة # ساعات} other {كتم لمدة # ساعة}}",
+  "moderation.muteIndefinitely": "كتم حتى إلغاء الكتم",
+  "moderation.muteFailed": "تعذّر كتم المشارك",
+  "moderation.unmute": "إلغاء الكتم",
+  "moderation.unmuteFailed": "تعذّر إلغاء كتم المشارك",
+  "moderation.kick": "إزالة من الغرفة",
+  "moderation.kickTitle": "إزالة {name}؟",
+  "moderation.kickBody":
+    "ستتم إزالته من الغرفة لكن يمكنه الانضمام إليها مجددًا.",
+  "moderation.kickConfirm": "إزالة",
+  "moderation.kickFailed": "تعذّرت إزالة المشارك",
+  "moderation.ban": "حظر من الغرفة",
+  "moderation.banTitle": "حظر {name}؟",
+  "moderation.banBody":
+    "ستتم إزالته من الغرفة ولن يتمكن من الانضمام إليها مجددًا.",
+  "moderation.banConfirm": "حظر",
+  "moderation.banFailed": "تعذّر حظر المشارك",
+  "moderation.cancel": "إلغاء",
+
+  "slowMode.title": "الوضع البطيء",
+  "slowMode.active": "الوضع البطيء: {seconds} ث",
+  "slowMode.interval": "الوقت بين الرسائل",
+  "slowMode.off": "إيقاف",
+  "slowMode.seconds":
+    "{count, plural, one {ثانية واحدة} two {ثانيتان} few {# ثوانٍ} other {# ثانية}}",
+  "slowMode.minutes":
+    "{count, plural, one {دقيقة واحدة} two {دقيقتان} few {# دقائق} other {# دقيقة}}",
+  "slowMode.failed": "تعذّر تغيير الوضع البطيء",
+
+  // Chat messages
+  "message.unknownSender": "غير معروف",
+  "message.deleted": "حُذفت هذه الرسالة",
+  "message.removedByHost": "أزال المضيف هذه الرسالة",
+  "message.editLabel": "تعديل الرسالة",
+  "message.cancel": "إلغاء",
+  "message.save": "حفظ",
+  "message.sending": "جارٍ الإرسال...",
+  "message.edited": "(معدّلة)",
+  "message.editedAt": "عُدّلت {time}",
+  "message.reactionLabel":
+    "تفاعل {emoji}، {count, plural, one {شخص واحد} two {شخصان} few {# أشخاص} other {# شخص}}",
+  "message.addReaction": "إضافة تفاعل",
+  "message.reactWith": "التفاعل بـ {emoji}",
+  "message.replies":
+    "{count, plural, =0 {رد} one {رد واحد} two {ردّان} few {# ردود} other {# رد}}",
+  "message.actions": "إجراءات الرسالة",
+  "message.edit": "تعديل",
+  "message.delete": "حذف",
+  "message.deleteTitle": "حذف الرسالة؟",
+  "message.deleteOwn": "ستُستبدل هذه الرسالة بملاحظة تفيد بحذفها.",
+  "message.deleteOther": "ستُزال هذه الرسالة لدى الجميع في الغرفة.",
+  "message.notDelivered": "لم تُسلَّم",
+  "message.retry": "إعادة المحاولة",
+  "message.discard": "تجاهل",
+
+  "messageList.loadOlder": "تحميل الرسائل الأقدم",
+  "messageList.newMessages": "رسائل جديدة",
+
+  "thread.title": "سلسلة الردود",
+  "thread.close": "إغلاق سلسلة الردود",
+  "thread.replies":
+    "{count, plural, zero {لا ردود} one {رد واحد} two {ردّان} few {# ردود} other {# رد}}",
+  "thread.placeholder": "الرد في السلسلة...",
+  "thread.send": "إرسال الرد",
+
+  "typing.users":
+    "{count, plural, =1 {{first} يكتب…} =2 {{first} و{second} يكتبان…} =3 {{first} و{second} و{third} يكتبون…} other {{first} و{second} و{others, plural, one {شخص آخر} two {شخصان آخران} few {# آخرون} other {# آخرين}} يكتبون…}}",
+  "mentions.ai": "اسأل تيد، مساعد الذكاء الاصطناعي",
+
+  "roomFiles.kind":
+    "{kind, select, all {الكل} image {الصور} video {الفيديوهات} audio {الصوتيات} other {المستندات}}",
+  "roomFiles.empty": "لم تتم مشاركة أي ملفات في هذه الغرفة بعد.",
+  "roomFiles.emptyKind": "لا توجد ملفات من هذا النوع.",
+  "roomFiles.download": "تنزيل",
+  "roomFiles.downloadFile": "تنزيل {name}",
+  "attachments.drop": "أفلت الملفات هنا أو انقر للإرفاق",
+
+  // Joining and leaving rooms
+  "joinRoom.joining": "جارٍ الانضمام إلى الغرفة...",
+  "joinRoom.notFound": "لا توجد غرفة تطابق الرمز «{code}»",
+  "joinRoom.failed": "تعذّر الانضمام إلى الغرفة",
+  "joinRoom.tryAnother": "تجربة رمز آخر",
+  "joinRoom.dashboard": "الذهاب إلى الرئيسية",
+
+  "roomEnded.title": "انتهت هذه الغرفة",
+  "roomEnded.body":
+    "انتهت «{title}». ستُنقل إلى الصفحة الرئيسية خلال {seconds, plural, zero {لحظات} one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} other {# ثانية}}.",
+  "roomEnded.dashboard": "الذهاب إلى الرئيسية",
+  "roomEnded.viewHistory": "عرض سجل الغرفة",
+
+  // Notifications and theme
+  "notifications.bellLabel":
+    "عرض الإشعارات الجديدة ({notifications, number}) والرسائل غير المقروءة ({messages, number})",
+  "notifications.title": "الإشعارات",
+  "notifications.markAllRead": "تعليم الكل كمقروء",
+  "notifications.unreadMessages": "رسائل غير مقروءة",
+  "notifications.unreadCount":
+    "{count, plural, one {رسالة واحدة غير مقروءة} two {رسالتان غير مقروءتين} few {# رسائل غير مقروءة} other {# رسالة غير مقروءة}}",
+  "notifications.dismiss": "تجاهل",
+  "notifications.empty": "لا توجد إشعارات",
+  "notifications.viewAllRooms": "عرض كل الغرف",
+
+  "theme.toDark": "التبديل إلى الوضع الداكن",
+  "theme.toSystem": "التبديل إلى وضع النظام",
+  "theme.toLight": "التبديل إلى الوضع الفاتح",
+  "theme.toggle": "تبديل المظهر",
+
+  // File uploads
+  "upload.prompt": "انقر للرفع أو اسحب الملفات وأفلتها هنا",
+  "upload.drop": "أفلت الملفات هنا",
+  "upload.input": "حقل رفع الملفات",
+  "upload.formats": "الصيغ المدعومة: {formats}",
+  "upload.anyFormat": "كل أنواع الملفات مدعومة",
+  "upload.maxSize": "الحد الأقصى للحجم: {size}",
+  "upload.maxFiles": "الحد الأقصى للملفات: {max, number}",
+  "upload.selected": "الملفات المحددة ({count, number}/{max, number})",
+  "upload.rejected": "{name}: {error}",
+  "upload.tooLarge": "حجم الملف يتجاوز الحد {size}",
+  "upload.unsupportedType": "نوع الملف {type} غير مدعوم",
+  "upload.tooMany":
+    "لا يُسمح بأكثر من {max, plural, one {ملف واحد} two {ملفين} few {# ملفات} other {# ملف}}",
+  "upload.cancelled": "أُلغي الرفع",
+  "upload.failed": "تعذّر الرفع",
+  "upload.cancel": "إلغاء رفع {name}",
+  "upload.retry": "إعادة محاولة رفع {name}",
+  "upload.remove": "إزالة {name}",
+
+  // Onboarding
+  "onboarding.title": "مرحبًا بك في RoomLoop",
+  "onboarding.progress": "التقدم",
+  "onboarding.optional": "اختياري",
+  "onboarding.continue": "متابعة",
+  "onboarding.finish": "إنهاء",
+  "onboarding.skip": "تخطٍّ",
+  "onboarding.back": "رجوع",
+  "onboarding.completeStep": "إكمال خطوة {step}",
+  "onboarding.skipStep": "تخطي خطوة {step}",
+  "onboarding.previousStep": "العودة إلى الخطوة السابقة",
+  "onboarding.skipAll": "تخطي الجولة التعريفية",
+  "onboarding.skipAllLabel": "تخطي الجولة التعريفية بالكامل",
+  "onboarding.close": "إغلاق",
+  "onboarding.closeLabel": "إغلاق الجولة التعريفية",
+  "onboarding.getStarted": "لنبدأ",
+  "onboarding.completeLabel": "إكمال الجولة التعريفية",
+
+  "onboarding.welcome.title": "مرحبًا بك في RoomLoop!",
+  "onboarding.welcome.description": "لنبدأ رحلتك مع الفعاليات الافتراضية",
+  "onboarding.welcome.body":
+    "RoomLoop منصتك لإنشاء الفعاليات الافتراضية واللقاءات والنقاشات والانضمام إليها. خذ جولة سريعة لتستفيد منها إلى أقصى حد.",
+  "onboarding.welcome.virtualEvents": "فعاليات افتراضية",
+  "onboarding.welcome.realtimeChat": "دردشة فورية",
+  "onboarding.welcome.screenSharing": "مشاركة الشاشة",
+  "onboarding.welcome.accessibility": "إمكانية الوصول",
+
+  "onboarding.explore.title": "استكشف الغرف",
+  "onboarding.explore.description": "اكتشف غرفًا افتراضية مثيرة وانضم إليها",
+  "onboarding.explore.imageAlt": "واجهة استكشاف الغرف",
+  "onboarding.explore.heading": "تصفّح الغرف العامة",
+  "onboarding.explore.body":
+    "اكتشف الغرف حسب الفئة أو الموضوع أو الشعبية، وشارك في نقاشات حول ما يهمك.",
+  "onboarding.explore.categories": "التصفح حسب الفئة",
+  "onboarding.explore.categoriesDetail":
+    "اعثر على غرف في التقنية والأعمال والتعليم وغيرها",
+  "onboarding.explore.discussions": "انضم إلى النقاشات",
+  "onboarding.explore.discussionsDetail":
+    "شارك في محادثات فورية مع مستخدمين آخرين",
+  "onboarding.explore.favorites": "احفظ المفضلة",
+  "onboarding.explore.favoritesDetail": "احفظ الغرف التي تريد زيارتها لاحقًا",
+
+  "onboarding.create.title": "أنشئ غرفتك",
+  "onboarding.create.description": "ابدأ فعاليتك أو نقاشك الخاص",
+  "onboarding.create.tip":
+    "إنشاء غرفة أمر سهل! املأ بعض التفاصيل وستكون جاهزًا.",
+  "onboarding.create.public": "غرفة عامة",
+  "onboarding.create.publicDetail": "يمكن لأي شخص اكتشاف غرفتك والانضمام إليها",
+  "onboarding.create.private": "غرفة خاصة",
+  "onboarding.create.privateDetail": "لا ينضم إلى غرفتك إلا المدعوون",
+  "onboarding.create.type": "اختر نوع الغرفة",
+  "onboarding.create.typeDetail":
+    "عامة للنقاشات المفتوحة، وخاصة للفعاليات الحصرية",
+  "onboarding.create.schedule": "حدد الموعد",
+  "onboarding.create.scheduleDetail": "جدول غرفتك في تاريخ ووقت محددين",
+  "onboarding.create.invite": "ادعُ المشاركين",
+  "onboarding.create.inviteDetail":
+    "أرسل دعوات لمستخدمين محددين أو شارك رابطًا",
+
+  "onboarding.chat.title": "دردشة فورية",
+  "onboarding.chat.description": "تواصل مع المشاركين لحظة بلحظة",
+  "onboarding.chat.imageAlt": "واجهة الدردشة",
+  "onboarding.chat.heading": "ميزات الدردشة التفاعلية",
+  "onboarding.chat.body": "أرسل الرسائل والتفاعلات والملفات لإثراء محادثاتك.",
+  "onboarding.chat.text": "رسائل نصية",
+  "onboarding.chat.textDetail": "أرسل الرسائل النصية واستقبلها فورًا",
+  "onboarding.chat.reactions": "التفاعلات",
+  "onboarding.chat.reactionsDetail": "تفاعل مع الرسائل بالرموز التعبيرية",
+  "onboarding.chat.files": "مشاركة الملفات",
+  "onboarding.chat.filesDetail": "شارك الصور والمستندات والملفات الأخرى",
+  "onboarding.chat.voice": "رسائل صوتية",
+  "onboarding.chat.voiceDetail": "أرسل رسائل صوتية للتواصل السريع",
+
+  "onboarding.accessibility.title": "ميزات إمكانية الوصول",
+  "onboarding.accessibility.description": "صُمّم RoomLoop ليناسب الجميع",
+  "onboarding.accessibility.intro":
+    "يتضمن RoomLoop ميزات شاملة لإمكانية الوصول حتى يتمكن الجميع من المشاركة.",
+  "onboarding.accessibility.screenReader": "دعم قارئات الشاشة",
+  "onboarding.accessibility.screenReaderDetail":
+    "توافق كامل مع قارئات الشاشة والتقنيات المساعدة",
+  "onboarding.accessibility.keyboard": "التنقل بلوحة المفاتيح",
+  "onboarding.accessibility.keyboardDetail":
+    "كل الميزات متاحة من لوحة المفاتيح",
+  "onboarding.accessibility.contrast": "وضع التباين العالي",
+  "onboarding.accessibility.contrastDetail": "خيارات تباين أعلى لرؤية أوضح",
+  "onboarding.accessibility.fontSize": "تعديل حجم الخط",
+  "onboarding.accessibility.fontSizeDetail": "اختر حجم النص الذي يناسبك",
+  "onboarding.accessibility.motion": "تقليل الحركة",
+  "onboarding.accessibility.motionDetail":
+    "خيار لتقليل الرسوم المتحركة لمن يتحسس من الحركة",
+
+  "onboarding.settings.title": "خصّص تجربتك",
+  "onboarding.settings.description": "اضبط RoomLoop وفق تفضيلاتك",
+  "onboarding.settings.intro": "اجعل RoomLoop يناسبك مع خيارات التخصيص هذه:",
+  "onboarding.settings.theme": "إعدادات المظهر",
+  "onboarding.settings.themeDetail":
+    "اختر بين المظهر الفاتح أو الداكن أو مظهر النظام",
+  "onboarding.settings.accessibility": "إمكانية الوصول",
+  "onboarding.settings.accessibilityDetail": "اضبط حجم الخط والتباين والحركة",
+  "onboarding.settings.notifications": "تفضيلات الإشعارات",
+  "onboarding.settings.notificationsDetail":
+    "تحكم في وقت وصول الإشعارات وطريقتها",
+  "onboarding.settings.privacy": "إعدادات الخصوصية",
+  "onboarding.settings.privacyDetail":
+    "تحكم في ظهور ملفك الشخصي ومشاركة بياناتك",
+  "onboarding.settings.language": "خيارات اللغة",
+  "onboarding.settings.languageDetail": "اختر اللغة التي يظهر بها RoomLoop",
+};
+
+export default ar;
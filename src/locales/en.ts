@@ -0,0 +1,808 @@
+/**
+ * English messages, the base catalog. Other catalogs translate these keys
+ * and fall back to the English text for any they leave out. Messages use
+ * ICU syntax (see utils/messageFormat).
+ *
+ * Not in the catalogs yet, so English in every language: the accessibility
+ * settings, the AI assistant panels, the footer, notification titles and
+ * texts, and error messages that come from the server or the data contexts.
+ */
+const en = {
+  // Navigation
+  "nav.home": "Home",
+  "nav.explore": "Explore",
+  "nav.createRoom": "Create Room",
+  "nav.profile": "Profile",
+  "nav.settings": "Settings",
+  "nav.logout": "Logout",
+  "nav.login": "Login",
+  "nav.dashboard": "Dashboard",
+  "nav.exploreRooms": "Explore Rooms",
+  "nav.register": "Register",
+  "nav.greeting": "Hello, {name}",
+  "nav.tagline": "RoomLoop - Drop-In Events & Micro-Meetups",
+  "nav.theme": "Theme",
+  "nav.navigateTo": "Navigate to {label}",
+  "nav.openMenu": "Open menu",
+  "nav.closeMenu": "Close menu",
+  "nav.userMenu": "User menu",
+  "nav.notifications": "View notifications",
+  "nav.scrollToTop": "Scroll to top",
+
+  // Rooms, wherever they are shown
+  "room.status":
+    "{status, select, scheduled {Scheduled} live {Live} closed {Closed} cancelled {Cancelled} other {{status}}}",
+  "room.type":
+    "{type, select, public {Public} private {Private} other {{type}}}",
+  "room.role":
+    "{role, select, host {Host} co-host {Co-host} moderator {Moderator} participant {Participant} listener {Listener} other {{role}}}",
+  "room.youAreHost": "YOU ARE HOST",
+  "room.startTime": "Start Time:",
+  "room.endTime": "End Time:",
+  "room.roomType": "Room Type:",
+  "room.code": "Room Code:",
+  "room.participants": "Participants",
+  "room.noParticipants": "No participants yet",
+  "room.capacity":
+    "{count, number}/{max, plural, one {# participant} other {# participants}}",
+  "room.joined": "{count, plural, one {# joined} other {# joined}}",
+  "room.waiting": "{count, plural, one {# waiting} other {# waiting}}",
+  "room.full": "(full)",
+  "room.createdBy": "Created by: {name}",
+
+  // When a room starts, relative to now, e.g. "Starts in 5 minutes"
+  "roomTiming.starts": "Starts {time}",
+  "roomTiming.overdue": "Was due to start {time}",
+  "roomTiming.started": "Started {time}",
+  "roomTiming.ended": "Ended {time}",
+  "roomTiming.hostTime": "{time} for the host",
+
+  // Dashboard
+  "dashboard.title": "Your Dashboard",
+  "dashboard.subtitle": "Manage your upcoming, live, and past events.",
+  "dashboard.loading": "Loading your rooms...",
+  "dashboard.joinWithCode": "Join with Code",
+  "dashboard.exportCalendar": "Export Calendar (.ics)",
+  "dashboard.subscribeCalendar": "Subscribe in Calendar App",
+  "dashboard.tab.all": "All Rooms",
+  "dashboard.tab.live": "Live",
+  "dashboard.tab.upcoming": "Upcoming",
+  "dashboard.tab.past": "Past",
+  "dashboard.tab.invitations":
+    "{count, plural, =0 {Invitations} other {Invitations (#)}}",
+  "dashboard.empty":
+    "{tab, select, live {No live rooms found} upcoming {No upcoming rooms found} past {No past rooms found} invitations {No invitations found} other {No rooms found}}",
+  "dashboard.newMessages": "{count} new",
+  "dashboard.unreadMessages":
+    "{count, plural, one {# unread message} other {# unread messages}}",
+  "dashboard.start": "Start:",
+  "dashboard.end": "End:",
+  "dashboard.roomCode": "Room Code:",
+  "dashboard.participants": "Participants:",
+  "dashboard.invitedBy": "Invited by {name}",
+  "dashboard.waitlist": "On the waitlist: #{position}",
+  "dashboard.recurring": "Recurring",
+  "dashboard.hideDates": "Hide other dates",
+  "dashboard.otherDates":
+    "{count, plural, one {# other date in this series} other {# other dates in this series}}",
+  "dashboard.accept": "Accept",
+  "dashboard.decline": "Decline",
+  "dashboard.joinNow": "Join Now",
+  "dashboard.view": "View",
+  "dashboard.acceptFailed": "Failed to accept invite",
+  "dashboard.declineFailed": "Failed to decline invite",
+
+  // Create room
+  "createRoom.title": "Create New Room",
+  "createRoom.subtitle":
+    "Set up your virtual event and start connecting with people",
+  "createRoom.roomTitle": "Room Title",
+  "createRoom.roomTitlePlaceholder": "Enter an engaging title for your room...",
+  "createRoom.description": "Description",
+  "createRoom.descriptionPlaceholder": "Describe what your room is about...",
+  "createRoom.roomType": "Room Type",
+  "createRoom.startTime": "Start Time",
+  "createRoom.endTime": "End Time",
+  "createRoom.tags": "Add Tags",
+  "createRoom.tagsPlaceholder": "Type a tag and press Enter...",
+  "createRoom.addTag": "Add",
+  "createRoom.cancel": "Cancel",
+  "createRoom.creating": "Creating...",
+  "createRoom.createSeries": "Create Series",
+  "createRoom.create": "Create Room",
+  "createRoom.titleRequired": "Title is required",
+  "createRoom.descriptionRequired": "Description is required",
+  "createRoom.startTimeRequired": "Start time is required",
+  "createRoom.endTimeRequired": "End time is required",
+  "createRoom.endBeforeStart": "End time must be after start time",
+
+  // Explore
+  "explore.title": "Explore Rooms",
+  "explore.subtitle":
+    "Discover and join events and meetups. Search by topic, narrow down by tag, status or date, and share the link to any search.",
+  "explore.joinWithCode": "Have a code? Join with Code",
+  "explore.tab.public": "Public Rooms",
+  "explore.tab.private": "Private Rooms",
+  "explore.searchPlaceholder": "Search by title, description, or tag...",
+  "explore.filter.status": "Status",
+  "explore.filter.tags": "Tags",
+  "explore.filter.from": "Starting from",
+  "explore.filter.to": "Starting until",
+  "explore.filter.sort": "Sort by",
+  "explore.status":
+    "{status, select, live {Live} scheduled {Upcoming} closed {Ended} cancelled {Cancelled} other {{status}}}",
+  "explore.sort":
+    "{sort, select, startTime {Starting soonest} popularity {Most popular} recent {Newest} other {{sort}}}",
+  "explore.loading": "Loading rooms...",
+  "explore.empty":
+    "{type, select, private {No private rooms found} other {No public rooms found}}",
+  "explore.emptyHint":
+    "Try adjusting your search or check back later for new events.",
+  "explore.showing": "Showing {shown, number} of {total, number}",
+  "explore.loadingMore": "Loading...",
+  "explore.loadMore": "Load More",
+  "explore.unknownCreator": "Unknown",
+  "explore.start": "Start:",
+  "explore.end": "End:",
+  "explore.enterRoom": "Enter Room",
+  "explore.viewRoom": "View Room",
+  "explore.leaveWaitlist": "Leave Waitlist (#{position})",
+  "explore.joinWaitlist": "Room Full · Join Waitlist",
+  "explore.joinNow": "Join Now",
+  "explore.viewDetails": "View Details",
+
+  // Search and filters
+  "search.placeholder": "Search...",
+  "search.clear": "Clear search",
+  "search.showFilters": "Show filters",
+  "search.hideFilters": "Hide filters",
+  "search.toggleFilters": "Toggle filters",
+  "search.results": "{count, plural, one {# result} other {# results}}",
+  "search.filtered": "Filtered",
+  "search.filters": "Filters",
+  "search.clearAll": "Clear all",
+  "search.clearAllLabel": "Clear all filters",
+  "search.all": "All",
+  "search.filterBy": "Filter by {label}",
+  "search.range": "{label} range",
+  "search.removeFilter": "Remove {label} filter",
+
+  // Signing in and signing up
+  "auth.login": "Email or Username",
+  "auth.password": "Password",
+  "auth.loginRequired": "Email or username is required",
+  "auth.passwordRequired": "Password is required",
+  "login.title": "Welcome Back!",
+  "login.subtitle": "Enter your credentials to access your account",
+  "login.sessionExpired": "Your session has expired. Please sign in again.",
+  "login.submit": "Sign In",
+  "login.toRegister": "Don't have an account? Sign Up",
+  "register.title": "Join RoomLoop!",
+  "register.subtitle": "Fill in the details to join our community",
+  "register.username": "Username",
+  "register.email": "Email Address",
+  "register.confirmPassword": "Confirm Password",
+  "register.submit": "Sign Up",
+  "register.toLogin": "Already have an account? Sign in",
+  "register.usernameRequired": "Username is required",
+  "register.usernameTooShort":
+    "Username must be at least {min, number} characters",
+  "register.emailRequired": "Email is required",
+  "register.emailInvalid": "Please enter a valid email address",
+  "register.passwordTooShort":
+    "Password must be at least {min, number} characters",
+  "register.confirmRequired": "Please confirm your password",
+  "register.passwordMismatch": "Passwords do not match",
+
+  // Profile
+  "profile.title": "User Profile",
+  "profile.loading": "Loading profile...",
+  "profile.notFound": "User not found",
+  "profile.updateFailed": "Failed to update profile",
+  "profile.removeAvatarFailed": "Failed to remove avatar",
+  "profile.changeAvatar": "Change avatar",
+  "profile.removePhoto": "Remove photo",
+  "profile.memberSince": "Member since {date}",
+  "profile.edit": "Edit profile",
+  "profile.save": "Save changes",
+  "profile.cancel": "Cancel",
+  "profile.username": "Username",
+  "profile.usernamePlaceholder": "Enter your username",
+  "profile.email": "Email",
+  "profile.emailPlaceholder": "Enter your email",
+  "profile.bio": "Bio",
+  "profile.bioPlaceholder": "Tell us about yourself...",
+  "profile.avatarFallback": "Without a photo, show",
+  "profile.avatarFallbackHelp": "Used wherever you have no uploaded avatar",
+  "profile.avatarFallback.initials": "My initials",
+  "profile.avatarFallback.identicon": "A generated pattern",
+  "profile.stats.total": "Total Rooms",
+  "profile.stats.live": "Live Rooms",
+  "profile.stats.scheduled": "Scheduled",
+  "profile.stats.closed": "Closed",
+  "profile.unknownStatus": "Unknown",
+  "profile.myRooms": "My Rooms",
+  "profile.noRooms": "No rooms created yet",
+  "profile.noRoomsHint": "Start by creating your first room!",
+
+  "avatarEditor.title": "Change Avatar",
+  "avatarEditor.drop": "Drop a photo here or click to choose one",
+  "avatarEditor.unreadable": "That file isn't a readable image",
+  "avatarEditor.cropLabel": "Drag to position your avatar",
+  "avatarEditor.cropHint":
+    "Drag to reposition, scroll or use the slider to zoom",
+  "avatarEditor.zoom": "Zoom",
+  "avatarEditor.chooseAnother": "Choose Another",
+  "avatarEditor.cancel": "Cancel",
+  "avatarEditor.save": "Save",
+  "avatarEditor.saving": "Saving...",
+  "avatarEditor.saveFailed": "Failed to save avatar",
+
+  // Preferences
+  "preferences.title": "User Preferences",
+  "preferences.unsaved": "Unsaved changes",
+  "preferences.reset": "Reset",
+  "preferences.resetLabel": "Reset to defaults",
+  "preferences.cancel": "Cancel",
+  "preferences.cancelLabel": "Cancel changes",
+  "preferences.save": "Save Changes",
+  "preferences.saveLabel": "Save preferences",
+  "preferences.tab.profile": "Profile",
+  "preferences.tab.notifications": "Notifications",
+  "preferences.tab.privacy": "Privacy",
+  "preferences.tab.appearance": "Appearance",
+  "preferences.tab.accessibility": "Accessibility",
+  "preferences.tab.language": "Language",
+
+  "preferences.profile.heading": "Profile Information",
+  "preferences.displayName": "Display Name",
+  "preferences.displayNameHelp": "This is how your name appears to other users",
+  "preferences.jobTitle": "Job Title",
+  "preferences.jobTitleHelp": "Your professional title",
+  "preferences.company": "Company",
+  "preferences.companyHelp": "Your company or organization",
+  "preferences.location": "Location",
+  "preferences.locationHelp": "Your city and country",
+  "preferences.bio": "Bio",
+  "preferences.bioHelp": "Tell others about yourself",
+  "preferences.website": "Website",
+  "preferences.websiteHelp": "Your personal or professional website",
+
+  "preferences.notifications.heading": "Notification Preferences",
+  "preferences.emailNotifications": "Email Notifications",
+  "preferences.emailNotificationsHelp": "Receive notifications via email",
+  "preferences.pushNotifications": "Push Notifications",
+  "preferences.pushNotificationsHelp":
+    "Pop up notifications while RoomLoop is in the background",
+  "preferences.roomInvitations": "Room Invitations",
+  "preferences.roomInvitationsHelp": "Get notified when invited to rooms",
+  "preferences.messageNotifications": "Message Notifications",
+  "preferences.messageNotificationsHelp": "Get notified of new messages",
+  "preferences.marketingEmails": "Marketing Emails",
+  "preferences.marketingEmailsHelp": "Receive updates about new features",
+
+  "preferences.privacy.heading": "Privacy Settings",
+  "preferences.privacy.info":
+    "Privacy settings are saved to your account and apply on every device you use.",
+  "preferences.profileVisibility": "Profile Visibility",
+  "preferences.visibility.public": "Public",
+  "preferences.visibility.private": "Private",
+  "preferences.visibility.friends": "Friends Only",
+  "preferences.showOnlineStatus": "Show Online Status",
+  "preferences.showOnlineStatusHelp": "Let others see when you're online",
+  "preferences.allowDirectMessages": "Allow Direct Messages",
+  "preferences.allowDirectMessagesHelp":
+    "Let other users send you direct messages",
+  "preferences.showLastSeen": "Show Last Seen",
+  "preferences.showLastSeenHelp": "Show when you were last active",
+
+  "preferences.appearance.heading": "Appearance Settings",
+  "preferences.theme": "Theme",
+  "preferences.theme.light": "Light",
+  "preferences.theme.dark": "Dark",
+  "preferences.theme.system": "System",
+  "preferences.accentColor": "Accent Color",
+  "preferences.accentColorHelp": "Choose your preferred accent color",
+
+  "preferences.accessibility.heading": "Accessibility Settings",
+  "preferences.accessibility.info":
+    "These settings help make RoomLoop more accessible for users with different needs.",
+  "preferences.accessibility.open": "Open Accessibility Settings",
+  "preferences.accessibility.openLabel": "Open detailed accessibility settings",
+
+  "preferences.language.heading": "Language & Region",
+  "preferences.language": "Language",
+  "preferences.timezone": "Timezone",
+  "preferences.timezone.utc": "UTC",
+  "preferences.timezone.eastern": "Eastern Time",
+  "preferences.timezone.central": "Central Time",
+  "preferences.timezone.mountain": "Mountain Time",
+  "preferences.timezone.pacific": "Pacific Time",
+  "preferences.timezone.london": "London",
+  "preferences.timezone.paris": "Paris",
+  "preferences.timezone.tokyo": "Tokyo",
+  "preferences.dateFormat": "Date Format",
+  "preferences.timeFormat": "Time Format",
+  "preferences.timeFormat.12h": "12-hour (AM/PM)",
+  "preferences.timeFormat.24h": "24-hour",
+  "preferences.datePreview": "Dates will look like: {date}",
+
+  // Repeating rooms
+  "recurrence.repeat": "Repeat this room",
+  "recurrence.frequency": "Repeats",
+  "recurrence.frequency.daily": "Daily",
+  "recurrence.frequency.weekly": "Weekly",
+  "recurrence.frequency.monthly": "Monthly",
+  "recurrence.interval": "Every",
+  "recurrence.unit":
+    "{frequency, select, daily {{interval, plural, one {day} other {days}}} weekly {{interval, plural, one {week} other {weeks}}} other {{interval, plural, one {month} other {months}}}}",
+  "recurrence.weekdays": "Days of the week",
+  "recurrence.ends": "Ends",
+  "recurrence.endsAfter": "After",
+  "recurrence.countLabel": "Number of occurrences",
+  "recurrence.occurrences":
+    "{count, plural, one {occurrence} other {occurrences}}",
+  "recurrence.endsOn": "On",
+  "recurrence.untilLabel": "Last day of the series",
+
+  "recurrence.every":
+    "{frequency, select, daily {{interval, plural, one {Every day} other {Every # days}}} weekly {{interval, plural, one {Every week} other {Every # weeks}}} other {{interval, plural, one {Every month} other {Every # months}}}}",
+  "recurrence.onDays": "{rule} on {days}",
+  "recurrence.listSeparator": ", ",
+  "recurrence.until": "{rule}, until {date}",
+  "recurrence.count": "{rule}, {count, plural, one {# time} other {# times}}",
+
+  "recurrence.error.interval": "Repeat interval must be at least 1",
+  "recurrence.error.weekdays": "Choose at least one day of the week",
+  "recurrence.error.firstDay": "Include {day}, the day of the first room",
+  "recurrence.error.end": "Choose when the series ends",
+  "recurrence.error.countRange":
+    "A series has between {min} and {max} occurrences",
+  "recurrence.error.untilBeforeStart":
+    "The series must end after the first room",
+  "recurrence.error.tooFew": "The series must have at least {min} occurrences",
+  "recurrence.error.tooMany": "A series can have at most {max} occurrences",
+
+  // Host controls
+  "hostControls.title": "Host Controls",
+  "hostControls.editDetails": "Edit Details",
+  "hostControls.changeEndTime": "Change End Time",
+  "hostControls.reschedule": "Reschedule",
+  "hostControls.endNow": "End Now",
+  "hostControls.cancelRoom": "Cancel Room",
+  "hostControls.delete": "Delete",
+
+  "hostControls.scope": "Apply to",
+  "hostControls.scope.occurrence": "This room only",
+  "hostControls.scope.series": "All upcoming rooms in the series",
+
+  "hostControls.editTitle": "Edit Room Details",
+  "hostControls.roomTitle": "Title",
+  "hostControls.description": "Description",
+  "hostControls.roomType": "Room Type",
+  "hostControls.maxParticipants": "Max Participants",
+  "hostControls.maxParticipantsHelp": "Leave empty for no limit",
+  "hostControls.tags": "Tags",
+  "hostControls.tagsHelp": "Separate tags with commas",
+  "hostControls.dialogCancel": "Cancel",
+  "hostControls.save": "Save",
+
+  "hostControls.rescheduleTitle": "Reschedule Room",
+  "hostControls.startTime": "Start Time",
+  "hostControls.endTime": "End Time",
+  "hostControls.seriesShift":
+    "Later rooms move by the same amount and keep their own dates.",
+  "hostControls.timesRequired": "Start and end time are required",
+  "hostControls.endBeforeStart": "End time must be after start time",
+  "hostControls.endInPast": "End time must be in the future",
+
+  "hostControls.end.title": "End this room now?",
+  "hostControls.end.body":
+    "The room closes for everyone and moves to past rooms. Chat history is kept.",
+  "hostControls.end.confirm": "End Room",
+  "hostControls.cancel.title": "Cancel this room?",
+  "hostControls.cancel.body":
+    "Participants and invitees are notified that the room won't take place.",
+  "hostControls.cancel.confirm": "Cancel Room",
+  "hostControls.cancelReason": "Reason (optional)",
+  "hostControls.delete.title": "Delete this room?",
+  "hostControls.delete.body":
+    "The room and its chat history are removed for everyone. This can't be undone.",
+  "hostControls.delete.confirm": "Delete Room",
+  "hostControls.keepRoom": "Keep Room",
+
+  "hostControls.updateFailed": "Failed to update room",
+  "hostControls.rescheduleFailed": "Failed to reschedule room",
+  "hostControls.endFailed": "Failed to end room",
+  "hostControls.cancelFailed": "Failed to cancel room",
+  "hostControls.deleteFailed": "Failed to delete room",
+
+  // Room page
+  "roomView.loading": "Loading room details...",
+  "roomView.notFound": "Room not found",
+  "roomView.signInRequired": "Please log in to view this room",
+  "roomView.unknownHost": "Unknown Host",
+  "roomView.unknownUser": "Unknown",
+  "roomView.cancelled": "This room was cancelled by the host.",
+  "roomView.cancelledWithReason":
+    "This room was cancelled by the host: {reason}",
+  "roomView.tags": "Tags",
+  "roomView.share": "Share",
+  "roomView.addToCalendar": "Add to Calendar",
+  "roomView.removeFromCalendar": "Remove from Calendar",
+  "roomView.presence":
+    "{name} is {status, select, online {online} away {away} other {offline}}",
+  "roomView.muted": "Muted",
+  "roomView.hostedBy": "Hosted by {name}",
+  "roomView.back": "← Back",
+  "roomView.details": "📋 Room Details",
+  "roomView.invite": "👥 Invite Users",
+
+  // Room chat
+  "roomChat.live": "Live Chat",
+  "roomChat.history": "Chat History",
+  "roomChat.online": "online",
+  "roomChat.closed": "closed",
+  "roomChat.slowMode": " · slow mode {seconds}s",
+  "roomChat.chatTab": "Chat",
+  "roomChat.filesTab": "Files",
+  "roomChat.empty": "No messages yet. Start the conversation!",
+  "roomChat.emptyPast": "No messages were sent in this room.",
+  "roomChat.beFirst": "Be the first to send a message",
+  "roomChat.attach": "Attach files",
+  "roomChat.hideAttachments": "Hide attachments",
+  "roomChat.aiHint": "Ted is here! Use @ai for AI assistance",
+  "roomChat.placeholder": "Type a message...",
+  "roomChat.placeholderAi": "Type a message... (Use @ai to chat with Ted)",
+  "roomChat.readOnlyClosed":
+    "This room is closed. Chat history is available for viewing only.",
+  "roomChat.readOnlyCancelled":
+    "This room was cancelled. Chat history is available for viewing only.",
+  "roomChat.insertEmoji": "Insert in message",
+
+  "composer.listener": "Listeners can follow the chat but not post",
+  "composer.muted": "You've been muted by a moderator",
+  "composer.mutedUntil": "You're muted until {time}",
+  "composer.slowMode": "Slow mode is on. You can send again in {seconds}s",
+
+  // Sharing and invites
+  "share.title": 'Share "{title}"',
+  "share.link": "Invite Link",
+  "share.copyLink": "Copy link",
+  "share.code": "Room Code",
+  "share.copyCode": "Copy code",
+  "share.copied": "Copied!",
+  "share.copyFailed": "Couldn't copy. Select the text and copy it manually.",
+  "share.qrLabel": "QR code for {url}",
+  "share.scan": "Scan to join on another device",
+  "share.done": "Done",
+
+  "joinCode.title": "Join with Code",
+  "joinCode.intro": "Enter the room code the host shared with you.",
+  "joinCode.code": "Room Code",
+  "joinCode.cancel": "Cancel",
+  "joinCode.join": "Join",
+
+  "invite.title": 'Invite People to "{title}"',
+  "invite.intro":
+    "Search for people by username, or enter the email address of someone who doesn't have an account yet. They get the invite when they sign up.{type, select, private { Only invited people can join this private room.} other {}}",
+  "invite.people": "Usernames or email addresses",
+  "invite.placeholder": "Start typing a username",
+  "invite.addEmail": "Press Enter to add this email address",
+  "invite.self": "You can't invite yourself",
+  "invite.noUser":
+    'No user named "{name}". Pick someone from the list or enter an email address.',
+  "invite.sendFailed": "Failed to send invites",
+  "invite.cancel": "Cancel",
+  "invite.sending": "Sending...",
+  "invite.send":
+    "{count, plural, =0 {Send Invite} one {Send Invite} other {Send # Invites}}",
+
+  "inviteList.title": "Invites",
+  "inviteList.pending": "{count, number} awaiting a response",
+  "inviteList.unknown": "Unknown",
+  "inviteList.status":
+    "{status, select, pending {Pending} accepted {Accepted} declined {Declined} revoked {Revoked} other {{status}}}",
+  "inviteList.awaitingSignUp": "Awaiting sign-up",
+  "inviteList.resend": "Resend invite",
+  "inviteList.resendTo": "Resend invite to {name}",
+  "inviteList.resent": "Invite sent to {name} again",
+  "inviteList.resendFailed": "Failed to resend invite",
+  "inviteList.revoke": "Revoke invite",
+  "inviteList.revokeTo": "Revoke invite to {name}",
+  "inviteList.revoked": "Invite to {name} revoked",
+  "inviteList.revokeFailed": "Failed to revoke invite",
+
+  "calendarFeed.title": "Subscribe to Your Rooms",
+  "calendarFeed.intro":
+    "Add this link to Google Calendar, Outlook or Apple Calendar as a calendar subscription. Your upcoming rooms and invitations stay in sync, including reschedules and cancellations.",
+  "calendarFeed.url": "Feed URL",
+  "calendarFeed.copy": "Copy link",
+  "calendarFeed.copyLabel": "Copy feed link",
+  "calendarFeed.copied": "Copied!",
+  "calendarFeed.copyFailed":
+    "Couldn't copy the link. Select it and copy it manually.",
+  "calendarFeed.warning":
+    "Anyone with this link can see your rooms. Reset it if it has been shared by mistake; the old link stops working.",
+  "calendarFeed.reset": "Reset Link",
+  "calendarFeed.close": "Close",
+  "calendarFeed.open": "Open in Calendar App",
+  "calendarFeed.loadFailed": "Failed to load your calendar feed",
+  "calendarFeed.resetFailed": "Failed to reset your calendar feed",
+
+  // Membership and moderation
+  "membership.leaveRoom": "Leave Room",
+  "membership.confirmTitle": 'Leave "{title}"?',
+  "membership.confirmFull":
+    "The room is full, so your place goes to the next person on the waitlist and you may not get it back.",
+  "membership.confirmBody": "You can join again later while there is room.",
+  "membership.stay": "Stay",
+  "membership.leave": "Leave",
+  "membership.leaveFailed": "Failed to leave room",
+  "membership.joinWaitlist": "Join Waitlist",
+  "membership.leaveWaitlist": "Leave Waitlist",
+  "membership.joinWaitlistFailed": "Failed to join the waitlist",
+  "membership.leaveWaitlistFailed": "Failed to leave the waitlist",
+  "membership.waitlisted":
+    "You're #{position} on the waitlist. We'll let you know when a place opens up.",
+  "membership.full": "This room is full ({capacity}).",
+
+  "moderation.menu": "Moderate {name}",
+  "moderation.role": "Role",
+  "moderation.roleFailed": "Failed to change role",
+  "moderation.muteMinutes":
+    "{count, plural, one {Mute for # minute} other {Mute for # minutes}}",
+  "moderation.muteHours":
+    "{count, plural, one {Mute for # hour} other {Mute for # hours}}",
+  "moderation.muteIndefinitely": "Mute until unmuted",
+  "moderation.muteFailed": "Failed to mute participant",
+  "moderation.unmute": "Unmute",
+  "moderation.unmuteFailed": "Failed to unmute participant",
+  "moderation.kick": "Remove from room",
+  "moderation.kickTitle": "Remove {name}?",
+  "moderation.kickBody":
+    "They are removed from the room but can join it again.",
+  "moderation.kickConfirm": "Remove",
+  "moderation.kickFailed": "Failed to remove participant",
+  "moderation.ban": "Ban from room",
+  "moderation.banTitle": "Ban {name}?",
+  "moderation.banBody":
+    "They are removed from the room and can't join it again.",
+  "moderation.banConfirm": "Ban",
+  "moderation.banFailed": "Failed to ban participant",
+  "moderation.cancel": "Cancel",
+
+  "slowMode.title": "Slow mode",
+  "slowMode.active": "Slow mode: {seconds}s",
+  "slowMode.interval": "Time between messages",
+  "slowMode.off": "Off",
+  "slowMode.seconds": "{count, plural, one {# second} other {# seconds}}",
+  "slowMode.minutes": "{count, plural, one {# minute} other {# minutes}}",
+  "slowMode.failed": "Failed to change slow mode",
+
+  // Chat messages
+  "message.unknownSender": "Unknown",
+  "message.deleted": "This message was deleted",
+  "message.removedByHost": "This message was removed by the host",
+  "message.editLabel": "Edit message",
+  "message.cancel": "Cancel",
+  "message.save": "Save",
+  "message.sending": "Sending...",
+  "message.edited": "(edited)",
+  "message.editedAt": "Edited {time}",
+  "message.reactionLabel":
+    "{emoji} reaction, {count, plural, one {# person} other {# people}}",
+  "message.addReaction": "Add reaction",
+  "message.reactWith": "React with {emoji}",
+  "message.replies":
+    "{count, plural, =0 {Reply} one {# reply} other {# replies}}",
+  "message.actions": "Message actions",
+  "message.edit": "Edit",
+  "message.delete": "Delete",
+  "message.deleteTitle": "Delete message?",
+  "message.deleteOwn":
+    "This message will be replaced with a note that it was deleted.",
+  "message.deleteOther":
+    "This message will be removed for everyone in the room.",
+  "message.notDelivered": "Not delivered",
+  "message.retry": "Retry",
+  "message.discard": "Discard",
+
+  "messageList.loadOlder": "Load older messages",
+  "messageList.newMessages": "New messages",
+
+  "thread.title": "Thread",
+  "thread.close": "Close thread",
+  "thread.replies": "{count, plural, one {# reply} other {# replies}}",
+  "thread.placeholder": "Reply to thread...",
+  "thread.send": "Send reply",
+
+  "typing.users":
+    "{count, plural, =1 {{first} is typing…} =2 {{first} and {second} are typing…} =3 {{first}, {second} and {third} are typing…} other {{first}, {second} and {others, plural, one {# other} other {# others}} are typing…}}",
+  "mentions.ai": "Ask Ted, the AI assistant",
+
+  "roomFiles.kind":
+    "{kind, select, all {All} image {Images} video {Videos} audio {Audio} other {Documents}}",
+  "roomFiles.empty": "No files have been shared in this room yet.",
+  "roomFiles.emptyKind": "No files of this type.",
+  "roomFiles.download": "Download",
+  "roomFiles.downloadFile": "Download {name}",
+  "attachments.drop": "Drop files here or click to attach",
+
+  // Joining and leaving rooms
+  "joinRoom.joining": "Joining room...",
+  "joinRoom.notFound": 'No room matches the code "{code}"',
+  "joinRoom.failed": "Failed to join room",
+  "joinRoom.tryAnother": "Try Another Code",
+  "joinRoom.dashboard": "Go to Dashboard",
+
+  "roomEnded.title": "This room has ended",
+  "roomEnded.body":
+    '"{title}" has concluded. You will be redirected to the dashboard in {seconds, plural, one {# second} other {# seconds}}.',
+  "roomEnded.dashboard": "Go to Dashboard",
+  "roomEnded.viewHistory": "View Room History",
+
+  // Notifications and theme
+  "notifications.bellLabel":
+    "Show {notifications, plural, one {# new notification} other {# new notifications}} and {messages, plural, one {# unread message} other {# unread messages}}",
+  "notifications.title": "Notifications",
+  "notifications.markAllRead": "Mark all as read",
+  "notifications.unreadMessages": "Unread messages",
+  "notifications.unreadCount":
+    "{count, plural, one {# unread message} other {# unread messages}}",
+  "notifications.dismiss": "Dismiss",
+  "notifications.empty": "No notifications",
+  "notifications.viewAllRooms": "View all rooms",
+
+  "theme.toDark": "Switch to Dark Mode",
+  "theme.toSystem": "Switch to System Mode",
+  "theme.toLight": "Switch to Light Mode",
+  "theme.toggle": "Toggle theme",
+
+  // File uploads
+  "upload.prompt": "Click to upload or drag and drop files here",
+  "upload.drop": "Drop files here",
+  "upload.input": "File upload input",
+  "upload.formats": "Supported formats: {formats}",
+  "upload.anyFormat": "All file types supported",
+  "upload.maxSize": "Max file size: {size}",
+  "upload.maxFiles": "Max files: {max, number}",
+  "upload.selected": "Selected Files ({count, number}/{max, number})",
+  "upload.rejected": "{name}: {error}",
+  "upload.tooLarge": "File size exceeds {size} limit",
+  "upload.unsupportedType": "File type {type} is not supported",
+  "upload.tooMany":
+    "No more than {max, plural, one {# file} other {# files}} allowed",
+  "upload.cancelled": "Upload cancelled",
+  "upload.failed": "Upload failed",
+  "upload.cancel": "Cancel upload of {name}",
+  "upload.retry": "Retry upload of {name}",
+  "upload.remove": "Remove {name}",
+
+  // Onboarding
+  "onboarding.title": "Welcome to RoomLoop",
+  "onboarding.progress": "Progress",
+  "onboarding.optional": "Optional",
+  "onboarding.continue": "Continue",
+  "onboarding.finish": "Finish",
+  "onboarding.skip": "Skip",
+  "onboarding.back": "Back",
+  "onboarding.completeStep": "Complete {step} step",
+  "onboarding.skipStep": "Skip {step} step",
+  "onboarding.previousStep": "Go to previous step",
+  "onboarding.skipAll": "Skip Onboarding",
+  "onboarding.skipAllLabel": "Skip entire onboarding",
+  "onboarding.close": "Close",
+  "onboarding.closeLabel": "Close onboarding",
+  "onboarding.getStarted": "Get Started",
+  "onboarding.completeLabel": "Complete onboarding",
+
+  "onboarding.welcome.title": "Welcome to RoomLoop!",
+  "onboarding.welcome.description":
+    "Let's get you started with your virtual events journey",
+  "onboarding.welcome.body":
+    "RoomLoop is your platform for creating and joining virtual events, meetups, and discussions. Let's take a quick tour to help you get the most out of your experience.",
+  "onboarding.welcome.virtualEvents": "Virtual Events",
+  "onboarding.welcome.realtimeChat": "Real-time Chat",
+  "onboarding.welcome.screenSharing": "Screen Sharing",
+  "onboarding.welcome.accessibility": "Accessibility",
+
+  "onboarding.explore.title": "Explore Rooms",
+  "onboarding.explore.description":
+    "Discover and join interesting virtual rooms",
+  "onboarding.explore.imageAlt": "Explore rooms interface",
+  "onboarding.explore.heading": "Browse Public Rooms",
+  "onboarding.explore.body":
+    "Discover rooms by category, topic, or popularity. Join discussions on topics that interest you.",
+  "onboarding.explore.categories": "Browse by Category",
+  "onboarding.explore.categoriesDetail":
+    "Find rooms in technology, business, education, and more",
+  "onboarding.explore.discussions": "Join Discussions",
+  "onboarding.explore.discussionsDetail":
+    "Participate in real-time conversations with other users",
+  "onboarding.explore.favorites": "Save Favorites",
+  "onboarding.explore.favoritesDetail":
+    "Bookmark rooms you want to visit later",
+
+  "onboarding.create.title": "Create Your Room",
+  "onboarding.create.description": "Start your own virtual event or discussion",
+  "onboarding.create.tip":
+    "Creating a room is easy! Just fill out a few details and you're ready to go.",
+  "onboarding.create.public": "Public Room",
+  "onboarding.create.publicDetail": "Anyone can discover and join your room",
+  "onboarding.create.private": "Private Room",
+  "onboarding.create.privateDetail": "Only invited users can join your room",
+  "onboarding.create.type": "Choose Room Type",
+  "onboarding.create.typeDetail":
+    "Public for open discussions, private for exclusive events",
+  "onboarding.create.schedule": "Set Schedule",
+  "onboarding.create.scheduleDetail":
+    "Schedule your room for a specific date and time",
+  "onboarding.create.invite": "Invite Participants",
+  "onboarding.create.inviteDetail":
+    "Send invitations to specific users or share a link",
+
+  "onboarding.chat.title": "Real-time Chat",
+  "onboarding.chat.description": "Communicate with participants in real-time",
+  "onboarding.chat.imageAlt": "Chat interface",
+  "onboarding.chat.heading": "Interactive Chat Features",
+  "onboarding.chat.body":
+    "Send messages, reactions, and files to enhance your conversations.",
+  "onboarding.chat.text": "Text Messages",
+  "onboarding.chat.textDetail": "Send and receive text messages in real-time",
+  "onboarding.chat.reactions": "Reactions",
+  "onboarding.chat.reactionsDetail": "React to messages with emojis",
+  "onboarding.chat.files": "File Sharing",
+  "onboarding.chat.filesDetail": "Share images, documents, and other files",
+  "onboarding.chat.voice": "Voice Messages",
+  "onboarding.chat.voiceDetail": "Send voice messages for quick communication",
+
+  "onboarding.accessibility.title": "Accessibility Features",
+  "onboarding.accessibility.description":
+    "RoomLoop is designed to be accessible for everyone",
+  "onboarding.accessibility.intro":
+    "RoomLoop includes comprehensive accessibility features to ensure everyone can participate.",
+  "onboarding.accessibility.screenReader": "Screen Reader Support",
+  "onboarding.accessibility.screenReaderDetail":
+    "Full compatibility with screen readers and assistive technologies",
+  "onboarding.accessibility.keyboard": "Keyboard Navigation",
+  "onboarding.accessibility.keyboardDetail":
+    "Complete keyboard accessibility for all features",
+  "onboarding.accessibility.contrast": "High Contrast Mode",
+  "onboarding.accessibility.contrastDetail":
+    "Enhanced contrast options for better visibility",
+  "onboarding.accessibility.fontSize": "Font Size Adjustment",
+  "onboarding.accessibility.fontSizeDetail":
+    "Customize text size to your preference",
+  "onboarding.accessibility.motion": "Reduced Motion",
+  "onboarding.accessibility.motionDetail":
+    "Option to reduce animations for motion sensitivity",
+
+  "onboarding.settings.title": "Customize Your Experience",
+  "onboarding.settings.description":
+    "Personalize RoomLoop to match your preferences",
+  "onboarding.settings.intro":
+    "Make RoomLoop work for you with these customization options:",
+  "onboarding.settings.theme": "Theme Settings",
+  "onboarding.settings.themeDetail":
+    "Choose between light, dark, or system theme",
+  "onboarding.settings.accessibility": "Accessibility",
+  "onboarding.settings.accessibilityDetail":
+    "Adjust font size, contrast, and motion settings",
+  "onboarding.settings.notifications": "Notification Preferences",
+  "onboarding.settings.notificationsDetail":
+    "Control when and how you receive notifications",
+  "onboarding.settings.privacy": "Privacy Settings",
+  "onboarding.settings.privacyDetail":
+    "Manage your profile visibility and data sharing",
+  "onboarding.settings.language": "Language Options",
+  "onboarding.settings.languageDetail":
+    "Choose the language RoomLoop is shown in",
+};
+
+export type MessageKey = keyof typeof en;
+
+// A translation. Keys it leaves out are shown in English.
+export type Catalog = Partial<Record<MessageKey, string>>;
+
+export default en;
@@ -0,0 +1,811 @@
+import { Catalog } from "./en";
+
+const es: Catalog = {
+  // Navigation
+  "nav.home": "Inicio",
+  "nav.explore": "Explorar",
+  "nav.createRoom": "Crear sala",
+  "nav.profile": "Perfil",
+  "nav.settings": "Configuración",
+  "nav.logout": "Cerrar sesión",
+  "nav.login": "Iniciar sesión",
+  "nav.dashboard": "Panel",
+  "nav.exploreRooms": "Explorar salas",
+  "nav.register": "Registrarse",
+  "nav.greeting": "Hola, {name}",
+  "nav.tagline": "RoomLoop - Eventos abiertos y microencuentros",
+  "nav.theme": "Tema",
+  "nav.navigateTo": "Ir a {label}",
+  "nav.openMenu": "Abrir menú",
+  "nav.closeMenu": "Cerrar menú",
+  "nav.userMenu": "Menú de usuario",
+  "nav.notifications": "Ver notificaciones",
+  "nav.scrollToTop": "Volver arriba",
+
+  // Rooms, wherever they are shown
+  "room.status":
+    "{status, select, scheduled {Programada} live {En directo} closed {Finalizada} cancelled {Cancelada} other {{status}}}",
+  "room.type":
+    "{type, select, public {Pública} private {Privada} other {{type}}}",
+  "room.role":
+    "{role, select, host {Anfitrión} co-host {Coanfitrión} moderator {Moderador} participant {Participante} listener {Oyente} other {{role}}}",
+  "room.youAreHost": "ERES EL ANFITRIÓN",
+  "room.startTime": "Inicio:",
+  "room.endTime": "Fin:",
+  "room.roomType": "Tipo de sala:",
+  "room.code": "Código de sala:",
+  "room.participants": "Participantes",
+  "room.noParticipants": "Todavía no hay participantes",
+  "room.capacity":
+    "{count, number}/{max, plural, one {# participante} other {# participantes}}",
+  "room.joined": "{count, plural, one {# unido} other {# unidos}}",
+  "room.waiting": "{count, plural, one {# en espera} other {# en espera}}",
+  "room.full": "(llena)",
+  "room.createdBy": "Creada por: {name}",
+
+  // When a room starts, relative to now
+  "roomTiming.starts": "Empieza {time}",
+  "roomTiming.overdue": "Debía empezar {time}",
+  "roomTiming.started": "Empezó {time}",
+  "roomTiming.ended": "Terminó {time}",
+  "roomTiming.hostTime": "{time} para el anfitrión",
+
+  // Dashboard
+  "dashboard.title": "Tu panel",
+  "dashboard.subtitle": "Gestiona tus eventos próximos, en directo y pasados.",
+  "dashboard.loading": "Cargando tus salas...",
+  "dashboard.joinWithCode": "Unirse con código",
+  "dashboard.exportCalendar": "Exportar calendario (.ics)",
+  "dashboard.subscribeCalendar": "Suscribirse desde tu calendario",
+  "dashboard.tab.all": "Todas las salas",
+  "dashboard.tab.live": "En directo",
+  "dashboard.tab.upcoming": "Próximas",
+  "dashboard.tab.past": "Pasadas",
+  "dashboard.tab.invitations":
+    "{count, plural, =0 {Invitaciones} other {Invitaciones (#)}}",
+  "dashboard.empty":
+    "{tab, select, live {No hay salas en directo} upcoming {No hay salas próximas} past {No hay salas pasadas} invitations {No hay invitaciones} other {No hay salas}}",
+  "dashboard.newMessages": "{count} nuevos",
+  "dashboard.unreadMessages":
+    "{count, plural, one {# mensaje sin leer} other {# mensajes sin leer}}",
+  "dashboard.start": "Inicio:",
+  "dashboard.end": "Fin:",
+  "dashboard.roomCode": "Código de sala:",
+  "dashboard.participants": "Participantes:",
+  "dashboard.invitedBy": "Invitación de {name}",
+  "dashboard.waitlist": "En lista de espera: n.º {position}",
+  "dashboard.recurring": "Periódica",
+  "dashboard.hideDates": "Ocultar las demás fechas",
+  "dashboard.otherDates":
+    "{count, plural, one {# fecha más en esta serie} other {# fechas más en esta serie}}",
+  "dashboard.accept": "Aceptar",
+  "dashboard.decline": "Rechazar",
+  "dashboard.joinNow": "Unirse ahora",
+  "dashboard.view": "Ver",
+  "dashboard.acceptFailed": "No se pudo aceptar la invitación",
+  "dashboard.declineFailed": "No se pudo rechazar la invitación",
+
+  // Create room
+  "createRoom.title": "Crear una sala",
+  "createRoom.subtitle":
+    "Prepara tu evento virtual y empieza a conectar con gente",
+  "createRoom.roomTitle": "Título de la sala",
+  "createRoom.roomTitlePlaceholder": "Escribe un título atractivo...",
+  "createRoom.description": "Descripción",
+  "createRoom.descriptionPlaceholder": "Describe de qué trata tu sala...",
+  "createRoom.roomType": "Tipo de sala",
+  "createRoom.startTime": "Hora de inicio",
+  "createRoom.endTime": "Hora de fin",
+  "createRoom.tags": "Añadir etiquetas",
+  "createRoom.tagsPlaceholder": "Escribe una etiqueta y pulsa Intro...",
+  "createRoom.addTag": "Añadir",
+  "createRoom.cancel": "Cancelar",
+  "createRoom.creating": "Creando...",
+  "createRoom.createSeries": "Crear serie",
+  "createRoom.create": "Crear sala",
+  "createRoom.titleRequired": "El título es obligatorio",
+  "createRoom.descriptionRequired": "La descripción es obligatoria",
+  "createRoom.startTimeRequired": "La hora de inicio es obligatoria",
+  "createRoom.endTimeRequired": "La hora de fin es obligatoria",
+  "createRoom.endBeforeStart":
+    "La hora de fin debe ser posterior a la de inicio",
+
+  // Explore
+  "explore.title": "Explorar salas",
+  "explore.subtitle":
+    "Descubre eventos y encuentros y únete a ellos. Busca por tema, filtra por etiqueta, estado o fecha y comparte el enlace de cualquier búsqueda.",
+  "explore.joinWithCode": "¿Tienes un código? Únete con código",
+  "explore.tab.public": "Salas públicas",
+  "explore.tab.private": "Salas privadas",
+  "explore.searchPlaceholder": "Busca por título, descripción o etiqueta...",
+  "explore.filter.status": "Estado",
+  "explore.filter.tags": "Etiquetas",
+  "explore.filter.from": "Empiezan desde",
+  "explore.filter.to": "Empiezan hasta",
+  "explore.filter.sort": "Ordenar por",
+  "explore.status":
+    "{status, select, live {En directo} scheduled {Próximas} closed {Finalizadas} cancelled {Canceladas} other {{status}}}",
+  "explore.sort":
+    "{sort, select, startTime {Empiezan antes} popularity {Más populares} recent {Más recientes} other {{sort}}}",
+  "explore.loading": "Cargando salas...",
+  "explore.empty":
+    "{type, select, private {No hay salas privadas} other {No hay salas públicas}}",
+  "explore.emptyHint":
+    "Prueba a cambiar la búsqueda o vuelve más tarde para ver nuevos eventos.",
+  "explore.showing": "Mostrando {shown, number} de {total, number}",
+  "explore.loadingMore": "Cargando...",
+  "explore.loadMore": "Cargar más",
+  "explore.unknownCreator": "Desconocido",
+  "explore.start": "Inicio:",
+  "explore.end": "Fin:",
+  "explore.enterRoom": "Entrar en la sala",
+  "explore.viewRoom": "Ver sala",
+  "explore.leaveWaitlist": "Salir de la lista de espera (n.º {position})",
+  "explore.joinWaitlist": "Sala llena · Unirse a la lista de espera",
+  "explore.joinNow": "Unirse ahora",
+  "explore.viewDetails": "Ver detalles",
+
+  // Search and filters
+  "search.placeholder": "Buscar...",
+  "search.clear": "Borrar la búsqueda",
+  "search.showFilters": "Mostrar filtros",
+  "search.hideFilters": "Ocultar filtros",
+  "search.toggleFilters": "Mostrar u ocultar filtros",
+  "search.results": "{count, plural, one {# resultado} other {# resultados}}",
+  "search.filtered": "Filtrado",
+  "search.filters": "Filtros",
+  "search.clearAll": "Borrar todo",
+  "search.clearAllLabel": "Borrar todos los filtros",
+  "search.all": "Todos",
+  "search.filterBy": "Filtrar por {label}",
+  "search.range": "Rango de {label}",
+  "search.removeFilter": "Quitar el filtro {label}",
+
+  // Signing in and signing up
+  "auth.login": "Correo electrónico o nombre de usuario",
+  "auth.password": "Contraseña",
+  "auth.loginRequired":
+    "El correo electrónico o el nombre de usuario es obligatorio",
+  "auth.passwordRequired": "La contraseña es obligatoria",
+  "login.title": "¡Hola de nuevo!",
+  "login.subtitle": "Introduce tus datos para acceder a tu cuenta",
+  "login.sessionExpired": "Tu sesión ha caducado. Vuelve a iniciar sesión.",
+  "login.submit": "Iniciar sesión",
+  "login.toRegister": "¿No tienes cuenta? Regístrate",
+  "register.title": "¡Únete a RoomLoop!",
+  "register.subtitle": "Rellena tus datos para unirte a la comunidad",
+  "register.username": "Nombre de usuario",
+  "register.email": "Correo electrónico",
+  "register.confirmPassword": "Confirmar contraseña",
+  "register.submit": "Registrarse",
+  "register.toLogin": "¿Ya tienes cuenta? Inicia sesión",
+  "register.usernameRequired": "El nombre de usuario es obligatorio",
+  "register.usernameTooShort":
+    "El nombre de usuario debe tener al menos {min, number} caracteres",
+  "register.emailRequired": "El correo electrónico es obligatorio",
+  "register.emailInvalid": "Introduce un correo electrónico válido",
+  "register.passwordTooShort":
+    "La contraseña debe tener al menos {min, number} caracteres",
+  "register.confirmRequired": "Confirma tu contraseña",
+  "register.passwordMismatch": "Las contraseñas no coinciden",
+
+  // Profile
+  "profile.title": "Perfil de usuario",
+  "profile.loading": "Cargando el perfil...",
+  "profile.notFound": "No se encontró el usuario",
+  "profile.updateFailed": "No se pudo actualizar el perfil",
+  "profile.removeAvatarFailed": "No se pudo quitar la foto",
+  "profile.changeAvatar": "Cambiar foto",
+  "profile.removePhoto": "Quitar foto",
+  "profile.memberSince": "Miembro desde {date}",
+  "profile.edit": "Editar perfil",
+  "profile.save": "Guardar cambios",
+  "profile.cancel": "Cancelar",
+  "profile.username": "Nombre de usuario",
+  "profile.usernamePlaceholder": "Escribe tu nombre de usuario",
+  "profile.email": "Correo electrónico",
+  "profile.emailPlaceholder": "Escribe tu correo electrónico",
+  "profile.bio": "Biografía",
+  "profile.bioPlaceholder": "Cuéntanos algo sobre ti...",
+  "profile.avatarFallback": "Sin foto, mostrar",
+  "profile.avatarFallbackHelp": "Se usa donde no tengas una foto subida",
+  "profile.avatarFallback.initials": "Mis iniciales",
+  "profile.avatarFallback.identicon": "Un dibujo generado",
+  "profile.stats.total": "Salas en total",
+  "profile.stats.live": "Salas en directo",
+  "profile.stats.scheduled": "Programadas",
+  "profile.stats.closed": "Finalizadas",
+  "profile.unknownStatus": "Desconocido",
+  "profile.myRooms": "Mis salas",
+  "profile.noRooms": "Todavía no has creado ninguna sala",
+  "profile.noRoomsHint": "¡Empieza creando tu primera sala!",
+
+  "avatarEditor.title": "Cambiar foto",
+  "avatarEditor.drop": "Suelta una foto aquí o haz clic para elegir una",
+  "avatarEditor.unreadable": "Ese archivo no es una imagen legible",
+  "avatarEditor.cropLabel": "Arrastra para colocar tu foto",
+  "avatarEditor.cropHint":
+    "Arrastra para mover; usa la rueda o el control deslizante para hacer zoom",
+  "avatarEditor.zoom": "Zoom",
+  "avatarEditor.chooseAnother": "Elegir otra",
+  "avatarEditor.cancel": "Cancelar",
+  "avatarEditor.save": "Guardar",
+  "avatarEditor.saving": "Guardando...",
+  "avatarEditor.saveFailed": "No se pudo guardar la foto",
+
+  // Preferences
+  "preferences.title": "Preferencias",
+  "preferences.unsaved": "Cambios sin guardar",
+  "preferences.reset": "Restablecer",
+  "preferences.resetLabel": "Volver a los valores predeterminados",
+  "preferences.cancel": "Cancelar",
+  "preferences.cancelLabel": "Descartar los cambios",
+  "preferences.save": "Guardar cambios",
+  "preferences.saveLabel": "Guardar las preferencias",
+  "preferences.tab.profile": "Perfil",
+  "preferences.tab.notifications": "Notificaciones",
+  "preferences.tab.privacy": "Privacidad",
+  "preferences.tab.appearance": "Apariencia",
+  "preferences.tab.accessibility": "Accesibilidad",
+  "preferences.tab.language": "Idioma",
+
+  "preferences.profile.heading": "Información del perfil",
+  "preferences.displayName": "Nombre visible",
+  "preferences.displayNameHelp": "Así verán tu nombre los demás",
+  "preferences.jobTitle": "Puesto",
+  "preferences.jobTitleHelp": "Tu cargo profesional",
+  "preferences.company": "Empresa",
+  "preferences.companyHelp": "Tu empresa u organización",
+  "preferences.location": "Ubicación",
+  "preferences.locationHelp": "Tu ciudad y país",
+  "preferences.bio": "Biografía",
+  "preferences.bioHelp": "Cuéntales a los demás algo sobre ti",
+  "preferences.website": "Sitio web",
+  "preferences.websiteHelp": "Tu sitio web personal o profesional",
+
+  "preferences.notifications.heading": "Preferencias de notificaciones",
+  "preferences.emailNotifications": "Notificaciones por correo",
+  "preferences.emailNotificationsHelp":
+    "Recibe notificaciones por correo electrónico",
+  "preferences.pushNotifications": "Notificaciones emergentes",
+  "preferences.pushNotificationsHelp":
+    "Muestra notificaciones cuando RoomLoop está en segundo plano",
+  "preferences.roomInvitations": "Invitaciones a salas",
+  "preferences.roomInvitationsHelp":
+    "Recibe un aviso cuando te inviten a una sala",
+  "preferences.messageNotifications": "Notificaciones de mensajes",
+  "preferences.messageNotificationsHelp":
+    "Recibe un aviso de los mensajes nuevos",
+  "preferences.marketingEmails": "Correos promocionales",
+  "preferences.marketingEmailsHelp": "Recibe novedades sobre funciones nuevas",
+
+  "preferences.privacy.heading": "Privacidad",
+  "preferences.privacy.info":
+    "La configuración de privacidad se guarda en tu cuenta y se aplica en todos tus dispositivos.",
+  "preferences.profileVisibility": "Visibilidad del perfil",
+  "preferences.visibility.public": "Público",
+  "preferences.visibility.private": "Privado",
+  "preferences.visibility.friends": "Solo amigos",
+  "preferences.showOnlineStatus": "Mostrar si estoy conectado",
+  "preferences.showOnlineStatusHelp":
+    "Deja que los demás vean cuándo estás conectado",
+  "preferences.allowDirectMessages": "Permitir mensajes directos",
+  "preferences.allowDirectMessagesHelp":
+    "Deja que otras personas te envíen mensajes directos",
+  "preferences.showLastSeen": "Mostrar última conexión",
+  "preferences.showLastSeenHelp":
+    "Muestra cuándo estuviste activo por última vez",
+
+  "preferences.appearance.heading": "Apariencia",
+  "preferences.theme": "Tema",
+  "preferences.theme.light": "Claro",
+  "preferences.theme.dark": "Oscuro",
+  "preferences.theme.system": "Sistema",
+  "preferences.accentColor": "Color de acento",
+  "preferences.accentColorHelp": "Elige tu color de acento",
+
+  "preferences.accessibility.heading": "Accesibilidad",
+  "preferences.accessibility.info":
+    "Estas opciones ayudan a que RoomLoop sea accesible para personas con distintas necesidades.",
+  "preferences.accessibility.open": "Abrir opciones de accesibilidad",
+  "preferences.accessibility.openLabel":
+    "Abrir las opciones detalladas de accesibilidad",
+
+  "preferences.language.heading": "Idioma y región",
+  "preferences.language": "Idioma",
+  "preferences.timezone": "Zona horaria",
+  "preferences.timezone.eastern": "Hora del Este",
+  "preferences.timezone.central": "Hora central",
+  "preferences.timezone.mountain": "Hora de las Montañas",
+  "preferences.timezone.pacific": "Hora del Pacífico",
+  "preferences.timezone.london": "Londres",
+  "preferences.timezone.paris": "París",
+  "preferences.timezone.tokyo": "Tokio",
+  "preferences.dateFormat": "Formato de fecha",
+  "preferences.timeFormat": "Formato de hora",
+  "preferences.timeFormat.12h": "12 horas (a. m./p. m.)",
+  "preferences.timeFormat.24h": "24 horas",
+  "preferences.datePreview": "Las fechas se verán así: {date}",
+
+  // Repeating rooms
+  "recurrence.repeat": "Repetir esta sala",
+  "recurrence.frequency": "Se repite",
+  "recurrence.frequency.daily": "Cada día",
+  "recurrence.frequency.weekly": "Cada semana",
+  "recurrence.frequency.monthly": "Cada mes",
+  "recurrence.interval": "Cada",
+  "recurrence.unit":
+    "{frequency, select, daily {{interval, plural, one {día} other {días}}} weekly {{interval, plural, one {semana} other {semanas}}} other {{interval, plural, one {mes} other {meses}}}}",
+  "recurrence.weekdays": "Días de la semana",
+  "recurrence.ends": "Termina",
+  "recurrence.endsAfter": "Después de",
+  "recurrence.countLabel": "Número de repeticiones",
+  "recurrence.occurrences": "{count, plural, one {vez} other {veces}}",
+  "recurrence.endsOn": "El",
+  "recurrence.untilLabel": "Último día de la serie",
+
+  "recurrence.every":
+    "{frequency, select, daily {{interval, plural, one {Cada día} other {Cada # días}}} weekly {{interval, plural, one {Cada semana} other {Cada # semanas}}} other {{interval, plural, one {Cada mes} other {Cada # meses}}}}",
+  "recurrence.onDays": "{rule}, los {days}",
+  "recurrence.listSeparator": ", ",
+  "recurrence.until": "{rule}, hasta el {date}",
+  "recurrence.count": "{rule}, {count, plural, one {# vez} other {# veces}}",
+
+  "recurrence.error.interval": "El intervalo de repetición debe ser al menos 1",
+  "recurrence.error.weekdays": "Elige al menos un día de la semana",
+  "recurrence.error.firstDay": "Incluye el {day}, el día de la primera sala",
+  "recurrence.error.end": "Elige cuándo termina la serie",
+  "recurrence.error.countRange":
+    "Una serie tiene entre {min} y {max} repeticiones",
+  "recurrence.error.untilBeforeStart":
+    "La serie debe terminar después de la primera sala",
+  "recurrence.error.tooFew": "La serie debe tener al menos {min} repeticiones",
+  "recurrence.error.tooMany":
+    "Una serie puede tener como máximo {max} repeticiones",
+
+  // Host controls
+  "hostControls.title": "Controles del anfitrión",
+  "hostControls.editDetails": "Editar detalles",
+  "hostControls.changeEndTime": "Cambiar hora de fin",
+  "hostControls.reschedule": "Reprogramar",
+  "hostControls.endNow": "Terminar ahora",
+  "hostControls.cancelRoom": "Cancelar sala",
+  "hostControls.delete": "Eliminar",
+
+  "hostControls.scope": "Aplicar a",
+  "hostControls.scope.occurrence": "Solo esta sala",
+  "hostControls.scope.series": "Todas las próximas salas de la serie",
+
+  "hostControls.editTitle": "Editar detalles de la sala",
+  "hostControls.roomTitle": "Título",
+  "hostControls.description": "Descripción",
+  "hostControls.roomType": "Tipo de sala",
+  "hostControls.maxParticipants": "Máximo de participantes",
+  "hostControls.maxParticipantsHelp": "Déjalo vacío para no poner límite",
+  "hostControls.tags": "Etiquetas",
+  "hostControls.tagsHelp": "Separa las etiquetas con comas",
+  "hostControls.dialogCancel": "Cancelar",
+  "hostControls.save": "Guardar",
+
+  "hostControls.rescheduleTitle": "Reprogramar sala",
+  "hostControls.startTime": "Hora de inicio",
+  "hostControls.endTime": "Hora de fin",
+  "hostControls.seriesShift":
+    "Las salas posteriores se mueven lo mismo y conservan sus propias fechas.",
+  "hostControls.timesRequired": "La hora de inicio y de fin son obligatorias",
+  "hostControls.endBeforeStart":
+    "La hora de fin debe ser posterior a la de inicio",
+  "hostControls.endInPast": "La hora de fin debe estar en el futuro",
+
+  "hostControls.end.title": "¿Terminar esta sala ahora?",
+  "hostControls.end.body":
+    "La sala se cierra para todos y pasa a las salas anteriores. El historial del chat se conserva.",
+  "hostControls.end.confirm": "Terminar sala",
+  "hostControls.cancel.title": "¿Cancelar esta sala?",
+  "hostControls.cancel.body":
+    "Se avisa a los participantes e invitados de que la sala no se celebrará.",
+  "hostControls.cancel.confirm": "Cancelar sala",
+  "hostControls.cancelReason": "Motivo (opcional)",
+  "hostControls.delete.title": "¿Eliminar esta sala?",
+  "hostControls.delete.body":
+    "La sala y su historial de chat se eliminan para todos. No se puede deshacer.",
+  "hostControls.delete.confirm": "Eliminar sala",
+  "hostControls.keepRoom": "Conservar sala",
+
+  "hostControls.updateFailed": "No se pudo actualizar la sala",
+  "hostControls.rescheduleFailed": "No se pudo reprogramar la sala",
+  "hostControls.endFailed": "No se pudo terminar la sala",
+  "hostControls.cancelFailed": "No se pudo cancelar la sala",
+  "hostControls.deleteFailed": "No se pudo eliminar la sala",
+
+  // Room page
+  "roomView.loading": "Cargando los detalles de la sala...",
+  "roomView.notFound": "No se encontró la sala",
+  "roomView.signInRequired": "Inicia sesión para ver esta sala",
+  "roomView.unknownHost": "Anfitrión desconocido",
+  "roomView.unknownUser": "Desconocido",
+  "roomView.cancelled": "El anfitrión canceló esta sala.",
+  "roomView.cancelledWithReason": "El anfitrión canceló esta sala: {reason}",
+  "roomView.tags": "Etiquetas",
+  "roomView.share": "Compartir",
+  "roomView.addToCalendar": "Añadir al calendario",
+  "roomView.removeFromCalendar": "Quitar del calendario",
+  "roomView.presence":
+    "{name} está {status, select, online {en línea} away {ausente} other {desconectado}}",
+  "roomView.muted": "Silenciado",
+  "roomView.hostedBy": "Organizada por {name}",
+  "roomView.back": "← Volver",
+  "roomView.details": "📋 Detalles de la sala",
+  "roomView.invite": "👥 Invitar usuarios",
+
+  // Room chat
+  "roomChat.live": "Chat en vivo",
+  "roomChat.history": "Historial del chat",
+  "roomChat.online": "en línea",
+  "roomChat.closed": "cerrada",
+  "roomChat.slowMode": " · modo lento {seconds} s",
+  "roomChat.chatTab": "Chat",
+  "roomChat.filesTab": "Archivos",
+  "roomChat.empty": "Todavía no hay mensajes. ¡Empieza la conversación!",
+  "roomChat.emptyPast": "No se enviaron mensajes en esta sala.",
+  "roomChat.beFirst": "Sé el primero en enviar un mensaje",
+  "roomChat.attach": "Adjuntar archivos",
+  "roomChat.hideAttachments": "Ocultar adjuntos",
+  "roomChat.aiHint": "¡Ted está aquí! Usa @ai para pedir ayuda a la IA",
+  "roomChat.placeholder": "Escribe un mensaje...",
+  "roomChat.placeholderAi":
+    "Escribe un mensaje... (usa @ai para hablar con Ted)",
+  "roomChat.readOnlyClosed":
+    "Esta sala está cerrada. El historial del chat solo se puede consultar.",
+  "roomChat.readOnlyCancelled":
+    "Esta sala se canceló. El historial del chat solo se puede consultar.",
+  "roomChat.insertEmoji": "Insertar en el mensaje",
+
+  "composer.listener": "Los oyentes pueden seguir el chat, pero no escribir",
+  "composer.muted": "Un moderador te ha silenciado",
+  "composer.mutedUntil": "Estás silenciado hasta las {time}",
+  "composer.slowMode":
+    "El modo lento está activado. Podrás enviar de nuevo en {seconds} s",
+
+  // Sharing and invites
+  "share.title": "Compartir «{title}»",
+  "share.link": "Enlace de invitación",
+  "share.copyLink": "Copiar enlace",
+  "share.code": "Código de la sala",
+  "share.copyCode": "Copiar código",
+  "share.copied": "¡Copiado!",
+  "share.copyFailed":
+    "No se pudo copiar. Selecciona el texto y cópialo a mano.",
+  "share.qrLabel": "Código QR de {url}",
+  "share.scan": "Escanéalo para unirte desde otro dispositivo",
+  "share.done": "Listo",
+
+  "joinCode.title": "Unirse con código",
+  "joinCode.intro": "Escribe el código de sala que te compartió el anfitrión.",
+  "joinCode.code": "Código de la sala",
+  "joinCode.cancel": "Cancelar",
+  "joinCode.join": "Unirse",
+
+  "invite.title": "Invitar a «{title}»",
+  "invite.intro":
+    "Busca personas por nombre de usuario o escribe el correo de alguien que aún no tiene cuenta. Recibirá la invitación al registrarse.{type, select, private { Solo las personas invitadas pueden unirse a esta sala privada.} other {}}",
+  "invite.people": "Nombres de usuario o correos electrónicos",
+  "invite.placeholder": "Empieza a escribir un nombre de usuario",
+  "invite.addEmail": "Pulsa Intro para añadir este correo",
+  "invite.self": "No puedes invitarte a ti mismo",
+  "invite.noUser":
+    "No hay ningún usuario llamado «{name}». Elige a alguien de la lista o escribe un correo electrónico.",
+  "invite.sendFailed": "No se pudieron enviar las invitaciones",
+  "invite.cancel": "Cancelar",
+  "invite.sending": "Enviando...",
+  "invite.send":
+    "{count, plural, =0 {Enviar invitación} one {Enviar invitación} other {Enviar # invitaciones}}",
+
+  "inviteList.title": "Invitaciones",
+  "inviteList.pending":
+    "{count, plural, one {# pendiente de respuesta} other {# pendientes de respuesta}}",
+  "inviteList.unknown": "Desconocido",
+  "inviteList.status":
+    "{status, select, pending {Pendiente} accepted {Aceptada} declined {Rechazada} revoked {Revocada} other {{status}}}",
+  "inviteList.awaitingSignUp": "Pendiente de registro",
+  "inviteList.resend": "Reenviar invitación",
+  "inviteList.resendTo": "Reenviar invitación a {name}",
+  "inviteList.resent": "Invitación reenviada a {name}",
+  "inviteList.resendFailed": "No se pudo reenviar la invitación",
+  "inviteList.revoke": "Revocar invitación",
+  "inviteList.revokeTo": "Revocar invitación a {name}",
+  "inviteList.revoked": "Invitación a {name} revocada",
+  "inviteList.revokeFailed": "No se pudo revocar la invitación",
+
+  "calendarFeed.title": "Suscribirse a tus salas",
+  "calendarFeed.intro":
+    "Añade este enlace a Google Calendar, Outlook o Apple Calendar como suscripción de calendario. Tus próximas salas e invitaciones se mantienen sincronizadas, incluidos los cambios de horario y las cancelaciones.",
+  "calendarFeed.url": "URL del calendario",
+  "calendarFeed.copy": "Copiar enlace",
+  "calendarFeed.copyLabel": "Copiar el enlace del calendario",
+  "calendarFeed.copied": "¡Copiado!",
+  "calendarFeed.copyFailed":
+    "No se pudo copiar el enlace. Selecciónalo y cópialo a mano.",
+  "calendarFeed.warning":
+    "Cualquiera con este enlace puede ver tus salas. Restablécelo si lo compartiste por error; el enlace anterior dejará de funcionar.",
+  "calendarFeed.reset": "Restablecer enlace",
+  "calendarFeed.close": "Cerrar",
+  "calendarFeed.open": "Abrir en la app de calendario",
+  "calendarFeed.loadFailed": "No se pudo cargar tu calendario",
+  "calendarFeed.resetFailed": "No se pudo restablecer tu calendario",
+
+  // Membership and moderation
+  "membership.leaveRoom": "Salir de la sala",
+  "membership.confirmTitle": "¿Salir de «{title}»?",
+  "membership.confirmFull":
+    "La sala está llena, así que tu plaza pasará a la siguiente persona de la lista de espera y puede que no la recuperes.",
+  "membership.confirmBody":
+    "Podrás volver a unirte más tarde mientras haya plazas.",
+  "membership.stay": "Quedarme",
+  "membership.leave": "Salir",
+  "membership.leaveFailed": "No se pudo salir de la sala",
+  "membership.joinWaitlist": "Apuntarme a la lista de espera",
+  "membership.leaveWaitlist": "Salir de la lista de espera",
+  "membership.joinWaitlistFailed": "No se pudo entrar en la lista de espera",
+  "membership.leaveWaitlistFailed": "No se pudo salir de la lista de espera",
+  "membership.waitlisted":
+    "Eres el n.º {position} en la lista de espera. Te avisaremos cuando quede una plaza libre.",
+  "membership.full": "Esta sala está llena ({capacity}).",
+
+  "moderation.menu": "Moderar a {name}",
+  "moderation.role": "Rol",
+  "moderation.roleFailed": "No se pudo cambiar el rol",
+  "moderation.muteMinutes":
+    "{count, plural, one {Silenciar # minuto} other {Silenciar # minutos}}",
+  "moderation.muteHours":
+    "{count, plural, one {Silenciar # hora} other {Silenciar # horas}}",
+  "moderation.muteIndefinitely": "Silenciar hasta nuevo aviso",
+  "moderation.muteFailed": "No se pudo silenciar al participante",
+  "moderation.unmute": "Quitar silencio",
+  "moderation.unmuteFailed": "No se pudo quitar el silencio al participante",
+  "moderation.kick": "Expulsar de la sala",
+  "moderation.kickTitle": "¿Expulsar a {name}?",
+  "moderation.kickBody":
+    "Se le expulsa de la sala, pero puede volver a unirse.",
+  "moderation.kickConfirm": "Expulsar",
+  "moderation.kickFailed": "No se pudo expulsar al participante",
+  "moderation.ban": "Bloquear en la sala",
+  "moderation.banTitle": "¿Bloquear a {name}?",
+  "moderation.banBody": "Se le expulsa de la sala y no puede volver a unirse.",
+  "moderation.banConfirm": "Bloquear",
+  "moderation.banFailed": "No se pudo bloquear al participante",
+  "moderation.cancel": "Cancelar",
+
+  "slowMode.title": "Modo lento",
+  "slowMode.active": "Modo lento: {seconds} s",
+  "slowMode.interval": "Tiempo entre mensajes",
+  "slowMode.off": "Desactivado",
+  "slowMode.seconds": "{count, plural, one {# segundo} other {# segundos}}",
+  "slowMode.minutes": "{count, plural, one {# minuto} other {# minutos}}",
+  "slowMode.failed": "No se pudo cambiar el modo lento",
+
+  // Chat messages
+  "message.unknownSender": "Desconocido",
+  "message.deleted": "Se eliminó este mensaje",
+  "message.removedByHost": "El anfitrión eliminó este mensaje",
+  "message.editLabel": "Editar mensaje",
+  "message.cancel": "Cancelar",
+  "message.save": "Guardar",
+  "message.sending": "Enviando...",
+  "message.edited": "(editado)",
+  "message.editedAt": "Editado a las {time}",
+  "message.reactionLabel":
+    "Reacción {emoji}, {count, plural, one {# persona} other {# personas}}",
+  "message.addReaction": "Añadir reacción",
+  "message.reactWith": "Reaccionar con {emoji}",
+  "message.replies":
+    "{count, plural, =0 {Responder} one {# respuesta} other {# respuestas}}",
+  "message.actions": "Acciones del mensaje",
+  "message.edit": "Editar",
+  "message.delete": "Eliminar",
+  "message.deleteTitle": "¿Eliminar el mensaje?",
+  "message.deleteOwn":
+    "El mensaje se sustituirá por una nota indicando que se eliminó.",
+  "message.deleteOther": "El mensaje se eliminará para todos en la sala.",
+  "message.notDelivered": "No entregado",
+  "message.retry": "Reintentar",
+  "message.discard": "Descartar",
+
+  "messageList.loadOlder": "Cargar mensajes anteriores",
+  "messageList.newMessages": "Mensajes nuevos",
+
+  "thread.title": "Hilo",
+  "thread.close": "Cerrar hilo",
+  "thread.replies": "{count, plural, one {# respuesta} other {# respuestas}}",
+  "thread.placeholder": "Responder en el hilo...",
+  "thread.send": "Enviar respuesta",
+
+  "typing.users":
+    "{count, plural, =1 {{first} está escribiendo…} =2 {{first} y {second} están escribiendo…} =3 {{first}, {second} y {third} están escribiendo…} other {{first}, {second} y {others, plural, one {# persona más} other {# personas más}} están escribiendo…}}",
+  "mentions.ai": "Pregunta a Ted, el asistente de IA",
+
+  "roomFiles.kind":
+    "{kind, select, all {Todos} image {Imágenes} video {Vídeos} audio {Audio} other {Documentos}}",
+  "roomFiles.empty": "Todavía no se han compartido archivos en esta sala.",
+  "roomFiles.emptyKind": "No hay archivos de este tipo.",
+  "roomFiles.download": "Descargar",
+  "roomFiles.downloadFile": "Descargar {name}",
+  "attachments.drop": "Suelta archivos aquí o haz clic para adjuntar",
+
+  // Joining and leaving rooms
+  "joinRoom.joining": "Uniéndote a la sala...",
+  "joinRoom.notFound": "Ninguna sala coincide con el código «{code}»",
+  "joinRoom.failed": "No se pudo unir a la sala",
+  "joinRoom.tryAnother": "Probar otro código",
+  "joinRoom.dashboard": "Ir al inicio",
+
+  "roomEnded.title": "Esta sala ha terminado",
+  "roomEnded.body":
+    "«{title}» ha terminado. Volverás al inicio en {seconds, plural, one {# segundo} other {# segundos}}.",
+  "roomEnded.dashboard": "Ir al inicio",
+  "roomEnded.viewHistory": "Ver el historial de la sala",
+
+  // Notifications and theme
+  "notifications.bellLabel":
+    "Mostrar {notifications, plural, one {# notificación nueva} other {# notificaciones nuevas}} y {messages, plural, one {# mensaje sin leer} other {# mensajes sin leer}}",
+  "notifications.title": "Notificaciones",
+  "notifications.markAllRead": "Marcar todo como leído",
+  "notifications.unreadMessages": "Mensajes sin leer",
+  "notifications.unreadCount":
+    "{count, plural, one {# mensaje sin leer} other {# mensajes sin leer}}",
+  "notifications.dismiss": "Descartar",
+  "notifications.empty": "No hay notificaciones",
+  "notifications.viewAllRooms": "Ver todas las salas",
+
+  "theme.toDark": "Cambiar a modo oscuro",
+  "theme.toSystem": "Usar el modo del sistema",
+  "theme.toLight": "Cambiar a modo claro",
+  "theme.toggle": "Cambiar tema",
+
+  // File uploads
+  "upload.prompt": "Haz clic para subir o arrastra y suelta archivos aquí",
+  "upload.drop": "Suelta los archivos aquí",
+  "upload.input": "Selector de archivos",
+  "upload.formats": "Formatos admitidos: {formats}",
+  "upload.anyFormat": "Se admiten todos los tipos de archivo",
+  "upload.maxSize": "Tamaño máximo: {size}",
+  "upload.maxFiles": "Máximo de archivos: {max, number}",
+  "upload.selected": "Archivos seleccionados ({count, number}/{max, number})",
+  "upload.rejected": "{name}: {error}",
+  "upload.tooLarge": "El archivo supera el límite de {size}",
+  "upload.unsupportedType": "El tipo de archivo {type} no es compatible",
+  "upload.tooMany":
+    "No se permiten más de {max, plural, one {# archivo} other {# archivos}}",
+  "upload.cancelled": "Subida cancelada",
+  "upload.failed": "No se pudo subir",
+  "upload.cancel": "Cancelar la subida de {name}",
+  "upload.retry": "Reintentar la subida de {name}",
+  "upload.remove": "Quitar {name}",
+
+  // Onboarding
+  "onboarding.title": "Te damos la bienvenida a RoomLoop",
+  "onboarding.progress": "Progreso",
+  "onboarding.optional": "Opcional",
+  "onboarding.continue": "Continuar",
+  "onboarding.finish": "Terminar",
+  "onboarding.skip": "Omitir",
+  "onboarding.back": "Atrás",
+  "onboarding.completeStep": "Completar el paso {step}",
+  "onboarding.skipStep": "Omitir el paso {step}",
+  "onboarding.previousStep": "Volver al paso anterior",
+  "onboarding.skipAll": "Omitir la introducción",
+  "onboarding.skipAllLabel": "Omitir toda la introducción",
+  "onboarding.close": "Cerrar",
+  "onboarding.closeLabel": "Cerrar la introducción",
+  "onboarding.getStarted": "Empezar",
+  "onboarding.completeLabel": "Completar la introducción",
+
+  "onboarding.welcome.title": "¡Te damos la bienvenida a RoomLoop!",
+  "onboarding.welcome.description":
+    "Vamos a dar los primeros pasos con tus eventos virtuales",
+  "onboarding.welcome.body":
+    "RoomLoop es tu plataforma para crear eventos virtuales, encuentros y debates, y para unirte a ellos. Haz un recorrido rápido para sacarle el máximo partido.",
+  "onboarding.welcome.virtualEvents": "Eventos virtuales",
+  "onboarding.welcome.realtimeChat": "Chat en tiempo real",
+  "onboarding.welcome.screenSharing": "Compartir pantalla",
+  "onboarding.welcome.accessibility": "Accesibilidad",
+
+  "onboarding.explore.title": "Explorar salas",
+  "onboarding.explore.description":
+    "Descubre salas virtuales interesantes y únete a ellas",
+  "onboarding.explore.imageAlt": "Pantalla para explorar salas",
+  "onboarding.explore.heading": "Salas públicas",
+  "onboarding.explore.body":
+    "Descubre salas por categoría, tema o popularidad. Participa en debates sobre lo que te interesa.",
+  "onboarding.explore.categories": "Buscar por categoría",
+  "onboarding.explore.categoriesDetail":
+    "Encuentra salas de tecnología, negocios, educación y más",
+  "onboarding.explore.discussions": "Unirse a debates",
+  "onboarding.explore.discussionsDetail":
+    "Conversa en tiempo real con otras personas",
+  "onboarding.explore.favorites": "Guardar favoritas",
+  "onboarding.explore.favoritesDetail":
+    "Guarda las salas que quieras visitar más tarde",
+
+  "onboarding.create.title": "Crea tu sala",
+  "onboarding.create.description": "Organiza tu propio evento o debate",
+  "onboarding.create.tip":
+    "¡Crear una sala es fácil! Rellena unos pocos datos y listo.",
+  "onboarding.create.public": "Sala pública",
+  "onboarding.create.publicDetail":
+    "Cualquiera puede encontrar tu sala y unirse",
+  "onboarding.create.private": "Sala privada",
+  "onboarding.create.privateDetail":
+    "Solo pueden unirse las personas invitadas",
+  "onboarding.create.type": "Elige el tipo de sala",
+  "onboarding.create.typeDetail":
+    "Pública para debates abiertos, privada para eventos exclusivos",
+  "onboarding.create.schedule": "Fija el horario",
+  "onboarding.create.scheduleDetail":
+    "Programa tu sala para una fecha y hora concretas",
+  "onboarding.create.invite": "Invita a participantes",
+  "onboarding.create.inviteDetail":
+    "Envía invitaciones a personas concretas o comparte un enlace",
+
+  "onboarding.chat.title": "Chat en tiempo real",
+  "onboarding.chat.description":
+    "Comunícate con los participantes en tiempo real",
+  "onboarding.chat.imageAlt": "Pantalla del chat",
+  "onboarding.chat.heading": "Funciones del chat",
+  "onboarding.chat.body":
+    "Envía mensajes, reacciones y archivos para enriquecer tus conversaciones.",
+  "onboarding.chat.text": "Mensajes de texto",
+  "onboarding.chat.textDetail":
+    "Envía y recibe mensajes de texto en tiempo real",
+  "onboarding.chat.reactions": "Reacciones",
+  "onboarding.chat.reactionsDetail": "Reacciona a los mensajes con emojis",
+  "onboarding.chat.files": "Compartir archivos",
+  "onboarding.chat.filesDetail":
+    "Comparte imágenes, documentos y otros archivos",
+  "onboarding.chat.voice": "Mensajes de voz",
+  "onboarding.chat.voiceDetail":
+    "Envía mensajes de voz para comunicarte rápido",
+
+  "onboarding.accessibility.title": "Accesibilidad",
+  "onboarding.accessibility.description":
+    "RoomLoop está pensado para que todo el mundo pueda usarlo",
+  "onboarding.accessibility.intro":
+    "RoomLoop incluye funciones de accesibilidad completas para que todo el mundo pueda participar.",
+  "onboarding.accessibility.screenReader":
+    "Compatibilidad con lectores de pantalla",
+  "onboarding.accessibility.screenReaderDetail":
+    "Compatible con lectores de pantalla y tecnologías de apoyo",
+  "onboarding.accessibility.keyboard": "Navegación con teclado",
+  "onboarding.accessibility.keyboardDetail":
+    "Todas las funciones se pueden usar con el teclado",
+  "onboarding.accessibility.contrast": "Modo de alto contraste",
+  "onboarding.accessibility.contrastDetail": "Más contraste para ver mejor",
+  "onboarding.accessibility.fontSize": "Tamaño de letra",
+  "onboarding.accessibility.fontSizeDetail":
+    "Ajusta el tamaño del texto a tu gusto",
+  "onboarding.accessibility.motion": "Menos movimiento",
+  "onboarding.accessibility.motionDetail":
+    "Reduce las animaciones si te molesta el movimiento",
+
+  "onboarding.settings.title": "Personaliza tu experiencia",
+  "onboarding.settings.description": "Adapta RoomLoop a tus preferencias",
+  "onboarding.settings.intro":
+    "Haz que RoomLoop funcione a tu manera con estas opciones:",
+  "onboarding.settings.theme": "Tema",
+  "onboarding.settings.themeDetail":
+    "Elige el tema claro, oscuro o del sistema",
+  "onboarding.settings.accessibility": "Accesibilidad",
+  "onboarding.settings.accessibilityDetail":
+    "Ajusta el tamaño de letra, el contraste y el movimiento",
+  "onboarding.settings.notifications": "Notificaciones",
+  "onboarding.settings.notificationsDetail":
+    "Decide cuándo y cómo recibes notificaciones",
+  "onboarding.settings.privacy": "Privacidad",
+  "onboarding.settings.privacyDetail":
+    "Gestiona la visibilidad de tu perfil y qué datos compartes",
+  "onboarding.settings.language": "Idioma",
+  "onboarding.settings.languageDetail":
+    "Elige el idioma en que se muestra RoomLoop",
+};
+
+export default es;
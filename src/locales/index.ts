@@ -0,0 +1,45 @@
+import en, { Catalog, MessageKey } from "./en";
+import type { MessageValues } from "../utils/messageFormat";
+
+export type { Catalog, MessageKey } from "./en";
+
+export type TextDirection = "ltr" | "rtl";
+
+// Looks up and formats a message, as `t` from useI18n does. Helpers outside
+// components take one so they can return text in the UI language.
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+export interface Language {
+  code: string;
+  // The language's own name, so people can find theirs in the list
+  name: string;
+  direction: TextDirection;
+}
+
+// The languages users can pick
+export const LANGUAGES: Language[] = [
+  { code: "en", name: "English", direction: "ltr" },
+  { code: "es", name: "Español", direction: "ltr" },
+  { code: "ar", name: "العربية", direction: "rtl" },
+];
+
+// The language for a preference, e.g. "es-MX" finds Spanish. Anything
+// without a catalog gets English.
+export const getLanguage = (code: string): Language =>
+  LANGUAGES.find((language) => language.code === code) ||
+  LANGUAGES.find((language) => language.code === code.split("-")[0]) ||
+  LANGUAGES[0];
+
+// English ships with the app; the others are split into their own chunks
+// and only downloaded when someone picks them
+const loaders: Record<string, () => Promise<{ default: Catalog }>> = {
+  es: () => import("./es"),
+  ar: () => import("./ar"),
+};
+
+export const loadCatalog = async (code: string): Promise<Catalog> => {
+  const loader = loaders[code];
+  return loader ? (await loader()).default : en;
+};
+
+export { en as baseCatalog };
@@ -18,11 +18,16 @@ import {
 } from "@mui/material";
 import { useNavigate } from "react-router-dom";
 import { useRoom } from "../contexts/RoomContext";
-import { RoomType } from "../types";
+import { useI18n } from "../contexts/I18nContext";
+import { useDateFormat } from "../contexts/PreferencesContext";
+import { RecurrenceRule, RoomType } from "../types";
+import { validateRecurrence } from "../utils/recurrence";
+import { getBrowserTimeZone } from "../services/preferences";
 import ErrorMessage from "../components/common/ErrorMessage";
 import StyledCard from "../components/common/StyledCard";
 import StyledTextField from "../components/common/StyledTextField";
 import StyledButton from "../components/common/StyledButton";
+import RecurrenceFields from "../components/room/RecurrenceFields";
 
 const CreateRoom: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -38,9 +43,13 @@ const CreateRoom: React.FC = () => {
     description: "",
     startTime: "",
     endTime: "",
+    recurrence: "",
   });
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
   const [tagInput, setTagInput] = useState("");
   const { createRoom, loading, error } = useRoom();
+  const { t } = useI18n();
+  const { locale } = useDateFormat();
   const navigate = useNavigate();
   const theme = useMuiTheme();
 
@@ -80,22 +89,22 @@ const CreateRoom: React.FC = () => {
     const newErrors = { ...formErrors };
 
     if (!formData.title.trim()) {
-      newErrors.title = "Title is required";
+      newErrors.title = t("createRoom.titleRequired");
       valid = false;
     }
 
     if (!formData.description.trim()) {
-      newErrors.description = "Description is required";
+      newErrors.description = t("createRoom.descriptionRequired");
       valid = false;
     }
 
     if (!formData.startTime) {
-      newErrors.startTime = "Start time is required";
+      newErrors.startTime = t("createRoom.startTimeRequired");
       valid = false;
     }
 
     if (!formData.endTime) {
-      newErrors.endTime = "End time is required";
+      newErrors.endTime = t("createRoom.endTimeRequired");
       valid = false;
     }
 
@@ -103,11 +112,22 @@ const CreateRoom: React.FC = () => {
       const start = new Date(formData.startTime);
       const end = new Date(formData.endTime);
       if (start >= end) {
-        newErrors.endTime = "End time must be after start time";
+        newErrors.endTime = t("createRoom.endBeforeStart");
         valid = false;
       }
     }
 
+    newErrors.recurrence =
+      recurrence && formData.startTime
+        ? validateRecurrence(
+            new Date(formData.startTime),
+            recurrence,
+            t,
+            locale
+          )
+        : "";
+    if (newErrors.recurrence) valid = false;
+
     setFormErrors(newErrors);
     return valid;
   };
@@ -123,6 +143,9 @@ const CreateRoom: React.FC = () => {
         ...formData,
         startTime: new Date(formData.startTime),
         endTime: new Date(formData.endTime),
+        // The pickers work in the browser's zone
+        timezone: getBrowserTimeZone(),
+        recurrence: recurrence || undefined,
       };
 
       await createRoom(roomData);
@@ -177,7 +200,7 @@ const CreateRoom: React.FC = () => {
                 mb: 3,
               }}
             >
-              🎉 Create New Room
+              🎉 {t("createRoom.title")}
             </Typography>
 
             <Typography
@@ -185,7 +208,7 @@ const CreateRoom: React.FC = () => {
               color="text.secondary"
               sx={{ mb: 4, textAlign: "center" }}
             >
-              Set up your virtual event and start connecting with people
+              {t("createRoom.subtitle")}
             </Typography>
 
             <ErrorMessage message={error} />
@@ -200,13 +223,13 @@ const CreateRoom: React.FC = () => {
                   <StyledTextField
                     required
                     fullWidth
-                    label="Room Title"
+                    label={t("createRoom.roomTitle")}
                     name="title"
                     value={formData.title}
                     onChange={handleChange}
                     error={!!formErrors.title}
                     helperText={formErrors.title}
-                    placeholder="Enter an engaging title for your room..."
+                    placeholder={t("createRoom.roomTitlePlaceholder")}
                   />
                 </Grid>
 
@@ -216,22 +239,22 @@ const CreateRoom: React.FC = () => {
                     fullWidth
                     multiline
                     rows={4}
-                    label="Description"
+                    label={t("createRoom.description")}
                     name="description"
                     value={formData.description}
                     onChange={handleChange}
                     error={!!formErrors.description}
                     helperText={formErrors.description}
-                    placeholder="Describe what your room is about..."
+                    placeholder={t("createRoom.descriptionPlaceholder")}
                   />
                 </Grid>
 
                 <Grid item xs={12} sm={6}>
                   <FormControl fullWidth>
-                    <InputLabel>Room Type</InputLabel>
+                    <InputLabel>{t("createRoom.roomType")}</InputLabel>
                     <Select
                       value={formData.roomType}
-                      label="Room Type"
+                      label={t("createRoom.roomType")}
                       onChange={handleSelectChange}
                       sx={{
                         borderRadius: 3,
@@ -246,8 +269,12 @@ const CreateRoom: React.FC = () => {
                         },
                       }}
                     >
-                      <MenuItem value={RoomType.PUBLIC}>🌍 Public</MenuItem>
-                      <MenuItem value={RoomType.PRIVATE}>🔒 Private</MenuItem>
+                      <MenuItem value={RoomType.PUBLIC}>
+                        🌍 {t("room.type", { type: RoomType.PUBLIC })}
+                      </MenuItem>
+                      <MenuItem value={RoomType.PRIVATE}>
+                        🔒 {t("room.type", { type: RoomType.PRIVATE })}
+                      </MenuItem>
                     </Select>
                   </FormControl>
                 </Grid>
@@ -256,7 +283,7 @@ const CreateRoom: React.FC = () => {
                   <StyledTextField
                     required
                     fullWidth
-                    label="Start Time"
+                    label={t("createRoom.startTime")}
                     name="startTime"
                     type="datetime-local"
                     value={formData.startTime}
@@ -273,7 +300,7 @@ const CreateRoom: React.FC = () => {
                   <StyledTextField
                     required
                     fullWidth
-                    label="End Time"
+                    label={t("createRoom.endTime")}
                     name="endTime"
                     type="datetime-local"
                     value={formData.endTime}
@@ -286,13 +313,27 @@ const CreateRoom: React.FC = () => {
                   />
                 </Grid>
 
+                <Grid item xs={12}>
+                  <RecurrenceFields
+                    start={
+                      formData.startTime ? new Date(formData.startTime) : null
+                    }
+                    value={recurrence}
+                    onChange={(rule) => {
+                      setRecurrence(rule);
+                      setFormErrors({ ...formErrors, recurrence: "" });
+                    }}
+                    error={formErrors.recurrence}
+                  />
+                </Grid>
+
                 <Grid item xs={12} sm={6}>
                   <StyledTextField
                     fullWidth
-                    label="Add Tags"
+                    label={t("createRoom.tags")}
                     value={tagInput}
                     onChange={handleTagInputChange}
-                    placeholder="Type a tag and press Enter..."
+                    placeholder={t("createRoom.tagsPlaceholder")}
                     onKeyPress={(e) => {
                       if (e.key === "Enter") {
                         e.preventDefault();
@@ -314,7 +355,7 @@ const CreateRoom: React.FC = () => {
                             },
                           }}
                         >
-                          Add
+                          {t("createRoom.addTag")}
                         </Button>
                       ),
                     }}
@@ -370,7 +411,7 @@ const CreateRoom: React.FC = () => {
                     borderWidth: 2,
                   }}
                 >
-                  Cancel
+                  {t("createRoom.cancel")}
                 </StyledButton>
                 <StyledButton
                   type="submit"
@@ -390,7 +431,13 @@ const CreateRoom: React.FC = () => {
                     },
                   }}
                 >
-                  {loading ? "Creating..." : "🚀 Create Room"}
+                  {loading
+                    ? t("createRoom.creating")
+                    : `🚀 ${t(
+                        recurrence
+                          ? "createRoom.createSeries"
+                          : "createRoom.create"
+                      )}`}
                 </StyledButton>
               </Box>
             </Box>
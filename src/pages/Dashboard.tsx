@@ -13,51 +13,139 @@ import {
   Tabs,
   Tab,
   Pagination,
+  Collapse,
+  Link,
 } from "@mui/material";
+import {
+  CalendarMonth as CalendarIcon,
+  Download as DownloadIcon,
+  Key as KeyIcon,
+  Repeat as RepeatIcon,
+} from "@mui/icons-material";
 import { useNavigate } from "react-router-dom";
 import { useRoom } from "../contexts/RoomContext";
-import { Room, RoomStatus } from "../types";
+import { useReadState } from "../contexts/ReadStateContext";
+import { useAuth } from "../contexts/AuthContext";
+import { useInvites } from "../contexts/InviteContext";
+import { useDateFormat } from "../contexts/PreferencesContext";
+import { useI18n } from "../contexts/I18nContext";
+import { Room, RoomInvite, RoomStatus } from "../types";
 import Loading from "../components/common/Loading";
 import ErrorMessage from "../components/common/ErrorMessage";
 import GridItem from "../components/common/GridItem";
 import StyledCard from "../components/common/StyledCard";
 import StyledButton from "../components/common/StyledButton";
+import CalendarFeedDialog from "../components/room/CalendarFeedDialog";
+import JoinWithCodeDialog from "../components/room/JoinWithCodeDialog";
+import RoomTiming from "../components/room/RoomTiming";
+import { describeRecurrence } from "../utils/recurrence";
+import { createRoomsCalendar, downloadCalendar } from "../utils/calendar";
+import {
+  formatCapacity,
+  getWaitlistPosition,
+  isRoomFull,
+} from "../utils/capacity";
+
+// One card on the dashboard: a single room, or the next room of a recurring
+// series with the series' other rooms behind it
+interface RoomGroup {
+  room: Room;
+  occurrences: Room[];
+}
+
+// Collapse rooms of the same series into one group, keeping list order. The
+// first room of a series in the list represents it.
+const groupBySeries = (rooms: Room[]): RoomGroup[] => {
+  const groups: RoomGroup[] = [];
+  const bySeries = new Map<string, RoomGroup>();
+
+  rooms.forEach((room) => {
+    const existing = room.seriesId ? bySeries.get(room.seriesId) : undefined;
+    if (existing) {
+      if (existing.room._id !== room._id) existing.occurrences.push(room);
+      return;
+    }
+    const group: RoomGroup = { room, occurrences: [] };
+    groups.push(group);
+    if (room.seriesId) bySeries.set(room.seriesId, group);
+  });
+
+  return groups;
+};
 
 /**
  * Dashboard Component
  */
 const Dashboard = () => {
   const { rooms, loading, error, fetchUserRooms } = useRoom();
+  const { getUnreadCount, refreshReadStates } = useReadState();
+  const { user } = useAuth();
+  const { getPendingInvite, acceptInvite, declineInvite } = useInvites();
+  const { formatDateTime, locale } = useDateFormat();
+  const { t } = useI18n();
   const navigate = useNavigate();
   const theme = useMuiTheme();
   const [tabValue, setTabValue] = useState(0);
   const [page, setPage] = useState(1);
+  const [expandedSeries, setExpandedSeries] = useState<string | null>(null);
+  const [feedOpen, setFeedOpen] = useState(false);
+  const [joinCodeOpen, setJoinCodeOpen] = useState(false);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
   const itemsPerPage = 6;
 
   useEffect(() => {
     fetchUserRooms();
   }, [fetchUserRooms]);
 
+  // Unread badges may be stale after time spent elsewhere
+  useEffect(() => {
+    refreshReadStates();
+  }, [refreshReadStates]);
+
   useEffect(() => {
     // Reset pagination when tab changes
     setPage(1);
   }, [tabValue]);
 
-  const formatDate = (dateString: string | Date) => {
-    const date = new Date(dateString);
-    return date.toLocaleString("en-US", {
-      weekday: "short",
-      month: "short",
-      day: "numeric",
-      hour: "numeric",
-      minute: "2-digit",
-    });
+  // Everything the user may still attend, as one calendar file
+  const handleExportCalendar = () => {
+    downloadCalendar(
+      "roomloop-rooms.ics",
+      createRoomsCalendar(
+        [...rooms.live, ...rooms.upcoming, ...rooms.invites],
+        {
+          name: "RoomLoop",
+        }
+      )
+    );
   };
 
   const handleJoinRoom = (roomId: string) => {
     navigate(`/rooms/${roomId}`);
   };
 
+  // Accepting joins the room and opens it; declining drops the invitation
+  const handleRespondToInvite = async (invite: RoomInvite, accept: boolean) => {
+    setRespondingTo(invite._id);
+    setInviteError(null);
+    try {
+      if (accept) {
+        const room = await acceptInvite(invite._id);
+        navigate(`/rooms/${room._id}`);
+      } else {
+        await declineInvite(invite._id);
+      }
+    } catch (err: any) {
+      setInviteError(
+        err.response?.data?.message ||
+          t(accept ? "dashboard.acceptFailed" : "dashboard.declineFailed")
+      );
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
   };
@@ -72,7 +160,7 @@ const Dashboard = () => {
   /**
    * Room Card Component
    */
-  const RoomCard = ({ room }: { room: Room }) => {
+  const RoomCard = ({ room, occurrences }: RoomGroup) => {
     const statusColors = {
       [RoomStatus.SCHEDULED]: {
         bg: theme.palette.info.main,
@@ -89,10 +177,18 @@ const Dashboard = () => {
             : alpha(theme.palette.grey[500], 0.1),
         text: theme.palette.text.secondary,
       },
+      [RoomStatus.CANCELLED]: {
+        bg: alpha(theme.palette.error.main, 0.12),
+        text: theme.palette.error.main,
+      },
     };
 
     const statusColor =
       statusColors[room.status] || statusColors[RoomStatus.CLOSED];
+    const unreadCount = getUnreadCount(room._id);
+    const isExpanded = !!room.seriesId && expandedSeries === room.seriesId;
+    const waitlistPosition = user ? getWaitlistPosition(room, user.id) : 0;
+    const invite = getPendingInvite(room._id);
 
     return (
       <StyledCard
@@ -180,12 +276,25 @@ const Dashboard = () => {
               component="h2"
               fontWeight="600"
               noWrap
-              sx={{ maxWidth: "70%" }}
+              sx={{ maxWidth: unreadCount > 0 ? "50%" : "70%" }}
             >
               {room.title}
             </Typography>
+            {unreadCount > 0 && (
+              <Chip
+                label={t("dashboard.newMessages", {
+                  count: unreadCount > 99 ? "99+" : unreadCount,
+                })}
+                size="small"
+                color="error"
+                aria-label={t("dashboard.unreadMessages", {
+                  count: unreadCount,
+                })}
+                sx={{ ml: "auto", mr: 1, fontWeight: 700 }}
+              />
+            )}
             <Chip
-              label={room.status.toUpperCase()}
+              label={t("room.status", { status: room.status }).toUpperCase()}
               size="medium"
               sx={{
                 background: `linear-gradient(135deg, ${
@@ -231,27 +340,137 @@ const Dashboard = () => {
                 variant="body2"
                 sx={{ display: "flex", justifyContent: "space-between" }}
               >
-                <span style={{ fontWeight: 500 }}>Start:</span>
-                <span>{formatDate(room.startTime)}</span>
+                <span style={{ fontWeight: 500 }}>{t("dashboard.start")}</span>
+                <span>{formatDateTime(room.startTime)}</span>
               </Typography>
               <Typography
                 variant="body2"
                 sx={{ display: "flex", justifyContent: "space-between" }}
               >
-                <span style={{ fontWeight: 500 }}>End:</span>
-                <span>{formatDate(room.endTime)}</span>
+                <span style={{ fontWeight: 500 }}>{t("dashboard.end")}</span>
+                <span>{formatDateTime(room.endTime)}</span>
               </Typography>
+              <RoomTiming room={room} />
               <Typography
                 variant="body2"
                 sx={{ display: "flex", justifyContent: "space-between" }}
               >
-                <span style={{ fontWeight: 500 }}>Room Code:</span>
+                <span style={{ fontWeight: 500 }}>
+                  {t("dashboard.roomCode")}
+                </span>
                 <span style={{ fontFamily: "monospace", letterSpacing: 1 }}>
                   {room.code}
                 </span>
               </Typography>
+              <Typography
+                variant="body2"
+                sx={{ display: "flex", justifyContent: "space-between" }}
+              >
+                <span style={{ fontWeight: 500 }}>
+                  {t("dashboard.participants")}
+                </span>
+                <Box
+                  component="span"
+                  sx={{
+                    color: isRoomFull(room) ? "error.main" : undefined,
+                    fontWeight: isRoomFull(room) ? 600 : undefined,
+                  }}
+                >
+                  {formatCapacity(room)}
+                  {isRoomFull(room) && ` ${t("room.full")}`}
+                </Box>
+              </Typography>
             </Stack>
 
+            {invite && (
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                display="block"
+                sx={{ mt: 2 }}
+              >
+                {t("dashboard.invitedBy", {
+                  name: invite.invitedBy.username,
+                })}
+              </Typography>
+            )}
+
+            {waitlistPosition > 0 && (
+              <Chip
+                label={t("dashboard.waitlist", { position: waitlistPosition })}
+                size="small"
+                color="warning"
+                variant="outlined"
+                sx={{ mt: 2 }}
+              />
+            )}
+
+            {/* Recurring series */}
+            {room.seriesId && (
+              <Box mt={2}>
+                <Chip
+                  icon={<RepeatIcon />}
+                  label={
+                    room.recurrence
+                      ? describeRecurrence(room.recurrence, t, locale)
+                      : t("dashboard.recurring")
+                  }
+                  size="small"
+                  variant="outlined"
+                  color="secondary"
+                  sx={{ maxWidth: "100%" }}
+                />
+                {occurrences.length > 0 && (
+                  <>
+                    <Link
+                      component="button"
+                      type="button"
+                      variant="body2"
+                      onClick={() =>
+                        setExpandedSeries(isExpanded ? null : room.seriesId!)
+                      }
+                      aria-expanded={isExpanded}
+                      sx={{ display: "block", mt: 1 }}
+                    >
+                      {isExpanded
+                        ? t("dashboard.hideDates")
+                        : t("dashboard.otherDates", {
+                            count: occurrences.length,
+                          })}
+                    </Link>
+                    <Collapse in={isExpanded} unmountOnExit>
+                      <Stack spacing={0.5} sx={{ mt: 1 }}>
+                        {occurrences.map((occurrence) => (
+                          <Link
+                            key={occurrence._id}
+                            component="button"
+                            type="button"
+                            variant="body2"
+                            color="text.secondary"
+                            onClick={() => handleJoinRoom(occurrence._id)}
+                            sx={{
+                              display: "flex",
+                              justifyContent: "space-between",
+                              textAlign: "left",
+                            }}
+                          >
+                            <span>{formatDateTime(occurrence.startTime)}</span>
+                            {occurrence.status !== RoomStatus.SCHEDULED && (
+                              <span>
+                                {t("room.status", {
+                                  status: occurrence.status,
+                                })}
+                              </span>
+                            )}
+                          </Link>
+                        ))}
+                      </Stack>
+                    </Collapse>
+                  </>
+                )}
+              </Box>
+            )}
+
             {/* Tags */}
             {room.tags.length > 0 && (
               <Box mt={2} display="flex" flexWrap="wrap" gap={0.5}>
@@ -275,42 +494,71 @@ const Dashboard = () => {
 
         {/* Card actions */}
         <CardActions sx={{ p: 2.5, pt: 0 }}>
-          <StyledButton
-            size="medium"
-            color="primary"
-            variant={room.status === RoomStatus.LIVE ? "contained" : "outlined"}
-            onClick={() => handleJoinRoom(room._id)}
-            // disabled={room.status === RoomStatus.CLOSED}
-            fullWidth
-            sx={{
-              mt: 1,
-              opacity: room.status === RoomStatus.CLOSED ? 0.6 : 1,
-              borderRadius: 3,
-              py: 1.5,
-              fontWeight: 600,
-              background:
-                room.status === RoomStatus.LIVE
-                  ? `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.secondary.main} 100%)`
-                  : undefined,
-              boxShadow:
-                room.status === RoomStatus.LIVE
-                  ? "0 6px 20px rgba(0,0,0,0.15)"
-                  : undefined,
-              transition: "all 0.3s ease",
-              "&:hover": {
-                transform:
+          {invite ? (
+            <Stack direction="row" spacing={1} sx={{ mt: 1, width: "100%" }}>
+              <StyledButton
+                variant="contained"
+                color="primary"
+                fullWidth
+                disabled={respondingTo === invite._id}
+                onClick={() => handleRespondToInvite(invite, true)}
+                sx={{ borderRadius: 3, py: 1.5, fontWeight: 600 }}
+              >
+                ✅ {t("dashboard.accept")}
+              </StyledButton>
+              <StyledButton
+                variant="outlined"
+                color="inherit"
+                fullWidth
+                disabled={respondingTo === invite._id}
+                onClick={() => handleRespondToInvite(invite, false)}
+                sx={{ borderRadius: 3, py: 1.5, fontWeight: 600 }}
+              >
+                {t("dashboard.decline")}
+              </StyledButton>
+            </Stack>
+          ) : (
+            <StyledButton
+              size="medium"
+              color="primary"
+              variant={
+                room.status === RoomStatus.LIVE ? "contained" : "outlined"
+              }
+              onClick={() => handleJoinRoom(room._id)}
+              // disabled={room.status === RoomStatus.CLOSED}
+              fullWidth
+              sx={{
+                mt: 1,
+                opacity: room.status === RoomStatus.CLOSED ? 0.6 : 1,
+                borderRadius: 3,
+                py: 1.5,
+                fontWeight: 600,
+                background:
                   room.status === RoomStatus.LIVE
-                    ? "translateY(-2px)"
+                    ? `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.secondary.main} 100%)`
                     : undefined,
                 boxShadow:
                   room.status === RoomStatus.LIVE
-                    ? "0 8px 25px rgba(0,0,0,0.2)"
+                    ? "0 6px 20px rgba(0,0,0,0.15)"
                     : undefined,
-              },
-            }}
-          >
-            {room.status === RoomStatus.LIVE ? "🚀 Join Now" : "👁️ View"}
-          </StyledButton>
+                transition: "all 0.3s ease",
+                "&:hover": {
+                  transform:
+                    room.status === RoomStatus.LIVE
+                      ? "translateY(-2px)"
+                      : undefined,
+                  boxShadow:
+                    room.status === RoomStatus.LIVE
+                      ? "0 8px 25px rgba(0,0,0,0.2)"
+                      : undefined,
+                },
+              }}
+            >
+              {room.status === RoomStatus.LIVE
+                ? `🚀 ${t("dashboard.joinNow")}`
+                : `👁️ ${t("dashboard.view")}`}
+            </StyledButton>
+          )}
         </CardActions>
       </StyledCard>
     );
@@ -327,7 +575,7 @@ const Dashboard = () => {
     </Box>
   );
 
-  if (loading) return <Loading message="Loading your rooms..." />;
+  if (loading) return <Loading message={t("dashboard.loading")} />;
 
   // Filter rooms based on the selected tab
   const getFilteredRooms = () => {
@@ -352,7 +600,8 @@ const Dashboard = () => {
     }
   };
 
-  const filteredRooms = getFilteredRooms();
+  // Each recurring series takes up a single card
+  const filteredRooms = groupBySeries(getFilteredRooms());
 
   // Calculate pagination
   const totalPages = Math.ceil(filteredRooms.length / itemsPerPage);
@@ -389,13 +638,47 @@ const Dashboard = () => {
           mb: 3,
         }}
       >
-        🚀 Your Dashboard
+        🚀 {t("dashboard.title")}
       </Typography>
       <Typography variant="body1" color="text.secondary" paragraph>
-        Manage your upcoming, live, and past events.
+        {t("dashboard.subtitle")}
       </Typography>
 
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+        <StyledButton
+          variant="contained"
+          startIcon={<KeyIcon />}
+          onClick={() => setJoinCodeOpen(true)}
+        >
+          {t("dashboard.joinWithCode")}
+        </StyledButton>
+        <StyledButton
+          variant="outlined"
+          startIcon={<DownloadIcon />}
+          onClick={handleExportCalendar}
+          disabled={
+            rooms.live.length + rooms.upcoming.length + rooms.invites.length ===
+            0
+          }
+        >
+          {t("dashboard.exportCalendar")}
+        </StyledButton>
+        <StyledButton
+          variant="outlined"
+          startIcon={<CalendarIcon />}
+          onClick={() => setFeedOpen(true)}
+        >
+          {t("dashboard.subscribeCalendar")}
+        </StyledButton>
+      </Stack>
+      <CalendarFeedDialog open={feedOpen} onClose={() => setFeedOpen(false)} />
+      <JoinWithCodeDialog
+        open={joinCodeOpen}
+        onClose={() => setJoinCodeOpen(false)}
+      />
+
       <ErrorMessage message={error} />
+      <ErrorMessage message={inviteError} />
 
       {/* Room Filter Tabs */}
       <Box
@@ -449,7 +732,7 @@ const Dashboard = () => {
             },
           }}
         >
-          <Tab label="All Rooms" />
+          <Tab label={t("dashboard.tab.all")} />
           <Tab
             label={
               <Box sx={{ display: "flex", alignItems: "center" }}>
@@ -467,16 +750,16 @@ const Dashboard = () => {
                     }}
                   />
                 )}
-                Live
+                {t("dashboard.tab.live")}
               </Box>
             }
           />
-          <Tab label="Upcoming" />
-          <Tab label="Past" />
+          <Tab label={t("dashboard.tab.upcoming")} />
+          <Tab label={t("dashboard.tab.past")} />
           <Tab
-            label={`Invitations${
-              rooms.invites.length > 0 ? ` (${rooms.invites.length})` : ""
-            }`}
+            label={t("dashboard.tab.invitations", {
+              count: rooms.invites.length,
+            })}
             disabled={rooms.invites.length === 0}
           />
         </Tabs>
@@ -486,15 +769,15 @@ const Dashboard = () => {
       {displayedRooms.length > 0 ? (
         <>
           <Grid container spacing={3}>
-            {displayedRooms.map((room, index) => (
+            {displayedRooms.map((group, index) => (
               <Grid
                 item
                 xs={12}
                 sm={6}
                 md={4}
-                key={`room-${room._id}-${index}`}
+                key={`room-${group.room._id}-${index}`}
               >
-                <RoomCard room={room} />
+                <RoomCard {...group} />
               </Grid>
             ))}
           </Grid>
@@ -549,17 +832,9 @@ const Dashboard = () => {
         </>
       ) : (
         <EmptyMessage
-          message={`No ${
-            tabValue === 0
-              ? ""
-              : tabValue === 1
-              ? "live"
-              : tabValue === 2
-              ? "upcoming"
-              : tabValue === 3
-              ? "past"
-              : "invitation"
-          } rooms found`}
+          message={t("dashboard.empty", {
+            tab: ["all", "live", "upcoming", "past", "invitations"][tabValue],
+          })}
         />
       )}
     </Box>
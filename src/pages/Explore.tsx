@@ -1,11 +1,16 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, {
+  useEffect,
+  useState,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
 import {
   Typography,
   Box,
   CardContent,
   CardActions,
   Chip,
-  InputAdornment,
   Grid,
   Divider,
   Stack,
@@ -13,38 +18,125 @@ import {
   useTheme as useMuiTheme,
   Tabs,
   Tab,
-  Pagination,
 } from "@mui/material";
-import { Search as SearchIcon } from "@mui/icons-material";
-import { useNavigate } from "react-router-dom";
+import { Key as KeyIcon } from "@mui/icons-material";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useRoom } from "../contexts/RoomContext";
-import { Room, RoomStatus, RoomType } from "../types";
+import {
+  Room,
+  RoomSearchPage,
+  RoomSearchParams,
+  RoomStatus,
+  RoomType,
+  SearchFacet,
+} from "../types";
 import Loading from "../components/common/Loading";
 import ErrorMessage from "../components/common/ErrorMessage";
 import GridItem from "../components/common/GridItem";
 import { useAuth } from "../contexts/AuthContext";
-import StyledTextField from "../components/common/StyledTextField";
+import { useDateFormat } from "../contexts/PreferencesContext";
+import { useI18n } from "../contexts/I18nContext";
+import SearchFilter, {
+  FilterConfig,
+  FilterOption,
+} from "../components/common/SearchFilter";
 import StyledCard from "../components/common/StyledCard";
 import StyledButton from "../components/common/StyledButton";
+import JoinWithCodeDialog from "../components/room/JoinWithCodeDialog";
+import RoomTiming from "../components/room/RoomTiming";
+import {
+  getParticipantCount,
+  getWaitlistPosition,
+  isRoomFull,
+} from "../utils/capacity";
+import {
+  DEFAULT_SORT,
+  DEFAULT_STATUSES,
+  SORT_ORDERS,
+  parseRoomSearch,
+  roomSearchToQuery,
+} from "../utils/roomSearch";
+
+// A search's totals and facets; the rooms themselves are in `publicRooms`
+type SearchSummary = Omit<RoomSearchPage, "rooms">;
+
+const facetCount = (facets: SearchFacet[] | undefined, value: string) =>
+  facets?.find((facet) => facet.value === value)?.count ?? 0;
 
 /**
  * Explore Component - Browse and join rooms
  */
 const Explore = () => {
-  const { publicRooms, loading, error, fetchAllRooms, joinRoom } = useRoom();
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filteredRooms, setFilteredRooms] = useState<Room[]>([]);
-  const [roomType, setRoomType] = useState(0); // 0: Public, 1: Private
-  const [page, setPage] = useState(1);
-  const itemsPerPage = 5;
+  const {
+    publicRooms,
+    error,
+    searchRooms,
+    joinRoom,
+    joinWaitlist,
+    leaveWaitlist,
+  } = useRoom();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [summary, setSummary] = useState<SearchSummary | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [joinCodeOpen, setJoinCodeOpen] = useState(false);
   const navigate = useNavigate();
   const { user } = useAuth();
   const theme = useMuiTheme();
+  const { t } = useI18n();
+
+  // The URL holds the search, so it can be shared and the back button works
+  const queryString = searchParams.toString();
+  const search = useMemo(
+    () => parseRoomSearch(new URLSearchParams(queryString)),
+    [queryString]
+  );
+  const latestSearch = useRef(0);
 
-  // Fetch all rooms including private ones when component mounts
   useEffect(() => {
-    fetchAllRooms();
-  }, [fetchAllRooms]); // fetchAllRooms is memoized with useCallback
+    const searchId = ++latestSearch.current;
+    setSearching(true);
+    searchRooms(search)
+      .then((page) => {
+        if (searchId !== latestSearch.current) return;
+        const { rooms, ...rest } = page;
+        setSummary(rest);
+      })
+      .catch(() => {
+        if (searchId === latestSearch.current) setSummary(null);
+      })
+      .finally(() => {
+        if (searchId === latestSearch.current) setSearching(false);
+      });
+  }, [search, searchRooms]);
+
+  const handleLoadMore = async () => {
+    if (!summary?.nextCursor) return;
+    const searchId = latestSearch.current;
+    setLoadingMore(true);
+    try {
+      const page = await searchRooms(search, summary.nextCursor);
+      if (searchId === latestSearch.current) {
+        setSummary((prev) => prev && { ...prev, nextCursor: page.nextCursor });
+      }
+    } catch {
+      // The error is shown by the room context
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Typing replaces the history entry so Back skips the keystrokes; other
+  // changes get their own entry
+  const updateSearch = useCallback(
+    (changes: Partial<RoomSearchParams>, replace = false) => {
+      setSearchParams(roomSearchToQuery({ ...search, ...changes }), {
+        replace,
+      });
+    },
+    [search, setSearchParams]
+  );
 
   // Check if the user is already part of the room
   const isUserInRoom = useCallback(
@@ -67,68 +159,15 @@ const Explore = () => {
     [user]
   );
 
-  // Filter rooms when publicRooms or searchTerm changes
-  useEffect(() => {
-    if (publicRooms) {
-      // First filter by public/private
-      const roomsByType = publicRooms.filter((room) => {
-        // For public rooms tab
-        if (roomType === 0) return room.roomType === RoomType.PUBLIC;
-
-        // For private rooms tab - include if it's private AND either:
-        // 1. You are the creator
-        // 2. You are invited/participating
-        if (roomType === 1) {
-          const isPrivate = room.roomType === RoomType.PRIVATE;
-
-          // Check if you're the creator
-          const isCreator =
-            user &&
-            room.creator &&
-            typeof room.creator === "object" &&
-            (room.creator as any)._id === user.id;
-
-          // Check if you're a participant or invited
-          const isParticipant = isUserInRoom(room);
-
-          return isPrivate && (isCreator || isParticipant);
-        }
-
-        return false;
-      });
-
-      // Then filter by search term
-      const filtered = roomsByType.filter((room) => {
-        const searchLower = searchTerm.toLowerCase();
-        return (
-          room.title.toLowerCase().includes(searchLower) ||
-          room.description.toLowerCase().includes(searchLower) ||
-          room.tags.some((tag) => tag.toLowerCase().includes(searchLower))
-        );
-      });
-
-      setFilteredRooms(filtered);
-      setPage(1); // Reset to first page whenever filters change
-    }
-  }, [publicRooms, searchTerm, roomType, user, isUserInRoom]);
-
-  const formatDateTime = (dateString: string | Date) => {
-    const date = new Date(dateString);
-    return date.toLocaleString("en-US", {
-      weekday: "short",
-      month: "short",
-      day: "numeric",
-      hour: "numeric",
-      minute: "2-digit",
-    });
-  };
-
   // Memoize the join handler
   const handleJoin = useCallback(
     async (room: Room) => {
       try {
         // For closed rooms, just navigate to view the room details
-        if (room.status === RoomStatus.CLOSED) {
+        if (
+          room.status === RoomStatus.CLOSED ||
+          room.status === RoomStatus.CANCELLED
+        ) {
           navigate(`/rooms/${room._id}`);
           return;
         }
@@ -136,6 +175,14 @@ const Explore = () => {
         // If user is already in the room, just navigate to it
         if (isUserInRoom(room)) {
           navigate(`/rooms/${room._id}`);
+        } else if (isRoomFull(room)) {
+          // Full rooms only take a place in the queue; the server moves the
+          // user in when someone leaves
+          if (user && getWaitlistPosition(room, user.id)) {
+            await leaveWaitlist(room._id);
+          } else {
+            await joinWaitlist(room._id);
+          }
         } else {
           // Otherwise, join the room first
           await joinRoom(room._id);
@@ -149,31 +196,102 @@ const Explore = () => {
         }
       }
     },
-    [joinRoom, navigate, isUserInRoom]
+    [joinRoom, joinWaitlist, leaveWaitlist, navigate, isUserInRoom, user]
   );
 
   const handleRoomTypeChange = (
     event: React.SyntheticEvent,
     newValue: number
   ) => {
-    setRoomType(newValue);
+    updateSearch({
+      roomType: newValue === 1 ? RoomType.PRIVATE : RoomType.PUBLIC,
+    });
   };
 
-  const handlePageChange = (
-    event: React.ChangeEvent<unknown>,
-    value: number
-  ) => {
-    setPage(value);
+  const handleFilterChange = (key: string, value: any) => {
+    switch (key) {
+      case "status":
+        updateSearch({ status: value || [] });
+        break;
+      case "tags":
+        updateSearch({ tags: value || [] });
+        break;
+      case "from":
+      case "to":
+        updateSearch({ [key]: value || undefined });
+        break;
+      case "sort":
+        updateSearch({ sort: value || DEFAULT_SORT });
+        break;
+    }
   };
 
-  // Calculate pagination
-  const paginatedRooms = filteredRooms.slice(
-    (page - 1) * itemsPerPage,
-    page * itemsPerPage
+  const handleClearFilters = () => {
+    setSearchParams(
+      roomSearchToQuery({
+        q: search.q,
+        roomType: search.roomType,
+        status: DEFAULT_STATUSES,
+      })
+    );
+  };
+
+  // Tags come from the server's facets; selected tags stay listed even when
+  // nothing matches them any more
+  const tagOptions: FilterOption[] = (summary?.facets.tags || []).map(
+    (facet) => ({ label: facet.value, value: facet.value, count: facet.count })
   );
-  const totalPages = Math.ceil(filteredRooms.length / itemsPerPage);
+  (search.tags || []).forEach((tag) => {
+    if (!tagOptions.some((option) => option.value === tag)) {
+      tagOptions.push({ label: tag, value: tag, count: 0 });
+    }
+  });
+
+  const filters: FilterConfig[] = [
+    {
+      key: "status",
+      label: t("explore.filter.status"),
+      type: "multiselect",
+      options: Object.values(RoomStatus).map((status) => ({
+        label: t("explore.status", { status }),
+        value: status,
+        count: facetCount(summary?.facets.status, status),
+      })),
+      defaultValue: DEFAULT_STATUSES,
+    },
+    {
+      key: "tags",
+      label: t("explore.filter.tags"),
+      type: "multiselect",
+      options: tagOptions,
+    },
+    { key: "from", label: t("explore.filter.from"), type: "date" },
+    { key: "to", label: t("explore.filter.to"), type: "date" },
+    {
+      key: "sort",
+      label: t("explore.filter.sort"),
+      type: "select",
+      options: SORT_ORDERS.map((sort) => ({
+        label: t("explore.sort", { sort }),
+        value: sort,
+      })),
+      defaultValue: DEFAULT_SORT,
+    },
+  ];
+
+  // Defaults are left out so they don't show up as active filters
+  const filterValues: Record<string, any> = {
+    status: searchParams.has("status") ? search.status : undefined,
+    tags: search.tags,
+    from: search.from,
+    to: search.to,
+    sort: search.sort === DEFAULT_SORT ? undefined : search.sort,
+  };
 
-  if (loading) return <Loading message="Loading rooms..." />;
+  const roomType = search.roomType === RoomType.PRIVATE ? 1 : 0;
+
+  // Later searches keep the old results on screen until new ones arrive
+  if (searching && !summary) return <Loading message={t("explore.loading")} />;
 
   return (
     <Box
@@ -203,13 +321,25 @@ const Explore = () => {
           mb: 3,
         }}
       >
-        🔍 Explore Rooms
+        🔍 {t("explore.title")}
       </Typography>
       <Typography variant="body1" color="text.secondary" paragraph>
-        Discover and join events and meetups. Only showing live and upcoming
-        rooms.
+        {t("explore.subtitle")}
       </Typography>
 
+      {/* Private rooms can also be joined straight from a shared code */}
+      <StyledButton
+        variant="outlined"
+        startIcon={<KeyIcon />}
+        onClick={() => setJoinCodeOpen(true)}
+      >
+        {t("explore.joinWithCode")}
+      </StyledButton>
+      <JoinWithCodeDialog
+        open={joinCodeOpen}
+        onClose={() => setJoinCodeOpen(false)}
+      />
+
       <ErrorMessage message={error} />
 
       {/* Room Type Tabs */}
@@ -262,8 +392,8 @@ const Explore = () => {
             },
           }}
         >
-          <Tab label="🌍 Public Rooms" />
-          <Tab label="🔒 Private Rooms" />
+          <Tab label={`🌍 ${t("explore.tab.public")}`} />
+          <Tab label={`🔒 ${t("explore.tab.private")}`} />
         </Tabs>
       </Box>
 
@@ -281,33 +411,18 @@ const Explore = () => {
           boxShadow: `0 4px 20px ${alpha(theme.palette.common.black, 0.08)}`,
         }}
       >
-        <StyledTextField
-          fullWidth
-          variant="outlined"
-          placeholder="🔍 Search by title, description, or tag..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          InputProps={{
-            startAdornment: (
-              <InputAdornment position="start">
-                <SearchIcon sx={{ color: theme.palette.primary.main }} />
-              </InputAdornment>
-            ),
-          }}
-          sx={{
-            "& .MuiOutlinedInput-root": {
-              borderRadius: 3,
-              "& fieldset": {
-                borderColor: alpha(theme.palette.primary.main, 0.2),
-              },
-              "&:hover fieldset": {
-                borderColor: alpha(theme.palette.primary.main, 0.4),
-              },
-              "&.Mui-focused fieldset": {
-                borderColor: theme.palette.primary.main,
-              },
-            },
-          }}
+        <SearchFilter
+          searchValue={search.q || ""}
+          onSearchChange={(q) => updateSearch({ q: q || undefined }, true)}
+          filters={filters}
+          filterValues={filterValues}
+          onFilterChange={handleFilterChange}
+          onClearAll={handleClearFilters}
+          placeholder={`🔍 ${t("explore.searchPlaceholder")}`}
+          showFilters={showFilters}
+          onToggleFilters={() => setShowFilters((prev) => !prev)}
+          loading={searching}
+          totalResults={summary?.total}
         />
       </Box>
 
@@ -321,91 +436,49 @@ const Explore = () => {
         }}
       />
 
-      {/* Results count */}
-      <Box
-        display="flex"
-        justifyContent="space-between"
-        alignItems="center"
-        mb={2}
-      >
-        <Typography variant="body2" color="text.secondary">
-          Showing {filteredRooms.length}{" "}
-          {filteredRooms.length === 1 ? "room" : "rooms"}
-        </Typography>
-
-        {totalPages > 1 && (
-          <Typography variant="body2" color="text.secondary">
-            Page {page} of {totalPages}
-          </Typography>
-        )}
-      </Box>
-
       {/* Rooms List */}
       <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
-        {paginatedRooms.length > 0 ? (
-          paginatedRooms.map((room) => (
+        {publicRooms.length > 0 ? (
+          publicRooms.map((room) => (
             <RoomCard
               key={room._id}
               room={room}
               onJoin={handleJoin}
-              formatDate={formatDateTime}
               isUserInRoom={isUserInRoom(room)}
+              waitlistPosition={user ? getWaitlistPosition(room, user.id) : 0}
             />
           ))
         ) : (
           <Box textAlign="center" py={4}>
             <Typography variant="h6" color="text.secondary">
-              No {roomType === 0 ? "public" : "private"} rooms found
+              {t("explore.empty", {
+                type: roomType === 0 ? RoomType.PUBLIC : RoomType.PRIVATE,
+              })}
             </Typography>
             <Typography variant="body2" color="text.secondary">
-              Try adjusting your search or check back later for new events.
+              {t("explore.emptyHint")}
             </Typography>
           </Box>
         )}
       </Box>
 
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <Box
-          display="flex"
-          justifyContent="center"
-          mt={4}
-          sx={{
-            p: 2,
-            background: `linear-gradient(145deg, ${
-              theme.palette.background.paper
-            } 0%, ${alpha(theme.palette.primary.main, 0.02)} 100%)`,
-            borderRadius: 3,
-            border: `1px solid ${alpha(theme.palette.primary.main, 0.1)}`,
-            boxShadow: `0 4px 20px ${alpha(theme.palette.common.black, 0.08)}`,
-          }}
-        >
-          <Pagination
-            count={totalPages}
-            page={page}
-            onChange={handlePageChange}
-            color="primary"
+      {/* Cursor pagination: each page continues where the last one ended */}
+      {summary?.nextCursor && (
+        <Box display="flex" flexDirection="column" alignItems="center" mt={4}>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {t("explore.showing", {
+              shown: publicRooms.length,
+              total: summary.total,
+            })}
+          </Typography>
+          <StyledButton
             variant="outlined"
-            shape="rounded"
-            size="large"
-            sx={{
-              "& .MuiPaginationItem-root": {
-                fontWeight: 600,
-                borderRadius: 2,
-                "&.Mui-selected": {
-                  background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.secondary.main} 100%)`,
-                  color: "white",
-                  boxShadow: `0 4px 12px ${alpha(
-                    theme.palette.primary.main,
-                    0.3
-                  )}`,
-                },
-                "&:hover": {
-                  background: alpha(theme.palette.primary.main, 0.1),
-                },
-              },
-            }}
-          />
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            sx={{ borderRadius: 3, px: 4 }}
+          >
+            {loadingMore ? t("explore.loadingMore") : t("explore.loadMore")}
+          </StyledButton>
         </Box>
       )}
     </Box>
@@ -418,15 +491,18 @@ const Explore = () => {
 const RoomCard = ({
   room,
   onJoin,
-  formatDate,
   isUserInRoom,
+  waitlistPosition,
 }: {
   room: Room;
   onJoin: (room: Room) => void;
-  formatDate: (date: string | Date) => string;
   isUserInRoom: boolean;
+  // 1-based place in the room's waitlist, 0 when not waiting
+  waitlistPosition: number;
 }) => {
   const theme = useMuiTheme();
+  const { formatDateTime } = useDateFormat();
+  const { t } = useI18n();
 
   const statusColors = {
     [RoomStatus.SCHEDULED]: {
@@ -444,6 +520,10 @@ const RoomCard = ({
           : alpha(theme.palette.grey[500], 0.1),
       text: theme.palette.text.secondary,
     },
+    [RoomStatus.CANCELLED]: {
+      bg: alpha(theme.palette.error.main, 0.12),
+      text: theme.palette.error.main,
+    },
   };
 
   const statusColor =
@@ -452,14 +532,23 @@ const RoomCard = ({
   const creatorName =
     room.creator && typeof room.creator === "object" && room.creator.username
       ? room.creator.username
-      : "Unknown";
+      : t("explore.unknownCreator");
 
   // Determine button text based on user status and room status
+  const isFull = isRoomFull(room);
   const getButtonText = () => {
     if (isUserInRoom) {
-      return room.status === RoomStatus.LIVE ? "Enter Room" : "View Room";
+      return room.status === RoomStatus.LIVE
+        ? t("explore.enterRoom")
+        : t("explore.viewRoom");
+    }
+    if (isFull && waitlistPosition) {
+      return t("explore.leaveWaitlist", { position: waitlistPosition });
     }
-    return room.status === RoomStatus.LIVE ? "Join Now" : "View Details";
+    if (isFull) return t("explore.joinWaitlist");
+    return room.status === RoomStatus.LIVE
+      ? t("explore.joinNow")
+      : t("explore.viewDetails");
   };
 
   return (
@@ -532,7 +621,7 @@ const RoomCard = ({
             </Typography>
             {room.roomType === RoomType.PRIVATE && (
               <Chip
-                label="PRIVATE"
+                label={t("room.type", { type: room.roomType }).toUpperCase()}
                 size="small"
                 sx={{
                   ml: 1,
@@ -546,7 +635,7 @@ const RoomCard = ({
             )}
           </Box>
           <Chip
-            label={room.status.toUpperCase()}
+            label={t("room.status", { status: room.status }).toUpperCase()}
             size="small"
             sx={{
               background: `linear-gradient(135deg, ${
@@ -571,10 +660,22 @@ const RoomCard = ({
             sx={{ mb: 2 }}
           >
             <Typography variant="body2" sx={{ fontWeight: 500 }}>
-              Created by: {creatorName}
+              {t("room.createdBy", { name: creatorName })}
             </Typography>
-            <Typography variant="caption" color="text.secondary">
-              Max participants: {room.maxParticipants}
+            <Typography
+              variant="caption"
+              color={isFull ? "error" : "text.secondary"}
+              sx={{ fontWeight: isFull ? 600 : undefined }}
+            >
+              {room.maxParticipants
+                ? t("room.capacity", {
+                    count: getParticipantCount(room),
+                    max: room.maxParticipants,
+                  })
+                : t("room.joined", { count: getParticipantCount(room) })}
+              {isFull && !!room.waitlist?.length
+                ? ` · ${t("room.waiting", { count: room.waitlist.length })}`
+                : ""}
             </Typography>
           </Stack>
 
@@ -600,16 +701,17 @@ const RoomCard = ({
               variant="body2"
               sx={{ display: "flex", justifyContent: "space-between" }}
             >
-              <span style={{ fontWeight: 500 }}>Start:</span>
-              <span>{formatDate(room.startTime)}</span>
+              <span style={{ fontWeight: 500 }}>{t("explore.start")}</span>
+              <span>{formatDateTime(room.startTime)}</span>
             </Typography>
             <Typography
               variant="body2"
               sx={{ display: "flex", justifyContent: "space-between" }}
             >
-              <span style={{ fontWeight: 500 }}>End:</span>
-              <span>{formatDate(room.endTime)}</span>
+              <span style={{ fontWeight: 500 }}>{t("explore.end")}</span>
+              <span>{formatDateTime(room.endTime)}</span>
             </Typography>
+            <RoomTiming room={room} />
           </Stack>
 
           {/* Room tags */}
@@ -747,6 +849,7 @@ const RoomCard = ({
           {room.status === RoomStatus.LIVE && "�� "}
           {room.status === RoomStatus.SCHEDULED && "⏰ "}
           {room.status === RoomStatus.CLOSED && "📋 "}
+          {room.status === RoomStatus.CANCELLED && "🚫 "}
           {getButtonText()}
         </StyledButton>
       </CardActions>
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Box, Stack } from "@mui/material";
+import { useNavigate, useParams } from "react-router-dom";
+import { useI18n } from "../contexts/I18nContext";
+import { useRoom } from "../contexts/RoomContext";
+import Loading from "../components/common/Loading";
+import ErrorMessage from "../components/common/ErrorMessage";
+import StyledButton from "../components/common/StyledButton";
+import JoinWithCodeDialog from "../components/room/JoinWithCodeDialog";
+
+/**
+ * Landing page for invite links (/join/:code). Joins the room and moves on
+ * to it. Signed-out visitors come back here after logging in, because
+ * ProtectedRoute remembers the link.
+ */
+const JoinRoom: React.FC = () => {
+  const { code = "" } = useParams<{ code: string }>();
+  const { t } = useI18n();
+  const { joinRoomByCode } = useRoom();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  // Join once per code, even when effects run twice in development
+  const attemptedCode = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!code || attemptedCode.current === code) return;
+    attemptedCode.current = code;
+    setError(null);
+
+    joinRoomByCode(code)
+      .then((room) => navigate(`/rooms/${room._id}`, { replace: true }))
+      .catch((err: any) => {
+        setError(
+          err.response?.status === 404
+            ? t("joinRoom.notFound", { code })
+            : err.response?.data?.message || t("joinRoom.failed")
+        );
+      });
+  }, [code, joinRoomByCode, navigate, t]);
+
+  if (!error) return <Loading message={t("joinRoom.joining")} />;
+
+  return (
+    <Box sx={{ maxWidth: 520, mx: "auto", py: 6 }}>
+      <ErrorMessage message={error} />
+      <Stack direction="row" spacing={2} justifyContent="center">
+        <StyledButton variant="contained" onClick={() => setDialogOpen(true)}>
+          {t("joinRoom.tryAnother")}
+        </StyledButton>
+        <StyledButton variant="outlined" onClick={() => navigate("/dashboard")}>
+          {t("joinRoom.dashboard")}
+        </StyledButton>
+      </Stack>
+      <JoinWithCodeDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+      />
+    </Box>
+  );
+};
+
+export default JoinRoom;
@@ -8,9 +8,11 @@ import {
   Stack,
   useTheme as useMuiTheme,
   alpha,
+  Alert,
 } from "@mui/material";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, Location, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
+import { useI18n } from "../contexts/I18nContext";
 import ErrorMessage from "../components/common/ErrorMessage";
 import StyledCard from "../components/common/StyledCard";
 import StyledTextField from "../components/common/StyledTextField";
@@ -25,9 +27,13 @@ const Login: React.FC = () => {
     login: "",
     password: "",
   });
-  const { login, error, clearError } = useAuth();
+  const { login, error, clearError, sessionExpired, takeReturnTo } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set by ProtectedRoute when it sent the user here
+  const from = (location.state as { from?: Location } | null)?.from;
   const theme = useMuiTheme();
+  const { t } = useI18n();
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -41,12 +47,12 @@ const Login: React.FC = () => {
     const newErrors = { ...formErrors };
 
     if (!formData.login.trim()) {
-      newErrors.login = "Email or username is required";
+      newErrors.login = t("auth.loginRequired");
       valid = false;
     }
 
     if (!formData.password) {
-      newErrors.password = "Password is required";
+      newErrors.password = t("auth.passwordRequired");
       valid = false;
     }
 
@@ -61,7 +67,10 @@ const Login: React.FC = () => {
 
     try {
       await login(formData);
-      navigate("/dashboard");
+      const returnTo =
+        takeReturnTo() ||
+        (from ? `${from.pathname}${from.search}${from.hash}` : null);
+      navigate(returnTo || "/dashboard", { replace: true });
     } catch (error) {
       // Error is handled by the auth context
     }
@@ -124,13 +133,19 @@ const Login: React.FC = () => {
                   mb: 2,
                 }}
               >
-                🚀 Welcome Back!
+                🚀 {t("login.title")}
               </Typography>
 
               <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                Enter your credentials to access your account
+                {t("login.subtitle")}
               </Typography>
 
+              {sessionExpired && !error && (
+                <Alert severity="info" sx={{ mb: 3, borderRadius: 2 }}>
+                  {t("login.sessionExpired")}
+                </Alert>
+              )}
+
               <ErrorMessage message={error} />
 
               <Box
@@ -143,7 +158,7 @@ const Login: React.FC = () => {
                   required
                   fullWidth
                   id="login"
-                  label="Email or Username"
+                  label={t("auth.login")}
                   name="login"
                   autoComplete="email"
                   autoFocus
@@ -157,7 +172,7 @@ const Login: React.FC = () => {
                   required
                   fullWidth
                   name="password"
-                  label="Password"
+                  label={t("auth.password")}
                   type="password"
                   id="password"
                   autoComplete="current-password"
@@ -186,13 +201,14 @@ const Login: React.FC = () => {
                     },
                   }}
                 >
-                  🔐 Sign In
+                  🔐 {t("login.submit")}
                 </StyledButton>
                 <Grid container justifyContent="center">
                   <Grid item>
                     <MuiLink
                       component={Link}
                       to="/register"
+                      state={location.state}
                       variant="body2"
                       sx={{
                         textDecoration: "none",
@@ -203,7 +219,7 @@ const Login: React.FC = () => {
                         },
                       }}
                     >
-                      {"Don't have an account? Sign Up"}
+                      {t("login.toRegister")}
                     </MuiLink>
                   </Grid>
                 </Grid>
@@ -4,7 +4,6 @@ import {
   Container,
   Typography,
   Grid,
-  Avatar,
   Chip,
   Divider,
   alpha,
@@ -13,6 +12,9 @@ import {
   CardContent,
   IconButton,
   Tooltip,
+  Badge,
+  Button,
+  MenuItem,
 } from "@mui/material";
 import {
   Edit as EditIcon,
@@ -23,27 +25,37 @@ import {
   Person as PersonIcon,
   Groups as GroupsIcon,
   Event as EventIcon,
+  PhotoCamera as PhotoCameraIcon,
 } from "@mui/icons-material";
 import { useAuth } from "../contexts/AuthContext";
+import { useI18n } from "../contexts/I18nContext";
 import { useRoom } from "../contexts/RoomContext";
-import { Room, RoomStatus } from "../types";
+import { useDateFormat } from "../contexts/PreferencesContext";
+import { AvatarFallback, Room, RoomStatus } from "../types";
 import Loading from "../components/common/Loading";
 import ErrorMessage from "../components/common/ErrorMessage";
 import StyledTextField from "../components/common/StyledTextField";
 import StyledButton from "../components/common/StyledButton";
 import StyledCard from "../components/common/StyledCard";
+import UserAvatar from "../components/common/UserAvatar";
+import AvatarEditorDialog from "../components/profile/AvatarEditorDialog";
 
 const Profile: React.FC = () => {
-  const { user, updateProfile, loading: authLoading } = useAuth();
+  const { user, updateProfile, removeAvatar, loading: authLoading } = useAuth();
   const { userRooms, loading: roomsLoading, fetchUserRooms } = useRoom();
+  const { formatLongDate } = useDateFormat();
   const [isEditing, setIsEditing] = useState(false);
   const [editData, setEditData] = useState({
     username: user?.username || "",
     email: user?.email || "",
     bio: user?.bio || "",
+    avatarFallback: user?.avatarFallback || ("initials" as AvatarFallback),
   });
   const [error, setError] = useState("");
+  const [avatarEditorOpen, setAvatarEditorOpen] = useState(false);
+  const [removingAvatar, setRemovingAvatar] = useState(false);
   const theme = useMuiTheme();
+  const { t } = useI18n();
 
   useEffect(() => {
     if (user) {
@@ -56,6 +68,7 @@ const Profile: React.FC = () => {
       username: user?.username || "",
       email: user?.email || "",
       bio: user?.bio || "",
+      avatarFallback: user?.avatarFallback || "initials",
     });
     setIsEditing(true);
     setError("");
@@ -72,7 +85,19 @@ const Profile: React.FC = () => {
       setIsEditing(false);
       setError("");
     } catch (err: any) {
-      setError(err.message || "Failed to update profile");
+      setError(err.message || t("profile.updateFailed"));
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    setRemovingAvatar(true);
+    try {
+      await removeAvatar();
+      setError("");
+    } catch (err: any) {
+      setError(err.response?.data?.message || t("profile.removeAvatarFailed"));
+    } finally {
+      setRemovingAvatar(false);
     }
   };
 
@@ -81,14 +106,6 @@ const Profile: React.FC = () => {
     setEditData({ ...editData, [name]: value });
   };
 
-  const formatDate = (dateString: string | Date) => {
-    return new Date(dateString).toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
-  };
-
   const getStatusColor = (status: RoomStatus) => {
     switch (status) {
       case RoomStatus.LIVE:
@@ -97,6 +114,8 @@ const Profile: React.FC = () => {
         return "info";
       case RoomStatus.CLOSED:
         return "default";
+      case RoomStatus.CANCELLED:
+        return "error";
       default:
         return "default";
     }
@@ -105,22 +124,24 @@ const Profile: React.FC = () => {
   const getStatusText = (status: RoomStatus) => {
     switch (status) {
       case RoomStatus.LIVE:
-        return "🟢 Live";
+        return `🟢 ${t("room.status", { status })}`;
       case RoomStatus.SCHEDULED:
-        return "⏰ Scheduled";
+        return `⏰ ${t("room.status", { status })}`;
       case RoomStatus.CLOSED:
-        return "🔴 Closed";
+        return `🔴 ${t("room.status", { status })}`;
+      case RoomStatus.CANCELLED:
+        return `🚫 ${t("room.status", { status })}`;
       default:
-        return "Unknown";
+        return t("profile.unknownStatus");
     }
   };
 
   if (authLoading || roomsLoading) {
-    return <Loading message="Loading profile..." />;
+    return <Loading message={t("profile.loading")} />;
   }
 
   if (!user) {
-    return <ErrorMessage message="User not found" />;
+    return <ErrorMessage message={t("profile.notFound")} />;
   }
 
   const stats = {
@@ -162,7 +183,7 @@ const Profile: React.FC = () => {
             mb: 4,
           }}
         >
-          👤 User Profile
+          👤 {t("profile.title")}
         </Typography>
 
         <ErrorMessage message={error} />
@@ -186,21 +207,57 @@ const Profile: React.FC = () => {
               }}
             >
               <Box sx={{ display: "flex", alignItems: "center", mb: 3 }}>
-                <Avatar
+                <Box
                   sx={{
-                    width: 120,
-                    height: 120,
-                    fontSize: "3rem",
-                    background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.secondary.main} 100%)`,
-                    boxShadow: `0 8px 25px ${alpha(
-                      theme.palette.primary.main,
-                      0.3
-                    )}`,
+                    display: "flex",
+                    flexDirection: "column",
+                    alignItems: "center",
                     mr: 3,
                   }}
                 >
-                  {user.username?.charAt(0).toUpperCase()}
-                </Avatar>
+                  <Badge
+                    overlap="circular"
+                    anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+                    badgeContent={
+                      <Tooltip title={t("profile.changeAvatar")}>
+                        <IconButton
+                          size="small"
+                          onClick={() => setAvatarEditorOpen(true)}
+                          aria-label={t("profile.changeAvatar")}
+                          sx={{
+                            bgcolor: "background.paper",
+                            boxShadow: 2,
+                            "&:hover": { bgcolor: "background.paper" },
+                          }}
+                        >
+                          <PhotoCameraIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    }
+                  >
+                    <UserAvatar
+                      user={user}
+                      size={120}
+                      sx={{
+                        boxShadow: `0 8px 25px ${alpha(
+                          theme.palette.primary.main,
+                          0.3
+                        )}`,
+                      }}
+                    />
+                  </Badge>
+                  {user.avatar && (
+                    <Button
+                      size="small"
+                      color="inherit"
+                      onClick={handleRemoveAvatar}
+                      disabled={removingAvatar}
+                      sx={{ mt: 1, color: "text.secondary" }}
+                    >
+                      {t("profile.removePhoto")}
+                    </Button>
+                  )}
+                </Box>
                 <Box sx={{ flex: 1 }}>
                   <Typography variant="h4" fontWeight={700} gutterBottom>
                     {user.username}
@@ -221,11 +278,15 @@ const Profile: React.FC = () => {
                   <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
                     <CalendarIcon color="action" />
                     <Typography variant="body2" color="text.secondary">
-                      Member since {formatDate(user.createdAt || new Date())}
+                      {t("profile.memberSince", {
+                        date: formatLongDate(user.createdAt || new Date()),
+                      })}
                     </Typography>
                   </Box>
                 </Box>
-                <Tooltip title={isEditing ? "Save changes" : "Edit profile"}>
+                <Tooltip
+                  title={isEditing ? t("profile.save") : t("profile.edit")}
+                >
                   <IconButton
                     onClick={isEditing ? handleSave : handleEdit}
                     sx={{
@@ -241,7 +302,7 @@ const Profile: React.FC = () => {
                   </IconButton>
                 </Tooltip>
                 {isEditing && (
-                  <Tooltip title="Cancel">
+                  <Tooltip title={t("profile.cancel")}>
                     <IconButton
                       onClick={handleCancel}
                       sx={{
@@ -265,22 +326,22 @@ const Profile: React.FC = () => {
                     <Grid item xs={12} sm={6}>
                       <StyledTextField
                         fullWidth
-                        label="Username"
+                        label={t("profile.username")}
                         name="username"
                         value={editData.username}
                         onChange={handleChange}
-                        placeholder="Enter your username"
+                        placeholder={t("profile.usernamePlaceholder")}
                       />
                     </Grid>
                     <Grid item xs={12} sm={6}>
                       <StyledTextField
                         fullWidth
-                        label="Email"
+                        label={t("profile.email")}
                         name="email"
                         type="email"
                         value={editData.email}
                         onChange={handleChange}
-                        placeholder="Enter your email"
+                        placeholder={t("profile.emailPlaceholder")}
                       />
                     </Grid>
                     <Grid item xs={12}>
@@ -288,13 +349,31 @@ const Profile: React.FC = () => {
                         fullWidth
                         multiline
                         rows={3}
-                        label="Bio"
+                        label={t("profile.bio")}
                         name="bio"
                         value={editData.bio}
                         onChange={handleChange}
-                        placeholder="Tell us about yourself..."
+                        placeholder={t("profile.bioPlaceholder")}
                       />
                     </Grid>
+                    <Grid item xs={12} sm={6}>
+                      <StyledTextField
+                        select
+                        fullWidth
+                        label={t("profile.avatarFallback")}
+                        name="avatarFallback"
+                        value={editData.avatarFallback}
+                        onChange={handleChange}
+                        helperText={t("profile.avatarFallbackHelp")}
+                      >
+                        <MenuItem value="initials">
+                          {t("profile.avatarFallback.initials")}
+                        </MenuItem>
+                        <MenuItem value="identicon">
+                          {t("profile.avatarFallback.identicon")}
+                        </MenuItem>
+                      </StyledTextField>
+                    </Grid>
                   </Grid>
                 </Box>
               ) : (
@@ -343,7 +422,7 @@ const Profile: React.FC = () => {
                       {stats.totalRooms}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
-                      Total Rooms
+                      {t("profile.stats.total")}
                     </Typography>
                   </CardContent>
                 </Card>
@@ -379,7 +458,7 @@ const Profile: React.FC = () => {
                       {stats.liveRooms}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
-                      Live Rooms
+                      {t("profile.stats.live")}
                     </Typography>
                   </CardContent>
                 </Card>
@@ -408,7 +487,7 @@ const Profile: React.FC = () => {
                       {stats.scheduledRooms}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
-                      Scheduled
+                      {t("profile.stats.scheduled")}
                     </Typography>
                   </CardContent>
                 </Card>
@@ -441,7 +520,7 @@ const Profile: React.FC = () => {
                       {stats.closedRooms}
                     </Typography>
                     <Typography variant="body2" color="text.secondary">
-                      Closed
+                      {t("profile.stats.closed")}
                     </Typography>
                   </CardContent>
                 </Card>
@@ -471,7 +550,7 @@ const Profile: React.FC = () => {
                 gutterBottom
                 sx={{ mb: 3 }}
               >
-                🏠 My Rooms
+                🏠 {t("profile.myRooms")}
               </Typography>
 
               {userRooms && userRooms.length > 0 ? (
@@ -561,10 +640,10 @@ const Profile: React.FC = () => {
               ) : (
                 <Box textAlign="center" py={4}>
                   <Typography variant="h6" color="text.secondary" gutterBottom>
-                    No rooms created yet
+                    {t("profile.noRooms")}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
-                    Start by creating your first room!
+                    {t("profile.noRoomsHint")}
                   </Typography>
                 </Box>
               )}
@@ -572,6 +651,11 @@ const Profile: React.FC = () => {
           </Grid>
         </Grid>
       </Container>
+
+      <AvatarEditorDialog
+        open={avatarEditorOpen}
+        onClose={() => setAvatarEditorOpen(false)}
+      />
     </Box>
   );
 };
@@ -9,17 +9,27 @@ import {
   useTheme as useMuiTheme,
   alpha,
 } from "@mui/material";
-import { Link, useNavigate } from "react-router-dom";
+import {
+  Link,
+  Location,
+  useLocation,
+  useNavigate,
+  useSearchParams,
+} from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
+import { useI18n } from "../contexts/I18nContext";
 import ErrorMessage from "../components/common/ErrorMessage";
 import StyledCard from "../components/common/StyledCard";
 import StyledTextField from "../components/common/StyledTextField";
 import StyledButton from "../components/common/StyledButton";
 
 const Register: React.FC = () => {
+  // Emailed sign-up invites link here with the invited address filled in, so
+  // the invite is waiting once the account exists
+  const [searchParams] = useSearchParams();
   const [formData, setFormData] = useState({
     username: "",
-    email: "",
+    email: searchParams.get("email") || "",
     password: "",
     confirmPassword: "",
   });
@@ -31,9 +41,13 @@ const Register: React.FC = () => {
     confirmPassword: "",
   });
 
-  const { register, error, clearError } = useAuth();
+  const { register, error, clearError, takeReturnTo } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Passed along from Login so invite links survive signing up
+  const from = (location.state as { from?: Location } | null)?.from;
   const theme = useMuiTheme();
+  const { t } = useI18n();
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -48,38 +62,38 @@ const Register: React.FC = () => {
 
     // Validate username
     if (!formData.username.trim()) {
-      newErrors.username = "Username is required";
+      newErrors.username = t("register.usernameRequired");
       valid = false;
     } else if (formData.username.length < 3) {
-      newErrors.username = "Username must be at least 3 characters";
+      newErrors.username = t("register.usernameTooShort", { min: 3 });
       valid = false;
     }
 
     // Validate email
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!formData.email.trim()) {
-      newErrors.email = "Email is required";
+      newErrors.email = t("register.emailRequired");
       valid = false;
     } else if (!emailRegex.test(formData.email)) {
-      newErrors.email = "Please enter a valid email address";
+      newErrors.email = t("register.emailInvalid");
       valid = false;
     }
 
     // Validate password
     if (!formData.password) {
-      newErrors.password = "Password is required";
+      newErrors.password = t("auth.passwordRequired");
       valid = false;
     } else if (formData.password.length < 6) {
-      newErrors.password = "Password must be at least 6 characters";
+      newErrors.password = t("register.passwordTooShort", { min: 6 });
       valid = false;
     }
 
     // Validate confirm password
     if (!formData.confirmPassword) {
-      newErrors.confirmPassword = "Please confirm your password";
+      newErrors.confirmPassword = t("register.confirmRequired");
       valid = false;
     } else if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = "Passwords do not match";
+      newErrors.confirmPassword = t("register.passwordMismatch");
       valid = false;
     }
 
@@ -94,7 +108,10 @@ const Register: React.FC = () => {
 
     try {
       await register(formData);
-      navigate("/dashboard");
+      const returnTo =
+        takeReturnTo() ||
+        (from ? `${from.pathname}${from.search}${from.hash}` : null);
+      navigate(returnTo || "/dashboard", { replace: true });
     } catch (error) {
       // Error is handled by the auth context
     }
@@ -157,11 +174,11 @@ const Register: React.FC = () => {
                   mb: 2,
                 }}
               >
-                🎉 Join RoomLoop!
+                🎉 {t("register.title")}
               </Typography>
 
               <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                Fill in the details to join our community
+                {t("register.subtitle")}
               </Typography>
 
               <ErrorMessage message={error} />
@@ -176,7 +193,7 @@ const Register: React.FC = () => {
                   required
                   fullWidth
                   id="username"
-                  label="Username"
+                  label={t("register.username")}
                   name="username"
                   autoComplete="username"
                   autoFocus
@@ -190,7 +207,7 @@ const Register: React.FC = () => {
                   required
                   fullWidth
                   id="email"
-                  label="Email Address"
+                  label={t("register.email")}
                   name="email"
                   autoComplete="email"
                   value={formData.email}
@@ -203,7 +220,7 @@ const Register: React.FC = () => {
                   required
                   fullWidth
                   name="password"
-                  label="Password"
+                  label={t("auth.password")}
                   type="password"
                   id="password"
                   autoComplete="new-password"
@@ -217,7 +234,7 @@ const Register: React.FC = () => {
                   required
                   fullWidth
                   name="confirmPassword"
-                  label="Confirm Password"
+                  label={t("register.confirmPassword")}
                   type="password"
                   id="confirmPassword"
                   autoComplete="new-password"
@@ -246,13 +263,14 @@ const Register: React.FC = () => {
                     },
                   }}
                 >
-                  🎉 Sign Up
+                  🎉 {t("register.submit")}
                 </StyledButton>
                 <Grid container justifyContent="center">
                   <Grid item>
                     <MuiLink
                       component={Link}
                       to="/login"
+                      state={location.state}
                       variant="body2"
                       sx={{
                         textDecoration: "none",
@@ -263,7 +281,7 @@ const Register: React.FC = () => {
                         },
                       }}
                     >
-                      Already have an account? Sign in
+                      {t("register.toLogin")}
                     </MuiLink>
                   </Grid>
                 </Grid>
@@ -1,4 +1,10 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, {
+  useEffect,
+  useState,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
   Box,
@@ -15,41 +21,84 @@ import {
   ListItemText,
   TextField,
   IconButton,
-  Dialog,
-  DialogTitle,
-  DialogContent,
-  DialogActions,
   Menu,
-  MenuItem,
   Tooltip,
   CircularProgress,
+  Badge,
+  Alert,
+  Collapse,
+  Tabs,
+  Tab,
   useTheme,
 } from "@mui/material";
 import {
   Send as SendIcon,
-  ThumbUp as ThumbUpIcon,
   Share as ShareIcon,
   PersonAdd as PersonAddIcon,
   EmojiEmotions as EmojiIcon,
-  Favorite as HeartIcon,
-  ThumbDown as ThumbDownIcon,
-  SentimentVerySatisfied as SmileIcon,
-  Celebration as CelebrationIcon,
-  Info as InfoIcon,
   ErrorOutline as ErrorOutlineIcon,
   SmartToy as AIIcon,
+  EventAvailable as CalendarIcon,
+  VolumeOff as MutedIcon,
+  AttachFile as AttachFileIcon,
 } from "@mui/icons-material";
 import { useRoom } from "../contexts/RoomContext";
 import { useChat } from "../contexts/ChatContext";
 import { useAI } from "../contexts/AIContext";
-import { Message, Room, RoomStatus, RoomType } from "../types";
+import {
+  Attachment,
+  PresenceStatus,
+  Room,
+  RoomRole,
+  RoomStatus,
+  RoomType,
+  User,
+} from "../types";
 import Loading from "../components/common/Loading";
 import ErrorMessage from "../components/common/ErrorMessage";
+import UserAvatar from "../components/common/UserAvatar";
 import GridItem from "../components/common/GridItem";
 import { useAuth } from "../contexts/AuthContext";
 import RoomEndAlert from "../components/common/RoomEndAlert";
 import { alpha } from "@mui/material/styles";
-import { renderTextContent } from "../utils/textProcessing";
+import MessageList from "../components/chat/MessageList";
+import ThreadPanel from "../components/chat/ThreadPanel";
+import TypingIndicator from "../components/chat/TypingIndicator";
+import MentionSuggestions from "../components/chat/MentionSuggestions";
+import AttachmentUploader from "../components/chat/AttachmentUploader";
+import RoomFiles from "../components/chat/RoomFiles";
+import HostControls from "../components/room/HostControls";
+import ModerationMenu from "../components/room/ModerationMenu";
+import SlowModeControl from "../components/room/SlowModeControl";
+import ShareRoomDialog from "../components/room/ShareRoomDialog";
+import InviteDialog from "../components/room/InviteDialog";
+import InviteList from "../components/room/InviteList";
+import MembershipControls from "../components/room/MembershipControls";
+import RoomTiming from "../components/room/RoomTiming";
+import { formatCapacity } from "../utils/capacity";
+import { canModerate, getMemberRole, isMuted, userIdOf } from "../utils/roles";
+import {
+  calendarFileName,
+  createRoomCalendar,
+  downloadCalendar,
+} from "../utils/calendar";
+import { usePresence } from "../contexts/PresenceContext";
+import { useDateFormat } from "../contexts/PreferencesContext";
+import { useI18n } from "../contexts/I18nContext";
+import { useReadState } from "../contexts/ReadStateContext";
+import socketService from "../services/socket";
+import { isUndelivered } from "../services/outbox";
+import {
+  AI_MENTION,
+  MentionCandidate,
+  extractMentions,
+  getMentionQuery,
+  insertMention,
+  isAICommand,
+} from "../utils/mentions";
+
+// Most names shown in the mention picker at once
+const MAX_MENTION_SUGGESTIONS = 8;
 
 const RoomView: React.FC = () => {
   const { roomId } = useParams<{ roomId: string }>();
@@ -60,7 +109,6 @@ const RoomView: React.FC = () => {
     error: roomError,
     fetchRoomById,
     leaveRoom,
-    inviteUsers,
   } = useRoom();
   const {
     messages,
@@ -68,20 +116,61 @@ const RoomView: React.FC = () => {
     error: chatError,
     sendMessage,
     fetchMessages,
-    sendReaction,
+    fetchOlderMessages,
+    hasMoreMessages,
+    loadingOlderMessages,
+    retryMessage,
+    discardMessage,
+    threads,
+    threadLoading,
+    fetchThread,
+    toggleMessageReaction,
+    editMessage,
+    deleteMessage,
+    composer,
   } = useChat();
   const { user } = useAuth();
+  const { formatDateTime } = useDateFormat();
+  const { t } = useI18n();
+  const { typingUsers, getPresence, notifyTyping, stopTyping } = usePresence();
+  const {
+    loaded: readStatesLoaded,
+    getLastReadMessageId,
+    markRead,
+  } = useReadState();
   const { sendMessage: sendAIMessage, isAvailable: aiAvailable } = useAI();
   const [messageText, setMessageText] = useState("");
+  const composerRef = useRef<HTMLInputElement>(null);
+  // Partial "@name" being typed in the composer, if any
+  const [mentionQuery, setMentionQuery] = useState<{
+    query: string;
+    start: number;
+  } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
-  const [inviteUsernames, setInviteUsernames] = useState("");
-  const [inviteError, setInviteError] = useState("");
-  const [inviteLoading, setInviteLoading] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
   const [sendingMessage, setSendingMessage] = useState(false);
+  const [chatTab, setChatTab] = useState<"chat" | "files">("chat");
+  // Files uploaded for the message being written
+  const [attachOpen, setAttachOpen] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>(
+    []
+  );
+  const [attachmentsUploading, setAttachmentsUploading] = useState(false);
+  // Bumped to give the uploader a clean slate after sending
+  const [uploaderKey, setUploaderKey] = useState(0);
   const [roomEndDialogOpen, setRoomEndDialogOpen] = useState(false);
   const [redirectCountdown, setRedirectCountdown] = useState(5);
   const [bypassRedirect, setBypassRedirect] = useState(false);
   const [wasInLiveRoom, setWasInLiveRoom] = useState(false);
+  // Top-level message whose thread is open in the side panel
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // Read position when the room was opened, used to place the "new messages" divider
+  const [entryReadState, setEntryReadState] = useState<{
+    roomId: string;
+    lastReadMessageId: string | null;
+  } | null>(null);
+  const hasEntryReadState = entryReadState?.roomId === roomId;
 
   // Emoji menu state
   const [emojiMenuAnchor, setEmojiMenuAnchor] = useState<null | HTMLElement>(
@@ -89,31 +178,6 @@ const RoomView: React.FC = () => {
   );
   const emojiMenuOpen = Boolean(emojiMenuAnchor);
 
-  // Common emoji reactions
-  const commonEmojis = [
-    { emoji: "👍", label: "Thumbs Up", icon: <ThumbUpIcon fontSize="small" /> },
-    {
-      emoji: "❤️",
-      label: "Heart",
-      icon: <HeartIcon fontSize="small" color="error" />,
-    },
-    {
-      emoji: "👎",
-      label: "Thumbs Down",
-      icon: <ThumbDownIcon fontSize="small" />,
-    },
-    {
-      emoji: "😊",
-      label: "Smile",
-      icon: <SmileIcon fontSize="small" color="warning" />,
-    },
-    {
-      emoji: "🎉",
-      label: "Celebration",
-      icon: <CelebrationIcon fontSize="small" color="success" />,
-    },
-  ];
-
   const theme = useTheme();
 
   // Check if this is the first time viewing this specific closed room
@@ -238,20 +302,143 @@ const RoomView: React.FC = () => {
     }
   }, [roomId]); // Only re-run when roomId changes
 
+  // Participants that can be mentioned, excluding the current user
+  const mentionCandidates = useMemo<MentionCandidate[]>(() => {
+    const candidates: MentionCandidate[] = [];
+    (currentRoom?.participants || []).forEach((participant) => {
+      if (typeof participant !== "object" || !participant) return;
+      const participantId = userIdOf(participant);
+      if (!participantId || participantId === user?.id) return;
+      candidates.push({
+        userId: participantId,
+        username: participant.username,
+      });
+    });
+    return candidates;
+  }, [currentRoom?.participants, user?.id]);
+
+  const mentionSuggestions = useMemo<MentionCandidate[]>(() => {
+    if (!mentionQuery) return [];
+    const query = mentionQuery.query.toLowerCase();
+    const candidates = aiAvailable
+      ? [{ userId: AI_MENTION, username: AI_MENTION }, ...mentionCandidates]
+      : mentionCandidates;
+    return candidates
+      .filter((candidate) => candidate.username.toLowerCase().startsWith(query))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [mentionQuery, mentionCandidates, aiAvailable]);
+
+  const updateMentionQuery = (text: string, caret: number | null) => {
+    const next = caret === null ? null : getMentionQuery(text, caret);
+    setMentionQuery(next);
+    if (next?.query !== mentionQuery?.query) {
+      setMentionIndex(0);
+    }
+  };
+
+  const handleSelectMention = (candidate: MentionCandidate) => {
+    if (!mentionQuery) return;
+    const caret = composerRef.current?.selectionStart ?? messageText.length;
+    const next = insertMention(
+      messageText,
+      mentionQuery.start,
+      caret,
+      candidate.username
+    );
+    setMessageText(next.text);
+    setMentionQuery(null);
+    // Put the caret after the inserted name once the input has re-rendered
+    requestAnimationFrame(() => {
+      composerRef.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!mentionQuery || mentionSuggestions.length === 0) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setMentionIndex((index) => (index + 1) % mentionSuggestions.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setMentionIndex(
+          (index) =>
+            (index - 1 + mentionSuggestions.length) % mentionSuggestions.length
+        );
+        break;
+      case "Enter":
+      case "Tab":
+        e.preventDefault();
+        handleSelectMention(
+          mentionSuggestions[
+            Math.min(mentionIndex, mentionSuggestions.length - 1)
+          ]
+        );
+        break;
+      case "Escape":
+        e.preventDefault();
+        setMentionQuery(null);
+        break;
+    }
+  };
+
+  const handleMessageTextChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    setMessageText(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+    if (!roomId) return;
+    if (e.target.value) {
+      notifyTyping(roomId);
+    } else {
+      stopTyping(roomId);
+    }
+  };
+
+  const handleAttachmentsChange = useCallback(
+    (attachments: Attachment[], uploading: boolean) => {
+      setPendingAttachments(attachments);
+      setAttachmentsUploading(uploading);
+    },
+    []
+  );
+
+  const clearAttachments = () => {
+    setPendingAttachments([]);
+    setAttachmentsUploading(false);
+    setUploaderKey((key) => key + 1);
+    setAttachOpen(false);
+  };
+
+  // A message may be text, files or both, but not while files are uploading
+  const canSubmitMessage =
+    (!!messageText.trim() || pendingAttachments.length > 0) &&
+    !attachmentsUploading;
+
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (messageText.trim() && roomId) {
+    if (canSubmitMessage && roomId && composer.canSend) {
+      stopTyping(roomId);
+      setMentionQuery(null);
+      const mentions = extractMentions(messageText, mentionCandidates);
+      const attachments = pendingAttachments.length
+        ? pendingAttachments
+        : undefined;
+      if (attachments) clearAttachments();
+
       // Check if this is an AI command
-      const isAICommand = messageText.trim().startsWith("@ai");
+      const isAIRequest = isAICommand(messageText);
 
-      if (isAICommand && aiAvailable) {
+      if (isAIRequest && aiAvailable) {
         // Handle AI command
         setSendingMessage(true);
         const aiQuery = messageText.trim().substring(4).trim(); // Remove '@ai ' prefix
 
         if (aiQuery) {
           // Send the AI command as a regular message first
-          sendMessage(roomId, messageText)
+          sendMessage(roomId, messageText, { mentions, attachments })
             .then(() => {
               setMessageText("");
 
@@ -317,7 +504,7 @@ const RoomView: React.FC = () => {
           setMessageText("");
           setSendingMessage(false);
         }
-      } else if (isAICommand && !aiAvailable) {
+      } else if (isAIRequest && !aiAvailable) {
         // AI not available
         sendMessage(
           roomId,
@@ -326,114 +513,130 @@ const RoomView: React.FC = () => {
         setMessageText("");
         setSendingMessage(false);
       } else {
-        // Regular message
-        setSendingMessage(true);
-        sendMessage(roomId, messageText)
-          .then(() => {
-            setMessageText("");
-          })
-          .catch((error) => {
-            console.error("Error sending message:", error);
-          })
-          .finally(() => {
-            setSendingMessage(false);
-          });
+        // Regular message - queued in the outbox and shown optimistically
+        sendMessage(roomId, messageText, { mentions, attachments });
+        setMessageText("");
       }
     }
   };
 
-  const handleSendReaction = () => {
-    if (roomId) {
-      sendReaction(roomId, "👍");
-    }
-  };
-
-  // Handle opening emoji menu
-  const handleOpenEmojiMenu = (event: React.MouseEvent<HTMLElement>) => {
-    setEmojiMenuAnchor(event.currentTarget);
-  };
+  // Leave the page if the host deletes the room while it's open
+  useEffect(() => {
+    if (!roomId) return;
+    return socketService.on("room_deleted", (data) => {
+      if (data.roomId === roomId) {
+        navigate("/dashboard", { replace: true });
+      }
+    });
+  }, [roomId, navigate]);
 
-  // Handle closing emoji menu
-  const handleCloseEmojiMenu = () => {
-    setEmojiMenuAnchor(null);
-  };
+  // ...or if a moderator removes the user from it
+  useEffect(() => {
+    if (!roomId || !user?.id) return;
+    return socketService.on("member_removed", (data) => {
+      if (data.roomId === roomId && data.userId === user.id) {
+        navigate("/dashboard", { replace: true });
+      }
+    });
+  }, [roomId, user?.id, navigate]);
 
-  // Handle selecting an emoji
-  const handleSelectEmoji = (emoji: string) => {
+  const handleLoadOlderMessages = useCallback(() => {
     if (roomId) {
-      sendReaction(roomId, emoji);
-      handleCloseEmojiMenu();
+      fetchOlderMessages(roomId);
     }
-  };
+  }, [roomId, fetchOlderMessages]);
 
-  // Handle inserting emoji into text
-  const handleInsertEmoji = (emoji: string) => {
-    setMessageText((prevText) => prevText + emoji);
-    handleCloseEmojiMenu();
-  };
-
-  const handleOpenInviteDialog = () => {
-    setInviteDialogOpen(true);
-    setInviteUsernames("");
-    setInviteError("");
-  };
-
-  const handleCloseInviteDialog = () => {
-    setInviteDialogOpen(false);
-  };
+  // Remember where the user left off before marking anything as read
+  useEffect(() => {
+    if (roomId && readStatesLoaded && !hasEntryReadState) {
+      setEntryReadState({
+        roomId,
+        lastReadMessageId: getLastReadMessageId(roomId),
+      });
+    }
+  }, [roomId, readStatesLoaded, hasEntryReadState, getLastReadMessageId]);
 
-  const handleInviteUsers = async () => {
-    if (!roomId || !inviteUsernames.trim()) return;
+  // Mark the newest delivered message as read while the room is on screen
+  useEffect(() => {
+    if (!roomId || !hasEntryReadState) return;
+
+    const markLatestRead = () => {
+      if (document.hidden) return;
+      const latest = [...messages]
+        .reverse()
+        .find((message) => !isUndelivered(message));
+      if (latest) {
+        markRead(roomId, latest._id);
+      }
+    };
 
-    setInviteLoading(true);
-    setInviteError("");
+    markLatestRead();
+    document.addEventListener("visibilitychange", markLatestRead);
+    return () => {
+      document.removeEventListener("visibilitychange", markLatestRead);
+    };
+  }, [roomId, hasEntryReadState, messages, markRead]);
 
-    try {
-      // Split by commas, then trim each username and filter out empty strings
-      const usernameArray = inviteUsernames
-        .split(",")
-        .map((username) => username.trim())
-        .filter((username) => username.length > 0);
+  const handleOpenThread = useCallback(
+    (messageId: string) => {
+      setActiveThreadId(messageId);
+      if (roomId) {
+        fetchThread(roomId, messageId);
+      }
+    },
+    [roomId, fetchThread]
+  );
 
-      if (usernameArray.length === 0) {
-        setInviteError("Please enter at least one valid username");
-        setInviteLoading(false);
-        return;
+  const handleToggleReaction = useCallback(
+    (messageId: string, emoji: string) => {
+      if (roomId) {
+        toggleMessageReaction(roomId, messageId, emoji);
       }
+    },
+    [roomId, toggleMessageReaction]
+  );
 
-      // Check if host is trying to invite themselves
-      if (user && usernameArray.includes(user.username)) {
-        setInviteError(
-          "You cannot invite yourself as you are already the host of this room"
-        );
-        setInviteLoading(false);
-        return;
+  const handleEditMessage = useCallback(
+    (messageId: string, content: string) => {
+      if (roomId) {
+        editMessage(roomId, messageId, content);
       }
+    },
+    [roomId, editMessage]
+  );
 
-      await inviteUsers(roomId, usernameArray);
-      setInviteDialogOpen(false);
+  const handleDeleteMessage = useCallback(
+    (messageId: string) => {
+      if (roomId) {
+        deleteMessage(roomId, messageId);
+      }
+    },
+    [roomId, deleteMessage]
+  );
 
-      // Refresh room data to show newly invited users
-      await fetchRoomById(roomId);
-    } catch (error: any) {
-      setInviteError(
-        error.response?.data?.message ||
-          error.message ||
-          "Failed to invite users"
-      );
-    } finally {
-      setInviteLoading(false);
+  const handleSendReply = (content: string) => {
+    if (roomId && activeThreadId) {
+      sendMessage(roomId, content, {
+        parentId: activeThreadId,
+        mentions: extractMentions(content, mentionCandidates),
+      });
     }
   };
 
-  const formatDateTime = (dateString: string | Date) => {
-    const date = new Date(dateString);
-    return date.toLocaleString();
+  // Handle opening emoji menu
+  const handleOpenEmojiMenu = (event: React.MouseEvent<HTMLElement>) => {
+    setEmojiMenuAnchor(event.currentTarget);
+  };
+
+  // Handle closing emoji menu
+  const handleCloseEmojiMenu = () => {
+    setEmojiMenuAnchor(null);
   };
 
-  const formatChatTime = (dateString: string | Date) => {
-    const date = new Date(dateString);
-    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  // Handle inserting emoji into text
+  const handleInsertEmoji = (emoji: string) => {
+    setMessageText((prevText) => prevText + emoji);
+    handleCloseEmojiMenu();
   };
 
   // Handle user choosing to view the closed room
@@ -461,16 +664,17 @@ const RoomView: React.FC = () => {
     navigate("/dashboard");
   }, [navigate]);
 
-  if (roomLoading) return <Loading message="Loading room details..." />;
-  if (!currentRoom) return <ErrorMessage message="Room not found" />;
-  if (!user) return <ErrorMessage message="Please log in to view this room" />;
+  if (roomLoading) return <Loading message={t("roomView.loading")} />;
+  if (!currentRoom) return <ErrorMessage message={t("roomView.notFound")} />;
+  if (!user) return <ErrorMessage message={t("roomView.signInRequired")} />;
 
   // Additional safety check for room data
   if (!currentRoom.participants) currentRoom.participants = [];
   if (!currentRoom.invitedUsers) currentRoom.invitedUsers = [];
 
   const isLive = currentRoom.status === RoomStatus.LIVE;
-  const isPast = currentRoom.status === RoomStatus.CLOSED;
+  const isCancelled = currentRoom.status === RoomStatus.CANCELLED;
+  const isPast = currentRoom.status === RoomStatus.CLOSED || isCancelled;
   const isPrivate = currentRoom.roomType === RoomType.PRIVATE;
   const isCreator =
     user &&
@@ -482,7 +686,16 @@ const RoomView: React.FC = () => {
     typeof currentRoom.creator === "object" &&
     currentRoom.creator.username
       ? currentRoom.creator.username
-      : "Unknown Host";
+      : t("roomView.unknownHost");
+  // The user's own entries follow their profile as soon as it changes
+  const memberProfile = (member: User | string, username: string) =>
+    userIdOf(member) === user.id
+      ? user
+      : typeof member === "object" && member
+      ? member
+      : { username };
+  const myRole = getMemberRole(currentRoom, user.id);
+  const isModerator = canModerate(myRole);
   // Only show invite button if it's a private room and user is the creator
   const showInviteButton = isPrivate && isCreator && !isPast;
   // console.log(
@@ -583,19 +796,11 @@ const RoomView: React.FC = () => {
                   mr: 2,
                 }}
               >
-                <Avatar
-                  sx={{
-                    width: 32,
-                    height: 32,
-                    background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.secondary.main} 100%)`,
-                    fontSize: "1rem",
-                    fontWeight: 600,
-                    mr: 1.5,
-                    boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
-                  }}
-                >
-                  {creatorName.charAt(0).toUpperCase()}
-                </Avatar>
+                <UserAvatar
+                  user={memberProfile(currentRoom.creator, creatorName)}
+                  size={32}
+                  sx={{ mr: 1.5, boxShadow: "0 4px 12px rgba(0,0,0,0.15)" }}
+                />
                 <Typography
                   variant="body1"
                   sx={{
@@ -604,11 +809,13 @@ const RoomView: React.FC = () => {
                     fontSize: "0.95rem",
                   }}
                 >
-                  Hosted by {creatorName}
+                  {t("roomView.hostedBy", { name: creatorName })}
                 </Typography>
               </Box>
               <Chip
-                label={currentRoom.status.toUpperCase()}
+                label={t("room.status", {
+                  status: currentRoom.status,
+                }).toUpperCase()}
                 color={isLive ? "success" : isPast ? "default" : "primary"}
                 size="medium"
                 sx={{
@@ -624,7 +831,7 @@ const RoomView: React.FC = () => {
               />
               {isCreator && (
                 <Chip
-                  label="YOU ARE HOST"
+                  label={t("room.youAreHost")}
                   color="secondary"
                   size="medium"
                   variant="outlined"
@@ -661,10 +868,27 @@ const RoomView: React.FC = () => {
               },
             }}
           >
-            ← Back
+            {t("roomView.back")}
           </Button>
         </Box>
 
+        {isCancelled && (
+          <Alert severity="warning" sx={{ mb: 2, borderRadius: 2 }}>
+            {currentRoom.cancellationReason
+              ? t("roomView.cancelledWithReason", {
+                  reason: currentRoom.cancellationReason,
+                })
+              : t("roomView.cancelled")}
+          </Alert>
+        )}
+
+        {isCreator && (
+          <HostControls
+            room={currentRoom}
+            onDeleted={() => navigate("/dashboard", { replace: true })}
+          />
+        )}
+
         <Divider sx={{ mb: 2 }} />
 
         <Grid container spacing={3}>
@@ -685,7 +909,7 @@ const RoomView: React.FC = () => {
                   WebkitTextFillColor: "transparent",
                 }}
               >
-                📋 Room Details
+                {t("roomView.details")}
               </Typography>
               <Paper
                 elevation={0}
@@ -720,7 +944,7 @@ const RoomView: React.FC = () => {
                           mr: 1,
                         }}
                       />
-                      <strong>Start Time:</strong>{" "}
+                      <strong>{t("room.startTime")}</strong>{" "}
                       {formatDateTime(currentRoom.startTime)}
                     </Typography>
                   </GridItem>
@@ -740,7 +964,7 @@ const RoomView: React.FC = () => {
                           mr: 1,
                         }}
                       />
-                      <strong>End Time:</strong>{" "}
+                      <strong>{t("room.endTime")}</strong>{" "}
                       {formatDateTime(currentRoom.endTime)}
                     </Typography>
                   </GridItem>
@@ -760,9 +984,9 @@ const RoomView: React.FC = () => {
                           mr: 1,
                         }}
                       />
-                      <strong>Room Type:</strong>{" "}
+                      <strong>{t("room.roomType")}</strong>{" "}
                       <Chip
-                        label={currentRoom.roomType}
+                        label={t("room.type", { type: currentRoom.roomType })}
                         size="small"
                         color={isPrivate ? "secondary" : "default"}
                         sx={{ ml: 1, height: 20, fontSize: "0.7rem" }}
@@ -785,7 +1009,7 @@ const RoomView: React.FC = () => {
                           mr: 1,
                         }}
                       />
-                      <strong>Room Code:</strong>{" "}
+                      <strong>{t("room.code")}</strong>{" "}
                       <Chip
                         label={currentRoom.code}
                         size="small"
@@ -795,6 +1019,9 @@ const RoomView: React.FC = () => {
                       />
                     </Typography>
                   </GridItem>
+                  <GridItem xs={12}>
+                    <RoomTiming room={currentRoom} />
+                  </GridItem>
                 </Grid>
               </Paper>
             </Box>
@@ -806,7 +1033,7 @@ const RoomView: React.FC = () => {
                   fontWeight="medium"
                   gutterBottom
                 >
-                  Tags
+                  {t("roomView.tags")}
                 </Typography>
                 <Paper
                   elevation={0}
@@ -840,35 +1067,12 @@ const RoomView: React.FC = () => {
             )}
 
             <Box sx={{ mt: 4, display: "flex", gap: 2, flexWrap: "wrap" }}>
-              {isLive && (
-                <Button
-                  variant="contained"
-                  color="primary"
-                  startIcon={<ThumbUpIcon />}
-                  onClick={handleSendReaction}
-                  sx={{
-                    borderRadius: 3,
-                    px: 3,
-                    py: 1.5,
-                    fontWeight: 600,
-                    background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.secondary.main} 100%)`,
-                    boxShadow: "0 6px 20px rgba(0,0,0,0.15)",
-                    transition: "all 0.3s ease",
-                    "&:hover": {
-                      transform: "translateY(-2px)",
-                      boxShadow: "0 8px 25px rgba(0,0,0,0.2)",
-                    },
-                  }}
-                >
-                  🎉 React
-                </Button>
-              )}
               {showInviteButton && (
                 <Button
                   variant="contained"
                   color="secondary"
                   startIcon={<PersonAddIcon />}
-                  onClick={handleOpenInviteDialog}
+                  onClick={() => setInviteDialogOpen(true)}
                   sx={{
                     borderRadius: 3,
                     px: 3,
@@ -883,18 +1087,43 @@ const RoomView: React.FC = () => {
                     },
                   }}
                 >
-                  👥 Invite Users
+                  {t("roomView.invite")}
                 </Button>
               )}
               <Button
                 variant="outlined"
                 startIcon={<ShareIcon />}
+                onClick={() => setShareOpen(true)}
+                sx={{
+                  borderRadius: "8px",
+                }}
+              >
+                {t("roomView.share")}
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<CalendarIcon />}
+                onClick={() =>
+                  downloadCalendar(
+                    calendarFileName(currentRoom.title),
+                    createRoomCalendar(currentRoom)
+                  )
+                }
                 sx={{
                   borderRadius: "8px",
                 }}
               >
-                Share
+                {isCancelled
+                  ? t("roomView.removeFromCalendar")
+                  : t("roomView.addToCalendar")}
               </Button>
+              {!isCreator && !isPast && (
+                <MembershipControls
+                  room={currentRoom}
+                  userId={user.id}
+                  onLeft={() => navigate("/dashboard", { replace: true })}
+                />
+              )}
             </Box>
           </GridItem>
 
@@ -919,10 +1148,10 @@ const RoomView: React.FC = () => {
                 }}
               >
                 <Typography variant="h6" gutterBottom sx={{ mb: 0 }}>
-                  Participants
+                  {t("room.participants")}
                 </Typography>
                 <Chip
-                  label={currentRoom.participants.length}
+                  label={formatCapacity(currentRoom)}
                   color="primary"
                   size="small"
                   sx={{ borderRadius: "12px", fontWeight: "bold" }}
@@ -937,14 +1166,27 @@ const RoomView: React.FC = () => {
                     const username =
                       typeof participant === "object" && participant
                         ? participant.username
-                        : "Unknown";
+                        : t("roomView.unknownUser");
+                    const participantId = userIdOf(participant);
+                    const presence = getPresence(participantId);
                     const isRoomCreator =
                       typeof currentRoom.creator === "object" &&
                       currentRoom.creator &&
                       currentRoom.creator.username === username;
+                    const role = getMemberRole(currentRoom, participantId);
+                    const muted = isMuted(currentRoom, participantId);
                     return (
                       <ListItem
                         key={index}
+                        secondaryAction={
+                          isModerator && isLive && participantId !== user.id ? (
+                            <ModerationMenu
+                              room={currentRoom}
+                              member={{ userId: participantId, username }}
+                              actorRole={myRole}
+                            />
+                          ) : undefined
+                        }
                         sx={{
                           borderRadius: 1,
                           mb: 0.5,
@@ -954,16 +1196,41 @@ const RoomView: React.FC = () => {
                         }}
                       >
                         <ListItemAvatar>
-                          <Avatar
+                          <Badge
+                            overlap="circular"
+                            variant="dot"
+                            anchorOrigin={{
+                              vertical: "bottom",
+                              horizontal: "right",
+                            }}
+                            aria-label={t("roomView.presence", {
+                              name: username,
+                              status: presence,
+                            })}
                             sx={{
-                              bgcolor: isRoomCreator
-                                ? "primary.main"
-                                : "grey.400",
-                              color: "#fff",
+                              "& .MuiBadge-badge": {
+                                bgcolor:
+                                  presence === PresenceStatus.ONLINE
+                                    ? "success.main"
+                                    : presence === PresenceStatus.AWAY
+                                    ? "warning.main"
+                                    : "grey.400",
+                                boxShadow: `0 0 0 2px ${theme.palette.background.paper}`,
+                              },
                             }}
                           >
-                            {username.charAt(0).toUpperCase()}
-                          </Avatar>
+                            <UserAvatar
+                              user={memberProfile(participant, username)}
+                              sx={
+                                isRoomCreator
+                                  ? {
+                                      outline: `2px solid ${theme.palette.primary.main}`,
+                                      outlineOffset: 1,
+                                    }
+                                  : undefined
+                              }
+                            />
+                          </Badge>
                         </ListItemAvatar>
                         <ListItemText
                           primary={
@@ -972,14 +1239,30 @@ const RoomView: React.FC = () => {
                               sx={{ display: "flex", alignItems: "center" }}
                             >
                               {username}
-                              {isRoomCreator && (
+                              {role !== RoomRole.PARTICIPANT && (
                                 <Chip
-                                  label="Host"
+                                  label={t("room.role", { role })}
                                   size="small"
-                                  color="primary"
+                                  color={
+                                    role === RoomRole.LISTENER
+                                      ? "default"
+                                      : isRoomCreator
+                                      ? "primary"
+                                      : "secondary"
+                                  }
                                   sx={{ ml: 1, height: 18, fontSize: "0.6rem" }}
                                 />
                               )}
+                              {muted && (
+                                <Tooltip title={t("roomView.muted")}>
+                                  <MutedIcon
+                                    fontSize="inherit"
+                                    color="action"
+                                    aria-label={t("roomView.muted")}
+                                    sx={{ ml: 0.5 }}
+                                  />
+                                </Tooltip>
+                              )}
                             </Box>
                           }
                         />
@@ -997,246 +1280,28 @@ const RoomView: React.FC = () => {
                     }}
                   >
                     <Typography variant="body2" color="text.secondary">
-                      No participants yet
+                      {t("room.noParticipants")}
                     </Typography>
                   </Box>
                 )}
               </List>
-              {/* Show invited users for private rooms */}
-              {isPrivate &&
-                currentRoom.invitedUsers &&
-                currentRoom.invitedUsers.length > 0 && (
-                  <Paper
-                    elevation={2}
-                    sx={{
-                      p: 2,
-                      mt: 2,
-                      display: "flex",
-                      flexDirection: "column",
-                      borderRadius: 2,
-                      border: "1px solid rgba(0, 0, 0, 0.05)",
-                    }}
-                  >
-                    <Box
-                      sx={{
-                        display: "flex",
-                        alignItems: "center",
-                        justifyContent: "space-between",
-                        mb: 1,
-                      }}
-                    >
-                      <Typography variant="h6" gutterBottom sx={{ mb: 0 }}>
-                        Invited
-                      </Typography>
-                      <Chip
-                        label={currentRoom.invitedUsers.length}
-                        color="secondary"
-                        size="small"
-                        sx={{ borderRadius: "12px", fontWeight: "bold" }}
-                      />
-                    </Box>
-                    <Divider sx={{ mb: 2 }} />
-
-                    <List sx={{ overflow: "auto", maxHeight: 150 }}>
-                      {currentRoom.invitedUsers.map((invitedUser, index) => {
-                        const username =
-                          typeof invitedUser === "object" && invitedUser
-                            ? invitedUser.username
-                            : "Unknown";
-                        return (
-                          <ListItem
-                            key={index}
-                            sx={{
-                              borderRadius: 1,
-                              mb: 0.5,
-                              backgroundColor: "rgba(0, 0, 0, 0.01)",
-                            }}
-                          >
-                            <ListItemAvatar>
-                              <Avatar sx={{ bgcolor: "grey.300" }}>
-                                {username.charAt(0).toUpperCase()}
-                              </Avatar>
-                            </ListItemAvatar>
-                            <ListItemText
-                              primary={username}
-                              secondary={
-                                <Typography
-                                  variant="caption"
-                                  color="text.secondary"
-                                  sx={{
-                                    display: "flex",
-                                    alignItems: "center",
-                                    fontSize: "0.7rem",
-                                  }}
-                                >
-                                  Awaiting response
-                                </Typography>
-                              }
-                            />
-                          </ListItem>
-                        );
-                      })}
-                    </List>
-                  </Paper>
-                )}
+              {isCreator && <InviteList room={currentRoom} />}
             </Paper>
           </GridItem>
         </Grid>
       </Paper>
 
-      {/* Invite Users Dialog */}
-      <Dialog
+      <ShareRoomDialog
+        room={currentRoom}
+        open={shareOpen}
+        onClose={() => setShareOpen(false)}
+      />
+
+      <InviteDialog
+        room={currentRoom}
         open={inviteDialogOpen}
-        onClose={handleCloseInviteDialog}
-        PaperProps={{
-          sx: {
-            borderRadius: 2,
-            minWidth: 400,
-            maxWidth: "90vw",
-          },
-        }}
-      >
-        <DialogTitle
-          sx={{
-            pb: 1,
-            borderBottom: "1px solid rgba(0, 0, 0, 0.1)",
-            display: "flex",
-            alignItems: "center",
-          }}
-        >
-          <PersonAddIcon
-            sx={{ mr: 1, color: "secondary.main" }}
-            fontSize="small"
-          />
-          Invite Users to Room
-        </DialogTitle>
-        <DialogContent sx={{ mt: 2 }}>
-          <Typography variant="body2" sx={{ mb: 2 }}>
-            Enter usernames separated by commas to invite users to "
-            {currentRoom.title}".
-          </Typography>
-          <TextField
-            fullWidth
-            label="Usernames"
-            placeholder="e.g., user1, user2, user3"
-            value={inviteUsernames}
-            onChange={(e) => setInviteUsernames(e.target.value)}
-            error={!!inviteError}
-            helperText={
-              inviteError ||
-              "Make sure to enter existing usernames. You cannot invite yourself."
-            }
-            disabled={inviteLoading}
-            multiline
-            rows={2}
-            InputProps={{
-              sx: {
-                borderRadius: 1,
-              },
-            }}
-            sx={{ mb: 1 }}
-          />
-          {inviteError && (
-            <Box
-              sx={{
-                display: "flex",
-                alignItems: "center",
-                p: 2,
-                borderRadius: 2,
-                bgcolor: alpha(theme.palette.error.main, 0.1),
-                border: `1px solid ${alpha(theme.palette.error.main, 0.3)}`,
-                color:
-                  theme.palette.mode === "dark"
-                    ? theme.palette.error.light
-                    : theme.palette.error.dark,
-                mb: 2,
-                boxShadow: "0 2px 6px rgba(0,0,0,0.08)",
-              }}
-            >
-              <ErrorOutlineIcon
-                fontSize="small"
-                sx={{ mr: 1, color: "error.main" }}
-              />
-              <Typography variant="body2" fontWeight="medium">
-                {inviteError}
-              </Typography>
-            </Box>
-          )}
-          {isPrivate ? (
-            <Box
-              sx={{
-                display: "flex",
-                alignItems: "center",
-                p: 2,
-                borderRadius: 1.5,
-                bgcolor: alpha(theme.palette.secondary.main, 0.12),
-                border: `1px solid ${alpha(theme.palette.secondary.main, 0.3)}`,
-                color:
-                  theme.palette.mode === "dark"
-                    ? theme.palette.secondary.light
-                    : theme.palette.secondary.dark,
-                mb: 2,
-                boxShadow: "0 2px 4px rgba(0,0,0,0.05)",
-              }}
-            >
-              <InfoIcon
-                fontSize="small"
-                sx={{ mr: 1.5, color: "secondary.main" }}
-              />
-              <Typography fontWeight="medium">
-                This is a private room. Only invited users can join.
-              </Typography>
-            </Box>
-          ) : (
-            <Box
-              sx={{
-                display: "flex",
-                alignItems: "center",
-                p: 2,
-                borderRadius: 1.5,
-                bgcolor: alpha(theme.palette.info.main, 0.12),
-                border: `1px solid ${alpha(theme.palette.info.main, 0.3)}`,
-                color:
-                  theme.palette.mode === "dark"
-                    ? theme.palette.info.light
-                    : theme.palette.info.dark,
-                mb: 2,
-                boxShadow: "0 2px 4px rgba(0,0,0,0.05)",
-              }}
-            >
-              <InfoIcon fontSize="small" sx={{ mr: 1.5, color: "info.main" }} />
-              <Typography fontWeight="medium">
-                This is a public room. Anyone with the link can join, but
-                invitations help users find it.
-              </Typography>
-            </Box>
-          )}
-        </DialogContent>
-        <DialogActions
-          sx={{ px: 3, py: 2, borderTop: "1px solid rgba(0, 0, 0, 0.05)" }}
-        >
-          <Button
-            onClick={handleCloseInviteDialog}
-            disabled={inviteLoading}
-            sx={{ borderRadius: "8px" }}
-          >
-            Cancel
-          </Button>
-          <Button
-            onClick={handleInviteUsers}
-            color="primary"
-            variant="contained"
-            disabled={inviteLoading || !inviteUsernames.trim()}
-            sx={{
-              borderRadius: "8px",
-              boxShadow: "0 2px 4px rgba(0,0,0,0.1)",
-              px: 3,
-            }}
-          >
-            {inviteLoading ? "Sending Invites..." : "Invite"}
-          </Button>
-        </DialogActions>
-      </Dialog>
+        onClose={() => setInviteDialogOpen(false)}
+      />
 
       {/* Chat section - Modified to work for both live and closed rooms */}
       <Paper
@@ -1282,7 +1347,7 @@ const RoomView: React.FC = () => {
               variant="subtitle1"
               sx={{ fontWeight: "medium", lineHeight: 1.2 }}
             >
-              {isPast ? "Chat History" : "Live Chat"}
+              {isPast ? t("roomChat.history") : t("roomChat.live")}
             </Typography>
             <Box sx={{ display: "flex", alignItems: "center" }}>
               <Box
@@ -1297,28 +1362,33 @@ const RoomView: React.FC = () => {
                 }}
               />
               <Typography variant="caption" sx={{ opacity: 0.9 }}>
-                {isPast ? "closed" : "online"}
+                {isPast ? t("roomChat.closed") : t("roomChat.online")}
+                {isLive &&
+                  !!currentRoom.slowModeSeconds &&
+                  t("roomChat.slowMode", {
+                    seconds: currentRoom.slowModeSeconds,
+                  })}
               </Typography>
             </Box>
           </Box>
 
-          {/* Add reactions button for both live and closed rooms */}
-          <Box sx={{ marginLeft: "auto" }}>
-            <IconButton
-              size="small"
-              onClick={handleOpenEmojiMenu}
-              sx={{
-                color: "white",
-                "&:hover": {
-                  backgroundColor: "rgba(255, 255, 255, 0.1)",
-                },
-              }}
-            >
-              <EmojiIcon fontSize="small" />
-            </IconButton>
-          </Box>
+          {isLive && isModerator && (
+            <Box sx={{ marginLeft: "auto" }}>
+              <SlowModeControl room={currentRoom} />
+            </Box>
+          )}
         </Box>
 
+        <Tabs
+          value={chatTab}
+          onChange={(_, value) => setChatTab(value)}
+          variant="fullWidth"
+          sx={{ borderBottom: 1, borderColor: "divider" }}
+        >
+          <Tab label={t("roomChat.chatTab")} value="chat" />
+          <Tab label={t("roomChat.filesTab")} value="files" />
+        </Tabs>
+
         {chatError && (
           <Box
             sx={{
@@ -1342,208 +1412,140 @@ const RoomView: React.FC = () => {
           </Box>
         )}
 
-        <Box
-          sx={{
-            height: 400,
-            overflow: "auto",
-            py: 3,
-            px: 2,
-            background: `linear-gradient(135deg, ${alpha(
-              theme.palette.primary.main,
-              0.03
-            )} 0%, ${alpha(theme.palette.secondary.main, 0.03)} 100%)`,
-            backgroundImage: `radial-gradient(circle at 20% 80%, ${alpha(
-              theme.palette.primary.main,
-              0.05
-            )} 0%, transparent 50%),
+        {chatTab === "files" ? (
+          <RoomFiles roomId={currentRoom._id} />
+        ) : (
+          <Box
+            sx={{
+              height: 400,
+              overflow: "hidden",
+              py: 3,
+              px: 2,
+              background: `linear-gradient(135deg, ${alpha(
+                theme.palette.primary.main,
+                0.03
+              )} 0%, ${alpha(theme.palette.secondary.main, 0.03)} 100%)`,
+              backgroundImage: `radial-gradient(circle at 20% 80%, ${alpha(
+                theme.palette.primary.main,
+                0.05
+              )} 0%, transparent 50%),
                               radial-gradient(circle at 80% 20%, ${alpha(
                                 theme.palette.secondary.main,
                                 0.05
                               )} 0%, transparent 50%)`,
-            borderRadius: 0,
-            display: "flex",
-            flexDirection: "column",
-            position: "relative",
-            "&::before": {
-              content: '""',
-              position: "absolute",
-              top: 0,
-              left: 0,
-              right: 0,
-              bottom: 0,
-              background:
-                'url(\'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><defs><pattern id="grain" width="100" height="100" patternUnits="userSpaceOnUse"><circle cx="50" cy="50" r="1" fill="rgba(255,255,255,0.1)"/></pattern></defs><rect width="100" height="100" fill="url(%23grain)"/></svg>\')',
-              opacity: 0.3,
-              pointerEvents: "none",
-            },
-          }}
-        >
-          {messages.length === 0 ? (
-            <Box
-              sx={{
-                display: "flex",
-                flexDirection: "column",
-                alignItems: "center",
-                justifyContent: "center",
-                height: "100%",
-                backgroundColor: "rgba(255, 255, 255, 0.7)",
-                borderRadius: 4,
-                padding: 3,
-                margin: "auto",
-                maxWidth: "70%",
-                boxShadow: "0 1px 3px rgba(0, 0, 0, 0.08)",
-              }}
-            >
-              <Typography
-                align="center"
-                color="text.secondary"
-                fontWeight="medium"
+              borderRadius: 0,
+              display: "flex",
+              flexDirection: "column",
+              position: "relative",
+              "&::before": {
+                content: '""',
+                position: "absolute",
+                top: 0,
+                left: 0,
+                right: 0,
+                bottom: 0,
+                background:
+                  'url(\'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><defs><pattern id="grain" width="100" height="100" patternUnits="userSpaceOnUse"><circle cx="50" cy="50" r="1" fill="rgba(255,255,255,0.1)"/></pattern></defs><rect width="100" height="100" fill="url(%23grain)"/></svg>\')',
+                opacity: 0.3,
+                pointerEvents: "none",
+              },
+            }}
+          >
+            {messages.length === 0 ? (
+              <Box
+                sx={{
+                  display: "flex",
+                  flexDirection: "column",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  height: "100%",
+                  backgroundColor: "rgba(255, 255, 255, 0.7)",
+                  borderRadius: 4,
+                  padding: 3,
+                  margin: "auto",
+                  maxWidth: "70%",
+                  boxShadow: "0 1px 3px rgba(0, 0, 0, 0.08)",
+                }}
               >
-                {isPast
-                  ? "No messages were sent in this room."
-                  : "No messages yet. Start the conversation!"}
-              </Typography>
-              {isLive && (
                 <Typography
-                  variant="caption"
+                  align="center"
                   color="text.secondary"
-                  sx={{ mt: 1 }}
+                  fontWeight="medium"
                 >
-                  Be the first to send a message
+                  {isPast ? t("roomChat.emptyPast") : t("roomChat.empty")}
                 </Typography>
-              )}
+                {isLive && (
+                  <Typography
+                    variant="caption"
+                    color="text.secondary"
+                    sx={{ mt: 1 }}
+                  >
+                    {t("roomChat.beFirst")}
+                  </Typography>
+                )}
+              </Box>
+            ) : (
+              <MessageList
+                messages={messages}
+                currentUserId={user.id}
+                hasMore={hasMoreMessages}
+                loadingOlder={loadingOlderMessages}
+                onLoadOlder={handleLoadOlderMessages}
+                onRetry={retryMessage}
+                onDiscard={discardMessage}
+                onOpenThread={handleOpenThread}
+                lastReadMessageId={
+                  hasEntryReadState ? entryReadState?.lastReadMessageId : null
+                }
+                onToggleReaction={isLive ? handleToggleReaction : undefined}
+                canDeleteAny={isModerator}
+                onEdit={isLive ? handleEditMessage : undefined}
+                onDelete={handleDeleteMessage}
+              />
+            )}
+          </Box>
+        )}
+
+        <ThreadPanel
+          open={!!activeThreadId}
+          parentMessage={
+            messages.find((message) => message._id === activeThreadId) || null
+          }
+          replies={(activeThreadId && threads[activeThreadId]) || []}
+          loading={threadLoading}
+          currentUserId={user.id}
+          canReply={isLive && composer.canSend}
+          onClose={() => setActiveThreadId(null)}
+          onSend={handleSendReply}
+          onRetry={retryMessage}
+          onDiscard={discardMessage}
+          onToggleReaction={isLive ? handleToggleReaction : undefined}
+          canDeleteAny={isModerator}
+          onEdit={isLive ? handleEditMessage : undefined}
+          onDelete={handleDeleteMessage}
+        />
+
+        {isLive && chatTab === "chat" && (
+          <TypingIndicator typingUsers={typingUsers} />
+        )}
+
+        {/* Files for the next message; kept mounted so uploads carry on
+            while the panel is closed */}
+        {isLive && (
+          <Collapse in={attachOpen && chatTab === "chat"}>
+            <Box sx={{ px: 2, pt: 2 }}>
+              <AttachmentUploader
+                key={uploaderKey}
+                roomId={currentRoom._id}
+                onChange={handleAttachmentsChange}
+                disabled={!composer.canSend && !composer.slowModeWait}
+              />
             </Box>
-          ) : (
-            <>
-              {messages &&
-                messages.map((message: Message, index: number) => {
-                  const isCurrentUser =
-                    typeof message.sender === "object" &&
-                    message.sender &&
-                    user &&
-                    ((message.sender as any)._id === user.id ||
-                      (message.sender as any).id === user.id);
-                  // Check if this is a new sender or if there's a significant time gap
-                  const showSenderInfo =
-                    index === 0 ||
-                    (typeof message.sender === "object" &&
-                      message.sender &&
-                      typeof messages[index - 1].sender === "object" &&
-                      messages[index - 1].sender &&
-                      (message.sender as any)._id !==
-                        (messages[index - 1].sender as any)._id);
-
-                  return (
-                    <Box
-                      key={message._id}
-                      sx={{
-                        alignSelf: isCurrentUser ? "flex-end" : "flex-start",
-                        maxWidth: "70%",
-                        mb: 1,
-                      }}
-                    >
-                      {showSenderInfo && !isCurrentUser && (
-                        <Typography
-                          variant="caption"
-                          sx={{
-                            ml: 1,
-                            fontWeight: "medium",
-                            color: "text.secondary",
-                          }}
-                        >
-                          {typeof message.sender === "object" && message.sender
-                            ? message.sender.username
-                            : "Unknown"}
-                        </Typography>
-                      )}
-                      <Paper
-                        elevation={0}
-                        sx={{
-                          p: 2,
-                          borderRadius: 3,
-                          background: isCurrentUser
-                            ? `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.secondary.main} 100%)`
-                            : `linear-gradient(145deg, ${
-                                theme.palette.background.paper
-                              } 0%, ${alpha(
-                                theme.palette.primary.main,
-                                0.05
-                              )} 100%)`,
-                          color: isCurrentUser ? "white" : "text.primary",
-                          ml: isCurrentUser ? 0 : 1,
-                          mr: isCurrentUser ? 1 : 0,
-                          position: "relative",
-                          boxShadow: `0 4px 12px ${alpha(
-                            theme.palette.common.black,
-                            0.1
-                          )}`,
-                          border: isCurrentUser
-                            ? "none"
-                            : `1px solid ${alpha(
-                                theme.palette.primary.main,
-                                0.1
-                              )}`,
-                          transition: "all 0.2s ease",
-                          "&:hover": {
-                            transform: "translateY(-1px)",
-                            boxShadow: `0 6px 16px ${alpha(
-                              theme.palette.common.black,
-                              0.15
-                            )}`,
-                          },
-                          "&::after": isCurrentUser
-                            ? {
-                                content: '""',
-                                position: "absolute",
-                                width: 0,
-                                height: 0,
-                                top: 0,
-                                right: -10,
-                                border: "10px solid transparent",
-                                borderTopColor: theme.palette.primary.main,
-                                borderRight: 0,
-                              }
-                            : {
-                                content: '""',
-                                position: "absolute",
-                                width: 0,
-                                height: 0,
-                                top: 0,
-                                left: -10,
-                                border: "10px solid transparent",
-                                borderTopColor: theme.palette.background.paper,
-                                borderLeft: 0,
-                              },
-                        }}
-                      >
-                        <Typography variant="body2">
-                          {renderTextContent(
-                            message.content,
-                            message.sender === "Ted"
-                          )}
-                        </Typography>
-                        <Typography
-                          variant="caption"
-                          align="right"
-                          display="block"
-                          sx={{
-                            mt: 0.5,
-                            color: "text.secondary",
-                            fontSize: "0.7rem",
-                          }}
-                        >
-                          {formatChatTime(message.createdAt)}
-                        </Typography>
-                      </Paper>
-                    </Box>
-                  );
-                })}
-            </>
-          )}
-        </Box>
+          </Collapse>
+        )}
 
         {/* Message input - Only show if room is live */}
-        {isLive ? (
+        {chatTab === "files" ? null : isLive ? (
           <Box
             component="form"
             onSubmit={handleSendMessage}
@@ -1568,8 +1570,28 @@ const RoomView: React.FC = () => {
             >
               <EmojiIcon />
             </IconButton>
+            <Tooltip
+              title={
+                attachOpen
+                  ? t("roomChat.hideAttachments")
+                  : t("roomChat.attach")
+              }
+            >
+              <IconButton
+                size="small"
+                onClick={() => setAttachOpen((open) => !open)}
+                color={attachOpen ? "primary" : "default"}
+                aria-label={t("roomChat.attach")}
+                aria-expanded={attachOpen}
+                sx={{ mr: 1 }}
+              >
+                <Badge badgeContent={pendingAttachments.length} color="primary">
+                  <AttachFileIcon />
+                </Badge>
+              </IconButton>
+            </Tooltip>
             {aiAvailable && (
-              <Tooltip title="Ted is here! Use @ai for AI assistance">
+              <Tooltip title={t("roomChat.aiHint")}>
                 <IconButton
                   size="small"
                   sx={{
@@ -1588,20 +1610,34 @@ const RoomView: React.FC = () => {
             <TextField
               fullWidth
               placeholder={
-                aiAvailable
-                  ? "💬 Type a message... (Use @ai to chat with Ted)"
-                  : "💬 Type a message..."
+                composer.reason
+                  ? composer.reason
+                  : aiAvailable
+                  ? `💬 ${t("roomChat.placeholderAi")}`
+                  : `💬 ${t("roomChat.placeholder")}`
               }
               variant="outlined"
               size="medium"
               value={messageText}
-              onChange={(e) => setMessageText(e.target.value)}
-              disabled={sendingMessage}
+              onChange={handleMessageTextChange}
+              onKeyDown={handleComposerKeyDown}
+              onBlur={() => setMentionQuery(null)}
+              inputRef={composerRef}
+              inputProps={{
+                "aria-autocomplete": "list",
+                "aria-expanded": mentionSuggestions.length > 0,
+              }}
+              // Slow mode keeps the draft editable and only holds back sending
+              disabled={
+                sendingMessage || (!composer.canSend && !composer.slowModeWait)
+              }
               InputProps={{
                 endAdornment: (
                   <IconButton
                     onClick={handleSendMessage}
-                    disabled={!messageText.trim() || sendingMessage}
+                    disabled={
+                      !canSubmitMessage || sendingMessage || !composer.canSend
+                    }
                     size="medium"
                     color="primary"
                     type="submit"
@@ -1640,6 +1676,12 @@ const RoomView: React.FC = () => {
               }}
               sx={{ flex: 1 }}
             />
+            <MentionSuggestions
+              anchorEl={mentionQuery ? composerRef.current : null}
+              suggestions={mentionSuggestions}
+              activeIndex={mentionIndex}
+              onSelect={handleSelectMention}
+            />
           </Box>
         ) : (
           // For closed rooms, show a message that the room is closed
@@ -1657,7 +1699,9 @@ const RoomView: React.FC = () => {
             }}
           >
             <Typography variant="body2" color="text.secondary">
-              This room is closed. Chat history is available for viewing only.
+              {isCancelled
+                ? t("roomChat.readOnlyCancelled")
+                : t("roomChat.readOnlyClosed")}
             </Typography>
           </Box>
         )}
@@ -1669,69 +1713,38 @@ const RoomView: React.FC = () => {
           sx={{ maxHeight: 300 }}
         >
           <Box sx={{ p: 1, pb: 0.5 }}>
-            {isLive && (
-              <>
-                <Typography
-                  variant="caption"
-                  sx={{ p: 1, color: "text.secondary", display: "block" }}
-                >
-                  Insert in message
-                </Typography>
-                <Box
-                  sx={{
-                    display: "flex",
-                    flexWrap: "wrap",
-                    gap: 0.5,
-                    p: 1,
-                    pb: 0,
-                  }}
-                >
-                  {["😊", "👍", "❤️", "🎉", "😂", "🤔", "👏", "🙏", "🔥"].map(
-                    (emoji) => (
-                      <Chip
-                        key={emoji}
-                        label={emoji}
-                        onClick={() => handleInsertEmoji(emoji)}
-                        sx={{
-                          fontSize: "1.2rem",
-                          height: 32,
-                          cursor: "pointer",
-                          "&:hover": {
-                            bgcolor: "rgba(0,0,0,0.05)",
-                          },
-                        }}
-                      />
-                    )
-                  )}
-                </Box>
-                <Divider sx={{ my: 1 }} />
-              </>
-            )}
             <Typography
               variant="caption"
               sx={{ p: 1, color: "text.secondary", display: "block" }}
             >
-              {isLive ? "Send as reaction" : "View reactions"}
+              {t("roomChat.insertEmoji")}
             </Typography>
-            <Box sx={{ display: "flex", flexDirection: "column" }}>
-              {commonEmojis.map(({ emoji, label, icon }) => (
-                <MenuItem
-                  key={emoji}
-                  onClick={() => (isLive ? handleSelectEmoji(emoji) : null)}
-                  disabled={!isLive}
-                  sx={{
-                    py: 1,
-                    borderRadius: 1,
-                    my: 0.2,
-                    gap: 1,
-                    opacity: isLive ? 1 : 0.7,
-                  }}
-                >
-                  <Box sx={{ fontSize: "1.2rem", mr: 1 }}>{emoji}</Box>
-                  {icon}
-                  <Typography variant="body2">{label}</Typography>
-                </MenuItem>
-              ))}
+            <Box
+              sx={{
+                display: "flex",
+                flexWrap: "wrap",
+                gap: 0.5,
+                p: 1,
+                pb: 0,
+              }}
+            >
+              {["😊", "👍", "❤️", "🎉", "😂", "🤔", "👏", "🙏", "🔥"].map(
+                (emoji) => (
+                  <Chip
+                    key={emoji}
+                    label={emoji}
+                    onClick={() => handleInsertEmoji(emoji)}
+                    sx={{
+                      fontSize: "1.2rem",
+                      height: 32,
+                      cursor: "pointer",
+                      "&:hover": {
+                        bgcolor: "rgba(0,0,0,0.05)",
+                      },
+                    }}
+                  />
+                )
+              )}
             </Box>
           </Box>
         </Menu>
@@ -1,4 +1,21 @@
-import axios from "axios";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+import {
+  clearTokens,
+  getAccessToken,
+  getRefreshToken,
+  saveTokens,
+} from "./authTokens";
+import { withTabLock } from "./tabSync";
+import {
+  InviteRecipients,
+  ProfileUpdate,
+  RescheduleRoomData,
+  RoomRole,
+  RoomSearchParams,
+  SeriesEditScope,
+  StoredPreferences,
+  UpdateRoomFormData,
+} from "../types";
 
 const API_URL = process.env.REACT_APP_API_URL || "http://localhost:5000/api";
 
@@ -10,10 +27,88 @@ const api = axios.create({
   },
 });
 
-// Add interceptor to add authorization token to requests
+// Requests that must never trigger a token refresh
+const AUTH_ENDPOINTS = [
+  "/auth/login",
+  "/auth/register",
+  "/auth/refresh",
+  "/auth/logout",
+];
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retried?: boolean;
+};
+
+const REFRESH_LOCK = "roomloop-token-refresh";
+
+// The refresh in flight, shared by every request that is waiting on it
+let refreshPromise: Promise<string> | null = null;
+
+// Called once the session can't be recovered; AuthContext logs the user out
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+const isAuthEndpoint = (url?: string) =>
+  !!url && AUTH_ENDPOINTS.some((endpoint) => url.endsWith(endpoint));
+
+/**
+ * Exchange the refresh token for a new access token. Concurrent callers
+ * share one request, and tabs take turns, so a rotated refresh token is only
+ * ever used once.
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const staleRefreshToken = getRefreshToken();
+    refreshPromise = withTabLock(REFRESH_LOCK, async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) throw new Error("No refresh token");
+
+      // Another tab refreshed while this one waited for the lock
+      const accessToken = getAccessToken();
+      if (refreshToken !== staleRefreshToken && accessToken) {
+        return accessToken;
+      }
+
+      // Plain axios so the refresh call bypasses these interceptors
+      const response = await axios.post(`${API_URL}/auth/refresh`, {
+        refreshToken,
+      });
+      const { token, refreshToken: nextRefreshToken } = response.data;
+      saveTokens(token, nextRefreshToken);
+      return token as string;
+    }).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// Whether a failed refresh means the session is really over: there is no
+// refresh token, or the server refused the one we sent
+const isRefreshRejected = (refreshError: unknown) => {
+  if (!getRefreshToken()) return true;
+  const status = axios.isAxiosError(refreshError)
+    ? refreshError.response?.status
+    : undefined;
+  return status === 401 || status === 403;
+};
+
+const expireSession = () => {
+  clearTokens();
+  sessionExpiredHandler?.();
+};
+
+// Add interceptor to add authorization token to requests. Requests made while
+// a refresh is running wait for the new token instead of failing with it.
 api.interceptors.request.use(
-  (config) => {
-    const token = localStorage.getItem("token");
+  async (config) => {
+    if (refreshPromise && !isAuthEndpoint(config.url)) {
+      await refreshPromise.catch(() => undefined);
+    }
+    const token = getAccessToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -24,6 +119,53 @@ api.interceptors.request.use(
   }
 );
 
+// On a 401, refresh the access token and retry the request once. If the
+// server rejects the refresh, or the retry is rejected too, the session is
+// over.
+api.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const config = error.config as RetriableRequestConfig | undefined;
+
+    if (
+      error.response?.status !== 401 ||
+      !config ||
+      isAuthEndpoint(config.url)
+    ) {
+      return Promise.reject(error);
+    }
+
+    if (config._retried) {
+      expireSession();
+      return Promise.reject(error);
+    }
+
+    // Another request may have refreshed while this one was in flight
+    const sentToken = String(config.headers.Authorization || "").replace(
+      /^Bearer /,
+      ""
+    );
+    const currentToken = getAccessToken();
+    if (currentToken && currentToken !== sentToken) {
+      config._retried = true;
+      return api(config);
+    }
+
+    try {
+      await refreshAccessToken();
+    } catch (refreshError) {
+      // Only a refresh token the server turns down ends the session. A
+      // network error, a 5xx or a lock timeout leaves the tokens alone so
+      // the next request or a reload can try again.
+      if (isRefreshRejected(refreshError)) expireSession();
+      return Promise.reject(error);
+    }
+
+    config._retried = true;
+    return api(config);
+  }
+);
+
 // Auth API calls
 export const authAPI = {
   register: (userData: { username: string; email: string; password: string }) =>
@@ -34,11 +176,34 @@ export const authAPI = {
 
   getCurrentUser: () => api.get("/auth/me"),
 
-  updateProfile: (profileData: {
-    username: string;
-    email: string;
-    bio?: string;
-  }) => api.put("/auth/profile", profileData),
+  // Revokes the refresh token server-side
+  logout: (refreshToken: string) => api.post("/auth/logout", { refreshToken }),
+
+  updateProfile: (profileData: ProfileUpdate) =>
+    api.put("/auth/profile", profileData),
+
+  // The cropped avatar at each size, as multipart fields named
+  // `avatar_<size>`; responds with the updated `user`
+  uploadAvatar: (
+    images: { size: number; blob: Blob }[],
+    onProgress?: (percent: number) => void
+  ) => {
+    const formData = new FormData();
+    images.forEach(({ size, blob }) =>
+      formData.append(`avatar_${size}`, blob, `avatar-${size}.jpg`)
+    );
+    return api.post("/auth/avatar", formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      },
+    });
+  },
+
+  // Back to the generated avatar; responds with the updated `user`
+  removeAvatar: () => api.delete("/auth/avatar"),
 };
 
 // Rooms API calls
@@ -49,26 +214,209 @@ export const roomsAPI = {
 
   getAllRooms: () => api.get("/rooms/all"),
 
+  // One page of rooms matching an Explore search; lists are sent comma
+  // separated. Pass the previous page's `nextCursor` to continue.
+  searchRooms: (search: RoomSearchParams, cursor?: string, limit = 10) =>
+    api.get("/rooms/search", {
+      params: {
+        ...search,
+        tags: search.tags?.join(","),
+        status: search.status?.join(","),
+        cursor,
+        limit,
+      },
+    }),
+
   getUserRooms: () => api.get("/rooms/user"),
 
   getRoomById: (roomId: string) => api.get(`/rooms/${roomId}`),
 
+  // Fails with 409 when the room is full; join the waitlist instead
   joinRoom: (roomId: string) => api.post(`/rooms/${roomId}/join`),
 
-  inviteUsers: (roomId: string, usernames: string[]) =>
-    api.post(`/rooms/${roomId}/invite`, { usernames }),
+  // Give up a place in the room, which goes to the first user on the waitlist
+  withdrawFromRoom: (roomId: string) => api.post(`/rooms/${roomId}/leave`),
+
+  // Queue for a full room; both respond with the updated room
+  joinWaitlist: (roomId: string) => api.post(`/rooms/${roomId}/waitlist`),
+
+  leaveWaitlist: (roomId: string) => api.delete(`/rooms/${roomId}/waitlist`),
 
-  // Messages in a room
-  getRoomMessages: (roomId: string) => api.get(`/rooms/${roomId}/messages`),
+  // Join with the code from an invite link; responds with the room, also
+  // when the user is already in it
+  joinRoomByCode: (code: string) =>
+    api.post(`/rooms/code/${encodeURIComponent(code)}/join`),
 
-  sendMessage: (roomId: string, content: string) =>
-    api.post(`/rooms/${roomId}/messages`, { content }),
+  // Host-only lifecycle changes; all but delete respond with the updated room.
+  // On a recurring room, scope "series" applies the change to every
+  // occurrence that hasn't ended yet, and the response also lists them as
+  // `rooms`; delete responds with `deletedRoomIds`.
+  updateRoom: (
+    roomId: string,
+    data: UpdateRoomFormData,
+    scope?: SeriesEditScope
+  ) => api.patch(`/rooms/${roomId}`, data, { params: { scope } }),
+
+  rescheduleRoom: (
+    roomId: string,
+    schedule: RescheduleRoomData,
+    scope?: SeriesEditScope
+  ) => api.put(`/rooms/${roomId}/schedule`, schedule, { params: { scope } }),
+
+  endRoom: (roomId: string) => api.post(`/rooms/${roomId}/end`),
+
+  cancelRoom: (roomId: string, reason?: string, scope?: SeriesEditScope) =>
+    api.post(`/rooms/${roomId}/cancel`, { reason }, { params: { scope } }),
+
+  deleteRoom: (roomId: string, scope?: SeriesEditScope) =>
+    api.delete(`/rooms/${roomId}`, { params: { scope } }),
+
+  // Moderation by the host, co-hosts and moderators; all respond with the
+  // updated room
+  setMemberRole: (roomId: string, userId: string, role: RoomRole) =>
+    api.put(`/rooms/${roomId}/members/${userId}/role`, { role }),
+
+  kickMember: (roomId: string, userId: string) =>
+    api.post(`/rooms/${roomId}/members/${userId}/kick`),
+
+  banMember: (roomId: string, userId: string) =>
+    api.post(`/rooms/${roomId}/members/${userId}/ban`),
+
+  // Leave out durationMinutes to mute until unmuted
+  muteMember: (roomId: string, userId: string, durationMinutes?: number) =>
+    api.put(`/rooms/${roomId}/members/${userId}/mute`, { durationMinutes }),
+
+  unmuteMember: (roomId: string, userId: string) =>
+    api.delete(`/rooms/${roomId}/members/${userId}/mute`),
+
+  setSlowMode: (roomId: string, seconds: number) =>
+    api.put(`/rooms/${roomId}/slow-mode`, { seconds }),
+
+  // Messages in a room, newest page first. Pass the oldest loaded message ID
+  // as `before` to page further back in history.
+  getRoomMessages: (
+    roomId: string,
+    params?: { before?: string; limit?: number }
+  ) => api.get(`/rooms/${roomId}/messages`, { params }),
+
+  // clientId lets the server de-duplicate retried sends and echo it back;
+  // parentId posts the message as a reply in that message's thread;
+  // attachments are the IDs of files uploaded with uploadAttachment
+  sendMessage: (
+    roomId: string,
+    content: string,
+    options: {
+      clientId?: string;
+      parentId?: string;
+      mentions?: string[];
+      attachments?: string[];
+    } = {}
+  ) => api.post(`/rooms/${roomId}/messages`, { content, ...options }),
+
+  // Upload one file as multipart form data; responds with the `attachment`.
+  // onProgress gets the percentage sent, and aborting the signal cancels.
+  uploadAttachment: (
+    roomId: string,
+    file: File,
+    {
+      onProgress,
+      signal,
+    }: { onProgress?: (percent: number) => void; signal?: AbortSignal } = {}
+  ) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    return api.post(`/rooms/${roomId}/attachments`, formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+      signal,
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      },
+    });
+  },
+
+  // Every file shared in a room's messages, newest first
+  getRoomAttachments: (roomId: string) =>
+    api.get(`/rooms/${roomId}/attachments`),
+
+  // Edit or delete a message; both respond with the updated message
+  editMessage: (roomId: string, messageId: string, content: string) =>
+    api.patch(`/rooms/${roomId}/messages/${messageId}`, { content }),
+
+  deleteMessage: (roomId: string, messageId: string) =>
+    api.delete(`/rooms/${roomId}/messages/${messageId}`),
+
+  // Read positions for all of the user's rooms
+  getReadStates: () => api.get("/rooms/read-state"),
+
+  markRoomRead: (roomId: string, messageId: string) =>
+    api.put(`/rooms/${roomId}/read`, { messageId }),
+
+  // Replies in a message thread
+  getThreadMessages: (roomId: string, parentId: string) =>
+    api.get(`/rooms/${roomId}/messages/${parentId}/replies`),
 
   // Reactions in a room
   getRoomReactions: (roomId: string) => api.get(`/rooms/${roomId}/reactions`),
 
-  sendReaction: (roomId: string, emoji: string) =>
-    api.post(`/rooms/${roomId}/reactions`, { emoji }),
+  // Reactions on a single message; both respond with the message's updated summaries
+  addMessageReaction: (roomId: string, messageId: string, emoji: string) =>
+    api.post(`/rooms/${roomId}/messages/${messageId}/reactions`, { emoji }),
+
+  removeMessageReaction: (roomId: string, messageId: string, emoji: string) =>
+    api.delete(
+      `/rooms/${roomId}/messages/${messageId}/reactions/${encodeURIComponent(
+        emoji
+      )}`
+    ),
+};
+
+// Invites are records of their own so hosts can follow and manage them. All
+// but the list calls respond with the changed `invite`.
+export const invitesAPI = {
+  // The signed-in user's pending invites, each with its room
+  getMyInvites: () => api.get("/invites"),
+
+  // Every invite to a room, whatever its status; host only
+  getRoomInvites: (roomId: string) => api.get(`/rooms/${roomId}/invites`),
+
+  // Fails when a username doesn't belong to anyone; responds with `invites`
+  sendInvites: (roomId: string, recipients: InviteRecipients) =>
+    api.post(`/rooms/${roomId}/invites`, recipients),
+
+  // Also joins the room; responds with the `room` as well
+  accept: (inviteId: string) => api.post(`/invites/${inviteId}/accept`),
+
+  decline: (inviteId: string) => api.post(`/invites/${inviteId}/decline`),
+
+  revoke: (inviteId: string) => api.post(`/invites/${inviteId}/revoke`),
+
+  // Sends the invite again, by email too for sign-up invites
+  resend: (inviteId: string) => api.post(`/invites/${inviteId}/resend`),
+};
+
+// User directory
+export const usersAPI = {
+  // Users whose username starts with `query`; responds with `users`
+  search: (query: string, limit = 8) =>
+    api.get("/users/search", { params: { q: query, limit } }),
+};
+
+// Settings that follow the user between devices. Both respond with
+// `preferences`, the stored blob; it is null until something is saved.
+export const preferencesAPI = {
+  get: () => api.get("/users/me/preferences"),
+
+  save: (stored: StoredPreferences) => api.put("/users/me/preferences", stored),
+};
+
+// Calendar subscription feed. Both respond with `{ url }`, a private address
+// calendar apps can poll for the user's rooms; resetting it revokes the old one.
+export const calendarAPI = {
+  getFeed: () => api.get("/calendar/feed"),
+
+  resetFeed: () => api.post("/calendar/feed/reset"),
 };
 
 // AI API calls
@@ -0,0 +1,48 @@
+/**
+ * Access and refresh tokens, persisted in localStorage so a session survives
+ * reloads. Shared by the HTTP client, the socket and AuthContext.
+ */
+
+const ACCESS_TOKEN_KEY = "token";
+const REFRESH_TOKEN_KEY = "refreshToken";
+
+export const getAccessToken = (): string | null =>
+  localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = (): string | null =>
+  localStorage.getItem(REFRESH_TOKEN_KEY);
+
+// The server rotates refresh tokens, so both are always saved together. A
+// missing refresh token (older servers) clears the stored one.
+export const saveTokens = (
+  accessToken: string,
+  refreshToken?: string | null
+): void => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  } else {
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+};
+
+// Runs `handler` when another tab logs in, logs out or refreshes the token.
+// Storage events only fire in the tabs that didn't make the change.
+export const onTokenChange = (
+  handler: (accessToken: string | null) => void
+): (() => void) => {
+  const listener = (event: StorageEvent) => {
+    if (event.storageArea !== localStorage) return;
+    // A null key means the whole storage was cleared
+    if (event.key !== null && event.key !== ACCESS_TOKEN_KEY) return;
+    handler(getAccessToken());
+  };
+
+  window.addEventListener("storage", listener);
+  return () => window.removeEventListener("storage", listener);
+};
+
+export const clearTokens = (): void => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
@@ -0,0 +1,114 @@
+import {
+  Message,
+  MessageStatus,
+  OutboxEntry,
+  SendMessageOptions,
+} from "../types";
+
+// Retry schedule for undelivered messages
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+const storageKey = (userId: string) => `chat-outbox-${userId}`;
+
+// Generate an ID for a message before the server has seen it
+export const generateClientId = (): string => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+
+  return `${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .substring(2, 10)}`;
+};
+
+// Exponential backoff with a little jitter so reconnecting clients don't retry in lockstep
+export const getRetryDelay = (attempts: number): number => {
+  const delay = Math.min(
+    BASE_RETRY_DELAY * Math.pow(2, Math.max(attempts - 1, 0)),
+    MAX_RETRY_DELAY
+  );
+  return delay + Math.floor(Math.random() * 250);
+};
+
+// Load the persisted outbox for a user
+export const loadOutbox = (userId: string): OutboxEntry[] => {
+  try {
+    const saved = localStorage.getItem(storageKey(userId));
+    return saved ? (JSON.parse(saved) as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error("Failed to read chat outbox:", error);
+    return [];
+  }
+};
+
+// Persist the outbox for a user
+export const saveOutbox = (userId: string, entries: OutboxEntry[]): void => {
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(storageKey(userId));
+    } else {
+      localStorage.setItem(storageKey(userId), JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.error("Failed to persist chat outbox:", error);
+  }
+};
+
+// Create a new outbox entry ready for its first delivery attempt
+export const createOutboxEntry = (
+  roomId: string,
+  content: string,
+  { parentId, mentions, attachments }: SendMessageOptions = {}
+): OutboxEntry => ({
+  clientId: generateClientId(),
+  roomId,
+  content,
+  parentId,
+  mentions,
+  attachments,
+  createdAt: new Date().toISOString(),
+  attempts: 0,
+  nextAttemptAt: Date.now(),
+  status: MessageStatus.PENDING,
+});
+
+// Record a failed delivery attempt. Client errors (4xx) are not retried.
+export const markAttemptFailed = (
+  entry: OutboxEntry,
+  error: string,
+  retryable: boolean
+): OutboxEntry => {
+  const attempts = entry.attempts + 1;
+  const giveUp = !retryable || attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  return {
+    ...entry,
+    attempts,
+    error,
+    status: giveUp ? MessageStatus.FAILED : MessageStatus.PENDING,
+    nextAttemptAt: giveUp
+      ? Number.MAX_SAFE_INTEGER
+      : Date.now() + getRetryDelay(attempts),
+  };
+};
+
+// Whether a message is still in the outbox (sending or failed) rather than
+// on the server. Delivered messages keep `status: SENT`, so check for the
+// outbox states rather than for a missing status.
+export const isUndelivered = (message: Message): boolean =>
+  message.status === MessageStatus.PENDING ||
+  message.status === MessageStatus.FAILED;
+
+const outboxService = {
+  generateClientId,
+  getRetryDelay,
+  loadOutbox,
+  saveOutbox,
+  createOutboxEntry,
+  markAttemptFailed,
+  isUndelivered,
+};
+
+export default outboxService;
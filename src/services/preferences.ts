@@ -0,0 +1,176 @@
+import { StoredPreferences, UserPreferences } from "../types";
+
+// Bump when the shape of UserPreferences changes, and add a migration from
+// the previous version to MIGRATIONS
+export const PREFERENCES_VERSION = 1;
+
+// The same key the settings dialog used before preferences were versioned,
+// so old blobs are found and migrated
+const storageKey = (userId: string) => `user-preferences-${userId}`;
+
+type RawPreferences = Record<string, unknown>;
+
+// The local copy also remembers whether the server has seen it
+export interface CachedPreferences extends StoredPreferences {
+  synced: boolean;
+}
+
+const isRecord = (value: unknown): value is RawPreferences =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The zone the browser runs in, e.g. "Europe/Paris"
+export const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch (error) {
+    return "UTC";
+  }
+};
+
+export const defaultPreferences: UserPreferences = {
+  displayName: "",
+  bio: "",
+  location: "",
+  website: "",
+  company: "",
+  jobTitle: "",
+  emailNotifications: true,
+  pushNotifications: true,
+  roomInvitations: true,
+  messageNotifications: true,
+  marketingEmails: false,
+  profileVisibility: "public",
+  showOnlineStatus: true,
+  allowDirectMessages: true,
+  showLastSeen: true,
+  theme: "system",
+  accentColor: "#667eea",
+  fontSize: 100,
+  highContrast: false,
+  reduceMotion: false,
+  screenReaderMode: false,
+  language: "en",
+  timezone: getBrowserTimeZone(),
+  dateFormat: "MM/dd/yyyy",
+  timeFormat: "12h",
+};
+
+// Version 0 date formats used moment-style tokens
+const LEGACY_DATE_FORMATS: Record<string, string> = {
+  "MM/DD/YYYY": "MM/dd/yyyy",
+  "DD/MM/YYYY": "dd/MM/yyyy",
+  "YYYY-MM-DD": "yyyy-MM-dd",
+};
+
+// MIGRATIONS[n] turns version n preferences into version n + 1
+const MIGRATIONS: Record<number, (prefs: RawPreferences) => RawPreferences> = {
+  // Version 0 is the unversioned blob the settings dialog kept in
+  // localStorage. Its "UTC" timezone was a default that was never applied,
+  // so the browser's zone is closer to what the user actually saw.
+  0: (prefs) => ({
+    ...prefs,
+    dateFormat:
+      LEGACY_DATE_FORMATS[prefs.dateFormat as string] || prefs.dateFormat,
+    timezone:
+      !prefs.timezone || prefs.timezone === "UTC"
+        ? getBrowserTimeZone()
+        : prefs.timezone,
+  }),
+};
+
+// Fill in anything missing or of the wrong type from the defaults. Fields
+// this version doesn't know about are kept.
+const withDefaults = (prefs: RawPreferences): UserPreferences => {
+  const result: RawPreferences = { ...prefs };
+  (Object.keys(defaultPreferences) as (keyof UserPreferences)[]).forEach(
+    (key) => {
+      if (typeof result[key] !== typeof defaultPreferences[key]) {
+        result[key] = defaultPreferences[key];
+      }
+    }
+  );
+  return result as unknown as UserPreferences;
+};
+
+/**
+ * Bring a stored blob of any version up to date. Blobs written by a newer
+ * client keep their version and unknown fields, so saving them back from
+ * this one doesn't lose anything.
+ */
+export const migratePreferences = (raw: unknown): StoredPreferences => {
+  const record = isRecord(raw) ? raw : {};
+  const versioned =
+    typeof record.version === "number" && isRecord(record.preferences);
+  let version = versioned ? (record.version as number) : 0;
+  let prefs = versioned ? (record.preferences as RawPreferences) : record;
+
+  while (version < PREFERENCES_VERSION) {
+    prefs = MIGRATIONS[version](prefs);
+    version++;
+  }
+
+  return {
+    version,
+    // Unversioned blobs never reached the server, so any server copy wins
+    updatedAt:
+      typeof record.updatedAt === "string"
+        ? record.updatedAt
+        : new Date(0).toISOString(),
+    preferences: withDefaults(prefs),
+  };
+};
+
+// Wrap freshly edited preferences for saving
+export const createStoredPreferences = (
+  preferences: UserPreferences,
+  previous?: StoredPreferences
+): StoredPreferences => ({
+  version: Math.max(previous?.version || 0, PREFERENCES_VERSION),
+  updatedAt: new Date().toISOString(),
+  preferences,
+});
+
+// Load the local copy for a user, migrated to the current version
+export const loadCachedPreferences = (
+  userId: string
+): CachedPreferences | null => {
+  try {
+    const saved = localStorage.getItem(storageKey(userId));
+    if (!saved) return null;
+    const raw = JSON.parse(saved);
+    return {
+      ...migratePreferences(raw),
+      synced: isRecord(raw) && raw.synced === true,
+    };
+  } catch (error) {
+    console.error("Failed to read preferences:", error);
+    return null;
+  }
+};
+
+// Persist the local copy for a user
+export const saveCachedPreferences = (
+  userId: string,
+  stored: StoredPreferences,
+  synced: boolean
+): void => {
+  try {
+    localStorage.setItem(
+      storageKey(userId),
+      JSON.stringify({ ...stored, synced })
+    );
+  } catch (error) {
+    console.error("Failed to persist preferences:", error);
+  }
+};
+
+const preferencesService = {
+  defaultPreferences,
+  getBrowserTimeZone,
+  migratePreferences,
+  createStoredPreferences,
+  loadCachedPreferences,
+  saveCachedPreferences,
+};
+
+export default preferencesService;
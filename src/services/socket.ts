@@ -1,13 +1,124 @@
 import { io, Socket } from "socket.io-client";
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  ServerEventName,
+  ServerEventPayload,
+  SendMessagePayload,
+  PresencePayload,
+  serverEventValidators,
+} from "./socketEvents";
+import { getAccessToken } from "./authTokens";
+import { refreshAccessToken } from "./api";
+import {
+  TabMessage,
+  onTabMessage,
+  postTabMessage,
+  requestLeadership,
+  tabId,
+} from "./tabSync";
+import { PresenceStatus } from "../types";
 
 const SOCKET_URL = process.env.REACT_APP_SOCKET_URL || "http://localhost:5000";
 
-let socket: Socket | null = null;
+type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+type ClientEventName = keyof ClientToServerEvents;
+
+// Only the leader tab opens a socket. Other tabs send their emits to the
+// leader and get server events relayed back over the tab channel.
+let socket: TypedSocket | null = null;
+let isLeader = false;
+let electionStarted = false;
+// Whether the leader's socket is connected, as last reported to this follower
+let leaderConnected = false;
+
 // Track joined rooms to prevent duplicate joins
 const joinedRooms = new Set<string>();
+// Leader only: rooms other tabs are in, and which tabs are in each
+const remoteRooms = new Map<string, Set<string>>();
+
+// This tab's own presence, as last reported by the app
+let ownPresence: PresenceStatus | null = null;
+// Leader only: the presence of every tab, and the combined status last sent
+const tabPresence = new Map<string, PresenceStatus>();
+let sentPresence: PresenceStatus | null = null;
+
+// Validated listeners, re-attached whenever the socket is recreated
+type RawListener = (payload: unknown) => void;
+const listeners = new Map<ServerEventName, Set<RawListener>>();
+const connectListeners = new Set<() => void>();
+
+// The contract is enforced by the validators, so listeners attach untyped
+const untyped = (target: TypedSocket | null) =>
+  target as unknown as Socket | null;
+
+const attachListeners = (target: TypedSocket) => {
+  listeners.forEach((eventListeners, event) => {
+    eventListeners.forEach((listener) => {
+      untyped(target)?.on(event as string, listener);
+    });
+  });
+};
+
+// Errors the server's auth middleware rejects a handshake with
+const isAuthError = (error: Error) =>
+  /auth|token|jwt|unauthori[sz]ed/i.test(error.message);
+
+// Only one token refresh per run of failed handshakes, so a server that keeps
+// rejecting the socket doesn't cause a refresh loop
+let authRefreshAttempted = false;
+
+// Report a payload that doesn't match the event contract
+const reportInvalidEvent = (
+  event: ServerEventName,
+  payload: unknown,
+  error: string
+) => {
+  console.error(`Dropped malformed "${event}" socket event: ${error}`, payload);
+};
+
+// Whether any tab still needs the shared socket to be in a room
+const isRoomNeeded = (roomId: string) =>
+  joinedRooms.has(roomId) || (remoteRooms.get(roomId)?.size ?? 0) > 0;
+
+// Emit on this tab's socket, or hand the event to the leader tab
+const emit = <E extends ClientEventName>(
+  event: E,
+  ...args: Parameters<ClientToServerEvents[E]>
+): void => {
+  if (isLeader) {
+    untyped(socket)?.emit(event, ...args);
+  } else {
+    postTabMessage({ type: "socket_emit", event, args });
+  }
+};
+
+// One status for the user across their tabs: offline if they hide their
+// online status, online while any tab is in view, away once all are hidden
+const combinePresence = (
+  statuses: PresenceStatus[]
+): PresencePayload["status"] | null => {
+  if (statuses.length === 0) return null;
+  if (statuses.includes(PresenceStatus.OFFLINE)) return PresenceStatus.OFFLINE;
+  return statuses.includes(PresenceStatus.ONLINE)
+    ? PresenceStatus.ONLINE
+    : PresenceStatus.AWAY;
+};
+
+// Leader only: tell the server if the combined status has changed
+const sendPresence = () => {
+  const status = combinePresence(Array.from(tabPresence.values()));
+  if (!status || status === sentPresence || !socket?.connected) return;
+  sentPresence = status;
+  socket.emit("presence_update", { status });
+};
+
+const notifyConnected = () => {
+  connectListeners.forEach((listener) => listener());
+};
 
-// Initialize socket connection
-export const initSocket = (): Socket => {
+// Open the shared socket. Only ever called in the leader tab.
+const connectSocket = (): TypedSocket => {
   if (socket && socket.connected) return socket;
 
   // Close any existing socket before creating a new one
@@ -18,9 +129,9 @@ export const initSocket = (): Socket => {
   console.log(`Attempting to connect to socket server at: ${SOCKET_URL}`);
 
   socket = io(SOCKET_URL, {
-    auth: {
-      token: localStorage.getItem("token"),
-    },
+    // Read the token on every (re)connection attempt so a refreshed token is
+    // picked up instead of the one the socket was created with
+    auth: (callback) => callback({ token: getAccessToken() }),
     transports: ["websocket", "polling"], // Try both websocket and polling
     reconnection: true,
     reconnectionAttempts: 10,
@@ -28,38 +139,78 @@ export const initSocket = (): Socket => {
     timeout: 20000, // Increase timeout
   });
 
+  attachListeners(socket);
+
+  // Relay every server event to the follower tabs
+  untyped(socket)?.onAny((event: string, payload: unknown) => {
+    postTabMessage({ type: "socket_event", event, payload });
+  });
+
   // Log connection status
   socket.on("connect", () => {
     console.log("Socket connected successfully");
+    authRefreshAttempted = false;
 
-    // Rejoin any rooms that were previously joined
-    joinedRooms.forEach((roomId) => {
+    // Rejoin any rooms that were previously joined, in this tab or another
+    const rooms = new Set(joinedRooms);
+    remoteRooms.forEach((_tabs, roomId) => rooms.add(roomId));
+    rooms.forEach((roomId) => {
       console.log(`Rejoining room after reconnect: ${roomId}`);
       socket?.emit("join_room", roomId);
     });
+
+    // The server starts a new connection without a status
+    sentPresence = null;
+    sendPresence();
+
+    postTabMessage({ type: "socket_status", connected: true });
+    notifyConnected();
   });
 
   socket.on("disconnect", (reason) => {
     console.log("Socket disconnected. Reason:", reason);
+    postTabMessage({ type: "socket_status", connected: false });
   });
 
   socket.on("connect_error", (error) => {
     console.error("Socket connection error:", error.message);
+
+    // A handshake rejected by the server is not retried automatically, so
+    // refresh the access token and connect again with it
+    const target = socket;
+    if (
+      target &&
+      !target.active &&
+      isAuthError(error) &&
+      !authRefreshAttempted
+    ) {
+      authRefreshAttempted = true;
+      refreshAccessToken()
+        .then(() => {
+          if (socket === target && !target.connected) {
+            target.connect();
+          }
+        })
+        .catch(() => {
+          console.error("Socket authentication failed; session has expired");
+        });
+    }
   });
 
-  socket.on("reconnect", (attemptNumber) => {
+  // Reconnection events are emitted by the underlying manager, not the socket
+  socket.io.on("reconnect", (attemptNumber) => {
     console.log(`Socket reconnected after ${attemptNumber} attempts`);
   });
 
-  socket.on("reconnect_attempt", (attemptNumber) => {
+  socket.io.on("reconnect_attempt", (attemptNumber) => {
     console.log(`Socket reconnection attempt #${attemptNumber}`);
   });
 
-  socket.on("reconnect_error", (error) => {
+  socket.io.on("reconnect_error", (error) => {
     console.error("Socket reconnection error:", error.message);
   });
 
-  socket.on("reconnect_failed", () => {
+  socket.io.on("reconnect_failed", () => {
     console.error("Socket reconnection failed after all attempts");
   });
 
@@ -75,17 +226,163 @@ export const initSocket = (): Socket => {
   return socket;
 };
 
+// Messages from the other tabs
+const handleTabMessage = (message: TabMessage) => {
+  if (isLeader) {
+    switch (message.type) {
+      case "socket_emit":
+        untyped(socket)?.emit(message.event, ...message.args);
+        break;
+      case "socket_join": {
+        const needed = isRoomNeeded(message.roomId);
+        const tabs = remoteRooms.get(message.roomId) || new Set<string>();
+        tabs.add(message.tabId);
+        remoteRooms.set(message.roomId, tabs);
+        if (!needed) socket?.emit("join_room", message.roomId);
+        break;
+      }
+      case "socket_leave":
+        remoteRooms.get(message.roomId)?.delete(message.tabId);
+        if (!isRoomNeeded(message.roomId)) {
+          remoteRooms.delete(message.roomId);
+          socket?.emit("leave_room", message.roomId);
+        }
+        break;
+      case "presence_report":
+        tabPresence.set(message.tabId, message.status);
+        sendPresence();
+        break;
+      case "tab_closed":
+        tabPresence.delete(message.tabId);
+        sendPresence();
+        remoteRooms.forEach((tabs, roomId) => {
+          tabs.delete(message.tabId);
+          if (!isRoomNeeded(roomId)) {
+            remoteRooms.delete(roomId);
+            socket?.emit("leave_room", roomId);
+          }
+        });
+        break;
+      case "status_request":
+        postTabMessage({
+          type: "socket_status",
+          connected: !!socket?.connected,
+        });
+        break;
+    }
+    return;
+  }
+
+  switch (message.type) {
+    case "socket_event":
+      listeners
+        .get(message.event as ServerEventName)
+        ?.forEach((listener) => listener(message.payload));
+      break;
+    case "socket_status":
+      if (message.connected && !leaderConnected) {
+        leaderConnected = true;
+        notifyConnected();
+      } else if (!message.connected) {
+        leaderConnected = false;
+      }
+      break;
+    case "leader_elected":
+      // The new leader doesn't know which rooms this tab is in yet
+      leaderConnected = false;
+      joinedRooms.forEach((roomId) => {
+        postTabMessage({ type: "socket_join", tabId, roomId });
+      });
+      if (ownPresence) {
+        postTabMessage({ type: "presence_report", tabId, status: ownPresence });
+      }
+      break;
+  }
+};
+
+// Join the leader election once. This tab opens the socket if it wins.
+const startElection = () => {
+  if (electionStarted) return;
+  electionStarted = true;
+
+  onTabMessage(handleTabMessage);
+  window.addEventListener("pagehide", () => {
+    postTabMessage({ type: "tab_closed", tabId });
+  });
+
+  requestLeadership(() => {
+    console.log("This tab now holds the socket connection");
+    isLeader = true;
+    leaderConnected = false;
+    if (ownPresence) tabPresence.set(tabId, ownPresence);
+    connectSocket();
+    postTabMessage({ type: "leader_elected", tabId });
+  });
+
+  // Ask an existing leader whether its socket is up
+  if (!isLeader) {
+    postTabMessage({ type: "status_request" });
+  }
+};
+
+// Initialize socket connection, or attach to the one held by the leader tab
+export const initSocket = (): void => {
+  startElection();
+  if (isLeader) {
+    connectSocket();
+  }
+};
+
+// Listen for a server event. The handler only ever sees payloads that passed
+// validation. Returns a function that removes the listener.
+export const on = <E extends ServerEventName>(
+  event: E,
+  handler: (payload: ServerEventPayload<E>) => void
+): (() => void) => {
+  const listener: RawListener = (payload) => {
+    const result = serverEventValidators[event](payload);
+    if (!result.ok) {
+      reportInvalidEvent(event, payload, result.error);
+      return;
+    }
+    handler(result.value as ServerEventPayload<E>);
+  };
+
+  if (!listeners.has(event)) {
+    listeners.set(event, new Set());
+  }
+  listeners.get(event)!.add(listener);
+  untyped(socket)?.on(event as string, listener);
+
+  return () => {
+    listeners.get(event)?.delete(listener);
+    untyped(socket)?.off(event as string, listener);
+  };
+};
+
+// Run `handler` each time the connection (this tab's or the leader's) comes
+// up. Returns a function that removes the handler.
+export const onConnect = (handler: () => void): (() => void) => {
+  connectListeners.add(handler);
+  return () => {
+    connectListeners.delete(handler);
+  };
+};
+
 // Join a room
 export const joinRoom = (roomId: string): void => {
-  if (!socket || !socket.connected) {
-    socket = initSocket();
-  }
+  initSocket();
 
   // Only join if not already joined
   if (!joinedRooms.has(roomId)) {
     console.log(`Joining room: ${roomId}`);
-    socket.emit("join_room", roomId);
+    const needed = isRoomNeeded(roomId);
     joinedRooms.add(roomId);
+    if (!isLeader) {
+      postTabMessage({ type: "socket_join", tabId, roomId });
+    } else if (!needed) {
+      socket?.emit("join_room", roomId);
+    }
   } else {
     console.log(`Already joined room: ${roomId}`);
   }
@@ -93,20 +390,25 @@ export const joinRoom = (roomId: string): void => {
 
 // Leave a room
 export const leaveRoom = (roomId: string): void => {
-  if (joinedRooms.has(roomId) && socket && socket.connected) {
+  if (joinedRooms.has(roomId) && isConnected()) {
     console.log(`Leaving room: ${roomId}`);
-    socket.emit("leave_room", roomId);
     joinedRooms.delete(roomId);
+    if (!isLeader) {
+      postTabMessage({ type: "socket_leave", tabId, roomId });
+    } else if (!isRoomNeeded(roomId)) {
+      // Another tab may still be in the room on this socket
+      socket?.emit("leave_room", roomId);
+    }
   } else {
     console.log(`Not in room: ${roomId}`);
   }
 };
 
 // Send a message to a room
-export const sendMessage = (data: { roomId: string; message: any }): void => {
-  if (!socket || !socket.connected) {
+export const sendMessage = (data: SendMessagePayload): void => {
+  if (!isConnected()) {
     console.log("Socket not connected. Reconnecting...");
-    socket = initSocket();
+    initSocket();
   }
 
   console.log(`Sending message to room: ${data.roomId}`, data.message);
@@ -117,42 +419,60 @@ export const sendMessage = (data: { roomId: string; message: any }): void => {
     joinRoom(data.roomId);
   }
 
-  socket.emit("send_message", data);
+  emit("send_message", data);
 };
 
-// Send a reaction to a room
-export const sendReaction = (data: {
-  roomId: string;
-  emoji: string;
-  userId: string;
-}): void => {
-  if (!socket || !socket.connected) {
-    console.log("Socket not connected. Reconnecting...");
-    socket = initSocket();
+// Tell the room the current user started or stopped typing. These are
+// best-effort: nothing is sent while disconnected.
+export const startTyping = (roomId: string): void => {
+  if (isConnected() && joinedRooms.has(roomId)) {
+    emit("typing_start", { roomId });
   }
+};
 
-  console.log(`Sending reaction to room: ${data.roomId}`, data);
-
-  // Make sure we're in the room before sending
-  if (!joinedRooms.has(data.roomId)) {
-    console.log(`Not in room. Joining room: ${data.roomId}`);
-    joinRoom(data.roomId);
+export const stopTyping = (roomId: string): void => {
+  if (isConnected() && joinedRooms.has(roomId)) {
+    emit("typing_stop", { roomId });
   }
+};
 
-  socket.emit("send_reaction", data);
+// Report whether the current user is active or away in this tab. The leader
+// combines the reports from all tabs, so a hidden tab doesn't mark the user
+// away while they're using another one.
+export const updatePresence = (status: PresencePayload["status"]): void => {
+  ownPresence = status;
+  if (isLeader) {
+    tabPresence.set(tabId, status);
+    sendPresence();
+  } else {
+    postTabMessage({ type: "presence_report", tabId, status });
+  }
 };
 
 // Check connection status
 export const isConnected = (): boolean => {
+  if (!isLeader) return leaderConnected;
   return socket !== null && socket.connected;
 };
 
-// Disconnect socket
+// Disconnect socket, e.g. on logout. Leadership is kept, so the next
+// initSocket call reconnects from this tab.
 export const disconnectSocket = (): void => {
+  if (!isLeader) {
+    joinedRooms.forEach((roomId) => {
+      postTabMessage({ type: "socket_leave", tabId, roomId });
+    });
+    joinedRooms.clear();
+    return;
+  }
+
   if (socket) {
     socket.disconnect();
     socket = null;
     joinedRooms.clear();
+    remoteRooms.clear();
+    tabPresence.clear();
+    sentPresence = null;
     console.log("Socket disconnected manually");
   }
 };
@@ -160,10 +480,14 @@ export const disconnectSocket = (): void => {
 // Create a named export
 const socketService = {
   initSocket,
+  on,
+  onConnect,
   joinRoom,
   leaveRoom,
   sendMessage,
-  sendReaction,
+  startTyping,
+  stopTyping,
+  updatePresence,
   disconnectSocket,
   isConnected,
   socket: () => socket,
@@ -0,0 +1,816 @@
+import {
+  InviteStatus,
+  Message,
+  PresenceStatus,
+  Reaction,
+  ReactionSummary,
+  Room,
+  RoomReadState,
+  RoomRole,
+  RoomStatus,
+  UserSummary,
+} from "../types";
+
+/**
+ * Typed contract for the socket.io connection.
+ *
+ * Payloads received from the server are validated at runtime before they
+ * reach any listener. Malformed payloads are dropped and reported.
+ */
+
+// Client -> server payloads
+export interface SendMessagePayload {
+  roomId: string;
+  message: {
+    content: string;
+    clientId?: string;
+  };
+}
+
+export interface TypingPayload {
+  roomId: string;
+}
+
+export interface PresencePayload {
+  // Offline while connected means the user hides their online status
+  status: PresenceStatus.ONLINE | PresenceStatus.AWAY | PresenceStatus.OFFLINE;
+}
+
+// Server -> client payloads
+export interface RoomMembershipPayload {
+  roomId: string;
+  userId?: string;
+}
+
+export interface ReceiveMessagePayload {
+  roomId: string;
+  message: Message;
+  senderId?: string;
+}
+
+export interface ThreadUpdatedPayload {
+  roomId: string;
+  parentId: string;
+  replyCount: number;
+  lastReplyAt?: string;
+}
+
+export interface MessageEditedPayload {
+  roomId: string;
+  message: Message;
+}
+
+export interface MessageDeletedPayload {
+  roomId: string;
+  messageId: string;
+  deletedAt: string;
+  deletedBy?: string;
+}
+
+export interface MessageReactionsUpdatedPayload {
+  roomId: string;
+  messageId: string;
+  reactions: ReactionSummary[];
+}
+
+export interface UserTypingPayload {
+  roomId: string;
+  userId: string;
+  username: string;
+  isTyping: boolean;
+}
+
+export interface PresenceUpdatedPayload {
+  roomId: string;
+  userId: string;
+  status: PresenceStatus;
+}
+
+// Sent after joining a room: the presence of everyone in it
+export interface RoomPresencePayload {
+  roomId: string;
+  users: { userId: string; status: PresenceStatus }[];
+}
+
+// Sent only to the user who was mentioned
+export interface UserMentionedPayload {
+  roomId: string;
+  roomTitle: string;
+  messageId: string;
+  senderName: string;
+  excerpt: string;
+}
+
+export interface RoomInvitationPayload {
+  roomId: string;
+  roomTitle: string;
+}
+
+// Sent to the host and the invitee when an invite is answered or revoked
+export interface InviteUpdatedPayload {
+  inviteId: string;
+  roomId: string;
+  status: InviteStatus;
+}
+
+export interface RoomStatusChangedPayload {
+  roomId: string;
+  roomTitle: string;
+  status: RoomStatus;
+}
+
+// A host edited or rescheduled a room
+export interface RoomUpdatedPayload {
+  room: Room;
+}
+
+export interface RoomDeletedPayload {
+  roomId: string;
+  roomTitle: string;
+}
+
+// Moderation, sent to everyone in the room. The server enforces each change;
+// clients use them to keep the participant list and composer in step.
+export interface MemberRoleChangedPayload {
+  roomId: string;
+  userId: string;
+  role: RoomRole;
+}
+
+// A participant was kicked, or banned when `banned` is set
+export interface MemberRemovedPayload {
+  roomId: string;
+  roomTitle: string;
+  userId: string;
+  banned: boolean;
+}
+
+export interface MemberMutedPayload {
+  roomId: string;
+  userId: string;
+  muted: boolean;
+  // End of a timed mute
+  until: string | null;
+}
+
+export interface SlowModeChangedPayload {
+  roomId: string;
+  seconds: number;
+}
+
+// Someone joined, left or queued for a room with a participant limit
+export interface RoomCapacityChangedPayload {
+  roomId: string;
+  participantCount: number;
+  // User IDs in queue order
+  waitlist: string[];
+}
+
+// Sent to a user who got a place in a full room off its waitlist
+export interface WaitlistPromotedPayload {
+  roomId: string;
+  roomTitle: string;
+  userId: string;
+}
+
+// Someone changed their name or avatar; sent to everyone sharing a room
+// with them, and to the user's other sessions
+export interface UserProfileUpdatedPayload {
+  user: UserSummary;
+}
+
+// The user saved their preferences on another device. They may have been
+// written by an older or newer client, so they go through the preferences
+// service's migrations before use.
+export interface PreferencesUpdatedPayload {
+  preferences: {
+    version: number;
+    updatedAt: string;
+    preferences: Record<string, unknown>;
+  };
+}
+
+export interface ClientToServerEvents {
+  join_room: (roomId: string) => void;
+  leave_room: (roomId: string) => void;
+  send_message: (payload: SendMessagePayload) => void;
+  typing_start: (payload: TypingPayload) => void;
+  typing_stop: (payload: TypingPayload) => void;
+  presence_update: (payload: PresencePayload) => void;
+}
+
+export interface ServerToClientEvents {
+  room_joined: (payload: RoomMembershipPayload) => void;
+  room_left: (payload: RoomMembershipPayload) => void;
+  receive_message: (payload: ReceiveMessagePayload) => void;
+  receive_reaction: (payload: Reaction) => void;
+  thread_updated: (payload: ThreadUpdatedPayload) => void;
+  message_edited: (payload: MessageEditedPayload) => void;
+  message_deleted: (payload: MessageDeletedPayload) => void;
+  message_reactions_updated: (payload: MessageReactionsUpdatedPayload) => void;
+  user_typing: (payload: UserTypingPayload) => void;
+  presence_updated: (payload: PresenceUpdatedPayload) => void;
+  room_presence: (payload: RoomPresencePayload) => void;
+  // The user's read position changed, possibly on another device
+  read_state_updated: (payload: RoomReadState) => void;
+  user_mentioned: (payload: UserMentionedPayload) => void;
+  room_invitation: (payload: RoomInvitationPayload) => void;
+  invite_updated: (payload: InviteUpdatedPayload) => void;
+  room_status_changed: (payload: RoomStatusChangedPayload) => void;
+  room_updated: (payload: RoomUpdatedPayload) => void;
+  room_deleted: (payload: RoomDeletedPayload) => void;
+  member_role_changed: (payload: MemberRoleChangedPayload) => void;
+  member_removed: (payload: MemberRemovedPayload) => void;
+  member_muted: (payload: MemberMutedPayload) => void;
+  slow_mode_changed: (payload: SlowModeChangedPayload) => void;
+  room_capacity_changed: (payload: RoomCapacityChangedPayload) => void;
+  waitlist_promoted: (payload: WaitlistPromotedPayload) => void;
+  user_profile_updated: (payload: UserProfileUpdatedPayload) => void;
+  preferences_updated: (payload: PreferencesUpdatedPayload) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+
+export type ServerEventPayload<E extends ServerEventName> = Parameters<
+  ServerToClientEvents[E]
+>[0];
+
+// A validator returns the normalized payload, or an error string if the payload is malformed
+type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+type Validator<T> = (payload: unknown) => ValidationResult<T>;
+
+const valid = <T>(value: T): ValidationResult<T> => ({ ok: true, value });
+const invalid = <T>(error: string): ValidationResult<T> => ({
+  ok: false,
+  error,
+});
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+const isDateLike = (value: unknown): boolean =>
+  (typeof value === "string" || value instanceof Date) &&
+  !isNaN(new Date(value).getTime());
+
+// Populated references may come through as an ID or as the full document
+const isReference = (value: unknown): boolean =>
+  isNonEmptyString(value) || (isRecord(value) && isNonEmptyString(value._id));
+
+const referenceId = (value: unknown): string | undefined => {
+  if (isNonEmptyString(value)) return value;
+  if (isRecord(value) && isNonEmptyString(value._id)) return value._id;
+  return undefined;
+};
+
+const isRoomStatus = (value: unknown): value is RoomStatus =>
+  Object.values(RoomStatus).includes(value as RoomStatus);
+
+const isRoomRole = (value: unknown): value is RoomRole =>
+  Object.values(RoomRole).includes(value as RoomRole);
+
+const isInviteStatus = (value: unknown): value is InviteStatus =>
+  Object.values(InviteStatus).includes(value as InviteStatus);
+
+const isPresenceStatus = (value: unknown): value is PresenceStatus =>
+  Object.values(PresenceStatus).includes(value as PresenceStatus);
+
+const isReactionSummary = (value: unknown): value is ReactionSummary =>
+  isRecord(value) &&
+  isNonEmptyString(value.emoji) &&
+  typeof value.count === "number" &&
+  Array.isArray(value.users) &&
+  value.users.every(isNonEmptyString);
+
+const isAttachment = (value: unknown): boolean =>
+  isRecord(value) &&
+  isNonEmptyString(value._id) &&
+  isNonEmptyString(value.url) &&
+  typeof value.name === "string" &&
+  typeof value.mimeType === "string" &&
+  typeof value.size === "number";
+
+// Validate the parts of a message every listener relies on
+export const validateMessage = (value: unknown): ValidationResult<Message> => {
+  if (!isRecord(value)) return invalid("message is not an object");
+  if (!isNonEmptyString(value._id)) return invalid("message._id is missing");
+  if (typeof value.content !== "string") {
+    return invalid("message.content is not a string");
+  }
+  if (!isReference(value.sender)) {
+    return invalid("message.sender is missing");
+  }
+  if (!isDateLike(value.createdAt)) {
+    return invalid("message.createdAt is not a date");
+  }
+  if (value.parentId != null && !isNonEmptyString(value.parentId)) {
+    return invalid("message.parentId is not a string");
+  }
+  if (
+    value.reactions != null &&
+    (!Array.isArray(value.reactions) ||
+      !value.reactions.every(isReactionSummary))
+  ) {
+    return invalid("message.reactions is malformed");
+  }
+  if (value.editedAt != null && !isDateLike(value.editedAt)) {
+    return invalid("message.editedAt is not a date");
+  }
+  if (value.deletedAt != null && !isDateLike(value.deletedAt)) {
+    return invalid("message.deletedAt is not a date");
+  }
+  if (
+    value.editHistory != null &&
+    (!Array.isArray(value.editHistory) ||
+      !value.editHistory.every(
+        (edit: unknown) =>
+          isRecord(edit) &&
+          typeof edit.content === "string" &&
+          isDateLike(edit.editedAt)
+      ))
+  ) {
+    return invalid("message.editHistory is malformed");
+  }
+  if (
+    value.mentions != null &&
+    (!Array.isArray(value.mentions) ||
+      !value.mentions.every(
+        (mention: unknown) =>
+          isRecord(mention) &&
+          isNonEmptyString(mention.userId) &&
+          typeof mention.username === "string"
+      ))
+  ) {
+    return invalid("message.mentions is malformed");
+  }
+  if (
+    value.attachments != null &&
+    (!Array.isArray(value.attachments) ||
+      !value.attachments.every(isAttachment))
+  ) {
+    return invalid("message.attachments is malformed");
+  }
+  return valid(value as unknown as Message);
+};
+
+const validateRoomMembership: Validator<RoomMembershipPayload> = (payload) => {
+  // Older servers confirm with just the room ID
+  if (isNonEmptyString(payload)) return valid({ roomId: payload });
+  if (!isRecord(payload) || !isNonEmptyString(payload.roomId)) {
+    return invalid("roomId is missing");
+  }
+  return valid({
+    roomId: payload.roomId,
+    userId: isNonEmptyString(payload.userId) ? payload.userId : undefined,
+  });
+};
+
+const validateReceiveMessage: Validator<ReceiveMessagePayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+
+  // The server either wraps the message ({ message, roomId, senderId }) or sends it bare
+  const wrapped = isRecord(payload.message);
+  const result = validateMessage(wrapped ? payload.message : payload);
+  if (!result.ok) return invalid(result.error);
+
+  const message = result.value;
+  const roomId = wrapped
+    ? referenceId(payload.roomId) || referenceId(message.room)
+    : referenceId(message.room);
+  if (!roomId) return invalid("roomId is missing");
+
+  return valid({
+    roomId,
+    message,
+    senderId: wrapped
+      ? referenceId(payload.senderId) || referenceId(message.sender)
+      : referenceId(message.sender),
+  });
+};
+
+const validateReaction: Validator<Reaction> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload._id)) return invalid("_id is missing");
+  if (!isNonEmptyString(payload.emoji)) return invalid("emoji is missing");
+  if (!isReference(payload.user)) return invalid("user is missing");
+  if (!isReference(payload.room)) return invalid("room is missing");
+  return valid(payload as unknown as Reaction);
+};
+
+const validateThreadUpdated: Validator<ThreadUpdatedPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.parentId)) {
+    return invalid("parentId is missing");
+  }
+  if (
+    typeof payload.replyCount !== "number" ||
+    !Number.isInteger(payload.replyCount) ||
+    payload.replyCount < 0
+  ) {
+    return invalid("replyCount is not a non-negative integer");
+  }
+  if (payload.lastReplyAt !== undefined && !isDateLike(payload.lastReplyAt)) {
+    return invalid("lastReplyAt is not a date");
+  }
+  return valid({
+    roomId: payload.roomId,
+    parentId: payload.parentId,
+    replyCount: payload.replyCount,
+    lastReplyAt: payload.lastReplyAt,
+  });
+};
+
+const validateMessageEdited: Validator<MessageEditedPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+
+  const result = validateMessage(payload.message);
+  if (!result.ok) return invalid(result.error);
+  if (!result.value.editedAt) return invalid("message.editedAt is missing");
+
+  return valid({ roomId: payload.roomId, message: result.value });
+};
+
+const validateMessageDeleted: Validator<MessageDeletedPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.messageId)) {
+    return invalid("messageId is missing");
+  }
+  if (!isDateLike(payload.deletedAt)) return invalid("deletedAt is not a date");
+  return valid({
+    roomId: payload.roomId,
+    messageId: payload.messageId,
+    deletedAt: payload.deletedAt,
+    deletedBy: referenceId(payload.deletedBy),
+  });
+};
+
+const validateMessageReactionsUpdated: Validator<
+  MessageReactionsUpdatedPayload
+> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.messageId)) {
+    return invalid("messageId is missing");
+  }
+  if (
+    !Array.isArray(payload.reactions) ||
+    !payload.reactions.every(isReactionSummary)
+  ) {
+    return invalid("reactions is malformed");
+  }
+  return valid({
+    roomId: payload.roomId,
+    messageId: payload.messageId,
+    reactions: payload.reactions,
+  });
+};
+
+const validateUserTyping: Validator<UserTypingPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.userId)) return invalid("userId is missing");
+  if (typeof payload.isTyping !== "boolean") {
+    return invalid("isTyping is not a boolean");
+  }
+  return valid({
+    roomId: payload.roomId,
+    userId: payload.userId,
+    username: isNonEmptyString(payload.username) ? payload.username : "Someone",
+    isTyping: payload.isTyping,
+  });
+};
+
+const validatePresenceUpdated: Validator<PresenceUpdatedPayload> = (
+  payload
+) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.userId)) return invalid("userId is missing");
+  if (!isPresenceStatus(payload.status)) {
+    return invalid(`unknown presence status "${payload.status}"`);
+  }
+  return valid({
+    roomId: payload.roomId,
+    userId: payload.userId,
+    status: payload.status,
+  });
+};
+
+const validateRoomPresence: Validator<RoomPresencePayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (
+    !Array.isArray(payload.users) ||
+    !payload.users.every(
+      (entry: unknown) =>
+        isRecord(entry) &&
+        isNonEmptyString(entry.userId) &&
+        isPresenceStatus(entry.status)
+    )
+  ) {
+    return invalid("users is malformed");
+  }
+  return valid({ roomId: payload.roomId, users: payload.users });
+};
+
+const validateReadState: Validator<RoomReadState> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (
+    payload.lastReadMessageId !== null &&
+    !isNonEmptyString(payload.lastReadMessageId)
+  ) {
+    return invalid("lastReadMessageId is not a string");
+  }
+  if (
+    typeof payload.unreadCount !== "number" ||
+    !Number.isInteger(payload.unreadCount) ||
+    payload.unreadCount < 0
+  ) {
+    return invalid("unreadCount is not a non-negative integer");
+  }
+  return valid({
+    roomId: payload.roomId,
+    lastReadMessageId: payload.lastReadMessageId,
+    unreadCount: payload.unreadCount,
+    updatedAt: isDateLike(payload.updatedAt) ? payload.updatedAt : undefined,
+  });
+};
+
+const validateUserMentioned: Validator<UserMentionedPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.messageId)) {
+    return invalid("messageId is missing");
+  }
+  return valid({
+    roomId: payload.roomId,
+    roomTitle: typeof payload.roomTitle === "string" ? payload.roomTitle : "",
+    messageId: payload.messageId,
+    senderName: isNonEmptyString(payload.senderName)
+      ? payload.senderName
+      : "Someone",
+    excerpt: typeof payload.excerpt === "string" ? payload.excerpt : "",
+  });
+};
+
+const validateRoomInvitation: Validator<RoomInvitationPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (typeof payload.roomTitle !== "string") {
+    return invalid("roomTitle is not a string");
+  }
+  return valid({ roomId: payload.roomId, roomTitle: payload.roomTitle });
+};
+
+const validateInviteUpdated: Validator<InviteUpdatedPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.inviteId)) {
+    return invalid("inviteId is missing");
+  }
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isInviteStatus(payload.status)) {
+    return invalid(`unknown status "${payload.status}"`);
+  }
+  return valid({
+    inviteId: payload.inviteId,
+    roomId: payload.roomId,
+    status: payload.status,
+  });
+};
+
+const validateRoomStatusChanged: Validator<RoomStatusChangedPayload> = (
+  payload
+) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (typeof payload.roomTitle !== "string") {
+    return invalid("roomTitle is not a string");
+  }
+  if (!isRoomStatus(payload.status)) {
+    return invalid(`unknown status "${payload.status}"`);
+  }
+  return valid({
+    roomId: payload.roomId,
+    roomTitle: payload.roomTitle,
+    status: payload.status,
+  });
+};
+
+const validateRoomUpdated: Validator<RoomUpdatedPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  const { room } = payload;
+  if (!isRecord(room)) return invalid("room is missing");
+  if (!isNonEmptyString(room._id)) return invalid("room._id is missing");
+  if (typeof room.title !== "string") {
+    return invalid("room.title is not a string");
+  }
+  if (!isRoomStatus(room.status)) {
+    return invalid(`unknown status "${room.status}"`);
+  }
+  if (!isDateLike(room.startTime) || !isDateLike(room.endTime)) {
+    return invalid("room times are malformed");
+  }
+  return valid({ room: room as unknown as Room });
+};
+
+const validateRoomDeleted: Validator<RoomDeletedPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  return valid({
+    roomId: payload.roomId,
+    roomTitle: typeof payload.roomTitle === "string" ? payload.roomTitle : "",
+  });
+};
+
+const validateMemberRoleChanged: Validator<MemberRoleChangedPayload> = (
+  payload
+) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.userId)) return invalid("userId is missing");
+  if (!isRoomRole(payload.role)) {
+    return invalid(`unknown role "${payload.role}"`);
+  }
+  return valid({
+    roomId: payload.roomId,
+    userId: payload.userId,
+    role: payload.role,
+  });
+};
+
+const validateMemberRemoved: Validator<MemberRemovedPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.userId)) return invalid("userId is missing");
+  return valid({
+    roomId: payload.roomId,
+    roomTitle: typeof payload.roomTitle === "string" ? payload.roomTitle : "",
+    userId: payload.userId,
+    banned: payload.banned === true,
+  });
+};
+
+const validateMemberMuted: Validator<MemberMutedPayload> = (payload) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.userId)) return invalid("userId is missing");
+  if (typeof payload.muted !== "boolean") {
+    return invalid("muted is not a boolean");
+  }
+  if (payload.until != null && !isDateLike(payload.until)) {
+    return invalid("until is not a date");
+  }
+  return valid({
+    roomId: payload.roomId,
+    userId: payload.userId,
+    muted: payload.muted,
+    until: payload.until ?? null,
+  });
+};
+
+const validateSlowModeChanged: Validator<SlowModeChangedPayload> = (
+  payload
+) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (
+    typeof payload.seconds !== "number" ||
+    !Number.isInteger(payload.seconds) ||
+    payload.seconds < 0
+  ) {
+    return invalid("seconds is not a non-negative integer");
+  }
+  return valid({ roomId: payload.roomId, seconds: payload.seconds });
+};
+
+const validateRoomCapacityChanged: Validator<RoomCapacityChangedPayload> = (
+  payload
+) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (
+    typeof payload.participantCount !== "number" ||
+    !Number.isInteger(payload.participantCount) ||
+    payload.participantCount < 0
+  ) {
+    return invalid("participantCount is not a non-negative integer");
+  }
+  const waitlist = payload.waitlist ?? [];
+  if (!Array.isArray(waitlist) || !waitlist.every(isNonEmptyString)) {
+    return invalid("waitlist is not a list of user IDs");
+  }
+  return valid({
+    roomId: payload.roomId,
+    participantCount: payload.participantCount,
+    waitlist: waitlist as string[],
+  });
+};
+
+const validateWaitlistPromoted: Validator<WaitlistPromotedPayload> = (
+  payload
+) => {
+  if (!isRecord(payload)) return invalid("payload is not an object");
+  if (!isNonEmptyString(payload.roomId)) return invalid("roomId is missing");
+  if (!isNonEmptyString(payload.userId)) return invalid("userId is missing");
+  return valid({
+    roomId: payload.roomId,
+    roomTitle: typeof payload.roomTitle === "string" ? payload.roomTitle : "",
+    userId: payload.userId,
+  });
+};
+
+const validateUserProfileUpdated: Validator<UserProfileUpdatedPayload> = (
+  payload
+) => {
+  if (!isRecord(payload) || !isRecord(payload.user)) {
+    return invalid("user is missing");
+  }
+  const { user } = payload;
+  if (!isNonEmptyString(user.id)) return invalid("user.id is missing");
+  if (!isNonEmptyString(user.username)) {
+    return invalid("user.username is missing");
+  }
+  if (user.avatar != null && typeof user.avatar !== "string") {
+    return invalid("user.avatar is not a string");
+  }
+  if (user.avatarSizes != null && !isRecord(user.avatarSizes)) {
+    return invalid("user.avatarSizes is malformed");
+  }
+  return valid({
+    user: {
+      id: user.id,
+      username: user.username,
+      // An explicit empty avatar means it was removed
+      avatar: user.avatar || undefined,
+      avatarSizes: user.avatarSizes || undefined,
+      avatarFallback:
+        user.avatarFallback === "identicon" ? "identicon" : "initials",
+    },
+  });
+};
+
+// Only the envelope is checked; the preferences service migrates the rest
+const validatePreferencesUpdated: Validator<PreferencesUpdatedPayload> = (
+  payload
+) => {
+  if (!isRecord(payload) || !isRecord(payload.preferences)) {
+    return invalid("preferences is missing");
+  }
+  const { preferences } = payload;
+  if (typeof preferences.version !== "number") {
+    return invalid("preferences.version is not a number");
+  }
+  if (!isDateLike(preferences.updatedAt)) {
+    return invalid("preferences.updatedAt is not a date");
+  }
+  if (!isRecord(preferences.preferences)) {
+    return invalid("preferences.preferences is missing");
+  }
+  return valid({
+    preferences: {
+      version: preferences.version,
+      updatedAt: new Date(preferences.updatedAt).toISOString(),
+      preferences: preferences.preferences,
+    },
+  });
+};
+
+// One validator per server event - adding an event to the contract requires adding one here
+export const serverEventValidators: {
+  [E in ServerEventName]: Validator<ServerEventPayload<E>>;
+} = {
+  room_joined: validateRoomMembership,
+  room_left: validateRoomMembership,
+  receive_message: validateReceiveMessage,
+  receive_reaction: validateReaction,
+  thread_updated: validateThreadUpdated,
+  message_edited: validateMessageEdited,
+  message_deleted: validateMessageDeleted,
+  message_reactions_updated: validateMessageReactionsUpdated,
+  user_typing: validateUserTyping,
+  presence_updated: validatePresenceUpdated,
+  room_presence: validateRoomPresence,
+  read_state_updated: validateReadState,
+  user_mentioned: validateUserMentioned,
+  room_invitation: validateRoomInvitation,
+  invite_updated: validateInviteUpdated,
+  room_status_changed: validateRoomStatusChanged,
+  room_updated: validateRoomUpdated,
+  room_deleted: validateRoomDeleted,
+  member_role_changed: validateMemberRoleChanged,
+  member_removed: validateMemberRemoved,
+  member_muted: validateMemberMuted,
+  slow_mode_changed: validateSlowModeChanged,
+  room_capacity_changed: validateRoomCapacityChanged,
+  waitlist_promoted: validateWaitlistPromoted,
+  user_profile_updated: validateUserProfileUpdated,
+  preferences_updated: validatePreferencesUpdated,
+};
@@ -0,0 +1,88 @@
+/**
+ * Coordination between open tabs of the app.
+ *
+ * Tabs talk over a BroadcastChannel, and one "leader" tab is elected with the
+ * Web Locks API. Browsers without either fall back to every tab acting on its
+ * own, which is how the app behaved before tabs were coordinated.
+ */
+
+import { PresenceStatus } from "../types";
+
+const CHANNEL_NAME = "roomloop";
+const LEADER_LOCK = "roomloop-leader";
+
+// Identifies this tab in messages to the others
+export const tabId = `${Date.now().toString(36)}-${Math.random()
+  .toString(36)
+  .slice(2, 8)}`;
+
+export type TabMessage =
+  // Leader -> followers: a server event received on the shared socket
+  | { type: "socket_event"; event: string; payload: unknown }
+  // Follower -> leader: an event to emit on the shared socket
+  | { type: "socket_emit"; event: string; args: unknown[] }
+  // Follower -> leader: rooms the follower needs the socket to be in
+  | { type: "socket_join"; tabId: string; roomId: string }
+  | { type: "socket_leave"; tabId: string; roomId: string }
+  // Follower -> leader: this tab's own presence, to combine with the others
+  | { type: "presence_report"; tabId: string; status: PresenceStatus }
+  // Leader -> followers: whether the shared socket is connected
+  | { type: "socket_status"; connected: boolean }
+  | { type: "status_request" }
+  | { type: "leader_elected"; tabId: string }
+  | { type: "tab_closed"; tabId: string };
+
+const channel: BroadcastChannel | null =
+  typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel(CHANNEL_NAME)
+    : null;
+
+const locks: LockManager | null =
+  typeof navigator !== "undefined" && navigator.locks ? navigator.locks : null;
+
+// Leader election needs both a way to talk and a way to take turns
+export const canShareAcrossTabs = (): boolean => !!channel && !!locks;
+
+export const postTabMessage = (message: TabMessage): void => {
+  channel?.postMessage(message);
+};
+
+// Returns a function that removes the handler
+export const onTabMessage = (
+  handler: (message: TabMessage) => void
+): (() => void) => {
+  if (!channel) return () => {};
+
+  const listener = (event: MessageEvent<TabMessage>) => handler(event.data);
+  channel.addEventListener("message", listener);
+  return () => channel.removeEventListener("message", listener);
+};
+
+/**
+ * Calls `onLeader` once this tab becomes the leader. The lock is held until
+ * the tab closes, at which point the next waiting tab takes over. Without
+ * tab coordination every tab leads.
+ */
+export const requestLeadership = (onLeader: () => void): void => {
+  if (!canShareAcrossTabs()) {
+    onLeader();
+    return;
+  }
+
+  locks!
+    .request(LEADER_LOCK, () => {
+      onLeader();
+      // Never resolves, so the lock is only released with the tab
+      return new Promise<void>(() => {});
+    })
+    .catch((error) => {
+      console.error("Leader election failed; this tab will lead:", error);
+      onLeader();
+    });
+};
+
+// Run `task` while no other tab is running a task under the same name
+export const withTabLock = <T>(
+  name: string,
+  task: () => Promise<T>
+): Promise<T> => (locks ? locks.request(name, task) : task());
@@ -4,19 +4,90 @@ export interface User {
   username: string;
   email: string;
   bio?: string;
+  // URL of the largest uploaded size
   avatar?: string;
+  // Every uploaded size, keyed by width in pixels
+  avatarSizes?: Record<number, string>;
+  // What to show when there is no uploaded avatar
+  avatarFallback?: AvatarFallback;
   createdRooms?: string[];
   joinedRooms?: string[];
   invitedToRooms?: string[];
   createdAt?: string | Date;
 }
 
+export type AvatarFallback = "initials" | "identicon";
+
+// Editable profile fields
+export interface ProfileUpdate {
+  username: string;
+  email: string;
+  bio?: string;
+  avatarFallback?: AvatarFallback;
+}
+
+// Per-user settings. They are synced with the server, so they follow the
+// user to every device.
+export interface UserPreferences {
+  // Profile settings
+  displayName: string;
+  bio: string;
+  location: string;
+  website: string;
+  company: string;
+  jobTitle: string;
+
+  // Notification settings. Email ones are sent by the server.
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  roomInvitations: boolean;
+  messageNotifications: boolean;
+  marketingEmails: boolean;
+
+  // Privacy settings. Visibility and direct messages are enforced by the
+  // server.
+  profileVisibility: "public" | "private" | "friends";
+  showOnlineStatus: boolean;
+  allowDirectMessages: boolean;
+  showLastSeen: boolean;
+
+  // Theme settings
+  theme: "light" | "dark" | "system";
+  accentColor: string;
+
+  // Accessibility settings
+  fontSize: number;
+  highContrast: boolean;
+  reduceMotion: boolean;
+  screenReaderMode: boolean;
+
+  // Language settings
+  language: string;
+  // IANA zone name, e.g. "Europe/Paris"
+  timezone: string;
+  // date-fns pattern, e.g. "dd/MM/yyyy"
+  dateFormat: string;
+  timeFormat: "12h" | "24h";
+}
+
+// Preferences as saved locally and on the server
+export interface StoredPreferences {
+  // Schema version the preferences were written with
+  version: number;
+  updatedAt: string;
+  preferences: UserPreferences;
+}
+
 export interface AuthState {
   isAuthenticated: boolean;
   user: User | null;
   loading: boolean;
   error: string | null;
   token: string | null;
+  // Set when the session ended because it could no longer be refreshed
+  sessionExpired: boolean;
+  // Where to send the user after they sign in again
+  returnTo: string | null;
 }
 
 // Room types
@@ -24,6 +95,7 @@ export enum RoomStatus {
   SCHEDULED = "scheduled",
   LIVE = "live",
   CLOSED = "closed",
+  CANCELLED = "cancelled",
 }
 
 export enum RoomType {
@@ -40,6 +112,8 @@ export interface Room {
   creator: User | string;
   startTime: string | Date;
   endTime: string | Date;
+  // IANA zone the host scheduled the room in
+  timezone?: string;
   maxParticipants?: number;
   participants: User[] | string[];
   invitedUsers: User[] | string[];
@@ -47,6 +121,143 @@ export interface Room {
   code: string;
   createdAt: string | Date;
   updatedAt: string | Date;
+  // Set when the host ends a live room early
+  endedAt?: string | Date;
+  // Set when the host cancels a scheduled room
+  cancelledAt?: string | Date;
+  cancellationReason?: string;
+  // Revision the server bumps when the time, status or cancellation
+  // changes, but not for joins or other edits. Used as the calendar SEQUENCE.
+  sequence?: number;
+  // Set on every occurrence of a recurring series
+  seriesId?: string;
+  recurrence?: RecurrenceRule;
+  // True once this occurrence was edited on its own and no longer follows
+  // changes made to the whole series
+  isSeriesException?: boolean;
+  // Roles other than the defaults: the creator is the host and everyone
+  // else is a participant
+  memberRoles?: RoomMemberRole[];
+  mutedUsers?: RoomMute[];
+  // IDs of users who were banned and can't rejoin
+  bannedUsers?: string[];
+  // Minimum seconds between messages from the same participant; 0 is off
+  slowModeSeconds?: number;
+  // Live participant count from the server; lists that only need the
+  // number may send it instead of keeping `participants` current
+  participantCount?: number;
+  // IDs of users waiting for a place in a full room, first come first served
+  waitlist?: string[];
+}
+
+// Ordered from most to least privileged
+export enum RoomRole {
+  HOST = "host",
+  CO_HOST = "co-host",
+  MODERATOR = "moderator",
+  PARTICIPANT = "participant",
+  LISTENER = "listener",
+}
+
+export interface RoomMemberRole {
+  userId: string;
+  role: RoomRole;
+}
+
+export interface RoomMute {
+  userId: string;
+  // Missing or null while muted until someone unmutes them
+  until?: string | Date | null;
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+// How a room repeats. A series ends after `until` or after `count`
+// occurrences, whichever the host chose; the server creates the occurrences.
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Repeat every N days, weeks or months
+  interval: number;
+  // Weekly only: days to meet on, 0 (Sunday) to 6 (Saturday)
+  weekdays?: number[];
+  until?: string | Date;
+  count?: number;
+}
+
+// Which rooms a change to a recurring room applies to
+export type SeriesEditScope = "occurrence" | "series";
+
+// Invite types
+export enum InviteStatus {
+  PENDING = "pending",
+  ACCEPTED = "accepted",
+  DECLINED = "declined",
+  REVOKED = "revoked",
+}
+
+// The public part of another user's profile, as returned by user search
+export type UserSummary = Pick<
+  User,
+  "id" | "username" | "avatar" | "avatarSizes" | "avatarFallback"
+>;
+
+export interface RoomInvite {
+  _id: string;
+  roomId: string;
+  // Populated on the invitee's own invites
+  room?: Room;
+  invitedBy: UserSummary;
+  // Set for invites to existing users
+  invitee?: UserSummary;
+  // Set for invites by email to people without an account. They become
+  // ordinary invites once someone signs up with the address.
+  email?: string;
+  status: InviteStatus;
+  createdAt: string | Date;
+  // When the invite was last sent, including resends
+  sentAt: string | Date;
+  respondedAt?: string | Date;
+}
+
+// Who to invite: existing users by username, everyone else by email
+export interface InviteRecipients {
+  usernames: string[];
+  emails: string[];
+}
+
+// Explore search
+export type RoomSortOrder = "startTime" | "popularity" | "recent";
+
+export interface RoomSearchParams {
+  // Full-text query over titles, descriptions and tags
+  q?: string;
+  roomType?: RoomType;
+  // Rooms with any of these tags
+  tags?: string[];
+  // Rooms in any of these states; empty means any state
+  status?: RoomStatus[];
+  // Only rooms starting within these days (yyyy-MM-dd, inclusive)
+  from?: string;
+  to?: string;
+  sort?: RoomSortOrder;
+}
+
+// How many matching rooms have a tag or status
+export interface SearchFacet {
+  value: string;
+  count: number;
+}
+
+export interface RoomSearchPage {
+  rooms: Room[];
+  // Pass back to fetch the next page; null on the last page
+  nextCursor: string | null;
+  // Matches across all pages
+  total: number;
+  facets: {
+    tags: SearchFacet[];
+    status: SearchFacet[];
+  };
 }
 
 export interface RoomState {
@@ -64,18 +275,136 @@ export interface RoomState {
 }
 
 // Message types
+export enum MessageStatus {
+  PENDING = "pending",
+  SENT = "sent",
+  FAILED = "failed",
+}
+
 export interface Message {
   _id: string;
   content: string;
   sender: User | string;
   room: Room | string;
   createdAt: string | Date;
+  // Client-generated ID, echoed back by the server so optimistic copies can be matched
+  clientId?: string;
+  // Local delivery state; messages from the server are always considered sent
+  status?: MessageStatus;
+  // Set on replies: the top-level message that started the thread
+  parentId?: string;
+  // Set on top-level messages that have replies
+  replyCount?: number;
+  lastReplyAt?: string | Date;
+  // Reactions on this message, aggregated per emoji
+  reactions?: ReactionSummary[];
+  // Set once the content has been changed; earlier versions are kept in editHistory
+  editedAt?: string | Date;
+  editHistory?: MessageEdit[];
+  // Deleted messages stay in the timeline as a tombstone with empty content
+  deletedAt?: string | Date;
+  deletedBy?: User | string;
+  // Participants mentioned with @username
+  mentions?: MessageMention[];
+  // Files shared with the message; a message may be attachments only
+  attachments?: Attachment[];
+}
+
+// A file uploaded to a room. Uploads come before the message that shares
+// them, so messageId is only set once the message has been sent.
+export interface Attachment {
+  _id: string;
+  url: string;
+  name: string;
+  mimeType: string;
+  // In bytes
+  size: number;
+  // Smaller copy for images and a poster frame for videos, when available
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+  uploadedBy?: User | string;
+  messageId?: string;
+  createdAt: string | Date;
+}
+
+export type AttachmentKind = "image" | "video" | "audio" | "file";
+
+export interface MessageMention {
+  userId: string;
+  username: string;
+}
+
+// Optional parts of a new message
+export interface SendMessageOptions {
+  // Send as a reply in this message's thread
+  parentId?: string;
+  mentions?: MessageMention[];
+  // Files already uploaded with uploadAttachment
+  attachments?: Attachment[];
+}
+
+// Whether the current user can post in the open room, and why not
+export interface ComposerState {
+  canSend: boolean;
+  reason: string | null;
+  // Seconds left before slow mode allows the next message
+  slowModeWait: number;
+}
+
+// A previous version of an edited message
+export interface MessageEdit {
+  content: string;
+  editedAt: string | Date;
+}
+
+// A message waiting in the local outbox to be delivered
+export interface OutboxEntry {
+  clientId: string;
+  roomId: string;
+  content: string;
+  parentId?: string;
+  mentions?: MessageMention[];
+  attachments?: Attachment[];
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  status: MessageStatus.PENDING | MessageStatus.FAILED;
+  error?: string;
 }
 
 export interface MessageState {
   messages: Message[];
   loading: boolean;
   error: string | null;
+  // Whether older history is available on the server
+  hasMore: boolean;
+  loadingOlder: boolean;
+  // Oldest message in the pages loaded so far, replies included; the next
+  // page starts before it
+  oldestLoadedId?: string;
+}
+
+// The current user's read position in a room
+export interface RoomReadState {
+  roomId: string;
+  // Newest message the user has seen; null if they have never opened the room
+  lastReadMessageId: string | null;
+  unreadCount: number;
+  updatedAt?: string | Date;
+}
+
+// Presence types
+export enum PresenceStatus {
+  ONLINE = "online",
+  AWAY = "away",
+  OFFLINE = "offline",
+}
+
+// A participant who is currently typing in the active room
+export interface TypingUser {
+  userId: string;
+  username: string;
 }
 
 // Reaction types
@@ -84,9 +413,19 @@ export interface Reaction {
   emoji: string;
   user: User | string;
   room: Room | string;
+  // Set when the reaction is on a message rather than on the room
+  message?: Message | string;
   createdAt: string | Date;
 }
 
+// All reactions with one emoji on a message
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  // IDs of the users who reacted
+  users: string[];
+}
+
 export interface ReactionState {
   reactions: Reaction[];
   loading: boolean;
@@ -112,8 +451,23 @@ export interface CreateRoomFormData {
   roomType: RoomType;
   startTime: Date;
   endTime: Date;
+  // The zone the times were picked in, shown to guests elsewhere
+  timezone?: string;
   maxParticipants?: number;
   tags: string[];
+  // Makes the room the first occurrence of a recurring series
+  recurrence?: RecurrenceRule;
+}
+
+// Details a host can change after creating a room. Times are changed by
+// rescheduling instead, and a series keeps the rule it was created with.
+export type UpdateRoomFormData = Partial<
+  Omit<CreateRoomFormData, "startTime" | "endTime" | "recurrence">
+>;
+
+export interface RescheduleRoomData {
+  startTime: Date;
+  endTime: Date;
 }
 
 // API response types
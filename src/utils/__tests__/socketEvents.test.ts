@@ -0,0 +1,264 @@
+import {
+  serverEventValidators,
+  validateMessage,
+} from "../../services/socketEvents";
+
+const message = {
+  _id: "m1",
+  content: "hello",
+  sender: { _id: "u1", username: "ana" },
+  room: "r1",
+  createdAt: "2024-05-01T10:00:00.000Z",
+};
+
+describe("validateMessage", () => {
+  it("accepts a message with a populated or bare sender", () => {
+    expect(validateMessage(message)).toEqual({ ok: true, value: message });
+    expect(validateMessage({ ...message, sender: "u1" }).ok).toBe(true);
+  });
+
+  it("accepts well-formed optional fields", () => {
+    const result = validateMessage({
+      ...message,
+      parentId: "m0",
+      reactions: [{ emoji: "👍", count: 1, users: ["u2"] }],
+      editedAt: "2024-05-01T10:05:00.000Z",
+      editHistory: [{ content: "helo", editedAt: "2024-05-01T10:05:00.000Z" }],
+      mentions: [{ userId: "u2", username: "ben" }],
+      attachments: [
+        {
+          _id: "a1",
+          url: "/files/a1",
+          name: "notes.txt",
+          mimeType: "text/plain",
+          size: 12,
+        },
+      ],
+    });
+    expect(result.ok).toBe(true);
+  });
+
+  it("rejects messages missing required fields", () => {
+    expect(validateMessage(null)).toEqual({
+      ok: false,
+      error: "message is not an object",
+    });
+    expect(validateMessage({ ...message, _id: "" })).toEqual({
+      ok: false,
+      error: "message._id is missing",
+    });
+    expect(validateMessage({ ...message, content: 4 })).toEqual({
+      ok: false,
+      error: "message.content is not a string",
+    });
+    expect(validateMessage({ ...message, sender: {} })).toEqual({
+      ok: false,
+      error: "message.sender is missing",
+    });
+    expect(validateMessage({ ...message, createdAt: "yesterday" })).toEqual({
+      ok: false,
+      error: "message.createdAt is not a date",
+    });
+  });
+
+  it("rejects malformed optional fields", () => {
+    expect(
+      validateMessage({ ...message, reactions: [{ emoji: "👍" }] })
+    ).toEqual({ ok: false, error: "message.reactions is malformed" });
+    expect(
+      validateMessage({ ...message, editHistory: [{ content: "helo" }] })
+    ).toEqual({ ok: false, error: "message.editHistory is malformed" });
+    expect(
+      validateMessage({ ...message, mentions: [{ username: "ben" }] })
+    ).toEqual({ ok: false, error: "message.mentions is malformed" });
+    expect(
+      validateMessage({ ...message, attachments: [{ _id: "a1" }] })
+    ).toEqual({ ok: false, error: "message.attachments is malformed" });
+  });
+});
+
+describe("serverEventValidators", () => {
+  it("accepts room confirmations as an ID or an object", () => {
+    const validate = serverEventValidators.room_joined;
+    expect(validate("r1")).toEqual({ ok: true, value: { roomId: "r1" } });
+    expect(validate({ roomId: "r1", userId: "u1" })).toEqual({
+      ok: true,
+      value: { roomId: "r1", userId: "u1" },
+    });
+    expect(validate({}).ok).toBe(false);
+  });
+
+  it("unwraps received messages, wrapped or bare", () => {
+    const validate = serverEventValidators.receive_message;
+    expect(validate({ message, roomId: "r1", senderId: "u1" })).toEqual({
+      ok: true,
+      value: { roomId: "r1", message, senderId: "u1" },
+    });
+    expect(validate(message)).toEqual({
+      ok: true,
+      value: { roomId: "r1", message, senderId: "u1" },
+    });
+    expect(validate({ ...message, room: undefined })).toEqual({
+      ok: false,
+      error: "roomId is missing",
+    });
+    expect(validate({ message: { ...message, content: null } }).ok).toBe(false);
+  });
+
+  it("requires an edit time on edited messages", () => {
+    const validate = serverEventValidators.message_edited;
+    const edited = { ...message, editedAt: "2024-05-01T10:05:00.000Z" };
+    expect(validate({ roomId: "r1", message: edited }).ok).toBe(true);
+    expect(validate({ roomId: "r1", message })).toEqual({
+      ok: false,
+      error: "message.editedAt is missing",
+    });
+  });
+
+  it("checks counts are non-negative integers", () => {
+    expect(
+      serverEventValidators.thread_updated({
+        roomId: "r1",
+        parentId: "m1",
+        replyCount: 2,
+      }).ok
+    ).toBe(true);
+    expect(
+      serverEventValidators.thread_updated({
+        roomId: "r1",
+        parentId: "m1",
+        replyCount: 1.5,
+      }).ok
+    ).toBe(false);
+    expect(
+      serverEventValidators.read_state_updated({
+        roomId: "r1",
+        lastReadMessageId: null,
+        unreadCount: -1,
+      })
+    ).toEqual({
+      ok: false,
+      error: "unreadCount is not a non-negative integer",
+    });
+    expect(
+      serverEventValidators.slow_mode_changed({ roomId: "r1", seconds: "30" })
+        .ok
+    ).toBe(false);
+  });
+
+  it("rejects values outside the known enums", () => {
+    expect(
+      serverEventValidators.presence_updated({
+        roomId: "r1",
+        userId: "u1",
+        status: "busy",
+      })
+    ).toEqual({ ok: false, error: 'unknown presence status "busy"' });
+    expect(
+      serverEventValidators.member_role_changed({
+        roomId: "r1",
+        userId: "u1",
+        role: "owner",
+      })
+    ).toEqual({ ok: false, error: 'unknown role "owner"' });
+    expect(
+      serverEventValidators.room_status_changed({
+        roomId: "r1",
+        roomTitle: "Standup",
+        status: "live",
+      }).ok
+    ).toBe(true);
+  });
+
+  it("fills in defaults for optional fields", () => {
+    expect(
+      serverEventValidators.user_typing({
+        roomId: "r1",
+        userId: "u1",
+        isTyping: true,
+      })
+    ).toEqual({
+      ok: true,
+      value: {
+        roomId: "r1",
+        userId: "u1",
+        username: "Someone",
+        isTyping: true,
+      },
+    });
+    expect(
+      serverEventValidators.member_muted({
+        roomId: "r1",
+        userId: "u1",
+        muted: true,
+      })
+    ).toEqual({
+      ok: true,
+      value: { roomId: "r1", userId: "u1", muted: true, until: null },
+    });
+    expect(
+      serverEventValidators.room_capacity_changed({
+        roomId: "r1",
+        participantCount: 3,
+      })
+    ).toEqual({
+      ok: true,
+      value: { roomId: "r1", participantCount: 3, waitlist: [] },
+    });
+  });
+
+  it("rejects malformed lists", () => {
+    expect(
+      serverEventValidators.room_capacity_changed({
+        roomId: "r1",
+        participantCount: 3,
+        waitlist: ["u1", 2],
+      })
+    ).toEqual({ ok: false, error: "waitlist is not a list of user IDs" });
+    expect(
+      serverEventValidators.room_presence({
+        roomId: "r1",
+        users: [{ userId: "u1", status: "online" }, { userId: "u2" }],
+      })
+    ).toEqual({ ok: false, error: "users is malformed" });
+  });
+
+  it("treats an empty avatar as removed", () => {
+    expect(
+      serverEventValidators.user_profile_updated({
+        user: { id: "u1", username: "ana", avatar: "" },
+      })
+    ).toEqual({
+      ok: true,
+      value: {
+        user: {
+          id: "u1",
+          username: "ana",
+          avatar: undefined,
+          avatarSizes: undefined,
+          avatarFallback: "initials",
+        },
+      },
+    });
+    expect(
+      serverEventValidators.user_profile_updated({ user: { id: "u1" } })
+    ).toEqual({ ok: false, error: "user.username is missing" });
+  });
+
+  it("checks the preferences envelope", () => {
+    const preferences = {
+      version: 2,
+      updatedAt: "2024-05-01T10:00:00.000Z",
+      preferences: { theme: "dark" },
+    };
+    expect(serverEventValidators.preferences_updated({ preferences })).toEqual({
+      ok: true,
+      value: { preferences },
+    });
+    expect(
+      serverEventValidators.preferences_updated({
+        preferences: { ...preferences, version: "2" },
+      })
+    ).toEqual({ ok: false, error: "preferences.version is not a number" });
+  });
+});
@@ -0,0 +1,47 @@
+import { AttachmentKind } from "../types";
+
+// MIME types by the way they are previewed
+export const fileTypes = {
+  image: [
+    "image/jpeg",
+    "image/png",
+    "image/gif",
+    "image/webp",
+    "image/svg+xml",
+  ],
+  video: ["video/mp4", "video/webm", "video/ogg", "video/quicktime"],
+  audio: ["audio/mpeg", "audio/wav", "audio/ogg", "audio/mp4"],
+  document: [
+    "application/pdf",
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "text/plain",
+  ],
+};
+
+// What can be shared in room chat; the server enforces the same limits
+export const CHAT_ATTACHMENT_TYPES = [
+  ...fileTypes.image,
+  ...fileTypes.video,
+  ...fileTypes.audio,
+  ...fileTypes.document,
+];
+export const MAX_CHAT_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+export const MAX_CHAT_ATTACHMENTS = 5;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+// How a file of this type is shown. Only types that browsers reliably play
+// are previewed; anything else is offered as a download.
+export const getAttachmentKind = (mimeType: string): AttachmentKind => {
+  if (fileTypes.image.includes(mimeType)) return "image";
+  if (fileTypes.video.includes(mimeType)) return "video";
+  if (fileTypes.audio.includes(mimeType)) return "audio";
+  return "file";
+};
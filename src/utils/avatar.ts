@@ -0,0 +1,193 @@
+import { AvatarFallback, User } from "../types";
+
+// Sizes generated on upload, largest first. The largest is also `avatar`.
+export const AVATAR_SIZES = [256, 128, 64];
+
+// Square edge of the crop editor, in CSS pixels
+export const CROP_VIEWPORT = 256;
+export const MAX_ZOOM = 3;
+
+export interface AvatarImage {
+  size: number;
+  blob: Blob;
+}
+
+// Where the image sits in the crop viewport: top-left corner and zoom
+export interface CropState {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+type AvatarOwner = Pick<User, "username"> &
+  Partial<Pick<User, "id" | "avatar" | "avatarSizes" | "avatarFallback">>;
+
+// Small, stable string hash (FNV-1a) for picking colours and patterns
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const getInitials = (name: string): string => {
+  const words = name
+    .trim()
+    .split(/[\s._-]+/)
+    .filter(Boolean);
+  if (words.length === 0) return "?";
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return (words[0][0] + words[words.length - 1][0]).toUpperCase();
+};
+
+// The same name always gets the same colour
+export const getAvatarColor = (seed: string): string =>
+  `hsl(${hashString(seed) % 360}, 55%, 45%)`;
+
+/**
+ * A 5x5 mirrored identicon as an SVG data URL. Nothing is drawn to a
+ * canvas, so it is cheap enough to build on every render.
+ */
+export const createIdenticon = (seed: string): string => {
+  const hash = hashString(seed);
+  const color = getAvatarColor(seed);
+  const cells: string[] = [];
+  for (let row = 0; row < 5; row++) {
+    for (let col = 0; col < 3; col++) {
+      if (!((hash >> (row * 3 + col)) & 1)) continue;
+      [col, 4 - col]
+        .filter((x, i) => i === 0 || x !== col)
+        .forEach((x) =>
+          cells.push(`<rect x="${x}" y="${row}" width="1" height="1"/>`)
+        );
+    }
+  }
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="-0.5 -0.5 6 6">` +
+    `<rect x="-0.5" y="-0.5" width="6" height="6" fill="#f0f0f0"/>` +
+    `<g fill="${color}">${cells.join("")}</g></svg>`;
+  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
+};
+
+// The smallest uploaded size that still looks sharp at `pixels` on screen
+export const getAvatarUrl = (
+  user: AvatarOwner,
+  pixels: number
+): string | undefined => {
+  const wanted = pixels * (window.devicePixelRatio || 1);
+  const sizes = user.avatarSizes || {};
+  const match = AVATAR_SIZES.slice()
+    .reverse()
+    .find((size) => size >= wanted && sizes[size]);
+  return (match && sizes[match]) || user.avatar || undefined;
+};
+
+export const getFallbackStyle = (user: AvatarOwner): AvatarFallback =>
+  user.avatarFallback || "initials";
+
+// Scale at which the image just covers the viewport
+const coverScale = (image: HTMLImageElement, viewport: number) =>
+  viewport / Math.min(image.naturalWidth, image.naturalHeight);
+
+// Keep the viewport covered whatever the user does
+export const clampCrop = (
+  image: HTMLImageElement,
+  crop: CropState,
+  viewport = CROP_VIEWPORT
+): CropState => {
+  const zoom = Math.min(Math.max(crop.zoom, 1), MAX_ZOOM);
+  const scale = coverScale(image, viewport) * zoom;
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  return {
+    zoom,
+    x: Math.min(0, Math.max(viewport - width, crop.x)),
+    y: Math.min(0, Math.max(viewport - height, crop.y)),
+  };
+};
+
+export const centerCrop = (
+  image: HTMLImageElement,
+  viewport = CROP_VIEWPORT
+): CropState => {
+  const scale = coverScale(image, viewport);
+  return {
+    zoom: 1,
+    x: (viewport - image.naturalWidth * scale) / 2,
+    y: (viewport - image.naturalHeight * scale) / 2,
+  };
+};
+
+// Change the zoom around the middle of the viewport
+export const zoomCrop = (
+  image: HTMLImageElement,
+  crop: CropState,
+  zoom: number,
+  viewport = CROP_VIEWPORT
+): CropState => {
+  const center = viewport / 2;
+  const ratio = zoom / crop.zoom;
+  return clampCrop(
+    image,
+    {
+      zoom,
+      x: center - (center - crop.x) * ratio,
+      y: center - (center - crop.y) * ratio,
+    },
+    viewport
+  );
+};
+
+// Draw the cropped image onto a canvas `size` pixels square
+export const drawCrop = (
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  crop: CropState,
+  size: number,
+  viewport = CROP_VIEWPORT
+): void => {
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const ratio = size / viewport;
+  const scale = coverScale(image, viewport) * crop.zoom * ratio;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  // JPEG has no transparency, so give see-through images a white backdrop
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, size, size);
+  ctx.drawImage(
+    image,
+    crop.x * ratio,
+    crop.y * ratio,
+    image.naturalWidth * scale,
+    image.naturalHeight * scale
+  );
+};
+
+// Render the crop at every upload size
+export const renderAvatarImages = async (
+  image: HTMLImageElement,
+  crop: CropState
+): Promise<AvatarImage[]> =>
+  Promise.all(
+    AVATAR_SIZES.map(
+      (size) =>
+        new Promise<AvatarImage>((resolve, reject) => {
+          const canvas = document.createElement("canvas");
+          drawCrop(canvas, image, crop, size);
+          canvas.toBlob(
+            (blob) =>
+              blob
+                ? resolve({ size, blob })
+                : reject(new Error("Could not process the image")),
+            "image/jpeg",
+            0.9
+          );
+        })
+    )
+  );
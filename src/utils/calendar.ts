@@ -0,0 +1,205 @@
+/**
+ * iCalendar (RFC 5545) export for rooms
+ */
+import { Room, RoomStatus, User } from "../types";
+
+const PRODUCT_ID = "-//RoomLoop//RoomLoop Calendar//EN";
+const UID_DOMAIN = "roomloop";
+
+// Lines longer than this many octets are folded onto continuation lines
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarOptions {
+  // Used for the room links in each event
+  baseUrl?: string;
+  // Shown by calendar apps as the calendar's name
+  name?: string;
+}
+
+// Escape a TEXT value (RFC 5545 section 3.3.11)
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Fold a content line at 75 octets without splitting a UTF-8 character
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  Array.from(line).forEach((char) => {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  });
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Times are written in UTC, so every calendar app places them correctly in
+// its own time zone without needing VTIMEZONE definitions
+const formatUtc = (value: string | Date): string => {
+  const date = new Date(value);
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+      date.getUTCDate()
+    )}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+      date.getUTCSeconds()
+    )}Z`
+  );
+};
+
+/**
+ * Revision number for an event. Calendar apps only apply an update when
+ * SEQUENCE goes up, so it must only change when the event itself does.
+ * `updatedAt` also moves on joins and other edits, so it isn't used; the
+ * server's schedule revision is. Without one, ending early and cancelling
+ * are the changes that can be seen on the room.
+ */
+const sequenceFor = (room: Room): number =>
+  room.sequence ?? (room.endedAt ? 1 : 0) + (room.cancelledAt ? 1 : 0);
+
+export const roomUrl = (room: Room, baseUrl = window.location.origin) =>
+  `${baseUrl}/rooms/${room._id}`;
+
+const organizerLine = (creator: Room["creator"]): string | null => {
+  if (typeof creator !== "object" || !creator) return null;
+  const { username, email } = creator as User;
+  if (!email) return null;
+  return `ORGANIZER;CN="${username.replace(/"/g, "'")}":mailto:${email}`;
+};
+
+const eventLines = (room: Room, baseUrl?: string): string[] => {
+  const url = roomUrl(room, baseUrl);
+  const isCancelled = room.status === RoomStatus.CANCELLED;
+  const details = [
+    room.description,
+    "",
+    `Room code: ${room.code}`,
+    `Join: ${url}`,
+  ];
+  if (isCancelled && room.cancellationReason) {
+    details.push(`Cancelled: ${room.cancellationReason}`);
+  }
+  const description = details.join("\n");
+  const organizer = organizerLine(room.creator);
+
+  return [
+    "BEGIN:VEVENT",
+    // Stable per room, so re-importing replaces the event instead of
+    // duplicating it
+    `UID:${room._id}@${UID_DOMAIN}`,
+    `SEQUENCE:${sequenceFor(room)}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(room.startTime)}`,
+    // A room ended early is shown with the time it actually ended
+    `DTEND:${formatUtc(room.endedAt || room.endTime)}`,
+    `CREATED:${formatUtc(room.createdAt)}`,
+    `LAST-MODIFIED:${formatUtc(room.updatedAt)}`,
+    `SUMMARY:${escapeText(room.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(url)}`,
+    `URL:${url}`,
+    ...(organizer ? [organizer] : []),
+    ...(room.tags.length
+      ? [`CATEGORIES:${room.tags.map(escapeText).join(",")}`]
+      : []),
+    `STATUS:${isCancelled ? "CANCELLED" : "CONFIRMED"}`,
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+  ];
+};
+
+const buildCalendar = (
+  method: "PUBLISH" | "CANCEL",
+  rooms: Room[],
+  options: CalendarOptions
+): string => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    // Hint for apps that show a floating calendar's zone; event times
+    // themselves are UTC
+    `X-WR-TIMEZONE:${Intl.DateTimeFormat().resolvedOptions().timeZone}`,
+    ...rooms.flatMap((room) => eventLines(room, options.baseUrl)),
+    "END:VCALENDAR",
+  ];
+  // RFC 5545 requires CRLF line endings, including after the last line
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+/**
+ * Calendar file for one room. Importing it again after the room changed
+ * updates the existing event; a cancelled room produces a METHOD:CANCEL file
+ * that removes it.
+ */
+export const createRoomCalendar = (
+  room: Room,
+  options: CalendarOptions = {}
+): string =>
+  buildCalendar(
+    room.status === RoomStatus.CANCELLED ? "CANCEL" : "PUBLISH",
+    [room],
+    options
+  );
+
+/**
+ * Calendar file for several rooms, e.g. everything upcoming on the
+ * dashboard. Occurrences of a recurring series are listed one by one, since
+ * each of them can be changed on its own. Cancelled rooms are kept with
+ * STATUS:CANCELLED so a re-import clears them from the calendar.
+ */
+export const createRoomsCalendar = (
+  rooms: Room[],
+  options: CalendarOptions = {}
+): string => {
+  const seen = new Set<string>();
+  const unique = rooms.filter((room) => {
+    if (seen.has(room._id)) return false;
+    seen.add(room._id);
+    return true;
+  });
+  return buildCalendar("PUBLISH", unique, options);
+};
+
+// Turn a room title into a safe download name
+export const calendarFileName = (title: string): string =>
+  `${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "room"
+  }.ics`;
+
+// Save a calendar through the browser's download prompt
+export const downloadCalendar = (fileName: string, calendar: string): void => {
+  const blob = new Blob([calendar], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,28 @@
+/**
+ * Room capacity and the waitlist for full rooms
+ */
+import { Room, User } from "../types";
+import { userIdOf } from "./roles";
+
+export const getParticipantCount = (room: Room): number =>
+  room.participantCount ?? (room.participants || []).length;
+
+// Rooms without a maximum never fill up
+export const isRoomFull = (room: Room): boolean =>
+  !!room.maxParticipants && getParticipantCount(room) >= room.maxParticipants;
+
+// "18/20", or just the count when there is no maximum
+export const formatCapacity = (room: Room): string => {
+  const count = getParticipantCount(room);
+  return room.maxParticipants ? `${count}/${room.maxParticipants}` : `${count}`;
+};
+
+export const isParticipant = (room: Room, userId: string): boolean =>
+  !!userId &&
+  (room.participants as (User | string)[]).some(
+    (participant) => userIdOf(participant) === userId
+  );
+
+// 1-based place in the queue, or 0 when the user isn't waiting
+export const getWaitlistPosition = (room: Room, userId: string): number =>
+  (room.waitlist || []).indexOf(userId) + 1;
@@ -0,0 +1,80 @@
+import { createDateFormatter, isSameOffset, toZonedTime } from "./dateFormat";
+
+describe("toZonedTime", () => {
+  it("reads the wall-clock time in another zone", () => {
+    const zoned = toZonedTime("2023-06-05T12:00:00Z", "Asia/Tokyo");
+    expect(zoned.getDate()).toBe(5);
+    expect(zoned.getHours()).toBe(21);
+  });
+
+  it("crosses midnight", () => {
+    const zoned = toZonedTime("2023-06-05T02:00:00Z", "America/Los_Angeles");
+    expect(zoned.getDate()).toBe(4);
+    expect(zoned.getHours()).toBe(19);
+  });
+
+  it("falls back to the browser's zone for unknown zones", () => {
+    const date = new Date("2023-06-05T12:00:00Z");
+    expect(toZonedTime(date, "Not/AZone").getTime()).toBe(date.getTime());
+  });
+});
+
+describe("isSameOffset", () => {
+  it("compares offsets rather than zone names", () => {
+    const date = "2023-06-05T12:00:00Z";
+    expect(isSameOffset(date, "America/New_York", "America/Detroit")).toBe(
+      true
+    );
+    expect(isSameOffset(date, "America/New_York", "Europe/London")).toBe(false);
+  });
+});
+
+describe("createDateFormatter", () => {
+  const date = "2023-06-05T15:30:00Z";
+
+  it("formats in the user's zone with a 12-hour clock", () => {
+    const formatter = createDateFormatter({
+      timeZone: "America/New_York",
+      dateFormat: "MM/dd/yyyy",
+      timeFormat: "12h",
+    });
+    expect(formatter.formatDateTime(date)).toBe("Mon 06/05/2023, 11:30 AM");
+    expect(formatter.formatTime(date)).toBe("11:30 AM");
+  });
+
+  it("follows the date format and 24-hour choice", () => {
+    const formatter = createDateFormatter({
+      timeZone: "UTC",
+      dateFormat: "dd/MM/yyyy",
+      timeFormat: "24h",
+    });
+    expect(formatter.formatDate(date)).toBe("05/06/2023");
+    expect(formatter.formatDateTime(date)).toBe("Mon 05/06/2023, 15:30");
+  });
+
+  it("describes times relative to now", () => {
+    const formatter = createDateFormatter({
+      timeZone: "UTC",
+      dateFormat: "MM/dd/yyyy",
+      timeFormat: "12h",
+    });
+    const now = new Date(date).getTime();
+    expect(formatter.formatRelative(now + 5 * 60 * 1000, now)).toBe(
+      "in 5 minutes"
+    );
+    expect(formatter.formatRelative(now - 2 * 60 * 60 * 1000, now)).toBe(
+      "about 2 hours ago"
+    );
+  });
+
+  it("shows another zone's time with its name", () => {
+    const formatter = createDateFormatter({
+      timeZone: "UTC",
+      dateFormat: "MM/dd/yyyy",
+      timeFormat: "24h",
+    });
+    expect(formatter.formatTimeIn(date, "Asia/Tokyo")).toBe("Tue 00:30 GMT+9");
+    expect(formatter.differsFrom(date, "Asia/Tokyo")).toBe(true);
+    expect(formatter.differsFrom(date, "Etc/UTC")).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+import { format, formatDistance, Locale } from "date-fns";
+import ar from "date-fns/locale/ar";
+import de from "date-fns/locale/de";
+import enUS from "date-fns/locale/en-US";
+import es from "date-fns/locale/es";
+import fr from "date-fns/locale/fr";
+import ja from "date-fns/locale/ja";
+import zhCN from "date-fns/locale/zh-CN";
+
+export type DateInput = string | number | Date;
+
+export interface DateFormatOptions {
+  // IANA zone name, e.g. "Europe/Paris"
+  timeZone: string;
+  // date-fns pattern for numeric dates, e.g. "dd/MM/yyyy"
+  dateFormat: string;
+  timeFormat: "12h" | "24h";
+  locale?: Locale;
+}
+
+// date-fns locales for the languages users can pick
+const DATE_LOCALES: Record<string, Locale> = {
+  en: enUS,
+  es,
+  fr,
+  de,
+  zh: zhCN,
+  ja,
+  ar,
+};
+
+export const getDateLocale = (language: string): Locale =>
+  DATE_LOCALES[language] || DATE_LOCALES[language.split("-")[0]] || enUS;
+
+// Building Intl formatters is slow, so keep one per zone
+const partsFormatters: Record<string, Intl.DateTimeFormat> = {};
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!partsFormatters[timeZone]) {
+    partsFormatters[timeZone] = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hour12: false,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+  }
+  return partsFormatters[timeZone];
+};
+
+/**
+ * The wall-clock time in `timeZone`, as a Date whose local fields read the
+ * same. date-fns only formats local fields, so this is how it formats a
+ * moment in another zone. Unknown zones fall back to the browser's.
+ */
+export const toZonedTime = (value: DateInput, timeZone: string): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return date;
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = getPartsFormatter(timeZone).formatToParts(date);
+  } catch (error) {
+    return date;
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((entry) => entry.type === type)?.value);
+
+  return new Date(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    // Some engines write midnight as 24
+    part("hour") % 24,
+    part("minute"),
+    part("second"),
+    date.getMilliseconds()
+  );
+};
+
+// Whether two zones show the same wall-clock time at `value`
+export const isSameOffset = (
+  value: DateInput,
+  timeZone: string,
+  otherTimeZone: string
+): boolean =>
+  toZonedTime(value, timeZone).getTime() ===
+  toZonedTime(value, otherTimeZone).getTime();
+
+// Short zone name at `value`, e.g. "PDT" or "GMT+9"
+export const getTimeZoneName = (
+  value: DateInput,
+  timeZone: string,
+  locale?: Locale
+): string => {
+  try {
+    const zonePart = new Intl.DateTimeFormat(locale?.code || "en-US", {
+      timeZone,
+      timeZoneName: "short",
+    })
+      .formatToParts(new Date(value))
+      .find((entry) => entry.type === "timeZoneName");
+    return zonePart?.value || timeZone;
+  } catch (error) {
+    return timeZone;
+  }
+};
+
+/**
+ * Date and time formatting in the user's zone, locale and 12/24h choice.
+ * Every component should go through this rather than toLocaleString, so
+ * times read the same everywhere.
+ */
+export const createDateFormatter = ({
+  timeZone,
+  dateFormat,
+  timeFormat,
+  locale = enUS,
+}: DateFormatOptions) => {
+  const timePattern = timeFormat === "24h" ? "HH:mm" : "h:mm a";
+
+  const formatIn = (value: DateInput, pattern: string, zone = timeZone) => {
+    const zoned = toZonedTime(value, zone);
+    return isNaN(zoned.getTime()) ? "" : format(zoned, pattern, { locale });
+  };
+
+  return {
+    timeZone,
+    locale,
+
+    // e.g. "06/05/2023"
+    formatDate: (value: DateInput) => formatIn(value, dateFormat),
+
+    // e.g. "June 5th, 2023", for dates in running text
+    formatLongDate: (value: DateInput) => formatIn(value, "PPP"),
+
+    // e.g. "3:00 PM" or "15:00"
+    formatTime: (value: DateInput) => formatIn(value, timePattern),
+
+    // e.g. "Mon 06/05/2023, 3:00 PM"
+    formatDateTime: (value: DateInput) =>
+      formatIn(value, `EEE ${dateFormat}, ${timePattern}`),
+
+    // e.g. "in 5 minutes" or "2 hours ago"
+    formatRelative: (value: DateInput, now: DateInput = Date.now()) =>
+      formatDistance(new Date(value), new Date(now), {
+        addSuffix: true,
+        locale,
+      }),
+
+    // The time somewhere else, with its zone, e.g. "Tue 9:00 AM GMT+9"
+    formatTimeIn: (value: DateInput, zone: string) =>
+      `${formatIn(value, `EEE ${timePattern}`, zone)} ${getTimeZoneName(
+        value,
+        zone,
+        locale
+      )}`,
+
+    // Whether `zone` shows a different time from the user's at `value`
+    differsFrom: (value: DateInput, zone: string) =>
+      !isSameOffset(value, timeZone, zone),
+  };
+};
+
+export type DateFormatter = ReturnType<typeof createDateFormatter>;
@@ -0,0 +1,4 @@
+// The message the server sent with a failed request, or `fallback` when
+// there isn't one (network errors, timeouts, unexpected responses)
+export const errorMessage = (error: any, fallback: string): string =>
+  error?.response?.data?.message || fallback;
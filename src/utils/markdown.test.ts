@@ -0,0 +1,202 @@
+// Unsafe URLs are test fixtures here
+/* eslint-disable no-script-url */
+import { parseInline, parseMarkdown, sanitizeUrl } from "./markdown";
+
+describe("sanitizeUrl", () => {
+  it("allows http, https and mailto links", () => {
+    expect(sanitizeUrl("https://example.com/a?b=c")).toBe(
+      "https://example.com/a?b=c"
+    );
+    expect(sanitizeUrl("http://example.com")).toBe("http://example.com");
+    expect(sanitizeUrl("mailto:someone@example.com")).toBe(
+      "mailto:someone@example.com"
+    );
+  });
+
+  it("adds https to www links", () => {
+    expect(sanitizeUrl("www.example.com")).toBe("https://www.example.com");
+  });
+
+  it.each([
+    "javascript:alert(1)",
+    "JavaScript:alert(1)",
+    " javascript:alert(1)",
+    "java\tscript:alert(1)",
+    "java\nscript:alert(1)",
+    "\u0001javascript:alert(1)",
+    "vbscript:msgbox(1)",
+    "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+    "file:///etc/passwd",
+    "//evil.example.com",
+    "/relative/path",
+    "",
+  ])("rejects %j", (url) => {
+    expect(sanitizeUrl(url)).toBeNull();
+  });
+});
+
+describe("parseInline", () => {
+  it("parses bold, italics and code spans", () => {
+    expect(parseInline("**bold** and *it* and `x * y`")).toEqual([
+      { type: "strong", children: [{ type: "text", value: "bold" }] },
+      { type: "text", value: " and " },
+      { type: "em", children: [{ type: "text", value: "it" }] },
+      { type: "text", value: " and " },
+      { type: "code", value: "x * y" },
+    ]);
+  });
+
+  it("nests emphasis inside bold", () => {
+    expect(parseInline("**a *b* c**")).toEqual([
+      {
+        type: "strong",
+        children: [
+          { type: "text", value: "a " },
+          { type: "em", children: [{ type: "text", value: "b" }] },
+          { type: "text", value: " c" },
+        ],
+      },
+    ]);
+  });
+
+  it("leaves snake_case and lone asterisks alone", () => {
+    expect(parseInline("my_var_name is 2 * 3")).toEqual([
+      { type: "text", value: "my_var_name is 2 * 3" },
+    ]);
+  });
+
+  it("does not format inside code spans", () => {
+    expect(parseInline("`**not bold**`")).toEqual([
+      { type: "code", value: "**not bold**" },
+    ]);
+  });
+
+  it("supports backslash escapes", () => {
+    expect(parseInline("\\*not italic\\*")).toEqual([
+      { type: "text", value: "*not italic*" },
+    ]);
+  });
+
+  it("parses links and bare URLs", () => {
+    expect(parseInline("[docs](https://example.com/docs)")).toEqual([
+      {
+        type: "link",
+        href: "https://example.com/docs",
+        children: [{ type: "text", value: "docs" }],
+      },
+    ]);
+    expect(parseInline("see https://example.com.")).toEqual([
+      { type: "text", value: "see " },
+      {
+        type: "link",
+        href: "https://example.com",
+        children: [{ type: "text", value: "https://example.com" }],
+      },
+      { type: "text", value: "." },
+    ]);
+  });
+
+  it("renders links with unsafe targets as plain text", () => {
+    expect(parseInline("[click](javascript:alert(1))")).toEqual([
+      { type: "text", value: "[click](javascript:alert(1))" },
+    ]);
+  });
+
+  it("keeps line breaks", () => {
+    expect(parseInline("a\nb")).toEqual([
+      { type: "text", value: "a" },
+      { type: "break" },
+      { type: "text", value: "b" },
+    ]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses the AI assistant prefix as bold", () => {
+    expect(parseMarkdown("🤖 **Ted**: Hello!")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "text", value: "🤖 " },
+          { type: "strong", children: [{ type: "text", value: "Ted" }] },
+          { type: "text", value: ": Hello!" },
+        ],
+      },
+    ]);
+  });
+
+  it("parses fenced code blocks verbatim", () => {
+    expect(parseMarkdown("```ts\nconst a = **b**;\n<b>x</b>\n```")).toEqual([
+      {
+        type: "codeBlock",
+        language: "ts",
+        value: "const a = **b**;\n<b>x</b>",
+      },
+    ]);
+  });
+
+  it("runs an unclosed fence to the end of the message", () => {
+    expect(parseMarkdown("```\ncode")).toEqual([
+      { type: "codeBlock", language: undefined, value: "code" },
+    ]);
+  });
+
+  it("parses ordered and unordered lists", () => {
+    expect(parseMarkdown("- one\n- *two*\n\n3. three\n4. four")).toEqual([
+      {
+        type: "list",
+        ordered: false,
+        start: 1,
+        items: [
+          [{ type: "text", value: "one" }],
+          [{ type: "em", children: [{ type: "text", value: "two" }] }],
+        ],
+      },
+      {
+        type: "list",
+        ordered: true,
+        start: 3,
+        items: [
+          [{ type: "text", value: "three" }],
+          [{ type: "text", value: "four" }],
+        ],
+      },
+    ]);
+  });
+
+  it("parses blockquotes", () => {
+    expect(parseMarkdown("> quoted\n> - item\nafter")).toEqual([
+      {
+        type: "blockquote",
+        children: [
+          { type: "paragraph", children: [{ type: "text", value: "quoted" }] },
+          {
+            type: "list",
+            ordered: false,
+            start: 1,
+            items: [[{ type: "text", value: "item" }]],
+          },
+        ],
+      },
+      { type: "paragraph", children: [{ type: "text", value: "after" }] },
+    ]);
+  });
+
+  it("limits blockquote nesting", () => {
+    const blocks = parseMarkdown(">>>>>>>>>> deep");
+    let depth = 0;
+    let current = blocks[0];
+    while (current && current.type === "blockquote") {
+      depth++;
+      current = current.children[0];
+    }
+    expect(depth).toBe(5);
+  });
+
+  it("splits paragraphs on blank lines", () => {
+    expect(parseMarkdown("one\n\ntwo")).toEqual([
+      { type: "paragraph", children: [{ type: "text", value: "one" }] },
+      { type: "paragraph", children: [{ type: "text", value: "two" }] },
+    ]);
+  });
+});
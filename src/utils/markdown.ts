@@ -0,0 +1,343 @@
+/**
+ * A small markdown parser for chat messages.
+ *
+ * Supports a deliberately limited subset: bold, italics, code spans, fenced
+ * code blocks, links, lists and blockquotes. The output is a plain syntax
+ * tree that is rendered with React elements, never as HTML, so message
+ * content can't inject markup. Link targets are restricted to safe schemes.
+ */
+
+export type InlineNode =
+  | { type: "text"; value: string }
+  | { type: "code"; value: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "em"; children: InlineNode[] }
+  | { type: "link"; href: string; children: InlineNode[] }
+  | { type: "break" };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "codeBlock"; language?: string; value: string }
+  | { type: "list"; ordered: boolean; start: number; items: InlineNode[][] }
+  | { type: "blockquote"; children: BlockNode[] };
+
+const SAFE_URL_SCHEMES = ["http:", "https:", "mailto:"];
+
+// Blockquotes nested deeper than this are treated as plain text
+const MAX_QUOTE_DEPTH = 5;
+
+const FENCE_PATTERN = /^\s*```\s*([\w+-]*)\s*$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const AUTOLINK_PATTERN = /(?:https?:\/\/|www\.)[^\s<>"]+/iy;
+const ESCAPABLE = /[\\`*_[\]()#+\-.!>~|{}]/;
+
+/**
+ * Returns a link target that is safe to put in an href, or null.
+ * Only absolute http(s) and mailto URLs are allowed; "www." links get https.
+ */
+export const sanitizeUrl = (url: string): string | null => {
+  // Browsers ignore control characters and whitespace inside a scheme
+  // ("java\tscript:"), so strip them before looking at it
+  // eslint-disable-next-line no-control-regex
+  const cleaned = url.replace(/[\u0000- \u007F-\u009F]/g, "");
+  if (!cleaned) return null;
+
+  if (/^www\./i.test(cleaned)) return `https://${cleaned}`;
+
+  const scheme = cleaned.match(/^([a-z][a-z0-9+.-]*:)/i);
+  if (!scheme || !SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase())) {
+    return null;
+  }
+  return cleaned;
+};
+
+const isWhitespace = (char: string | undefined) =>
+  char === undefined || /\s/.test(char);
+
+const isWordChar = (char: string | undefined) =>
+  char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+// Find the closing delimiter for an emphasis run starting at `from`
+const findClosingDelimiter = (
+  text: string,
+  delimiter: string,
+  from: number
+): number => {
+  const marker = delimiter[0];
+
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+    if (char === "`") {
+      // Delimiters inside code spans don't count
+      const end = text.indexOf("`", i + 1);
+      if (end !== -1) i = end;
+      continue;
+    }
+    if (char !== marker) continue;
+
+    if (delimiter.length === 1 && text[i + 1] === marker) {
+      // Skip over a double delimiter when looking for a single one
+      i++;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i)) continue;
+    if (isWhitespace(text[i - 1])) continue;
+    if (marker === "_" && isWordChar(text[i + delimiter.length])) continue;
+    return i;
+  }
+  return -1;
+};
+
+// Trim punctuation that usually ends a sentence rather than a URL
+const trimAutolink = (url: string): string => {
+  let end = url.length;
+  while (end > 0 && /[.,;:!?'")\]]/.test(url[end - 1])) {
+    // Keep a closing parenthesis if the URL contains the opening one
+    if (url[end - 1] === ")" && url.slice(0, end).includes("(")) break;
+    end--;
+  }
+  return url.slice(0, end);
+};
+
+/**
+ * Parse inline formatting within a block of text
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: "text", value: buffer });
+      buffer = "";
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    // Backslash escapes
+    if (char === "\\" && ESCAPABLE.test(text[i + 1] || "")) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Line breaks inside a paragraph are kept, as in most chat apps
+    if (char === "\n") {
+      flush();
+      nodes.push({ type: "break" });
+      i++;
+      continue;
+    }
+
+    // Code spans
+    if (char === "`") {
+      let run = 1;
+      while (text[i + run] === "`") run++;
+      const fence = "`".repeat(run);
+      const end = text.indexOf(fence, i + run);
+      if (end !== -1 && text[end + run] !== "`") {
+        let value = text.slice(i + run, end);
+        if (value.length > 2 && value.startsWith(" ") && value.endsWith(" ")) {
+          value = value.slice(1, -1);
+        }
+        flush();
+        nodes.push({ type: "code", value });
+        i = end + run;
+        continue;
+      }
+      buffer += fence;
+      i += run;
+      continue;
+    }
+
+    // Bold and italics
+    if (char === "*" || char === "_") {
+      const canOpen =
+        !isWhitespace(text[i + 1]) &&
+        (char === "*" || !isWordChar(text[i - 1]));
+
+      if (canOpen && text[i + 1] === char && !isWhitespace(text[i + 2])) {
+        const delimiter = char + char;
+        const end = findClosingDelimiter(text, delimiter, i + 2);
+        if (end > i + 2) {
+          flush();
+          nodes.push({
+            type: "strong",
+            children: parseInline(text.slice(i + 2, end)),
+          });
+          i = end + 2;
+          continue;
+        }
+      } else if (canOpen && text[i + 1] !== char) {
+        const end = findClosingDelimiter(text, char, i + 1);
+        if (end > i + 1) {
+          flush();
+          nodes.push({
+            type: "em",
+            children: parseInline(text.slice(i + 1, end)),
+          });
+          i = end + 1;
+          continue;
+        }
+      }
+
+      buffer += char;
+      i++;
+      continue;
+    }
+
+    // Links: [label](url)
+    if (char === "[") {
+      const labelEnd = text.indexOf("]", i + 1);
+      if (labelEnd !== -1 && text[labelEnd + 1] === "(") {
+        const urlEnd = text.indexOf(")", labelEnd + 2);
+        const url = urlEnd === -1 ? "" : text.slice(labelEnd + 2, urlEnd);
+        const href = url && !/\s/.test(url.trim()) ? sanitizeUrl(url) : null;
+        const label = text.slice(i + 1, labelEnd);
+
+        if (href && label) {
+          flush();
+          nodes.push({ type: "link", href, children: parseInline(label) });
+          i = urlEnd + 1;
+          continue;
+        }
+      }
+      buffer += char;
+      i++;
+      continue;
+    }
+
+    // Bare URLs
+    if (
+      (char === "h" || char === "H" || char === "w" || char === "W") &&
+      !isWordChar(text[i - 1])
+    ) {
+      AUTOLINK_PATTERN.lastIndex = i;
+      const match = AUTOLINK_PATTERN.exec(text);
+      if (match) {
+        const url = trimAutolink(match[0]);
+        const href = sanitizeUrl(url);
+        if (href) {
+          flush();
+          nodes.push({
+            type: "link",
+            href,
+            children: [{ type: "text", value: url }],
+          });
+          i += url.length;
+          continue;
+        }
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+const isBlockStart = (line: string) =>
+  FENCE_PATTERN.test(line) ||
+  QUOTE_PATTERN.test(line) ||
+  UNORDERED_ITEM_PATTERN.test(line) ||
+  ORDERED_ITEM_PATTERN.test(line);
+
+const parseBlocks = (lines: string[], depth: number): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block; an unclosed fence runs to the end of the message
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({
+        type: "codeBlock",
+        language: fence[1] || undefined,
+        value: codeLines.join("\n"),
+      });
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line) && depth < MAX_QUOTE_DEPTH) {
+      const quoteLines: string[] = [];
+      while (i < lines.length) {
+        const quote = lines[i].match(QUOTE_PATTERN);
+        if (!quote) break;
+        quoteLines.push(quote[1]);
+        i++;
+      }
+      blocks.push({
+        type: "blockquote",
+        children: parseBlocks(quoteLines, depth + 1),
+      });
+      continue;
+    }
+
+    const unordered = line.match(UNORDERED_ITEM_PATTERN);
+    const ordered = line.match(ORDERED_ITEM_PATTERN);
+    if (unordered || ordered) {
+      const pattern = unordered ? UNORDERED_ITEM_PATTERN : ORDERED_ITEM_PATTERN;
+      const items: InlineNode[][] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(pattern);
+        if (!item) break;
+        items.push(parseInline(unordered ? item[1] : item[2]));
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered: !unordered,
+        start: ordered ? parseInt(ordered[1], 10) : 1,
+        items,
+      });
+      continue;
+    }
+
+    // Paragraph: consecutive lines up to a blank line or another block
+    const paragraphLines: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraphLines.push(lines[i]);
+      i++;
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraphLines.join("\n")),
+    });
+  }
+
+  return blocks;
+};
+
+/**
+ * Parse a chat message into block-level nodes
+ */
+export const parseMarkdown = (text: string): BlockNode[] => {
+  if (!text) return [];
+  return parseBlocks(text.replace(/\r\n?/g, "\n").split("\n"), 0);
+};
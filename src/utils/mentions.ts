@@ -0,0 +1,88 @@
+/**
+ * Helpers for @mentions in chat messages
+ */
+import { Message, MessageMention } from "../types";
+
+// The AI assistant is addressed with "@ai" rather than as a participant
+export const AI_MENTION = "ai";
+
+export interface MentionCandidate {
+  userId: string;
+  username: string;
+}
+
+// Characters allowed in a username after "@"
+const MENTION_PATTERN = /(^|[^\w@])@([\w.-]+)/g;
+
+/**
+ * Finds the participants mentioned in a message. Each participant is only
+ * listed once, and unknown names are ignored.
+ */
+export const extractMentions = (
+  content: string,
+  candidates: MentionCandidate[]
+): MessageMention[] => {
+  const byName = new Map(
+    candidates.map((candidate) => [candidate.username.toLowerCase(), candidate])
+  );
+  const mentions: MessageMention[] = [];
+
+  let match: RegExpExecArray | null;
+  MENTION_PATTERN.lastIndex = 0;
+  while ((match = MENTION_PATTERN.exec(content)) !== null) {
+    // Trailing punctuation ends a sentence, not the name
+    const name = match[2].replace(/[.-]+$/, "").toLowerCase();
+    const candidate = byName.get(name);
+    if (
+      candidate &&
+      !mentions.some((mention) => mention.userId === candidate.userId)
+    ) {
+      mentions.push({
+        userId: candidate.userId,
+        username: candidate.username,
+      });
+    }
+  }
+
+  return mentions;
+};
+
+/**
+ * Returns the partial "@name" being typed at the caret, if any
+ */
+export const getMentionQuery = (
+  text: string,
+  caret: number
+): { query: string; start: number } | null => {
+  const beforeCaret = text.slice(0, caret);
+  const match = beforeCaret.match(/(^|\s)@([\w.-]*)$/);
+  if (!match) return null;
+
+  return {
+    query: match[2],
+    start: beforeCaret.length - match[2].length - 1,
+  };
+};
+
+/**
+ * Replaces the "@query" at `start` with the chosen username
+ */
+export const insertMention = (
+  text: string,
+  start: number,
+  caret: number,
+  username: string
+): { text: string; caret: number } => {
+  const inserted = `@${username} `;
+  return {
+    text: text.slice(0, start) + inserted + text.slice(caret),
+    caret: start + inserted.length,
+  };
+};
+
+// Whether the message is addressed to the AI assistant
+export const isAICommand = (content: string): boolean =>
+  /^@ai(\s|$)/i.test(content.trim());
+
+export const mentionsUser = (message: Message, userId: string): boolean =>
+  !!message.mentions?.some((mention) => mention.userId === userId);
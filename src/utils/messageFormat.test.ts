@@ -0,0 +1,92 @@
+import { formatMessage } from "./messageFormat";
+
+describe("formatMessage", () => {
+  it("fills in arguments", () => {
+    expect(formatMessage("Invited by {name}", { name: "ana" })).toBe(
+      "Invited by ana"
+    );
+  });
+
+  it("leaves missing arguments visible", () => {
+    expect(formatMessage("Invited by {name}")).toBe("Invited by {name}");
+  });
+
+  it("formats numbers for the locale", () => {
+    expect(formatMessage("{count, number}", { count: 12345 })).toBe("12,345");
+    expect(formatMessage("{count, number}", { count: 12345 }, "es")).toBe(
+      new Intl.NumberFormat("es").format(12345)
+    );
+  });
+
+  it("picks the plural form for the count", () => {
+    const message =
+      "{count, plural, one {# participant} other {# participants}}";
+    expect(formatMessage(message, { count: 1 })).toBe("1 participant");
+    expect(formatMessage(message, { count: 3 })).toBe("3 participants");
+    expect(formatMessage(message, { count: 0 })).toBe("0 participants");
+  });
+
+  it("uses every plural category the language has", () => {
+    const message =
+      "{n, plural, zero {zero} one {one} two {two} few {few} many {many} other {other}}";
+    const forms = [0, 1, 2, 3, 11, 100].map((n) =>
+      formatMessage(message, { n }, "ar")
+    );
+    expect(forms).toEqual(["zero", "one", "two", "few", "many", "other"]);
+  });
+
+  it("prefers exact matches over categories", () => {
+    const message = "{count, plural, =0 {Invitations} other {Invitations (#)}}";
+    expect(formatMessage(message, { count: 0 })).toBe("Invitations");
+    expect(formatMessage(message, { count: 2 })).toBe("Invitations (2)");
+  });
+
+  it("formats ordinals", () => {
+    const message =
+      "{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}";
+    expect(formatMessage(message, { place: 2 })).toBe("2nd");
+    expect(formatMessage(message, { place: 11 })).toBe("11th");
+  });
+
+  it("selects by value, with arguments inside options", () => {
+    const message = "{status, select, live {Live} other {{status}}} for {name}";
+    expect(formatMessage(message, { status: "live", name: "ana" })).toBe(
+      "Live for ana"
+    );
+    expect(formatMessage(message, { status: "closed", name: "ana" })).toBe(
+      "closed for ana"
+    );
+  });
+
+  it("nests plurals inside selects", () => {
+    const message =
+      "{unit, select, week {{n, plural, one {Every week} other {Every # weeks}}} other {{n, plural, one {Every day} other {Every # days}}}}";
+    expect(formatMessage(message, { unit: "week", n: 1 })).toBe("Every week");
+    expect(formatMessage(message, { unit: "week", n: 2 })).toBe(
+      "Every 2 weeks"
+    );
+    expect(formatMessage(message, { unit: "day", n: 3 })).toBe("Every 3 days");
+  });
+
+  it("treats quoted syntax as text", () => {
+    expect(formatMessage("Use '{name}' here", { name: "x" })).toBe(
+      "Use {name} here"
+    );
+    expect(formatMessage("It''s {name}'s room", { name: "ana" })).toBe(
+      "It's ana's room"
+    );
+    expect(formatMessage("{n, plural, other {'#'#}}", { n: 4 })).toBe("#4");
+  });
+
+  it("shows malformed messages as written", () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    expect(formatMessage("{count, plural, one {#}}", { count: 1 })).toBe(
+      "{count, plural, one {#}}"
+    );
+    expect(formatMessage("Unclosed {name", { name: "x" })).toBe(
+      "Unclosed {name"
+    );
+    expect(error).toHaveBeenCalledTimes(2);
+    error.mockRestore();
+  });
+});
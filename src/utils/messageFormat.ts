@@ -0,0 +1,243 @@
+/**
+ * A small ICU MessageFormat implementation for the UI catalogs. It covers
+ * what the catalogs use:
+ *
+ *   {name}                                  the value as text
+ *   {count, number}                         a localized number
+ *   {count, plural, one {# room} other {# rooms}}
+ *   {place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}
+ *   {role, select, host {Host} other {Guest}}
+ *
+ * Plural categories come from Intl.PluralRules, so languages with more
+ * forms than English (Arabic has six) work without extra code. Exact
+ * matches such as `=0 {...}` win over categories. Inside plurals `#` is the
+ * number. Quote syntax characters with apostrophes: `'{'` is a literal
+ * brace and `''` an apostrophe; any other apostrophe is plain text.
+ */
+
+export type MessageValues = Record<string, string | number>;
+
+type MessagePart =
+  | string
+  | { type: "argument"; name: string }
+  | { type: "number"; name: string }
+  | { type: "pound" }
+  | {
+      type: "plural";
+      name: string;
+      ordinal: boolean;
+      options: Record<string, MessagePart[]>;
+    }
+  | { type: "select"; name: string; options: Record<string, MessagePart[]> };
+
+const syntaxError = (message: string, position: number) =>
+  new Error(`${message} at position ${position}`);
+
+const parseMessage = (source: string): MessagePart[] => {
+  let index = 0;
+
+  const skipSpace = () => {
+    while (index < source.length && /\s/.test(source[index])) index++;
+  };
+
+  const readWord = (): string => {
+    skipSpace();
+    const start = index;
+    while (index < source.length && /[^\s,{}]/.test(source[index])) index++;
+    if (start === index) throw syntaxError("Expected a name", index);
+    return source.slice(start, index);
+  };
+
+  const expect = (char: string) => {
+    skipSpace();
+    if (source[index] !== char) {
+      throw syntaxError(`Expected "${char}"`, index);
+    }
+    index++;
+  };
+
+  // Text and arguments up to the closing brace of an option, or the end
+  const parseParts = (inPlural: boolean): MessagePart[] => {
+    const parts: MessagePart[] = [];
+    let text = "";
+    const flushText = () => {
+      if (text) parts.push(text);
+      text = "";
+    };
+
+    while (index < source.length) {
+      const char = source[index];
+
+      if (char === "'") {
+        const next = source[index + 1];
+        if (next === "'") {
+          text += "'";
+          index += 2;
+        } else if (next === "{" || next === "}" || (inPlural && next === "#")) {
+          const end = source.indexOf("'", index + 1);
+          text += source.slice(index + 1, end === -1 ? undefined : end);
+          index = end === -1 ? source.length : end + 1;
+        } else {
+          text += char;
+          index++;
+        }
+      } else if (char === "{") {
+        flushText();
+        index++;
+        parts.push(parseArgument());
+      } else if (char === "}") {
+        break;
+      } else if (char === "#" && inPlural) {
+        flushText();
+        parts.push({ type: "pound" });
+        index++;
+      } else {
+        text += char;
+        index++;
+      }
+    }
+
+    flushText();
+    return parts;
+  };
+
+  const parseOptions = (inPlural: boolean): Record<string, MessagePart[]> => {
+    const options: Record<string, MessagePart[]> = {};
+    skipSpace();
+    while (index < source.length && source[index] !== "}") {
+      const selector = readWord();
+      expect("{");
+      options[selector] = parseParts(inPlural);
+      expect("}");
+      skipSpace();
+    }
+    if (!options.other) {
+      throw syntaxError('Missing an "other" option', index);
+    }
+    return options;
+  };
+
+  const parseArgument = (): MessagePart => {
+    const name = readWord();
+    skipSpace();
+    if (source[index] === "}") {
+      index++;
+      return { type: "argument", name };
+    }
+
+    expect(",");
+    const type = readWord();
+    let part: MessagePart;
+    switch (type) {
+      case "number":
+        part = { type: "number", name };
+        break;
+      case "plural":
+      case "selectordinal":
+        expect(",");
+        part = {
+          type: "plural",
+          name,
+          ordinal: type === "selectordinal",
+          options: parseOptions(true),
+        };
+        break;
+      case "select":
+        expect(",");
+        part = { type: "select", name, options: parseOptions(false) };
+        break;
+      default:
+        throw syntaxError(`Unknown argument type "${type}"`, index);
+    }
+    expect("}");
+    return part;
+  };
+
+  const parts = parseParts(false);
+  if (index < source.length) {
+    throw syntaxError('Unexpected "}"', index);
+  }
+  return parts;
+};
+
+// Parsing and Intl objects are the slow parts, so all of them are cached
+const parsedMessages: Record<string, MessagePart[]> = {};
+const pluralRules: Record<string, Intl.PluralRules> = {};
+const numberFormats: Record<string, Intl.NumberFormat> = {};
+
+const getPluralRules = (locale: string, ordinal: boolean) => {
+  const key = `${locale}:${ordinal ? "ordinal" : "cardinal"}`;
+  if (!pluralRules[key]) {
+    pluralRules[key] = new Intl.PluralRules(locale, {
+      type: ordinal ? "ordinal" : "cardinal",
+    });
+  }
+  return pluralRules[key];
+};
+
+const getNumberFormat = (locale: string) => {
+  if (!numberFormats[locale]) {
+    numberFormats[locale] = new Intl.NumberFormat(locale);
+  }
+  return numberFormats[locale];
+};
+
+const formatParts = (
+  parts: MessagePart[],
+  values: MessageValues,
+  locale: string,
+  count?: number
+): string =>
+  parts
+    .map((part) => {
+      if (typeof part === "string") return part;
+      switch (part.type) {
+        case "argument":
+          return part.name in values
+            ? String(values[part.name])
+            : `{${part.name}}`;
+        case "number":
+          return getNumberFormat(locale).format(Number(values[part.name]));
+        case "pound":
+          return count === undefined
+            ? "#"
+            : getNumberFormat(locale).format(count);
+        case "plural": {
+          const value = Number(values[part.name]);
+          const category = getPluralRules(locale, part.ordinal).select(value);
+          const option =
+            part.options[`=${value}`] ||
+            part.options[category] ||
+            part.options.other;
+          return formatParts(option, values, locale, value);
+        }
+        case "select": {
+          const option =
+            part.options[String(values[part.name])] || part.options.other;
+          return formatParts(option, values, locale, count);
+        }
+        default:
+          return "";
+      }
+    })
+    .join("");
+
+/**
+ * Fill in a catalog message. A malformed message is reported and shown
+ * as written, so one bad translation can't take the page down.
+ */
+export const formatMessage = (
+  message: string,
+  values: MessageValues = {},
+  locale = "en"
+): string => {
+  try {
+    if (!parsedMessages[message]) {
+      parsedMessages[message] = parseMessage(message);
+    }
+    return formatParts(parsedMessages[message], values, locale);
+  } catch (error) {
+    console.error(`Failed to format message "${message}":`, error);
+    return message;
+  }
+};
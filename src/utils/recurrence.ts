@@ -0,0 +1,165 @@
+/**
+ * Helpers for recurring room series: expanding a rule into occurrence dates
+ * and describing it for people
+ */
+import { addDays, addMonths, endOfDay, format, Locale } from "date-fns";
+import { Translate } from "../locales";
+import { RecurrenceRule } from "../types";
+
+// Days of the week as Date#getDay numbers, Sunday first
+export const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// A Sunday, so adding a weekday number lands on that day
+const REFERENCE_SUNDAY = new Date(2023, 0, 1);
+
+// The server refuses longer series, so the form checks the same limit
+export const MAX_OCCURRENCES = 100;
+
+// Short name of a weekday in the locale, e.g. "Mon" or "lun"
+export const weekdayName = (day: number, locale?: Locale): string =>
+  format(addDays(REFERENCE_SUNDAY, day), "EEE", { locale });
+
+// A weekly series on the first room's weekday, ten occurrences long
+export const defaultRecurrence = (start?: Date): RecurrenceRule => ({
+  frequency: "weekly",
+  interval: 1,
+  weekdays: [start && !isNaN(start.getTime()) ? start.getDay() : 1],
+  count: 10,
+});
+
+/**
+ * Start times of the occurrences in a series, beginning with `start`. Times
+ * keep their local time of day across daylight saving changes. Monthly
+ * series on the 29th to 31st fall on the last day of shorter months.
+ */
+export const getOccurrences = (
+  start: Date,
+  rule: RecurrenceRule,
+  limit = MAX_OCCURRENCES
+): Date[] => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const until = rule.until ? endOfDay(new Date(rule.until)) : null;
+  // Always bounded by `limit`, even for a rule without an end
+  const max = Math.min(limit, rule.count || limit);
+  const occurrences: Date[] = [];
+
+  const push = (date: Date) => {
+    if (until && date > until) return false;
+    occurrences.push(date);
+    return occurrences.length < max;
+  };
+
+  if (isNaN(start.getTime()) || max < 1) return occurrences;
+
+  if (rule.frequency === "weekly") {
+    const weekdays = (
+      rule.weekdays?.length ? rule.weekdays : [start.getDay()]
+    ).slice();
+    weekdays.sort((a, b) => a - b);
+
+    // Walk week by week from the week of the first room; days before the
+    // first room in its own week are skipped
+    for (let week = 0; ; week += interval) {
+      for (const weekday of weekdays) {
+        const date = addDays(start, week * 7 + weekday - start.getDay());
+        if (date < start) continue;
+        if (!push(date)) return occurrences;
+      }
+    }
+  }
+
+  for (let step = 0; ; step += interval) {
+    const date =
+      rule.frequency === "daily"
+        ? addDays(start, step)
+        : addMonths(start, step);
+    if (!push(date)) return occurrences;
+  }
+};
+
+/**
+ * Checks a rule before the series is created. Returns an error message in
+ * the UI language, or an empty string when the rule is fine.
+ */
+export const validateRecurrence = (
+  start: Date,
+  rule: RecurrenceRule,
+  t: Translate,
+  locale?: Locale
+): string => {
+  if (!rule.interval || rule.interval < 1) {
+    return t("recurrence.error.interval");
+  }
+  if (rule.frequency === "weekly") {
+    if (!rule.weekdays?.length) {
+      return t("recurrence.error.weekdays");
+    }
+    // The first room is the first occurrence, so it must fit the pattern
+    if (!rule.weekdays.includes(start.getDay())) {
+      return t("recurrence.error.firstDay", {
+        day: weekdayName(start.getDay(), locale),
+      });
+    }
+  }
+  if (!rule.until && !rule.count) {
+    return t("recurrence.error.end");
+  }
+  if (
+    rule.count !== undefined &&
+    (rule.count < 2 || rule.count > MAX_OCCURRENCES)
+  ) {
+    return t("recurrence.error.countRange", { min: 2, max: MAX_OCCURRENCES });
+  }
+  if (rule.until) {
+    const until = new Date(rule.until);
+    if (isNaN(until.getTime()) || endOfDay(until) <= start) {
+      return t("recurrence.error.untilBeforeStart");
+    }
+    const occurrences = getOccurrences(start, rule, MAX_OCCURRENCES + 1);
+    if (occurrences.length < 2) {
+      return t("recurrence.error.tooFew", { min: 2 });
+    }
+    if (occurrences.length > MAX_OCCURRENCES) {
+      return t("recurrence.error.tooMany", { max: MAX_OCCURRENCES });
+    }
+  }
+  return "";
+};
+
+// e.g. "Every 2 weeks on Mon, Thu, until Mar 4, 2027"
+export const describeRecurrence = (
+  rule: RecurrenceRule,
+  t: Translate,
+  locale?: Locale
+): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let description = t("recurrence.every", {
+    frequency: rule.frequency,
+    interval,
+  });
+
+  if (rule.frequency === "weekly" && rule.weekdays?.length) {
+    const days = rule.weekdays.slice();
+    days.sort((a, b) => a - b);
+    description = t("recurrence.onDays", {
+      rule: description,
+      days: days
+        .map((day) => weekdayName(day, locale))
+        .join(t("recurrence.listSeparator")),
+    });
+  }
+
+  if (rule.until) {
+    description = t("recurrence.until", {
+      rule: description,
+      date: format(new Date(rule.until), "PP", { locale }),
+    });
+  } else if (rule.count) {
+    description = t("recurrence.count", {
+      rule: description,
+      count: rule.count,
+    });
+  }
+
+  return description;
+};
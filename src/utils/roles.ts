@@ -0,0 +1,63 @@
+/**
+ * Room roles and what each of them may do
+ */
+import { Room, RoomRole, User } from "../types";
+
+// Higher ranks may moderate lower ones, never their equals
+const ROLE_RANK: Record<RoomRole, number> = {
+  [RoomRole.HOST]: 4,
+  [RoomRole.CO_HOST]: 3,
+  [RoomRole.MODERATOR]: 2,
+  [RoomRole.PARTICIPANT]: 1,
+  [RoomRole.LISTENER]: 0,
+};
+
+// Roles a host or co-host can hand out; there is only ever one host
+export const ASSIGNABLE_ROLES = [
+  RoomRole.CO_HOST,
+  RoomRole.MODERATOR,
+  RoomRole.PARTICIPANT,
+  RoomRole.LISTENER,
+];
+
+// Populated users come through with `_id`, the signed-in user with `id`
+export const userIdOf = (value: User | string | null | undefined): string =>
+  typeof value === "object" && value
+    ? (value as any)._id || value.id || ""
+    : value || "";
+
+export const getMemberRole = (room: Room, userId: string): RoomRole => {
+  if (userId && userIdOf(room.creator) === userId) return RoomRole.HOST;
+  const assigned = room.memberRoles?.find((entry) => entry.userId === userId);
+  return assigned?.role || RoomRole.PARTICIPANT;
+};
+
+// Kick, ban, mute and slow mode
+export const canModerate = (role: RoomRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[RoomRole.MODERATOR];
+
+export const canAssignRoles = (role: RoomRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[RoomRole.CO_HOST];
+
+export const outranks = (actor: RoomRole, target: RoomRole): boolean =>
+  ROLE_RANK[actor] > ROLE_RANK[target];
+
+// Listeners follow the chat without posting
+export const canChat = (role: RoomRole): boolean => role !== RoomRole.LISTENER;
+
+// When the user's mute ends: null for an open-ended mute, undefined when
+// they aren't muted
+export const getMuteEnd = (
+  room: Room,
+  userId: string,
+  now = Date.now()
+): Date | null | undefined => {
+  const mute = room.mutedUsers?.find((entry) => entry.userId === userId);
+  if (!mute) return undefined;
+  if (!mute.until) return null;
+  const until = new Date(mute.until);
+  return until.getTime() > now ? until : undefined;
+};
+
+export const isMuted = (room: Room, userId: string, now = Date.now()) =>
+  getMuteEnd(room, userId, now) !== undefined;
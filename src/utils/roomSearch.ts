@@ -0,0 +1,88 @@
+/**
+ * Explore searches kept in the URL query string, so a search can be shared
+ * or bookmarked and survives reloads and the back button
+ */
+import {
+  RoomSearchParams,
+  RoomSortOrder,
+  RoomStatus,
+  RoomType,
+} from "../types";
+
+export const DEFAULT_SORT: RoomSortOrder = "startTime";
+
+// Explore shows rooms people can still join unless asked otherwise
+export const DEFAULT_STATUSES = [RoomStatus.LIVE, RoomStatus.SCHEDULED];
+
+// In the order Explore lists them. Labels are in the catalogs under
+// "explore.sort".
+export const SORT_ORDERS: RoomSortOrder[] = [
+  "startTime",
+  "popularity",
+  "recent",
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isRoomStatus = (value: string): value is RoomStatus =>
+  Object.values(RoomStatus).includes(value as RoomStatus);
+
+const isSortOrder = (value: string | null): value is RoomSortOrder =>
+  !!value && SORT_ORDERS.includes(value as RoomSortOrder);
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const sameStatuses = (a: RoomStatus[], b: RoomStatus[]) =>
+  a.length === b.length && a.every((status) => b.includes(status));
+
+/**
+ * Read a search from the query string. Unknown values are dropped rather
+ * than sent to the server. A missing `status` means the default statuses and
+ * an empty one means any status.
+ */
+export const parseRoomSearch = (query: URLSearchParams): RoomSearchParams => {
+  const rawStatus = query.get("status");
+  const from = query.get("from") || "";
+  const to = query.get("to") || "";
+  const sort = query.get("sort");
+
+  return {
+    q: query.get("q") || undefined,
+    roomType:
+      query.get("type") === RoomType.PRIVATE
+        ? RoomType.PRIVATE
+        : RoomType.PUBLIC,
+    tags: splitList(query.get("tags") || ""),
+    status:
+      rawStatus === null
+        ? DEFAULT_STATUSES
+        : splitList(rawStatus).filter(isRoomStatus),
+    from: DATE_PATTERN.test(from) ? from : undefined,
+    to: DATE_PATTERN.test(to) ? to : undefined,
+    sort: isSortOrder(sort) ? sort : DEFAULT_SORT,
+  };
+};
+
+// The query string for a search, leaving out everything at its default
+export const roomSearchToQuery = (
+  search: RoomSearchParams
+): URLSearchParams => {
+  const query = new URLSearchParams();
+  if (search.q) query.set("q", search.q);
+  if (search.roomType === RoomType.PRIVATE) query.set("type", search.roomType);
+  if (search.tags?.length) query.set("tags", search.tags.join(","));
+  const status = search.status || [];
+  if (!sameStatuses(status, DEFAULT_STATUSES)) {
+    query.set("status", status.join(","));
+  }
+  if (search.from) query.set("from", search.from);
+  if (search.to) query.set("to", search.to);
+  if (search.sort && search.sort !== DEFAULT_SORT) {
+    query.set("sort", search.sort);
+  }
+  return query;
+};